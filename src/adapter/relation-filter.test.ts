@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { sql } from "drizzle-orm";
+import { boolean, integer, pgTable, serial, text } from "drizzle-orm/pg-core";
+import { formatRelationFilter } from "./relation-filter";
+
+const posts = pgTable("posts", {
+  id: serial("id").primaryKey(),
+  title: text("title"),
+  viewCount: integer("view_count"),
+  isPublished: boolean("is_published"),
+});
+
+describe("formatRelationFilter", () => {
+  it("should map column keys to database names and join conditions with AND", () => {
+    expect(formatRelationFilter({ isPublished: true, viewCount: { gt: 10 } }, posts)).toBe(
+      "is_published = true AND view_count > 10",
+    );
+  });
+
+  it("should format operators and literal values", () => {
+    expect(
+      formatRelationFilter(
+        {
+          title: { like: "it's%", isNotNull: true },
+          id: { in: [1, 2] },
+          viewCount: { ne: null },
+        },
+        posts,
+      ),
+    ).toBe("title LIKE 'it''s%' AND title IS NOT NULL AND id IN (1, 2) AND view_count <> NULL");
+  });
+
+  it("should format OR, NOT and raw SQL filters", () => {
+    expect(
+      formatRelationFilter(
+        {
+          OR: [{ isPublished: true }, { viewCount: { gte: 100 } }],
+          NOT: { title: { isNull: true } },
+          RAW: sql`true`,
+        },
+        posts,
+      ),
+    ).toBe("(is_published = true OR view_count >= 100) AND NOT (title IS NULL) AND <sql>");
+  });
+
+  it("should prefix filters on related tables with the relation name", () => {
+    expect(formatRelationFilter({ author: { name: "admin" } }, posts)).toBe(
+      "author.name = 'admin'",
+    );
+  });
+
+  it("should return undefined for empty filters", () => {
+    expect(formatRelationFilter({}, posts)).toBeUndefined();
+    expect(formatRelationFilter({ title: undefined }, posts)).toBeUndefined();
+  });
+});
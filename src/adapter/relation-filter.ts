@@ -0,0 +1,170 @@
+import { type Table, getTableColumns, is, Placeholder, SQL } from "drizzle-orm";
+import { formatSqlLiteral } from "../utils/sql-literal";
+
+/**
+ * SQL operators for the field filters of defineRelations() `where`
+ */
+const FIELD_OPERATORS: Record<string, string> = {
+  eq: "=",
+  ne: "<>",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  in: "IN",
+  notIn: "NOT IN",
+  like: "LIKE",
+  ilike: "ILIKE",
+  notLike: "NOT LIKE",
+  notIlike: "NOT ILIKE",
+  arrayContains: "@>",
+  arrayContained: "<@",
+  arrayOverlaps: "&&",
+};
+
+/**
+ * Field filter keys that are not comparison operators
+ */
+const LOGICAL_OPERATORS = new Set(["isNull", "isNotNull", "AND", "OR", "NOT"]);
+
+/**
+ * Render a defineRelations() `where` filter as a SQL-like condition
+ *
+ * Column keys are mapped to their database names on the target table, and
+ * conditions are joined with AND (e.g., `{ published: true, id: { gt: 3 } }`
+ * becomes `published = true AND id > 3`). Raw SQL filters are shown as `<sql>`.
+ *
+ * @param filter - The relation's `where` filter
+ * @param table - The relation's target table
+ * @returns The condition, or undefined for an empty filter
+ */
+export function formatRelationFilter(filter: unknown, table: Table): string | undefined {
+  const columnNames = new Map(
+    Object.entries(getTableColumns(table)).map(([key, column]) => [key, column.name]),
+  );
+  return formatFilter(filter, (key) => columnNames.get(key) ?? key);
+}
+
+/**
+ * Render a table filter, resolving column keys with `getColumnName`
+ */
+function formatFilter(filter: unknown, getColumnName: (key: string) => string): string | undefined {
+  if (!isPlainObject(filter)) {
+    return undefined;
+  }
+
+  const conditions: string[] = [];
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    let condition: string | undefined;
+    if (key === "RAW") {
+      condition = "<sql>";
+    } else if (key === "AND" || key === "OR") {
+      condition = joinConditions(
+        (value as unknown[]).map((item) => formatFilter(item, getColumnName)),
+        key,
+      );
+    } else if (key === "NOT") {
+      const negated = formatFilter(value, getColumnName);
+      condition = negated && `NOT (${negated})`;
+    } else {
+      condition = formatFieldFilter(getColumnName(key), value);
+    }
+
+    if (condition) {
+      conditions.push(condition);
+    }
+  }
+
+  return joinConditions(conditions, "AND");
+}
+
+/**
+ * Render the filter of a single column
+ */
+function formatFieldFilter(column: string, filter: unknown): string | undefined {
+  if (!isPlainObject(filter)) {
+    return `${column} = ${formatValue(filter)}`;
+  }
+
+  // Filter on a related table's columns
+  if (
+    !Object.keys(filter).every(
+      (key) => Object.hasOwn(FIELD_OPERATORS, key) || LOGICAL_OPERATORS.has(key),
+    )
+  ) {
+    return formatFilter(filter, (key) => `${column}.${key}`);
+  }
+
+  const conditions: string[] = [];
+  for (const [operator, value] of Object.entries(filter)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (operator === "isNull" || operator === "isNotNull") {
+      conditions.push(`${column} ${operator === "isNull" ? "IS NULL" : "IS NOT NULL"}`);
+    } else if (operator === "AND" || operator === "OR") {
+      const nested = joinConditions(
+        (value as unknown[]).map((item) => formatFieldFilter(column, item)),
+        operator,
+      );
+      if (nested) {
+        conditions.push(nested);
+      }
+    } else if (operator === "NOT") {
+      const negated = formatFieldFilter(column, value);
+      if (negated) {
+        conditions.push(`NOT (${negated})`);
+      }
+    } else {
+      conditions.push(`${column} ${FIELD_OPERATORS[operator]} ${formatValue(value)}`);
+    }
+  }
+
+  return joinConditions(conditions, "AND");
+}
+
+/**
+ * Join conditions, wrapping them in parentheses when there is more than one
+ * and the operator is OR
+ */
+function joinConditions(
+  conditions: Array<string | undefined>,
+  operator: "AND" | "OR",
+): string | undefined {
+  const present = conditions.filter((condition): condition is string => !!condition);
+  if (present.length === 0) {
+    return undefined;
+  }
+  const joined = present.join(` ${operator} `);
+  return operator === "OR" && present.length > 1 ? `(${joined})` : joined;
+}
+
+/**
+ * Render a filter value as a SQL literal
+ */
+function formatValue(value: unknown): string {
+  if (is(value, Placeholder)) {
+    return `:${value.name}`;
+  }
+  if (is(value, SQL)) {
+    return "<sql>";
+  }
+  if (Array.isArray(value)) {
+    return `(${value.map(formatValue).join(", ")})`;
+  }
+  return formatSqlLiteral(value);
+}
+
+/**
+ * Check whether a value is a plain object (and not a Placeholder, SQL, Date or array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
@@ -5,20 +5,33 @@
  * from either API version, enabling consistent processing downstream.
  */
 export interface UnifiedRelation {
-  /** Source table name (database name, not TypeScript variable) */
+  /** Relation name (the v1 `alias`, which tells apart relations between the same tables) */
+  name?: string;
+  /** Source table name (database name, not TypeScript variable; schema-qualified when the table has a schema) */
   sourceTable: string;
   /** Source column names (database names) */
   sourceColumns: string[];
-  /** Target table name (database name) */
+  /** Target table name (database name; schema-qualified when the table has a schema) */
   targetTable: string;
   /** Target column names (database names) */
   targetColumns: string[];
   /** Type of relation */
-  relationType: "one-to-one" | "one-to-many" | "many-to-one";
+  relationType: "one-to-one" | "one-to-many" | "many-to-one" | "many-to-many";
   /** Optional onDelete action (e.g., CASCADE, SET NULL) */
   onDelete?: string;
   /** Optional onUpdate action (e.g., CASCADE, SET NULL) */
   onUpdate?: string;
+  /** Filter condition on the target rows (v1 `where`), rendered as SQL */
+  where?: string;
+  /** Junction table of a many-to-many relation */
+  through?: {
+    /** Junction table name (schema-qualified when the table has a schema) */
+    table: string;
+    /** Junction columns referencing the source columns */
+    sourceColumns: string[];
+    /** Junction columns referencing the target columns */
+    targetColumns: string[];
+  };
 }
 
 /**
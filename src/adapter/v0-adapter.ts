@@ -1,9 +1,10 @@
-import { type Table, getTableColumns, getTableName, is } from "drizzle-orm";
+import { type Table, getTableColumns, is } from "drizzle-orm";
 import { PgTable } from "drizzle-orm/pg-core";
 import { MySqlTable } from "drizzle-orm/mysql-core";
 import { SQLiteTable } from "drizzle-orm/sqlite-core";
 import type { SchemaRelations } from "../parser/relations";
 import type { RelationAdapter, UnifiedRelation } from "./types";
+import { getQualifiedTableName } from "../utils/table-name";
 
 /**
  * Adapter for extracting relations from v0 relations() API
@@ -16,16 +17,23 @@ export class V0RelationAdapter implements RelationAdapter {
   private parsedRelations: SchemaRelations | undefined;
   private tableNameMapping: Map<string, string>;
   private columnNameMappings: Map<string, Map<string, string>>;
+  private onWarning: (message: string) => void;
 
   /**
    * Create a new V0RelationAdapter
    *
    * @param schema - The Drizzle schema object containing tables
    * @param parsedRelations - Parsed relation information from TypeScript source
+   * @param onWarning - Called for relations whose tables are not in the schema
    */
-  constructor(schema: Record<string, unknown>, parsedRelations: SchemaRelations | undefined) {
+  constructor(
+    schema: Record<string, unknown>,
+    parsedRelations: SchemaRelations | undefined,
+    onWarning: (message: string) => void = () => {},
+  ) {
     this.schema = schema;
     this.parsedRelations = parsedRelations;
+    this.onWarning = onWarning;
     this.tableNameMapping = this.buildTableNameMapping();
     this.columnNameMappings = new Map();
   }
@@ -63,6 +71,11 @@ export class V0RelationAdapter implements RelationAdapter {
       const toTableName = this.tableNameMapping.get(parsedRelation.targetTable);
 
       if (!fromTableName || !toTableName) {
+        const missing = fromTableName ? parsedRelation.targetTable : parsedRelation.sourceTable;
+        this.onWarning(
+          `Skipping relation from "${parsedRelation.sourceTable}" to "${parsedRelation.targetTable}": ` +
+            `"${missing}" is not a table exported by the schema`,
+        );
         continue;
       }
 
@@ -115,7 +128,7 @@ export class V0RelationAdapter implements RelationAdapter {
     const mapping = new Map<string, string>();
     for (const [varName, value] of Object.entries(this.schema)) {
       if (this.isTable(value)) {
-        const tableName = getTableName(value as Table);
+        const tableName = getQualifiedTableName(value as Table);
         mapping.set(varName, tableName);
       }
     }
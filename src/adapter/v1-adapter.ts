@@ -1,6 +1,12 @@
-import { type Table, getTableName, is, One } from "drizzle-orm";
-import type { AnyRelation, TableRelationalConfig } from "drizzle-orm/relations";
+import { Column, type Table, is, Many, One } from "drizzle-orm";
+import type {
+  AnyRelation,
+  RelationsBuilderColumnBase,
+  TableRelationalConfig,
+} from "drizzle-orm/relations";
 import type { RelationAdapter, UnifiedRelation } from "./types";
+import { formatRelationFilter } from "./relation-filter";
+import { getQualifiedTableName } from "../utils/table-name";
 
 /**
  * Adapter for extracting relations from v1 defineRelations() API
@@ -25,6 +31,9 @@ export class V1RelationAdapter implements RelationAdapter {
    *
    * Processes One relations to extract foreign key information and generates
    * relation definitions. Detects one-to-one relationships with bidirectional checks.
+   * Many relations declared with `through` become many-to-many relations, and explicit
+   * Many relations with an alias or a `where` filter become many-to-one relations.
+   * Relations on the same columns are kept apart when their alias or filter differs.
    *
    * @returns Array of unified relations
    */
@@ -33,17 +42,27 @@ export class V1RelationAdapter implements RelationAdapter {
     const processedRefs = new Set<string>();
 
     for (const entry of this.entries) {
-      const sourceTableName = getTableName(entry.table as Table);
+      const sourceTableName = getQualifiedTableName(entry.table as Table);
 
       for (const relation of Object.values(entry.relations)) {
-        // Only process One relations as they define the FK direction
-        // Many relations are the inverse and don't add new information
-        if (!is(relation, One)) {
+        // Skip reversed relations (they are auto-generated inverse relations)
+        if ((relation as AnyRelation).isReversed) {
           continue;
         }
 
-        // Skip reversed relations (they are auto-generated inverse relations)
-        if ((relation as AnyRelation).isReversed) {
+        if (is(relation, Many)) {
+          const manyRelation =
+            this.toManyToManyRelation(sourceTableName, relation as AnyRelation) ??
+            this.toFilteredManyRelation(sourceTableName, relation as AnyRelation);
+          if (manyRelation && !this.isProcessed(processedRefs, manyRelation)) {
+            relations.push(manyRelation);
+          }
+          continue;
+        }
+
+        // Only process One relations as they define the FK direction
+        // Other Many relations are the inverse and don't add new information
+        if (!is(relation, One)) {
           continue;
         }
 
@@ -56,16 +75,7 @@ export class V1RelationAdapter implements RelationAdapter {
           continue;
         }
 
-        const targetTableName = getTableName(rel.targetTable as Table);
-
-        // Create a unique key to avoid duplicate refs
-        const refKey = `${sourceTableName}.${sourceColumns.join(",")}->${targetTableName}.${targetColumns.join(",")}`;
-        const reverseRefKey = `${targetTableName}.${targetColumns.join(",")}->${sourceTableName}.${sourceColumns.join(",")}`;
-
-        if (processedRefs.has(refKey) || processedRefs.has(reverseRefKey)) {
-          continue;
-        }
-        processedRefs.add(refKey);
+        const targetTableName = getQualifiedTableName(rel.targetTable as Table);
 
         // Check if there's a reverse one() relation (indicating one-to-one)
         const isOneToOne = this.hasReverseOneRelation(
@@ -75,19 +85,128 @@ export class V1RelationAdapter implements RelationAdapter {
           sourceColumns,
         );
 
-        relations.push({
+        const oneRelation: UnifiedRelation = {
+          ...this.getRelationMetadata(rel),
           sourceTable: sourceTableName,
           sourceColumns,
           targetTable: targetTableName,
           targetColumns,
           relationType: isOneToOne ? "one-to-one" : "many-to-one",
-        });
+        };
+        if (!this.isProcessed(processedRefs, oneRelation)) {
+          relations.push(oneRelation);
+        }
       }
     }
 
     return relations;
   }
 
+  /**
+   * Convert a Many relation declared with `through` to a many-to-many relation
+   *
+   * @param sourceTableName - Qualified name of the table owning the relation
+   * @param relation - The Many relation
+   * @returns The many-to-many relation, or undefined when the relation has no junction table
+   */
+  private toManyToManyRelation(
+    sourceTableName: string,
+    relation: AnyRelation,
+  ): UnifiedRelation | undefined {
+    if (!relation.through || !relation.throughTable) {
+      return undefined;
+    }
+
+    const sourceColumns = relation.sourceColumns.map((col) => col.name);
+    const targetColumns = relation.targetColumns.map((col) => col.name);
+    if (sourceColumns.length === 0 || targetColumns.length === 0) {
+      return undefined;
+    }
+
+    return {
+      ...this.getRelationMetadata(relation),
+      sourceTable: sourceTableName,
+      sourceColumns,
+      targetTable: getQualifiedTableName(relation.targetTable as Table),
+      targetColumns,
+      relationType: "many-to-many",
+      through: {
+        table: getQualifiedTableName(relation.throughTable as Table),
+        sourceColumns: relation.through.source.map((col) => getThroughColumnName(col)),
+        targetColumns: relation.through.target.map((col) => getThroughColumnName(col)),
+      },
+    };
+  }
+
+  /**
+   * Convert an explicit Many relation with an alias or a `where` filter to a relation
+   *
+   * Other Many relations are the inverse of a One relation and add nothing, but a filtered
+   * or aliased one (e.g., `publishedPosts` with `where: { published: true }`) describes rows
+   * the One relation does not. Like One relations, it is recorded from the referencing side.
+   *
+   * @param sourceTableName - Qualified name of the table owning the relation
+   * @param relation - The Many relation
+   * @returns The many-to-one relation, or undefined when the relation adds nothing
+   */
+  private toFilteredManyRelation(
+    sourceTableName: string,
+    relation: AnyRelation,
+  ): UnifiedRelation | undefined {
+    if (!relation.alias && !relation.where) {
+      return undefined;
+    }
+
+    const sourceColumns = relation.sourceColumns.map((col) => col.name);
+    const targetColumns = relation.targetColumns.map((col) => col.name);
+    if (sourceColumns.length === 0 || targetColumns.length === 0) {
+      return undefined;
+    }
+
+    return {
+      ...this.getRelationMetadata(relation),
+      sourceTable: getQualifiedTableName(relation.targetTable as Table),
+      sourceColumns: targetColumns,
+      targetTable: sourceTableName,
+      targetColumns: sourceColumns,
+      relationType: "many-to-one",
+    };
+  }
+
+  /**
+   * Get the alias and `where` filter of a relation
+   *
+   * @param relation - The relation
+   * @returns The relation name and filter condition, when set
+   */
+  private getRelationMetadata(relation: AnyRelation): Pick<UnifiedRelation, "name" | "where"> {
+    const where = relation.where
+      ? formatRelationFilter(relation.where, relation.targetTable as Table)
+      : undefined;
+    return {
+      ...(relation.alias && { name: relation.alias }),
+      ...(where && { where }),
+    };
+  }
+
+  /**
+   * Check whether a relation was already extracted, in either direction
+   *
+   * Relations are identified by their columns, junction table, alias and filter.
+   * Records the relation as processed when it is new.
+   */
+  private isProcessed(processedRefs: Set<string>, relation: UnifiedRelation): boolean {
+    const suffix = ` via ${relation.through?.table} as ${relation.name} where ${relation.where}`;
+    const refKey = `${relation.sourceTable}.${relation.sourceColumns.join(",")}->${relation.targetTable}.${relation.targetColumns.join(",")}${suffix}`;
+    const reverseRefKey = `${relation.targetTable}.${relation.targetColumns.join(",")}->${relation.sourceTable}.${relation.sourceColumns.join(",")}${suffix}`;
+
+    if (processedRefs.has(refKey) || processedRefs.has(reverseRefKey)) {
+      return true;
+    }
+    processedRefs.add(refKey);
+    return false;
+  }
+
   /**
    * Check if there's a reverse One relation in v1 entries
    *
@@ -106,7 +225,9 @@ export class V1RelationAdapter implements RelationAdapter {
     fromColumns: string[],
     toColumns: string[],
   ): boolean {
-    const fromEntry = this.entries.find((e) => getTableName(e.table as Table) === fromTableName);
+    const fromEntry = this.entries.find(
+      (e) => getQualifiedTableName(e.table as Table) === fromTableName,
+    );
     if (!fromEntry) {
       return false;
     }
@@ -117,7 +238,7 @@ export class V1RelationAdapter implements RelationAdapter {
       }
 
       const rel = relation as AnyRelation;
-      const relTargetName = getTableName(rel.targetTable as Table);
+      const relTargetName = getQualifiedTableName(rel.targetTable as Table);
       if (relTargetName !== toTableName) {
         continue;
       }
@@ -139,3 +260,13 @@ export class V1RelationAdapter implements RelationAdapter {
     return false;
   }
 }
+
+/**
+ * Get the database name of a junction column referenced by `through()`
+ *
+ * Falls back to the TypeScript key for SQL expressions.
+ */
+function getThroughColumnName(column: RelationsBuilderColumnBase): string {
+  const field = column._.column;
+  return is(field, Column) ? field.name : column._.key;
+}
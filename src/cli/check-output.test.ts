@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { findStaleFiles } from "./check-output";
+
+const TEST_DIR = join(import.meta.dirname, "__test_fixtures_check__");
+
+describe("findStaleFiles", () => {
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(join(TEST_DIR, "billing"), { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should return nothing when every file matches", () => {
+    writeFileSync(join(TEST_DIR, "README.md"), "# Tables\n");
+
+    expect(
+      findStaleFiles(new Map([[join(TEST_DIR, "README.md"), "# Tables\n"]]), TEST_DIR),
+    ).toEqual([]);
+  });
+
+  it("should report changed files with a unified diff", () => {
+    const filePath = join(TEST_DIR, "users.md");
+    writeFileSync(filePath, "# users\n\nold\n");
+
+    const [staleFile] = findStaleFiles(new Map([[filePath, "# users\n\nnew\n"]]));
+
+    expect(staleFile.reason).toBe("changed");
+    expect(staleFile.diff).toContain("--- a/");
+    expect(staleFile.diff).toContain("-old\n+new");
+  });
+
+  it("should report missing files", () => {
+    const filePath = join(TEST_DIR, "posts.md");
+
+    const [staleFile] = findStaleFiles(new Map([[filePath, "# posts\n"]]));
+
+    expect(staleFile).toMatchObject({ path: filePath, reason: "missing" });
+    expect(staleFile.diff).toContain("--- /dev/null");
+  });
+
+  it("should report orphaned Markdown pages in nested directories", () => {
+    const readmePath = join(TEST_DIR, "README.md");
+    writeFileSync(readmePath, "# Tables\n");
+    writeFileSync(join(TEST_DIR, "billing", "invoices.md"), "# billing.invoices\n");
+    writeFileSync(join(TEST_DIR, "notes.txt"), "not generated");
+
+    const staleFiles = findStaleFiles(new Map([[readmePath, "# Tables\n"]]), TEST_DIR);
+
+    expect(staleFiles).toHaveLength(1);
+    expect(staleFiles[0]).toMatchObject({
+      path: join(TEST_DIR, "billing", "invoices.md"),
+      reason: "orphaned",
+    });
+    expect(staleFiles[0].diff).toContain("+++ /dev/null");
+  });
+
+  it("should not report hand-written Markdown files as orphaned", () => {
+    const readmePath = join(TEST_DIR, "README.md");
+    writeFileSync(readmePath, "# Tables\n");
+    writeFileSync(join(TEST_DIR, "NOTES.md"), "# Notes on the schema\n");
+    writeFileSync(join(TEST_DIR, "billing", "guide.md"), "# billing.invoices\n");
+    mkdirSync(join(TEST_DIR, "billing", "archive"));
+    writeFileSync(join(TEST_DIR, "billing", "archive", "old.md"), "# billing.archive.old\n");
+
+    expect(findStaleFiles(new Map([[readmePath, "# Tables\n"]]), TEST_DIR)).toEqual([]);
+  });
+
+  it("should report orphaned pages of the HTML layout", () => {
+    const indexPath = join(TEST_DIR, "index.html");
+    writeFileSync(indexPath, "<h1>Tables</h1>\n");
+    mkdirSync(join(TEST_DIR, "tables"));
+    writeFileSync(join(TEST_DIR, "tables", "billing.invoices.html"), "<h1>billing.invoices</h1>\n");
+    writeFileSync(join(TEST_DIR, "billing", "about.html"), "<h1>About</h1>\n");
+    writeFileSync(join(TEST_DIR, "README.md"), "# Tables\n");
+
+    const staleFiles = findStaleFiles(
+      new Map([[indexPath, "<h1>Tables</h1>\n"]]),
+      TEST_DIR,
+      "html",
+    );
+
+    expect(staleFiles.map((f) => [f.path, f.reason])).toEqual([
+      [join(TEST_DIR, "tables", "billing.invoices.html"), "orphaned"],
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { createUnifiedDiff } from "../utils/unified-diff";
+
+/**
+ * Why a generated file is out of date
+ *
+ * - `changed`: the file on disk differs from the generated content
+ * - `missing`: the file would be generated but does not exist
+ * - `orphaned`: a table, view or enum page exists in the output directory but would no
+ *   longer be generated
+ */
+export type StaleReason = "changed" | "missing" | "orphaned";
+
+/**
+ * Page layout of a multi-file output, used to tell generated pages from hand-written files
+ */
+export type PageLayout = "markdown" | "html";
+
+/**
+ * Directories holding the table, view and enum pages of the HTML site
+ */
+const HTML_PAGE_DIRECTORIES = new Set(["tables", "views", "enums"]);
+
+/**
+ * A generated file that is out of date on disk
+ */
+export interface StaleFile {
+  /** Absolute path of the file */
+  path: string;
+  /** Why the file is out of date */
+  reason: StaleReason;
+  /** Unified diff from the file on disk to the generated content */
+  diff: string;
+}
+
+/**
+ * Compare generated files against the files on disk
+ *
+ * @param expectedFiles - Generated content keyed by absolute file path
+ * @param outputDir - Directory to scan for orphaned pages (multi-file output only)
+ * @param layout - Page layout of the output directory
+ * @returns The files that are out of date, in a stable order
+ */
+export function findStaleFiles(
+  expectedFiles: Map<string, string>,
+  outputDir?: string,
+  layout: PageLayout = "markdown",
+): StaleFile[] {
+  const staleFiles: StaleFile[] = [];
+
+  for (const [filePath, content] of expectedFiles) {
+    const label = toLabel(filePath);
+    if (!existsSync(filePath)) {
+      staleFiles.push({
+        path: filePath,
+        reason: "missing",
+        diff: createUnifiedDiff("", content, { oldLabel: "/dev/null", newLabel: `b/${label}` }),
+      });
+      continue;
+    }
+
+    const actual = readFileSync(filePath, "utf-8");
+    if (actual !== content) {
+      staleFiles.push({
+        path: filePath,
+        reason: "changed",
+        diff: createUnifiedDiff(actual, content, {
+          oldLabel: `a/${label}`,
+          newLabel: `b/${label}`,
+        }),
+      });
+    }
+  }
+
+  if (outputDir) {
+    for (const filePath of listPages(outputDir, layout === "html" ? ".html" : ".md")) {
+      if (expectedFiles.has(filePath)) {
+        continue;
+      }
+      const content = readFileSync(filePath, "utf-8");
+      if (isGeneratedPage(relative(outputDir, filePath), content, layout)) {
+        staleFiles.push({
+          path: filePath,
+          reason: "orphaned",
+          diff: createUnifiedDiff(content, "", {
+            oldLabel: `a/${toLabel(filePath)}`,
+            newLabel: "/dev/null",
+          }),
+        });
+      }
+    }
+  }
+
+  return staleFiles;
+}
+
+/**
+ * Check whether a page follows the generator's page layout
+ *
+ * Only such pages can be orphaned; other files in the output directory are treated as
+ * hand-written and left alone.
+ * - HTML: table, view and enum pages live in the `tables/`, `views/` and `enums/` directories
+ * - Markdown: table and view pages are `<name>.md` or `<schema>/<name>.md` and start with
+ *   the heading `# <name>` or `# <schema>.<name>`
+ *
+ * @param relativePath - Path of the page relative to the output directory
+ * @param content - Content of the page
+ * @param layout - Page layout of the output directory
+ */
+function isGeneratedPage(relativePath: string, content: string, layout: PageLayout): boolean {
+  const segments = relativePath.split(/[\\/]/);
+  if (layout === "html") {
+    return segments.length === 2 && HTML_PAGE_DIRECTORIES.has(segments[0]!);
+  }
+  if (segments.length > 2) {
+    return false;
+  }
+  const title = segments.join(".").replace(/\.md$/, "");
+  return content.startsWith(`# ${title}\n`);
+}
+
+/**
+ * Get a display path relative to the working directory with "/" separators
+ */
+function toLabel(filePath: string): string {
+  return relative(process.cwd(), filePath).split("\\").join("/");
+}
+
+/**
+ * Recursively list the pages with an extension under a directory, sorted by path
+ */
+function listPages(dirPath: string, extension: string): string[] {
+  if (!existsSync(dirPath)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+    const fullPath = join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listPages(fullPath, extension));
+    } else if (entry.isFile() && entry.name.endsWith(extension)) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
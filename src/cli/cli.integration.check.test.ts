@@ -0,0 +1,101 @@
+/**
+ * Check Mode (--check) CLI Integration Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { appendFileSync } from "node:fs";
+import { runCli } from "../test-utils/cli-runner.js";
+import {
+  setupIntegrationTest,
+  PG_SCHEMA_V1,
+  TEST_OUTPUT_DIR,
+  existsSync,
+  rmSync,
+  writeFileSync,
+  join,
+} from "./integration-test-utils.js";
+
+setupIntegrationTest();
+
+describe("Check Mode (--check)", () => {
+  it("should pass when the DBML file is up to date", async () => {
+    const outputPath = join(TEST_OUTPUT_DIR, "check-dbml.dbml");
+    await runCli(["generate", PG_SCHEMA_V1, "-f", "dbml", "-o", outputPath]);
+
+    const result = await runCli([
+      "generate",
+      PG_SCHEMA_V1,
+      "-f",
+      "dbml",
+      "-o",
+      outputPath,
+      "--check",
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("DBML is up to date");
+  });
+
+  it("should fail with a diff when a single Markdown file is stale", async () => {
+    const outputPath = join(TEST_OUTPUT_DIR, "check-single.md");
+    const args = ["generate", PG_SCHEMA_V1, "--single-file", "-o", outputPath];
+    await runCli(args);
+    appendFileSync(outputPath, "manual edit\n");
+
+    const result = await runCli([...args, "--check"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain("-manual edit");
+    expect(result.stderr).toContain("Markdown is out of date");
+  });
+
+  it("should report stale, missing and orphaned pages of multi-file Markdown", async () => {
+    const outputDir = join(TEST_OUTPUT_DIR, "check-multi");
+    const args = ["generate", PG_SCHEMA_V1, "-o", outputDir];
+    await runCli(args);
+    appendFileSync(join(outputDir, "users.md"), "manual edit\n");
+    rmSync(join(outputDir, "tags.md"));
+    writeFileSync(join(outputDir, "legacy.md"), "# legacy\n");
+
+    const result = await runCli([...args, "--check"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain(`${join(outputDir, "users.md")} (changed)`);
+    expect(result.stderr).toContain(`${join(outputDir, "tags.md")} (missing)`);
+    expect(result.stderr).toContain(`${join(outputDir, "legacy.md")} (orphaned)`);
+    expect(result.stdout).toContain("+++ /dev/null");
+
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("should ignore hand-written files in the output directory", async () => {
+    const outputDir = join(TEST_OUTPUT_DIR, "check-hand-written");
+    const args = ["generate", PG_SCHEMA_V1, "-o", outputDir];
+    await runCli(args);
+    writeFileSync(join(outputDir, "NOTES.md"), "# Notes on the schema\n");
+
+    const result = await runCli([...args, "--check"]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("Markdown is up to date");
+
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("should not write any files", async () => {
+    const outputDir = join(TEST_OUTPUT_DIR, "check-no-write");
+
+    const result = await runCli(["generate", PG_SCHEMA_V1, "-o", outputDir, "--check"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("(missing)");
+    expect(existsSync(outputDir)).toBe(false);
+  });
+
+  it("should require an output path", async () => {
+    const result = await runCli(["generate", PG_SCHEMA_V1, "--check"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("--check requires an output path");
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Comments File CLI Integration Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { runCli } from "../test-utils/cli-runner.js";
+import {
+  setupIntegrationTest,
+  PG_SCHEMA_V1,
+  EXPECTED_TABLES,
+  TEST_OUTPUT_DIR,
+  existsSync,
+  rmSync,
+  readFileSync,
+  writeFileSync,
+  join,
+} from "./integration-test-utils.js";
+
+setupIntegrationTest();
+
+describe("Comments File", () => {
+  it("should scaffold a YAML comments file with comments init", async () => {
+    const commentsPath = join(TEST_OUTPUT_DIR, "comments-init.yaml");
+    rmSync(commentsPath, { force: true });
+
+    const result = await runCli(["comments", "init", PG_SCHEMA_V1, "-o", commentsPath]);
+
+    expect(result.exitCode).toBe(0);
+    expect(existsSync(commentsPath)).toBe(true);
+    const content = readFileSync(commentsPath, "utf-8");
+    for (const table of EXPECTED_TABLES) {
+      expect(content).toContain(`  ${table}:\n    comment: ""\n    owners: []\n    tags: []\n`);
+    }
+
+    const rerun = await runCli(["comments", "init", PG_SCHEMA_V1, "-o", commentsPath]);
+    expect(rerun.exitCode).not.toBe(0);
+    expect(rerun.stderr).toContain("Comments file already exists");
+
+    rmSync(commentsPath, { force: true });
+  });
+
+  it("should render tags, owners and deprecations from a YAML comments file", async () => {
+    const commentsPath = join(TEST_OUTPUT_DIR, "comments-overlay.yaml");
+    writeFileSync(
+      commentsPath,
+      [
+        "tables:",
+        "  users:",
+        "    comment: Accounts (from file)",
+        "    owners: [identity-team]",
+        "    tags: core",
+        "    columns:",
+        "      email:",
+        "        tags: [pii]",
+        "        deprecated: Use login instead",
+        "",
+      ].join("\n"),
+    );
+
+    const result = await runCli([
+      "generate",
+      PG_SCHEMA_V1,
+      "--single-file",
+      "--no-er-diagram",
+      "--comments-file",
+      commentsPath,
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(
+      "## users\n\nAccounts (from file)\n\n**Owners:** identity-team\n\n**Tags:** `core`\n",
+    );
+    expect(result.stdout).toMatch(
+      /\| ~~email~~ \|.*\*\*Deprecated:\*\* Use login instead `pii` \|/,
+    );
+
+    rmSync(commentsPath, { force: true });
+  });
+});
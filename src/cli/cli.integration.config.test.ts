@@ -0,0 +1,179 @@
+/**
+ * Configuration File CLI Integration Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { runCli } from "../test-utils/cli-runner.js";
+import {
+  setupIntegrationTest,
+  PG_SCHEMA_V1,
+  MYSQL_SCHEMA_V0,
+  TEST_OUTPUT_DIR,
+  existsSync,
+  mkdirSync,
+  rmSync,
+  readFileSync,
+  writeFileSync,
+  join,
+} from "./integration-test-utils.js";
+
+setupIntegrationTest();
+
+/**
+ * Write a config file generating DBML and JSON from the PostgreSQL v1 example
+ */
+function writeConfig(dir: string): string {
+  mkdirSync(dir, { recursive: true });
+  const configPath = join(dir, "drizzle-docs.config.json");
+  writeFileSync(
+    configPath,
+    JSON.stringify({
+      schema: PG_SCHEMA_V1,
+      dialect: "postgresql",
+      outputs: [
+        { format: "dbml", path: "./out/schema.dbml" },
+        { format: "json", path: "./out/schema.json", formatterOptions: { includeComments: false } },
+      ],
+    }),
+  );
+  return configPath;
+}
+
+describe("Configuration File", () => {
+  it("should generate every configured output with --config", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "config-outputs");
+    const configPath = writeConfig(dir);
+
+    const result = await runCli(["generate", "--config", configPath]);
+
+    expect(result.exitCode).toBe(0);
+    expect(readFileSync(join(dir, "out/schema.dbml"), "utf-8")).toContain('Table "users" {');
+    const document = JSON.parse(readFileSync(join(dir, "out/schema.json"), "utf-8"));
+    expect(document.dialect).toBe("postgresql");
+    expect(JSON.stringify(document)).not.toContain('"comment"');
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should detect the config file in the current directory", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "config-detect");
+    writeConfig(dir);
+
+    const result = await runCli(["generate"], { cwd: dir });
+
+    expect(result.exitCode).toBe(0);
+    expect(existsSync(join(dir, "out/schema.dbml"))).toBe(true);
+    expect(existsSync(join(dir, "out/schema.json"))).toBe(true);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should let --format override the configured outputs", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "config-override");
+    const configPath = writeConfig(dir);
+
+    const result = await runCli(["generate", "--config", configPath, "-f", "mermaid"]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.startsWith("erDiagram\n")).toBe(true);
+    expect(existsSync(join(dir, "out"))).toBe(false);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should error without a schema argument or config file", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "config-missing");
+    mkdirSync(dir, { recursive: true });
+
+    const result = await runCli(["generate"], { cwd: dir });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("Missing schema path");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+/**
+ * Write a drizzle-kit config pointing at the MySQL v0 example
+ */
+function writeDrizzleConfig(dir: string): string {
+  mkdirSync(dir, { recursive: true });
+  const configPath = join(dir, "drizzle.config.json");
+  writeFileSync(
+    configPath,
+    JSON.stringify({
+      dialect: "mysql",
+      schema: MYSQL_SCHEMA_V0,
+      out: "./drizzle",
+      tablesFilter: ["!post_tags", "!tags"],
+    }),
+  );
+  return configPath;
+}
+
+describe("drizzle-kit Config", () => {
+  it("should read dialect, schema and tablesFilter with --drizzle-config", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "drizzle-config-flag");
+    const configPath = writeDrizzleConfig(dir);
+
+    const result = await runCli(["generate", "--drizzle-config", configPath, "-f", "json"]);
+
+    expect(result.exitCode).toBe(0);
+    const document = JSON.parse(result.stdout);
+    expect(document.dialect).toBe("mysql");
+    const tableNames = document.schema.tables.map((t: { name: string }) => t.name);
+    expect(tableNames).toContain("users");
+    expect(tableNames).not.toContain("tags");
+    expect(tableNames).not.toContain("post_tags");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should detect drizzle.config in the current directory without a schema argument", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "drizzle-config-detect");
+    writeDrizzleConfig(dir);
+
+    const result = await runCli(["generate", "-f", "dbml"], { cwd: dir });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Table "users" {');
+    expect(result.stdout).not.toContain('Table "tags" {');
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should let --dialect override the drizzle-kit dialect", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "drizzle-config-dialect");
+    mkdirSync(dir, { recursive: true });
+    const configPath = join(dir, "drizzle.config.json");
+    writeFileSync(configPath, JSON.stringify({ dialect: "postgresql", schema: MYSQL_SCHEMA_V0 }));
+
+    const result = await runCli([
+      "generate",
+      "--drizzle-config",
+      configPath,
+      "-d",
+      "mysql",
+      "-f",
+      "json",
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout).dialect).toBe("mysql");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should error when --drizzle-config finds no config file", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "drizzle-config-missing");
+    mkdirSync(dir, { recursive: true });
+
+    const result = await runCli(["generate", "--drizzle-config"], { cwd: dir });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("No drizzle.config.{ts,js,json} found");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
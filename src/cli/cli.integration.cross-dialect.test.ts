@@ -3,13 +3,18 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { runGenerate } from "../test-utils/cli-runner.js";
+import { runCli, runGenerate } from "../test-utils/cli-runner.js";
 import { countTables, countRefs } from "../test-utils/dbml-validator.js";
 import {
   setupIntegrationTest,
   PG_SCHEMA_V1,
   MYSQL_SCHEMA_V1,
   SQLITE_SCHEMA_V1,
+  TEST_OUTPUT_DIR,
+  mkdirSync,
+  rmSync,
+  writeFileSync,
+  join,
 } from "./integration-test-utils.js";
 
 setupIntegrationTest();
@@ -79,3 +84,38 @@ describe("Cross-Dialect Consistency (v1 API)", () => {
     expect(countRefs(sqliteResult.stdout)).toBeGreaterThan(0);
   });
 });
+
+describe("Dialect Inference", () => {
+  it("should infer the dialect from the tables when --dialect is omitted", async () => {
+    const [pgResult, mysqlResult, sqliteResult] = await Promise.all([
+      runCli(["generate", PG_SCHEMA_V1, "-f", "json"]),
+      runCli(["generate", MYSQL_SCHEMA_V1, "-f", "json"]),
+      runCli(["generate", SQLITE_SCHEMA_V1, "-f", "json"]),
+    ]);
+
+    expect(JSON.parse(pgResult.stdout).dialect).toBe("postgresql");
+    expect(JSON.parse(mysqlResult.stdout).dialect).toBe("mysql");
+    expect(JSON.parse(sqliteResult.stdout).dialect).toBe("sqlite");
+  });
+
+  it("should error listing the exports when dialects are mixed", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "mixed-dialects");
+    mkdirSync(dir, { recursive: true });
+    const schemaPath = join(dir, "schema.ts");
+    writeFileSync(
+      schemaPath,
+      `export { users } from ${JSON.stringify(PG_SCHEMA_V1)};
+export { posts } from ${JSON.stringify(MYSQL_SCHEMA_V1)};
+`,
+    );
+
+    const result = await runCli(["generate", schemaPath, "-f", "dbml"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("Schema mixes tables from multiple dialects");
+    expect(result.stderr).toContain("postgresql: users");
+    expect(result.stderr).toContain("mysql: posts");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
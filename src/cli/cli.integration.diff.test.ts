@@ -0,0 +1,151 @@
+/**
+ * Schema Diff CLI Integration Tests
+ */
+
+import { execFileSync } from "node:child_process";
+import { describe, it, expect } from "vitest";
+import { runCli } from "../test-utils/cli-runner.js";
+import {
+  setupIntegrationTest,
+  PG_SCHEMA_V1,
+  TEST_OUTPUT_DIR,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+  join,
+} from "./integration-test-utils.js";
+
+setupIntegrationTest();
+
+/**
+ * Write a copy of the PostgreSQL v1 example with a widened column and an extra table
+ */
+function writeChangedSchema(dir: string): string {
+  mkdirSync(dir, { recursive: true });
+  const schemaPath = join(dir, "schema.ts");
+  const source = readFileSync(PG_SCHEMA_V1, "utf-8").replace(
+    'varchar("email", { length: 255 })',
+    'varchar("email", { length: 320 })',
+  );
+  writeFileSync(
+    schemaPath,
+    `${source}
+export const auditLog = pgTable("audit_log", { id: serial("id").primaryKey() });
+`,
+  );
+  return schemaPath;
+}
+
+describe("Schema Diff", () => {
+  it("should report no changes between a schema and its emitted JSON", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "diff-json");
+    mkdirSync(dir, { recursive: true });
+    const jsonPath = join(dir, "schema.json");
+    await runCli(["generate", PG_SCHEMA_V1, "-f", "json", "-o", jsonPath]);
+
+    const result = await runCli(["diff", jsonPath, PG_SCHEMA_V1, "--exit-code"]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe("No schema changes.");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should report changes against a git ref as Markdown", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "diff-git");
+    const schemaPath = writeChangedSchema(dir);
+
+    const result = await runCli([
+      "diff",
+      "HEAD:examples/pg/v1/schema.ts",
+      schemaPath,
+      "-f",
+      "markdown",
+      "--exit-code",
+    ]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stdout).toContain("## Schema Changes");
+    expect(result.stdout).toContain("#### `audit_log` (Added)");
+    expect(result.stdout).toContain(
+      "| Changed | Column | `email` | type: `varchar(255)` → `varchar(320)` |",
+    );
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should read JSDoc and v0 relations from a schema at a git ref", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "diff-git-v0");
+    rmSync(dir, { recursive: true, force: true });
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(
+      join(dir, "schema.ts"),
+      `import { relations } from "drizzle-orm/_relations";
+import { integer, pgTable, serial, text } from "drizzle-orm/pg-core";
+
+/** Registered users */
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  /** Display name */
+  name: text("name"),
+});
+
+export const posts = pgTable("posts", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id").notNull(),
+});
+
+export const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, { fields: [posts.authorId], references: [users.id] }),
+}));
+`,
+    );
+    const git = (args: string[]) => execFileSync("git", args, { cwd: dir, stdio: "ignore" });
+    git(["init", "-q"]);
+    git(["add", "schema.ts"]);
+    git(["-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "-qm", "schema"]);
+
+    const result = await runCli(["diff", "HEAD:schema.ts", "schema.ts", "--exit-code"], {
+      cwd: dir,
+    });
+
+    expect(result.stderr).toBe("");
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe("No schema changes.");
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should write a JSON report to a file", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "diff-output");
+    const schemaPath = writeChangedSchema(dir);
+    const reportPath = join(dir, "report.json");
+
+    const result = await runCli(["diff", PG_SCHEMA_V1, schemaPath, "-f", "json", "-o", reportPath]);
+
+    expect(result.exitCode).toBe(0);
+    const report = JSON.parse(readFileSync(reportPath, "utf-8"));
+    expect(report.hasChanges).toBe(true);
+    expect(report.tables.map((t: { name: string }) => t.name).sort()).toEqual([
+      "audit_log",
+      "users",
+    ]);
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should error for a path missing at the git ref", async () => {
+    const result = await runCli(["diff", "HEAD:does/not/exist.ts", PG_SCHEMA_V1]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('Path "does/not/exist.ts" does not exist at git ref "HEAD"');
+  });
+
+  it("should error for an invalid report format", async () => {
+    const result = await runCli(["diff", PG_SCHEMA_V1, PG_SCHEMA_V1, "-f", "html"]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("Invalid format");
+  });
+});
@@ -10,6 +10,10 @@ import {
   EXAMPLES_DIR,
   PG_SCHEMA_V0,
   PG_SCHEMA_V1,
+  TEST_OUTPUT_DIR,
+  mkdirSync,
+  rmSync,
+  writeFileSync,
   join,
 } from "./integration-test-utils.js";
 
@@ -72,3 +76,37 @@ describe("Format Option Validation", () => {
     expect(result.stderr).toContain("--no-er-diagram is only applicable with --format markdown");
   });
 });
+
+describe("Schema Warnings", () => {
+  it("should print warnings about relations that cannot be resolved", async () => {
+    const dir = join(TEST_OUTPUT_DIR, "warnings");
+    mkdirSync(dir, { recursive: true });
+    const schemaPath = join(dir, "schema.ts");
+    writeFileSync(
+      schemaPath,
+      `import { relations } from "drizzle-orm/_relations";
+import { integer, pgTable, serial } from "drizzle-orm/pg-core";
+
+const users = pgTable("users", { id: serial("id").primaryKey() });
+
+export const posts = pgTable("posts", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id"),
+});
+
+export const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, { fields: [posts.authorId], references: [users.id] }),
+}));
+`,
+    );
+
+    const result = await runCli(["generate", schemaPath, "-f", "dbml"]);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toContain(
+      'Warning: Skipping relation from "posts" to "users": "users" is not a table exported by the schema',
+    );
+
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * HTML Site Output CLI Integration Tests
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { runCli, runGenerate } from "../test-utils/cli-runner.js";
+import {
+  setupIntegrationTest,
+  PG_SCHEMA_V1,
+  TEST_OUTPUT_DIR,
+  EXPECTED_TABLES,
+  existsSync,
+  rmSync,
+  readFileSync,
+  writeFileSync,
+  join,
+} from "./integration-test-utils.js";
+
+setupIntegrationTest();
+
+describe("HTML Site Output", () => {
+  const outputDir = join(TEST_OUTPUT_DIR, "html-site");
+
+  afterAll(() => {
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("should write a static site with --format html", async () => {
+    rmSync(outputDir, { recursive: true, force: true });
+
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", {
+      format: "html",
+      output: outputDir,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("HTML generated:");
+
+    const index = readFileSync(join(outputDir, "index.html"), "utf-8");
+    for (const table of EXPECTED_TABLES) {
+      expect(index).toContain(`<a href="tables/${table}.html">${table}</a>`);
+      expect(existsSync(join(outputDir, "tables", `${table}.html`))).toBe(true);
+    }
+
+    const relations = readFileSync(join(outputDir, "relations.html"), "utf-8");
+    expect(relations).toContain('<pre class="mermaid diagram">erDiagram');
+    expect(relations).toContain('<script src="assets/mermaid.min.js"></script>');
+    expect(readFileSync(join(outputDir, "assets", "mermaid.min.js"), "utf-8")).toContain(
+      'globalThis["mermaid"]',
+    );
+
+    const searchIndex = readFileSync(join(outputDir, "assets", "search-index.js"), "utf-8");
+    expect(searchIndex).toContain('"name":"users.email"');
+  });
+
+  it("should refuse to overwrite the site without --force", async () => {
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", {
+      format: "html",
+      output: outputDir,
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("The following files already exist");
+    expect(result.stderr).toContain("index.html");
+  });
+
+  it("should report orphaned pages with --check", async () => {
+    const orphanPath = join(outputDir, "tables", "legacy.html");
+    writeFileSync(orphanPath, "<h1>legacy</h1>\n");
+
+    const result = await runCli([
+      "generate",
+      PG_SCHEMA_V1,
+      "-d",
+      "postgresql",
+      "-f",
+      "html",
+      "-o",
+      outputDir,
+      "--check",
+    ]);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("HTML is out of date");
+    expect(result.stderr).toContain("legacy.html (orphaned)");
+    expect(result.stderr).not.toContain("(changed)");
+
+    rmSync(orphanPath);
+  });
+
+  it("should require an output directory", async () => {
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", { format: "html" });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("--format html requires an output directory");
+  });
+});
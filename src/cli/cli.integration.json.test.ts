@@ -0,0 +1,126 @@
+/**
+ * JSON Format Output CLI Integration Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { runCli, runGenerate } from "../test-utils/cli-runner.js";
+import {
+  setupIntegrationTest,
+  PG_SCHEMA_V1,
+  SQLITE_SCHEMA_V1,
+  EXPECTED_TABLES,
+  TEST_OUTPUT_DIR,
+  existsSync,
+  rmSync,
+  readFileSync,
+  writeFileSync,
+  join,
+} from "./integration-test-utils.js";
+
+setupIntegrationTest();
+
+describe("JSON Format Output", () => {
+  it("should generate a versioned JSON document with --format json", async () => {
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", { format: "json" });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toBe("");
+
+    const document = JSON.parse(result.stdout);
+    const packageJson = JSON.parse(
+      readFileSync(join(import.meta.dirname, "../../package.json"), "utf-8"),
+    );
+    expect(document.formatVersion).toBe(1);
+    expect(document.generator).toEqual({
+      name: "drizzle-docs-generator",
+      version: packageJson.version,
+    });
+    expect(document.dialect).toBe("postgresql");
+    expect(document.schema.tables.map((t: { name: string }) => t.name)).toEqual(
+      expect.arrayContaining(EXPECTED_TABLES),
+    );
+    expect(document.schema.relations.length).toBeGreaterThan(0);
+  });
+
+  it("should write JSON to a file with -o flag", async () => {
+    const outputPath = join(TEST_OUTPUT_DIR, "schema-output.json");
+
+    const result = await runGenerate(SQLITE_SCHEMA_V1, "sqlite", {
+      format: "json",
+      output: outputPath,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("JSON generated:");
+    expect(existsSync(outputPath)).toBe(true);
+
+    const document = JSON.parse(readFileSync(outputPath, "utf-8"));
+    expect(document.dialect).toBe("sqlite");
+
+    rmSync(outputPath, { force: true });
+  });
+});
+
+describe("Comment Sources", () => {
+  it("should merge an external comments file with JSDoc using --comments-file", async () => {
+    const commentsPath = join(TEST_OUTPUT_DIR, "comments.json");
+    writeFileSync(
+      commentsPath,
+      JSON.stringify({
+        tables: { users: { comment: "Accounts (from file)", columns: { name: "Full name" } } },
+      }),
+    );
+
+    const result = await runCli([
+      "generate",
+      PG_SCHEMA_V1,
+      "-f",
+      "json",
+      "--comments-file",
+      commentsPath,
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    const users = JSON.parse(result.stdout).schema.tables.find(
+      (t: { name: string }) => t.name === "users",
+    );
+    expect(users.comment).toBe("Accounts (from file)");
+    expect(users.columns.find((c: { name: string }) => c.name === "name").comment).toBe(
+      "Full name",
+    );
+    expect(users.columns.find((c: { name: string }) => c.name === "id").comment).toBe(
+      "Auto-generated unique identifier",
+    );
+
+    rmSync(commentsPath, { force: true });
+  });
+
+  it("should ignore sources left out of --comment-precedence", async () => {
+    const result = await runCli([
+      "generate",
+      PG_SCHEMA_V1,
+      "-f",
+      "json",
+      "--comment-precedence",
+      "runtime",
+    ]);
+
+    expect(result.exitCode).toBe(0);
+    const users = JSON.parse(result.stdout).schema.tables.find(
+      (t: { name: string }) => t.name === "users",
+    );
+    expect(users.comment).toBeUndefined();
+  });
+
+  it("should reject unknown comment sources", async () => {
+    const result = await runCli([
+      "generate",
+      PG_SCHEMA_V1,
+      "--comment-precedence",
+      "jsdoc,database",
+    ]);
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain("Unknown comment source: database");
+  });
+});
@@ -20,6 +20,7 @@ import {
   existsSync,
   rmSync,
   readFileSync,
+  writeFileSync,
   join,
 } from "./integration-test-utils.js";
 
@@ -105,6 +106,56 @@ describe("Markdown Format Output", () => {
     rmSync(outputDir, { recursive: true, force: true });
   });
 
+  it("should list sequences and roles in README.md of multiple files Markdown", async () => {
+    const outputDir = join(TEST_OUTPUT_DIR, "multi-file-sequences-roles");
+    const schemaPath = join(TEST_OUTPUT_DIR, "sequences-roles-schema.ts");
+    writeFileSync(
+      schemaPath,
+      `import { pgRole, pgSequence, pgTable, serial } from "drizzle-orm/pg-core";
+
+export const users = pgTable("users", { id: serial("id").primaryKey() });
+export const counter = pgSequence("counter", { startWith: 10 });
+export const admin = pgRole("admin", { createRole: true });
+`,
+    );
+
+    const result = await runGenerate(schemaPath, "postgresql", {
+      format: "markdown",
+      output: outputDir,
+    });
+
+    expect(result.exitCode).toBe(0);
+    const readmeContent = readFileSync(join(outputDir, "README.md"), "utf-8");
+    expect(readmeContent).toContain("# Sequences");
+    expect(readmeContent).toContain("| counter | 10 |");
+    expect(readmeContent).toContain("# Roles");
+    expect(readmeContent).toContain("| admin | CREATEROLE |");
+    expect(readmeContent.indexOf("# Roles")).toBeLessThan(readmeContent.indexOf("## ER Diagram"));
+
+    rmSync(outputDir, { recursive: true, force: true });
+    rmSync(schemaPath, { force: true });
+  });
+
+  it("should embed focused ER diagrams in table pages with --table-diagrams", async () => {
+    const outputDir = join(TEST_OUTPUT_DIR, "table-diagrams-output");
+
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", {
+      format: "markdown",
+      output: outputDir,
+      tableDiagrams: true,
+    });
+
+    expect(result.exitCode).toBe(0);
+
+    const postsContent = readFileSync(join(outputDir, "posts.md"), "utf-8");
+    expect(postsContent).toContain("### ER Diagram");
+    expect(postsContent).toContain("```mermaid\nerDiagram");
+    expect(postsContent).toContain("    users {");
+    expect(postsContent).not.toContain("    orders {");
+
+    rmSync(outputDir, { recursive: true, force: true });
+  });
+
   it("should auto-detect defineRelations() and generate Markdown with relations", async () => {
     const result = await runGenerate(PG_SCHEMA_V1, "postgresql", {
       format: "markdown",
@@ -0,0 +1,56 @@
+/**
+ * Mermaid Format Output CLI Integration Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { runGenerate } from "../test-utils/cli-runner.js";
+import {
+  setupIntegrationTest,
+  PG_SCHEMA_V1,
+  TEST_OUTPUT_DIR,
+  existsSync,
+  rmSync,
+  readFileSync,
+  join,
+} from "./integration-test-utils.js";
+
+setupIntegrationTest();
+
+describe("Mermaid Format Output", () => {
+  it("should generate a bare Mermaid ER diagram with --format mermaid", async () => {
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", { format: "mermaid" });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stderr).toBe("");
+    expect(result.stdout.startsWith("erDiagram\n")).toBe(true);
+    expect(result.stdout).toContain("    users {");
+    expect(result.stdout).not.toContain("```");
+  });
+
+  it("should write a .mmd file with -o flag", async () => {
+    const outputPath = join(TEST_OUTPUT_DIR, "schema-output.mmd");
+
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", {
+      format: "mermaid",
+      output: outputPath,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain("Mermaid generated:");
+    expect(existsSync(outputPath)).toBe(true);
+    expect(readFileSync(outputPath, "utf-8").startsWith("erDiagram\n")).toBe(true);
+
+    rmSync(outputPath, { force: true });
+  });
+
+  it("should draw junction tables as many-to-many edges with --hide-junction-tables", async () => {
+    const result = await runGenerate(PG_SCHEMA_V1, "postgresql", {
+      format: "mermaid",
+      hideJunctionTables: true,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('posts }o--o{ tags : "post_tags"');
+    expect(result.stdout).not.toContain("post_tags {");
+  });
+});
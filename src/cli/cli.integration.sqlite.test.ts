@@ -90,11 +90,12 @@ describe("SQLite v1 (defineRelations())", () => {
     expect(hasTableNote(result.stdout, "posts", "Blog posts", '"')).toBe(true);
   });
 
-  it("should detect INTEGER PRIMARY KEY as auto-increment", async () => {
+  it("should not mark rowid-aliasing INTEGER PRIMARY KEY columns as auto-increment", async () => {
     const result = await runGenerate(SQLITE_SCHEMA_V1, "sqlite", { format: "dbml" });
 
     expect(result.exitCode).toBe(0);
-    expect(result.stdout).toContain('"id" integer [primary key, not null, increment');
+    expect(result.stdout).toContain('"id" integer [primary key, not null, note:');
+    expect(result.stdout).not.toContain("increment");
   });
 
   it("should auto-detect defineRelations() and generate relations", async () => {
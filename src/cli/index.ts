@@ -6,7 +6,7 @@
  * Generates DBML files from Drizzle ORM schema definitions.
  */
 
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import {
   existsSync,
   lstatSync,
@@ -16,20 +16,42 @@ import {
   watch,
   writeFileSync,
 } from "node:fs";
-import { dirname, join, resolve } from "node:path";
+import { createRequire } from "node:module";
+import { dirname, join, resolve, sep } from "node:path";
 import { pathToFileURL } from "node:url";
-import { pgGenerate } from "../generator/pg";
-import { mysqlGenerate } from "../generator/mysql";
-import { sqliteGenerate } from "../generator/sqlite";
 import { PgGenerator } from "../generator/pg";
 import { MySqlGenerator } from "../generator/mysql";
 import { SqliteGenerator } from "../generator/sqlite";
 import { MarkdownFormatter } from "../formatter/markdown";
 import { MermaidErDiagramFormatter } from "../formatter/mermaid";
+import { JsonFormatter } from "../formatter/json";
+import { DbmlFormatter } from "../formatter/dbml";
+import { HtmlFormatter, MERMAID_SCRIPT_PATH } from "../formatter/html";
+import type { FormatterOptions } from "../formatter/types";
+import { findConfigFile, loadConfig } from "../config/config";
+import {
+  findDrizzleConfigFile,
+  loadDrizzleConfig,
+  type DrizzleKitSettings,
+} from "../config/drizzle-config";
+import { filterIntermediateSchema } from "../utils/schema-filter";
+import { inferDialect } from "../utils/dialect";
+import type { OutputFormat } from "../config/types";
 import { register } from "tsx/esm/api";
 import { register as registerCjs } from "tsx/cjs/api";
-import type { IntermediateSchema } from "../types";
+import type { IntermediateSchema, TableDefinition, ViewDefinition } from "../types";
+import { qualifyName } from "../utils/table-name";
 import { resolveSchemaExports } from "./resolve-schema-exports";
+import { findStaleFiles } from "./check-output";
+import { diffSchemas, hasChanges } from "../diff/schema-diff";
+import { checkoutGitSchema, parseGitSpec, readSchemaJson } from "../diff/sources";
+import { MarkdownDiffReporter } from "../diff/markdown-reporter";
+import { JsonDiffReporter } from "../diff/json-reporter";
+import { TextDiffReporter } from "../diff/text-reporter";
+import type { DiffReporter, SchemaDiff } from "../diff/types";
+import { loadCommentsFile, scaffoldCommentsFile } from "../parser/comments-file";
+import type { CommentSource } from "../parser/comments";
+import { parseCommentPrecedence } from "../generator/comment-resolution";
 
 // Register both ESM and CJS tsx loader hooks.
 // ESM hooks handle import() calls, CJS hooks handle require() calls.
@@ -51,38 +73,40 @@ const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8")) as {
 program.name("drizzle-docs").description(packageJson.description).version(packageJson.version);
 
 type Dialect = "postgresql" | "mysql" | "sqlite";
-type OutputFormat = "dbml" | "markdown";
 
 interface GenerateCommandOptions {
+  config?: string; // path to a drizzle-docs config file
+  drizzleConfig?: string | boolean; // path to a drizzle-kit config file, or true to auto-detect
   output?: string;
-  dialect: Dialect;
+  dialect?: Dialect; // inferred from the schema's tables when omitted
   watch?: boolean;
   format: OutputFormat;
   singleFile?: boolean;
   erDiagram: boolean; // commander uses --no-er-diagram which sets erDiagram to false
   columns: boolean; // commander uses --no-columns which sets columns to false
+  tableDiagrams?: boolean; // embed a focused ER diagram in each per-table Markdown page
+  hideJunctionTables?: boolean; // draw many-to-many relations without their junction tables
   force?: boolean; // skip overwrite confirmation for existing files
+  check?: boolean; // compare the output against the files on disk instead of writing
+  formatterOptions?: FormatterOptions; // from the config file's output entry
+  schemaFilter?: string[]; // from drizzle.config.ts
+  tablesFilter?: string[]; // from drizzle.config.ts
+  commentsFile?: string; // external YAML or JSON file with table and column comments
+  commentPrecedence?: CommentSource[]; // comment sources in order of preference
 }
 
 /**
- * Get the generate function based on dialect
+ * A schema and the options to generate one output from it
  */
-function getGenerateFunction(dialect: Dialect) {
-  switch (dialect) {
-    case "mysql":
-      return mysqlGenerate;
-    case "sqlite":
-      return sqliteGenerate;
-    case "postgresql":
-    default:
-      return pgGenerate;
-  }
+interface GenerateTarget {
+  schemas: string[];
+  options: GenerateCommandOptions;
 }
 
 /**
  * Get the generator class based on dialect
  */
-function getGeneratorClass(dialect: Dialect) {
+function getGeneratorClass(dialect: Dialect | undefined) {
   switch (dialect) {
     case "mysql":
       return MySqlGenerator;
@@ -94,25 +118,50 @@ function getGeneratorClass(dialect: Dialect) {
   }
 }
 
+/**
+ * Get the human-readable label of an output format
+ */
+function getFormatLabel(format: OutputFormat): string {
+  switch (format) {
+    case "markdown":
+      return "Markdown";
+    case "json":
+      return "JSON";
+    case "mermaid":
+      return "Mermaid";
+    case "html":
+      return "HTML";
+    case "dbml":
+    default:
+      return "DBML";
+  }
+}
+
+/**
+ * Get the path of a table's (or view's) Markdown file relative to the output directory
+ *
+ * Tables and views in a named schema are written to a subdirectory named after the schema.
+ */
+function getTableFilePath(table: TableDefinition | ViewDefinition): string {
+  return table.schema ? join(table.schema, `${table.name}.md`) : `${table.name}.md`;
+}
+
 /**
  * Check if output directory has existing files
+ *
+ * @param files - Paths of the files to write, relative to the output directory
  */
-function hasExistingFiles(outputDir: string, tableNames: string[]): string[] {
+function hasExistingFiles(outputDir: string, files: string[]): string[] {
   const existingFiles: string[] = [];
 
   if (!existsSync(outputDir)) {
     return existingFiles;
   }
 
-  const readmePath = join(outputDir, "README.md");
-  if (existsSync(readmePath)) {
-    existingFiles.push(readmePath);
-  }
-
-  for (const tableName of tableNames) {
-    const tablePath = join(outputDir, `${tableName}.md`);
-    if (existsSync(tablePath)) {
-      existingFiles.push(tablePath);
+  for (const file of files) {
+    const filePath = join(outputDir, file);
+    if (existsSync(filePath)) {
+      existingFiles.push(filePath);
     }
   }
 
@@ -120,44 +169,58 @@ function hasExistingFiles(outputDir: string, tableNames: string[]): string[] {
 }
 
 /**
- * Generate output from a schema file (for watch mode)
+ * Import schema files and merge their exports
+ */
+async function importSchemaModules(
+  schemaPaths: string[],
+  bustCache: boolean,
+): Promise<Record<string, unknown>> {
+  const schemaModule: Record<string, unknown> = {};
+  for (const schemaPath of schemaPaths) {
+    // Use file URL for dynamic import (required for ESM)
+    const schemaUrl = pathToFileURL(schemaPath).href;
+
+    // Dynamic import with cache busting for watch mode
+    const cacheBuster = bustCache ? `?t=${Date.now()}` : "";
+    const rawModule = (await import(schemaUrl + cacheBuster)) as Record<string, unknown>;
+    Object.assign(schemaModule, resolveSchemaExports(rawModule));
+  }
+  return schemaModule;
+}
+
+/**
+ * Generate output from schema files (for watch mode)
  * Returns the generated output string for single-file formats,
  * or writes multiple files directly for multi-file markdown
  */
 async function generateFromSchema(
-  schemaPath: string,
+  schemaPaths: string[],
   options: GenerateCommandOptions,
 ): Promise<string | undefined> {
-  // Use file URL for dynamic import (required for ESM)
-  const schemaUrl = pathToFileURL(schemaPath).href;
-
-  // Dynamic import with cache busting for watch mode
-  const cacheBuster = options.watch ? `?t=${Date.now()}` : "";
-  const rawModule = (await import(schemaUrl + cacheBuster)) as Record<string, unknown>;
-  const schemaModule = resolveSchemaExports(rawModule);
-
-  if (options.format === "markdown") {
-    const GeneratorClass = getGeneratorClass(options.dialect);
-    const generator = new GeneratorClass({
-      schema: schemaModule,
-      source: schemaPath,
-    });
-    const intermediateSchema = generator.toIntermediateSchema();
+  const schemaModule = await importSchemaModules(schemaPaths, !!options.watch);
 
-    // Handle multi-file output in watch mode
-    if (!options.singleFile && options.output) {
-      writeMarkdownMultipleFiles(intermediateSchema, options.output, options);
-      return undefined;
-    }
+  if (options.format === "dbml") {
+    return generateDbmlOutput(schemaModule, schemaPaths, options);
+  }
 
-    return generateMarkdownOutput(intermediateSchema, options);
-  } else {
-    const generate = getGenerateFunction(options.dialect);
-    return generate({
-      schema: schemaModule,
-      source: schemaPath,
-    });
+  const intermediateSchema = createIntermediateSchema(schemaModule, schemaPaths, options);
+
+  if (options.format === "json") {
+    return generateJsonOutput(intermediateSchema, options);
+  } else if (options.format === "mermaid") {
+    return generateMermaidOutput(intermediateSchema, options);
+  } else if (options.format === "html") {
+    writeOutputFiles(options.output!, renderHtmlSite(intermediateSchema, options));
+    return undefined;
+  }
+
+  // Handle multi-file output in watch mode
+  if (!options.singleFile && options.output) {
+    writeMarkdownMultipleFiles(intermediateSchema, options.output, options);
+    return undefined;
   }
+
+  return generateMarkdownOutput(intermediateSchema, options);
 }
 
 /**
@@ -223,13 +286,38 @@ function generateDbmlOutput(
   schemaPaths: string[],
   options: GenerateCommandOptions,
 ): string {
-  const generate = getGenerateFunction(options.dialect);
-  return (
-    generate({
-      schema: mergedSchema,
-      source: schemaPaths[0],
-    }) || ""
-  );
+  const intermediateSchema = createIntermediateSchema(mergedSchema, schemaPaths, options);
+  const dbmlFormatter = new DbmlFormatter(options.formatterOptions);
+  return dbmlFormatter.format(intermediateSchema);
+}
+
+/**
+ * Generate JSON format output
+ */
+function generateJsonOutput(
+  intermediateSchema: IntermediateSchema,
+  options: GenerateCommandOptions,
+): string {
+  const jsonFormatter = new JsonFormatter({
+    ...options.formatterOptions,
+    generatorVersion: packageJson.version,
+  });
+  return jsonFormatter.format(intermediateSchema);
+}
+
+/**
+ * Generate Mermaid ER diagram output
+ */
+function generateMermaidOutput(
+  intermediateSchema: IntermediateSchema,
+  options: GenerateCommandOptions,
+): string {
+  const mermaidFormatter = new MermaidErDiagramFormatter({
+    ...options.formatterOptions,
+    includeColumns: options.columns,
+    hideJunctionTables: options.hideJunctionTables,
+  });
+  return mermaidFormatter.format(intermediateSchema);
 }
 
 /**
@@ -239,13 +327,15 @@ function generateMarkdownOutput(
   intermediateSchema: IntermediateSchema,
   options: GenerateCommandOptions,
 ): string {
-  const markdownFormatter = new MarkdownFormatter();
+  const markdownFormatter = new MarkdownFormatter(options.formatterOptions);
   const markdown = markdownFormatter.format(intermediateSchema);
 
   // Include ER diagram unless --no-er-diagram is specified
   if (options.erDiagram) {
     const mermaidFormatter = new MermaidErDiagramFormatter({
+      ...options.formatterOptions,
       includeColumns: options.columns,
+      hideJunctionTables: options.hideJunctionTables,
     });
     const erDiagram = mermaidFormatter.format(intermediateSchema);
 
@@ -256,38 +346,115 @@ function generateMarkdownOutput(
 }
 
 /**
- * Write Markdown to multiple files (one per table)
+ * Render Markdown as multiple files (one per table and view)
+ *
+ * @returns File contents keyed by path relative to the output directory
  */
-function writeMarkdownMultipleFiles(
+function renderMarkdownMultipleFiles(
   intermediateSchema: IntermediateSchema,
-  outputDir: string,
   options: GenerateCommandOptions,
-): void {
-  // Ensure output directory exists
-  mkdirSync(outputDir, { recursive: true });
+): Map<string, string> {
+  const files = new Map<string, string>();
 
-  const markdownFormatter = new MarkdownFormatter({ linkFormat: "file" });
+  const markdownFormatter = new MarkdownFormatter({
+    ...options.formatterOptions,
+    linkFormat: "file",
+  });
+  const mermaidFormatter = new MermaidErDiagramFormatter({
+    ...options.formatterOptions,
+    includeColumns: options.columns,
+    hideJunctionTables: options.hideJunctionTables,
+  });
 
-  // Write README.md with index
+  // README.md with index, followed by sequences and roles
   const index = markdownFormatter.generateIndex(intermediateSchema);
   let readme = `${index}\n`;
+  const sequencesAndRoles = markdownFormatter.generateSequencesAndRoles(intermediateSchema);
+  if (sequencesAndRoles) {
+    readme += `\n---\n\n${sequencesAndRoles}\n`;
+  }
 
   // Add ER diagram to README unless disabled
   if (options.erDiagram) {
-    const mermaidFormatter = new MermaidErDiagramFormatter({
-      includeColumns: options.columns,
-    });
     const erDiagram = mermaidFormatter.format(intermediateSchema);
     readme += `\n---\n\n## ER Diagram\n\n\`\`\`mermaid\n${erDiagram}\n\`\`\`\n`;
   }
 
-  writeFileSync(join(outputDir, "README.md"), readme, "utf-8");
+  files.set("README.md", readme);
 
-  // Write individual table files
+  // Individual table files (in per-schema subdirectories for named schemas)
   for (const table of intermediateSchema.tables) {
-    const tableDoc = markdownFormatter.generateTableDoc(table, intermediateSchema);
-    const fileName = `${table.name}.md`;
-    writeFileSync(join(outputDir, fileName), `# ${table.name}\n\n${tableDoc}\n`, "utf-8");
+    let tableDoc = markdownFormatter.generateTableDoc(table, intermediateSchema);
+    const title = qualifyName(table.name, table.schema);
+
+    // Add a diagram of the table and its direct neighbors if requested
+    if (options.tableDiagrams) {
+      const focusedDiagram = mermaidFormatter.formatFocused(intermediateSchema, title);
+      tableDoc += `\n\n### ER Diagram\n\n\`\`\`mermaid\n${focusedDiagram}\n\`\`\``;
+    }
+
+    files.set(getTableFilePath(table), `# ${title}\n\n${tableDoc}\n`);
+  }
+
+  // Individual view files alongside the tables
+  for (const view of intermediateSchema.views ?? []) {
+    const viewDoc = markdownFormatter.generateViewDoc(view);
+    const title = qualifyName(view.name, view.schema);
+    files.set(getTableFilePath(view), `# ${title}\n\n${viewDoc}\n`);
+  }
+
+  return files;
+}
+
+/**
+ * Write Markdown to multiple files (one per table and view)
+ */
+function writeMarkdownMultipleFiles(
+  intermediateSchema: IntermediateSchema,
+  outputDir: string,
+  options: GenerateCommandOptions,
+): void {
+  writeOutputFiles(outputDir, renderMarkdownMultipleFiles(intermediateSchema, options));
+}
+
+/**
+ * Render the static HTML site, including the bundled copy of Mermaid
+ *
+ * Mermaid is copied from the installed `mermaid` package so that the relation graph
+ * renders without network access.
+ *
+ * @returns File contents keyed by path relative to the output directory
+ */
+function renderHtmlSite(
+  intermediateSchema: IntermediateSchema,
+  options: GenerateCommandOptions,
+): Map<string, string> {
+  const htmlFormatter = new HtmlFormatter({
+    ...options.formatterOptions,
+    includeColumns: options.columns,
+    hideJunctionTables: options.hideJunctionTables,
+  });
+  const files = htmlFormatter.generateSite(intermediateSchema);
+
+  const mermaidPath = createRequire(import.meta.url).resolve("mermaid/dist/mermaid.min.js");
+  files.set(MERMAID_SCRIPT_PATH, readFileSync(mermaidPath, "utf-8"));
+
+  return files;
+}
+
+/**
+ * Write files to the output directory, creating subdirectories as needed
+ *
+ * @param files - File contents keyed by path relative to the output directory
+ */
+function writeOutputFiles(outputDir: string, files: Map<string, string>): void {
+  // Ensure output directory exists
+  mkdirSync(outputDir, { recursive: true });
+
+  for (const [file, content] of files) {
+    const filePath = join(outputDir, file);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content, "utf-8");
   }
 }
 
@@ -297,14 +464,154 @@ function writeMarkdownMultipleFiles(
 function writeSingleMarkdownFile(content: string, outputPath: string): void {
   const dir = dirname(outputPath);
   mkdirSync(dir, { recursive: true });
-  writeFileSync(outputPath, content.endsWith("\n") ? content : content + "\n", "utf-8");
+  writeFileSync(outputPath, withTrailingNewline(content), "utf-8");
+}
+
+/**
+ * Ensure file content ends with a newline
+ */
+function withTrailingNewline(content: string): string {
+  return content.endsWith("\n") ? content : content + "\n";
+}
+
+/**
+ * Generate the content of a single-file output (DBML, JSON, Mermaid or single-file Markdown)
+ */
+function generateSingleFileOutput(
+  mergedSchema: Record<string, unknown>,
+  schemaPaths: string[],
+  options: GenerateCommandOptions,
+): string {
+  switch (options.format) {
+    case "dbml":
+      return generateDbmlOutput(mergedSchema, schemaPaths, options);
+    case "json":
+      return generateJsonOutput(
+        createIntermediateSchema(mergedSchema, schemaPaths, options),
+        options,
+      );
+    case "mermaid":
+      return generateMermaidOutput(
+        createIntermediateSchema(mergedSchema, schemaPaths, options),
+        options,
+      );
+    case "markdown":
+      return generateMarkdownOutput(
+        createIntermediateSchema(mergedSchema, schemaPaths, options),
+        options,
+      );
+    case "html":
+      throw new Error("HTML output is a directory of pages, not a single file");
+  }
+}
+
+/**
+ * Compare the output of a generate target against the files on disk
+ *
+ * Prints a unified diff of every stale file and sets a non-zero exit code when
+ * anything is out of date. For multi-file Markdown and HTML, table, view and enum pages
+ * in the output directory that would no longer be generated are reported as orphaned;
+ * hand-written files kept alongside them are ignored.
+ */
+function checkGeneratedOutput(
+  mergedSchema: Record<string, unknown>,
+  schemaPaths: string[],
+  options: GenerateCommandOptions,
+): void {
+  const outputPath = resolve(process.cwd(), options.output!);
+  const isMultiFile =
+    (options.format === "markdown" && !options.singleFile) || options.format === "html";
+
+  const expectedFiles = new Map<string, string>();
+  if (isMultiFile) {
+    const intermediateSchema = createIntermediateSchema(mergedSchema, schemaPaths, options);
+    const files =
+      options.format === "html"
+        ? renderHtmlSite(intermediateSchema, options)
+        : renderMarkdownMultipleFiles(intermediateSchema, options);
+    for (const [file, content] of files) {
+      expectedFiles.set(join(outputPath, file), content);
+    }
+  } else {
+    const content = generateSingleFileOutput(mergedSchema, schemaPaths, options);
+    expectedFiles.set(outputPath, withTrailingNewline(content));
+  }
+
+  const outputLabel = isMultiFile ? `${options.output}/` : options.output;
+  const staleFiles = findStaleFiles(
+    expectedFiles,
+    isMultiFile ? outputPath : undefined,
+    options.format === "html" ? "html" : "markdown",
+  );
+  if (staleFiles.length === 0) {
+    console.log(`${getFormatLabel(options.format)} is up to date: ${outputLabel}`);
+    return;
+  }
+
+  for (const staleFile of staleFiles) {
+    console.log(staleFile.diff);
+  }
+  console.error(
+    `Error: ${getFormatLabel(options.format)} is out of date: ${outputLabel}\n${staleFiles
+      .map((f) => `  - ${f.path} (${f.reason})`)
+      .join("\n")}\nRun drizzle-docs generate without --check to update it.`,
+  );
+  process.exitCode = 1;
+}
+
+/**
+ * Build the intermediate schema from the merged schema modules
+ */
+function createIntermediateSchema(
+  mergedSchema: Record<string, unknown>,
+  schemaPaths: string[],
+  options: Pick<
+    GenerateCommandOptions,
+    "dialect" | "schemaFilter" | "tablesFilter" | "commentsFile" | "commentPrecedence"
+  >,
+): IntermediateSchema {
+  // Mixed dialects are rejected even with an explicit dialect
+  const inferredDialect = inferDialect(mergedSchema);
+  const GeneratorClass = getGeneratorClass(options.dialect ?? inferredDialect);
+  const generator = new GeneratorClass({
+    schema: mergedSchema,
+    source: getSourcePath(schemaPaths),
+    externalComments: options.commentsFile ? loadCommentsFile(options.commentsFile) : undefined,
+    commentPrecedence: options.commentPrecedence,
+    onWarning: (message) => console.warn(`Warning: ${message}`),
+  });
+  return filterIntermediateSchema(generator.toIntermediateSchema(), options);
+}
+
+/**
+ * Get the path to extract comments and relations from
+ *
+ * For multiple files, this is their closest common directory so that comments
+ * are extracted from all files.
+ */
+function getSourcePath(schemaPaths: string[]): string {
+  const [firstFilePath, ...otherFilePaths] = schemaPaths;
+  if (!firstFilePath) {
+    throw new Error("No schema files found");
+  }
+  if (otherFilePaths.length === 0) {
+    return firstFilePath;
+  }
+
+  let commonDir = dirname(firstFilePath);
+  for (const filePath of otherFilePaths) {
+    while (!filePath.startsWith(commonDir.endsWith(sep) ? commonDir : commonDir + sep)) {
+      commonDir = dirname(commonDir);
+    }
+  }
+  return commonDir;
 }
 
 /**
  * Run the generate command
  */
-async function runGenerate(schema: string, options: GenerateCommandOptions): Promise<void> {
-  const schemaPaths = resolveSchemaPath(schema);
+async function runGenerate(schemas: string[], options: GenerateCommandOptions): Promise<void> {
+  const schemaPaths = schemas.flatMap((schema) => resolveSchemaPath(schema));
 
   try {
     // Merge all schema modules
@@ -329,20 +636,11 @@ async function runGenerate(schema: string, options: GenerateCommandOptions): Pro
       }
     }
 
-    if (options.format === "markdown") {
+    if (options.check) {
+      checkGeneratedOutput(mergedSchema, schemaPaths, options);
+    } else if (options.format === "markdown") {
       // Generate Markdown format
-      const GeneratorClass = getGeneratorClass(options.dialect);
-      // For multiple files, pass the directory path to extract comments from all files
-      const firstFilePath = schemaPaths[0];
-      if (!firstFilePath) {
-        throw new Error("No schema files found");
-      }
-      const sourcePath = schemaPaths.length === 1 ? firstFilePath : dirname(firstFilePath);
-      const generator = new GeneratorClass({
-        schema: mergedSchema,
-        source: sourcePath,
-      });
-      const intermediateSchema = generator.toIntermediateSchema();
+      const intermediateSchema = createIntermediateSchema(mergedSchema, schemaPaths, options);
 
       if (options.singleFile) {
         // Single file Markdown output
@@ -370,8 +668,11 @@ async function runGenerate(schema: string, options: GenerateCommandOptions): Pro
         } else {
           // Check for existing files if --force is not specified
           if (!options.force) {
-            const tableNames = intermediateSchema.tables.map((t) => t.name);
-            const existingFiles = hasExistingFiles(options.output, tableNames);
+            const tableFiles = [
+              ...intermediateSchema.tables,
+              ...(intermediateSchema.views ?? []),
+            ].map((t) => getTableFilePath(t));
+            const existingFiles = hasExistingFiles(options.output, ["README.md", ...tableFiles]);
             if (existingFiles.length > 0) {
               console.error(
                 `Error: The following files already exist:\n${existingFiles.map((f) => `  - ${f}`).join("\n")}\nUse --force to overwrite existing files.`,
@@ -383,9 +684,26 @@ async function runGenerate(schema: string, options: GenerateCommandOptions): Pro
           console.log(`Markdown generated: ${options.output}/`);
         }
       }
+    } else if (options.format === "html") {
+      // Static HTML site (the output directory is required)
+      const intermediateSchema = createIntermediateSchema(mergedSchema, schemaPaths, options);
+      const files = renderHtmlSite(intermediateSchema, options);
+
+      // Check for existing files if --force is not specified
+      if (!options.force) {
+        const existingFiles = hasExistingFiles(options.output!, [...files.keys()]);
+        if (existingFiles.length > 0) {
+          console.error(
+            `Error: The following files already exist:\n${existingFiles.map((f) => `  - ${f}`).join("\n")}\nUse --force to overwrite existing files.`,
+          );
+          process.exit(1);
+        }
+      }
+      writeOutputFiles(options.output!, files);
+      console.log(`HTML generated: ${options.output}/`);
     } else {
-      // Generate DBML format
-      const dbml = generateDbmlOutput(mergedSchema, schemaPaths, options);
+      // Generate DBML, JSON or Mermaid format (single output)
+      const content = generateSingleFileOutput(mergedSchema, schemaPaths, options);
 
       if (options.output) {
         // Check for existing file if --force is not specified
@@ -397,10 +715,10 @@ async function runGenerate(schema: string, options: GenerateCommandOptions): Pro
         }
         const dir = dirname(options.output);
         mkdirSync(dir, { recursive: true });
-        writeFileSync(options.output, dbml.endsWith("\n") ? dbml : dbml + "\n", "utf-8");
-        console.log(`DBML generated: ${options.output}`);
+        writeFileSync(options.output, withTrailingNewline(content), "utf-8");
+        console.log(`${getFormatLabel(options.format)} generated: ${options.output}`);
       } else {
-        console.log(dbml);
+        console.log(content);
       }
     }
   } catch (error) {
@@ -416,14 +734,17 @@ async function runGenerate(schema: string, options: GenerateCommandOptions): Pro
 /**
  * Watch mode: regenerate on file changes
  */
-function watchSchema(schema: string, options: GenerateCommandOptions): void {
-  const schemaPath = resolve(process.cwd(), schema);
-
-  console.log(`Watching for changes: ${schemaPath}`);
-
+function watchSchema(schemas: string[], options: GenerateCommandOptions): void {
+  const schemaPaths = schemas.flatMap((schema) => resolveSchemaPath(schema));
   let debounceTimer: NodeJS.Timeout | null = null;
 
-  watch(schemaPath, async (eventType) => {
+  for (const schema of schemas) {
+    const schemaPath = resolve(process.cwd(), schema);
+    console.log(`Watching for changes: ${schemaPath}`);
+    watch(schemaPath, onChange);
+  }
+
+  async function onChange(eventType: string): Promise<void> {
     if (eventType === "change") {
       // Debounce to avoid multiple triggers
       if (debounceTimer) {
@@ -433,10 +754,11 @@ function watchSchema(schema: string, options: GenerateCommandOptions): void {
       debounceTimer = setTimeout(async () => {
         console.log("\nFile changed, regenerating...");
         try {
-          const output = await generateFromSchema(schemaPath, options);
-          const formatLabel = options.format === "markdown" ? "Markdown" : "DBML";
+          const output = await generateFromSchema(schemaPaths, options);
+          const formatLabel = getFormatLabel(options.format);
           const isMultiFile =
-            options.format === "markdown" && !options.singleFile && options.output;
+            ((options.format === "markdown" && !options.singleFile) || options.format === "html") &&
+            options.output;
 
           if (!options.output && output) {
             console.log(output);
@@ -453,62 +775,420 @@ function watchSchema(schema: string, options: GenerateCommandOptions): void {
         }
       }, 100);
     }
-  });
+  }
+}
+
+/**
+ * Validate the options of a generate target, exiting on invalid values
+ */
+function validateGenerateOptions(options: GenerateCommandOptions): void {
+  // Validate dialect
+  const validDialects: Dialect[] = ["postgresql", "mysql", "sqlite"];
+  if (options.dialect && !validDialects.includes(options.dialect)) {
+    console.error(
+      `Error: Invalid dialect "${options.dialect}". Valid options: ${validDialects.join(", ")}`,
+    );
+    process.exit(1);
+  }
+
+  // Validate format
+  const validFormats: OutputFormat[] = ["dbml", "markdown", "json", "mermaid", "html"];
+  if (!validFormats.includes(options.format)) {
+    console.error(
+      `Error: Invalid format "${options.format}". Valid options: ${validFormats.join(", ")}`,
+    );
+    process.exit(1);
+  }
+
+  // The HTML site is a directory of pages, so it cannot be written to stdout
+  if (options.format === "html" && !options.output) {
+    console.error(
+      "Error: --format html requires an output directory (--output or the config's path)",
+    );
+    process.exit(1);
+  }
+
+  // --check compares files, so it needs an output path and cannot watch
+  if (options.check && !options.output) {
+    console.error(`Error: --check requires an output path (--output or the config's outputs)`);
+    process.exit(1);
+  }
+  if (options.check && options.watch) {
+    console.error("Error: --check cannot be used with --watch");
+    process.exit(1);
+  }
+
+  // Warn if Markdown-only options are used with other formats
+  if (options.format !== "markdown") {
+    if (options.singleFile) {
+      console.warn("Warning: --single-file is only applicable with --format markdown");
+    }
+    if (!options.erDiagram) {
+      console.warn("Warning: --no-er-diagram is only applicable with --format markdown");
+    }
+    if (options.tableDiagrams) {
+      console.warn("Warning: --table-diagrams is only applicable with --format markdown");
+    }
+    if (!options.columns && options.format !== "mermaid" && options.format !== "html") {
+      console.warn(
+        "Warning: --no-columns is only applicable with --format markdown, mermaid or html",
+      );
+    }
+    if (options.hideJunctionTables && options.format !== "mermaid" && options.format !== "html") {
+      console.warn(
+        "Warning: --hide-junction-tables is only applicable with --format markdown, mermaid or html",
+      );
+    }
+  } else if (options.tableDiagrams && options.singleFile) {
+    console.warn("Warning: --table-diagrams is only applicable to multi-file Markdown output");
+  }
+}
+
+/**
+ * Resolve the schema and outputs to generate from CLI arguments and the config file
+ *
+ * Without a config file, the CLI arguments describe a single output. With one, each
+ * configured output becomes a target. CLI flags override config values: the schema
+ * argument and `--dialect` replace the configured ones, `--format` or `--output`
+ * replace the configured outputs with a single output, and the remaining flags
+ * override the corresponding setting of every output.
+ *
+ * A drizzle-kit config (`--drizzle-config`, or drizzle.config.{ts,js,json} when neither
+ * a schema argument nor a drizzle-docs config is given) supplies the schema, dialect
+ * and table filters as fallbacks.
+ */
+async function resolveGenerateTargets(
+  schemaArg: string | undefined,
+  cliOptions: GenerateCommandOptions,
+  command: Command,
+): Promise<GenerateTarget[]> {
+  const configPath = cliOptions.config
+    ? resolve(process.cwd(), cliOptions.config)
+    : findConfigFile(process.cwd());
+  const isSetOnCli = (name: string) => command.getOptionValueSource(name) === "cli";
+
+  const drizzleConfigPath = resolveDrizzleConfigPath(
+    cliOptions.drizzleConfig,
+    !schemaArg && !configPath,
+  );
+  const drizzleKit: DrizzleKitSettings | undefined = drizzleConfigPath
+    ? await loadDrizzleConfig(drizzleConfigPath)
+    : undefined;
+  const filters = {
+    schemaFilter: drizzleKit?.schemaFilter,
+    tablesFilter: drizzleKit?.tablesFilter,
+  };
+
+  if (!configPath) {
+    const schemas = schemaArg ? [schemaArg] : drizzleKit?.schema;
+    if (!schemas) {
+      throw new Error(
+        "Missing schema path. Pass it as an argument or declare it in drizzle-docs.config.{ts,js,json} or drizzle.config.{ts,js,json}",
+      );
+    }
+    const dialect = cliOptions.dialect ?? drizzleKit?.dialect;
+    return [{ schemas, options: { ...cliOptions, ...filters, dialect } }];
+  }
+
+  const config = await loadConfig(configPath);
+
+  const outputs =
+    isSetOnCli("format") || isSetOnCli("output")
+      ? [{ format: cliOptions.format, path: cliOptions.output }]
+      : config.outputs;
+
+  return outputs.map((output) => ({
+    schemas: [schemaArg ?? config.schema],
+    options: {
+      ...cliOptions,
+      ...filters,
+      dialect: cliOptions.dialect ?? config.dialect ?? drizzleKit?.dialect,
+      format: output.format,
+      output: output.path,
+      singleFile: isSetOnCli("singleFile") ? cliOptions.singleFile : output.singleFile,
+      erDiagram: isSetOnCli("erDiagram") ? cliOptions.erDiagram : (output.erDiagram ?? true),
+      columns: isSetOnCli("columns") ? cliOptions.columns : (output.columns ?? true),
+      tableDiagrams: isSetOnCli("tableDiagrams") ? cliOptions.tableDiagrams : output.tableDiagrams,
+      hideJunctionTables: isSetOnCli("hideJunctionTables")
+        ? cliOptions.hideJunctionTables
+        : output.hideJunctionTables,
+      force: isSetOnCli("force") ? cliOptions.force : config.force,
+      commentsFile: cliOptions.commentsFile ?? config.commentsFile,
+      commentPrecedence: cliOptions.commentPrecedence ?? config.commentPrecedence,
+      formatterOptions: output.formatterOptions,
+    },
+  }));
+}
+
+/**
+ * Parse the `--comment-precedence` value, reporting problems as invalid arguments
+ */
+function parseCommentPrecedenceOption(value: string): CommentSource[] {
+  try {
+    return parseCommentPrecedence(value);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Get the drizzle-kit config to read, if any
+ *
+ * @param option - The `--drizzle-config` value (a path, or true when given without one)
+ * @param autoDetect - Whether to look for drizzle.config.{ts,js,json} without the flag
+ */
+function resolveDrizzleConfigPath(
+  option: string | boolean | undefined,
+  autoDetect: boolean,
+): string | undefined {
+  if (typeof option === "string") {
+    return resolve(process.cwd(), option);
+  }
+  const foundPath = option || autoDetect ? findDrizzleConfigFile(process.cwd()) : undefined;
+  if (option && !foundPath) {
+    throw new Error("No drizzle.config.{ts,js,json} found in the current directory");
+  }
+  return foundPath;
 }
 
 program
   .command("generate")
   .description("Generate documentation from Drizzle schema files")
-  .argument("<schema>", "Path to Drizzle schema file or directory")
-  .option("-o, --output <path>", "Output file or directory path")
-  .option("-d, --dialect <dialect>", "Database dialect (postgresql, mysql, sqlite)", "postgresql")
-  .option("-f, --format <format>", "Output format (dbml, markdown)", "markdown")
+  .argument(
+    "[schema]",
+    "Path to Drizzle schema file or directory (defaults to the config's schema)",
+  )
+  .option(
+    "-c, --config <path>",
+    "Path to config file (defaults to drizzle-docs.config.{ts,js,json} in the current directory)",
+  )
+  .option(
+    "--drizzle-config [path]",
+    "Read dialect and schema from a drizzle-kit config (defaults to drizzle.config.{ts,js,json} in the current directory)",
+  )
+  .option("-o, --output <path>", "Output file or directory path (required for html)")
+  .option(
+    "-d, --dialect <dialect>",
+    "Database dialect (postgresql, mysql, sqlite; inferred from the schema by default)",
+  )
+  .option(
+    "-f, --format <format>",
+    "Output format (dbml, markdown, json, mermaid, html)",
+    "markdown",
+  )
   .option("-w, --watch", "Watch for file changes and regenerate")
   .option("--single-file", "Output Markdown as a single file (for markdown format)")
   .option("--no-er-diagram", "Exclude ER diagram from Markdown output")
   .option("--no-columns", "Exclude columns from Mermaid ER diagram")
+  .option(
+    "--table-diagrams",
+    "Add a focused ER diagram to each table page (for multi-file markdown format)",
+  )
+  .option(
+    "--hide-junction-tables",
+    "Draw many-to-many relations as a single edge without the junction table in ER diagrams",
+  )
+  .option(
+    "--comments-file <path>",
+    "YAML or JSON file with table and column comments, tags, owners and deprecations",
+  )
+  .option(
+    "--comment-precedence <sources>",
+    "Comment sources in order of preference (comma-separated: file, jsdoc, runtime)",
+    parseCommentPrecedenceOption,
+  )
   .option("--force", "Overwrite existing files without confirmation")
-  .action(async (schema: string, options: GenerateCommandOptions) => {
-    // Validate dialect
-    const validDialects: Dialect[] = ["postgresql", "mysql", "sqlite"];
-    if (!validDialects.includes(options.dialect)) {
-      console.error(
-        `Error: Invalid dialect "${options.dialect}". Valid options: ${validDialects.join(", ")}`,
-      );
+  .option("--check", "Check that the output files are up to date instead of writing them")
+  .action(async (schemaArg: string | undefined, cliOptions: GenerateCommandOptions, command) => {
+    let targets: GenerateTarget[];
+    try {
+      targets = await resolveGenerateTargets(schemaArg, cliOptions, command);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
       process.exit(1);
     }
 
-    // Validate format
-    const validFormats: OutputFormat[] = ["dbml", "markdown"];
+    for (const { options } of targets) {
+      validateGenerateOptions(options);
+    }
+
+    // Initial generation
+    for (const { schemas, options } of targets) {
+      await runGenerate(schemas, options);
+    }
+
+    // Start watch mode if requested
+    if (cliOptions.watch) {
+      for (const { schemas, options } of targets) {
+        watchSchema(schemas, options);
+      }
+    }
+  });
+
+type DiffFormat = "markdown" | "json" | "text";
+
+interface DiffCommandOptions {
+  dialect?: Dialect;
+  format: DiffFormat;
+  output?: string;
+  exitCode?: boolean;
+}
+
+/**
+ * Build the intermediate schema of one side of a diff
+ *
+ * The spec is a JSON file emitted by `--format json`, a schema file or directory,
+ * or a `<ref>:<path>` git spec.
+ */
+async function loadDiffSchema(
+  spec: string,
+  options: DiffCommandOptions,
+): Promise<IntermediateSchema> {
+  const specPath = resolve(process.cwd(), spec);
+  if (existsSync(specPath) && specPath.endsWith(".json")) {
+    return readSchemaJson(specPath);
+  }
+
+  const gitSpec = existsSync(specPath) ? undefined : parseGitSpec(spec);
+  const checkout = gitSpec ? checkoutGitSchema(gitSpec, process.cwd()) : undefined;
+  try {
+    const schemaPath = checkout?.schemaPath ?? spec;
+    if (checkout && schemaPath.endsWith(".json")) {
+      return readSchemaJson(schemaPath);
+    }
+    const schemaPaths = resolveSchemaPath(schemaPath);
+    const mergedSchema = await importSchemaModules(schemaPaths, false);
+    return createIntermediateSchema(mergedSchema, schemaPaths, options);
+  } finally {
+    checkout?.cleanup();
+  }
+}
+
+/**
+ * Get the reporter for a diff format
+ */
+function getDiffReporter(format: DiffFormat): DiffReporter {
+  switch (format) {
+    case "markdown":
+      return new MarkdownDiffReporter();
+    case "json":
+      return new JsonDiffReporter();
+    case "text":
+    default:
+      return new TextDiffReporter();
+  }
+}
+
+program
+  .command("diff")
+  .description("Report the changes between two schemas")
+  .argument(
+    "<old>",
+    "Old schema: schema file or directory, <git-ref>:<path>, or JSON emitted by --format json",
+  )
+  .argument("<new>", "New schema (same forms as <old>)")
+  .option(
+    "-d, --dialect <dialect>",
+    "Database dialect (postgresql, mysql, sqlite; inferred from the schema by default)",
+  )
+  .option("-f, --format <format>", "Report format (text, markdown, json)", "text")
+  .option("-o, --output <path>", "Write the report to a file")
+  .option("--exit-code", "Exit with code 1 when the schemas differ")
+  .action(async (oldSpec: string, newSpec: string, options: DiffCommandOptions) => {
+    const validFormats: DiffFormat[] = ["markdown", "json", "text"];
     if (!validFormats.includes(options.format)) {
       console.error(
         `Error: Invalid format "${options.format}". Valid options: ${validFormats.join(", ")}`,
       );
       process.exit(1);
     }
+    const validDialects: Dialect[] = ["postgresql", "mysql", "sqlite"];
+    if (options.dialect && !validDialects.includes(options.dialect)) {
+      console.error(
+        `Error: Invalid dialect "${options.dialect}". Valid options: ${validDialects.join(", ")}`,
+      );
+      process.exit(1);
+    }
 
-    // Warn if --single-file, --no-er-diagram, or --no-columns used with non-markdown format
-    if (options.format !== "markdown") {
-      if (options.singleFile) {
-        console.warn("Warning: --single-file is only applicable with --format markdown");
-      }
-      if (!options.erDiagram) {
-        console.warn("Warning: --no-er-diagram is only applicable with --format markdown");
-      }
-      if (!options.columns) {
-        console.warn("Warning: --no-columns is only applicable with --format markdown");
-      }
+    let diff: SchemaDiff;
+    try {
+      const oldSchema = await loadDiffSchema(oldSpec, options);
+      const newSchema = await loadDiffSchema(newSpec, options);
+      diff = diffSchemas(oldSchema, newSchema);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
     }
 
-    // Initial generation
-    await runGenerate(schema, options);
+    const report = getDiffReporter(options.format).report(diff);
+    if (options.output) {
+      mkdirSync(dirname(options.output), { recursive: true });
+      writeFileSync(options.output, report + "\n", "utf-8");
+      console.log(`Diff report generated: ${options.output}`);
+    } else {
+      console.log(report);
+    }
 
-    // Start watch mode if requested
-    if (options.watch) {
-      watchSchema(schema, options);
+    if (options.exitCode && hasChanges(diff)) {
+      process.exit(1);
     }
   });
 
+interface CommentsInitCommandOptions {
+  dialect?: Dialect;
+  output: string;
+  force?: boolean;
+}
+
+const commentsCommand = program
+  .command("comments")
+  .description("Manage the external comments file (see generate --comments-file)");
+
+commentsCommand
+  .command("init")
+  .description("Scaffold a comments file with empty placeholders for every table and column")
+  .argument("<schema>", "Path to Drizzle schema file or directory")
+  .option(
+    "-o, --output <path>",
+    "Comments file to create (YAML for .yaml/.yml, JSON otherwise)",
+    "drizzle-docs.comments.yaml",
+  )
+  .option(
+    "-d, --dialect <dialect>",
+    "Database dialect (postgresql, mysql, sqlite; inferred from the schema by default)",
+  )
+  .option("--force", "Overwrite an existing comments file")
+  .action(async (schema: string, options: CommentsInitCommandOptions) => {
+    const validDialects: Dialect[] = ["postgresql", "mysql", "sqlite"];
+    if (options.dialect && !validDialects.includes(options.dialect)) {
+      console.error(
+        `Error: Invalid dialect "${options.dialect}". Valid options: ${validDialects.join(", ")}`,
+      );
+      process.exit(1);
+    }
+    if (existsSync(options.output) && !options.force) {
+      console.error(
+        `Error: Comments file already exists: ${options.output}\nUse --force to overwrite it.`,
+      );
+      process.exit(1);
+    }
+
+    let content: string;
+    try {
+      const schemaPaths = resolveSchemaPath(schema);
+      const mergedSchema = await importSchemaModules(schemaPaths, false);
+      const intermediateSchema = createIntermediateSchema(mergedSchema, schemaPaths, options);
+      content = scaffoldCommentsFile(intermediateSchema, options.output);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+
+    mkdirSync(dirname(options.output), { recursive: true });
+    writeFileSync(options.output, content, "utf-8");
+    console.log(`Comments file created: ${options.output}`);
+  });
+
 program.parse();
 
 // Cleanup: Unregister tsx loaders when process exits
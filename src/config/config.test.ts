@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { defineConfig, findConfigFile, loadConfig } from "./config";
+import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+
+const TEST_DIR = join(import.meta.dirname, "__test_fixtures__");
+
+describe("defineConfig", () => {
+  it("should return the config unchanged", () => {
+    const config = {
+      schema: "./schema.ts",
+      outputs: [{ format: "dbml" as const, path: "./schema.dbml" }],
+    };
+
+    expect(defineConfig(config)).toBe(config);
+  });
+});
+
+describe("findConfigFile", () => {
+  beforeAll(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should return undefined when no config file exists", () => {
+    const dir = join(TEST_DIR, "no-config");
+    mkdirSync(dir, { recursive: true });
+
+    expect(findConfigFile(dir)).toBeUndefined();
+  });
+
+  it("should prefer TypeScript over JavaScript and JSON configs", () => {
+    const dir = join(TEST_DIR, "multiple-configs");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "drizzle-docs.config.json"), "{}");
+    writeFileSync(join(dir, "drizzle-docs.config.ts"), "export default {};");
+
+    expect(findConfigFile(dir)).toBe(join(dir, "drizzle-docs.config.ts"));
+  });
+});
+
+describe("loadConfig", () => {
+  beforeAll(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should load a JSON config and resolve paths relative to it", async () => {
+    const dir = join(TEST_DIR, "json-config");
+    mkdirSync(dir, { recursive: true });
+    const configPath = join(dir, "drizzle-docs.config.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        schema: "./db/schema.ts",
+        dialect: "mysql",
+        outputs: [
+          { format: "markdown", path: "./docs", formatterOptions: { includeIndexes: false } },
+          { format: "json" },
+        ],
+      }),
+    );
+
+    const config = await loadConfig(configPath);
+
+    expect(config.schema).toBe(join(dir, "db/schema.ts"));
+    expect(config.dialect).toBe("mysql");
+    expect(config.outputs[0]).toEqual({
+      format: "markdown",
+      path: join(dir, "docs"),
+      formatterOptions: { includeIndexes: false },
+    });
+    expect(config.outputs[1].path).toBeUndefined();
+  });
+
+  it("should load the default export of a TypeScript config", async () => {
+    const dir = join(TEST_DIR, "ts-config");
+    mkdirSync(dir, { recursive: true });
+    const configPath = join(dir, "drizzle-docs.config.ts");
+    writeFileSync(
+      configPath,
+      `
+export default {
+  schema: "./schema.ts",
+  outputs: [{ format: "dbml", path: "./schema.dbml" }],
+};
+`,
+    );
+
+    const config = await loadConfig(configPath);
+
+    expect(config.schema).toBe(join(dir, "schema.ts"));
+    expect(config.outputs).toEqual([{ format: "dbml", path: join(dir, "schema.dbml") }]);
+  });
+
+  it("should throw when the config file does not exist", async () => {
+    await expect(loadConfig(join(TEST_DIR, "missing.config.json"))).rejects.toThrow(
+      "Config file not found",
+    );
+  });
+
+  it("should reject configs without outputs", async () => {
+    const configPath = join(TEST_DIR, "no-outputs.config.json");
+    writeFileSync(configPath, JSON.stringify({ schema: "./schema.ts", outputs: [] }));
+
+    await expect(loadConfig(configPath)).rejects.toThrow('"outputs" must be a non-empty array');
+  });
+
+  it("should reject unknown output formats", async () => {
+    const configPath = join(TEST_DIR, "bad-format.config.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({ schema: "./schema.ts", outputs: [{ format: "pdf" }] }),
+    );
+
+    await expect(loadConfig(configPath)).rejects.toThrow('"outputs[0].format" must be one of');
+  });
+
+  it("should resolve the comments file relative to the config", async () => {
+    const dir = join(TEST_DIR, "comments-config");
+    mkdirSync(dir, { recursive: true });
+    const configPath = join(dir, "drizzle-docs.config.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        schema: "./schema.ts",
+        commentsFile: "./comments.json",
+        commentPrecedence: ["runtime", "file"],
+        outputs: [{ format: "dbml" }],
+      }),
+    );
+
+    const config = await loadConfig(configPath);
+
+    expect(config.commentsFile).toBe(join(dir, "comments.json"));
+    expect(config.commentPrecedence).toEqual(["runtime", "file"]);
+  });
+
+  it("should reject unknown comment sources", async () => {
+    const configPath = join(TEST_DIR, "bad-comment-precedence.config.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        schema: "./schema.ts",
+        commentPrecedence: ["jsdoc", "database"],
+        outputs: [{ format: "dbml" }],
+      }),
+    );
+
+    await expect(loadConfig(configPath)).rejects.toThrow(
+      '"commentPrecedence": Unknown comment source: database',
+    );
+  });
+
+  it("should reject unknown dialects", async () => {
+    const configPath = join(TEST_DIR, "bad-dialect.config.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({ schema: "./schema.ts", dialect: "oracle", outputs: [{ format: "dbml" }] }),
+    );
+
+    await expect(loadConfig(configPath)).rejects.toThrow('"dialect" must be one of');
+  });
+});
@@ -0,0 +1,159 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { DrizzleDocsConfig, OutputConfig, OutputFormat } from "./types";
+import type { DatabaseType } from "../types";
+import { validateCommentPrecedence } from "../generator/comment-resolution";
+
+/**
+ * Config file names looked up in the working directory, in priority order
+ */
+export const CONFIG_FILE_NAMES = [
+  "drizzle-docs.config.ts",
+  "drizzle-docs.config.js",
+  "drizzle-docs.config.json",
+];
+
+const VALID_DIALECTS: DatabaseType[] = ["postgresql", "mysql", "sqlite"];
+const VALID_FORMATS: OutputFormat[] = ["dbml", "markdown", "json", "mermaid", "html"];
+
+/**
+ * Define a drizzle-docs configuration with type checking
+ *
+ * @example
+ * ```typescript
+ * // drizzle-docs.config.ts
+ * import { defineConfig } from "drizzle-docs-generator";
+ *
+ * export default defineConfig({
+ *   schema: "./src/db/schema.ts",
+ *   dialect: "postgresql",
+ *   outputs: [
+ *     { format: "markdown", path: "./docs/schema" },
+ *     { format: "dbml", path: "./docs/schema.dbml" },
+ *   ],
+ * });
+ * ```
+ *
+ * @param config - The configuration
+ * @returns The same configuration
+ */
+export function defineConfig(config: DrizzleDocsConfig): DrizzleDocsConfig {
+  return config;
+}
+
+/**
+ * Find a config file in a directory
+ *
+ * @param dir - Directory to search
+ * @returns Path to the first config file found, or undefined
+ */
+export function findConfigFile(dir: string): string | undefined {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = join(dir, fileName);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load and validate a config file
+ *
+ * TypeScript and JavaScript configs are imported (TypeScript requires the tsx loader
+ * registered by the CLI) and must default-export the configuration. JSON configs are
+ * parsed directly. The schema path, comments file and output paths are resolved relative
+ * to the config file's directory.
+ *
+ * @param configPath - Path to the config file
+ * @returns The validated configuration with absolute paths
+ */
+export async function loadConfig(configPath: string): Promise<DrizzleDocsConfig> {
+  const absolutePath = resolve(configPath);
+  if (!existsSync(absolutePath)) {
+    throw new Error(`Config file not found: ${absolutePath}`);
+  }
+
+  const rawConfig = await importConfigFile(absolutePath);
+  const config = validateConfig(rawConfig, absolutePath);
+  const baseDir = dirname(absolutePath);
+
+  return {
+    ...config,
+    schema: resolve(baseDir, config.schema),
+    commentsFile: config.commentsFile ? resolve(baseDir, config.commentsFile) : undefined,
+    outputs: config.outputs.map((output) => ({
+      ...output,
+      path: output.path ? resolve(baseDir, output.path) : undefined,
+    })),
+  };
+}
+
+/**
+ * Read the exported value of a config file
+ *
+ * JSON files are parsed; other files are imported and their default export is used
+ * (falling back to the module namespace when there is none).
+ *
+ * @param configPath - Absolute path to the config file
+ * @returns The raw, unvalidated config value
+ */
+export async function importConfigFile(configPath: string): Promise<unknown> {
+  if (extname(configPath) === ".json") {
+    return JSON.parse(readFileSync(configPath, "utf-8"));
+  }
+  const configModule = (await import(pathToFileURL(configPath).href)) as { default?: unknown };
+  return configModule.default ?? configModule;
+}
+
+/**
+ * Validate the shape of a loaded config
+ */
+function validateConfig(value: unknown, configPath: string): DrizzleDocsConfig {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid config in ${configPath}: ${message}`);
+  };
+
+  if (typeof value !== "object" || value === null) {
+    return fail("config must be an object");
+  }
+  const config = value as Partial<DrizzleDocsConfig>;
+
+  if (typeof config.schema !== "string" || config.schema === "") {
+    fail('"schema" must be a non-empty string');
+  }
+  if (config.dialect !== undefined && !VALID_DIALECTS.includes(config.dialect)) {
+    fail(`"dialect" must be one of ${VALID_DIALECTS.join(", ")}`);
+  }
+  if (config.commentsFile !== undefined && typeof config.commentsFile !== "string") {
+    fail('"commentsFile" must be a string');
+  }
+  if (config.commentPrecedence !== undefined) {
+    if (!Array.isArray(config.commentPrecedence)) {
+      fail('"commentPrecedence" must be an array');
+    }
+    try {
+      validateCommentPrecedence(config.commentPrecedence!);
+    } catch (error) {
+      fail(`"commentPrecedence": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (!Array.isArray(config.outputs) || config.outputs.length === 0) {
+    fail('"outputs" must be a non-empty array');
+  }
+
+  config.outputs!.forEach((output: Partial<OutputConfig>, i) => {
+    if (typeof output !== "object" || output === null) {
+      fail(`"outputs[${i}]" must be an object`);
+    }
+    if (!VALID_FORMATS.includes(output.format as OutputFormat)) {
+      fail(`"outputs[${i}].format" must be one of ${VALID_FORMATS.join(", ")}`);
+    }
+    if (output.path !== undefined && typeof output.path !== "string") {
+      fail(`"outputs[${i}].path" must be a string`);
+    }
+  });
+
+  return config as DrizzleDocsConfig;
+}
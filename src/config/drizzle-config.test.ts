@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { expandSchemaPaths, findDrizzleConfigFile, loadDrizzleConfig } from "./drizzle-config";
+import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+
+const TEST_DIR = join(import.meta.dirname, "__test_fixtures_drizzle__");
+
+describe("findDrizzleConfigFile", () => {
+  beforeAll(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should return undefined when no config file exists", () => {
+    const dir = join(TEST_DIR, "no-config");
+    mkdirSync(dir, { recursive: true });
+
+    expect(findDrizzleConfigFile(dir)).toBeUndefined();
+  });
+
+  it("should prefer TypeScript over JSON configs", () => {
+    const dir = join(TEST_DIR, "multiple-configs");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "drizzle.config.json"), "{}");
+    writeFileSync(join(dir, "drizzle.config.ts"), "export default {};");
+
+    expect(findDrizzleConfigFile(dir)).toBe(join(dir, "drizzle.config.ts"));
+  });
+});
+
+describe("loadDrizzleConfig", () => {
+  beforeAll(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should load the default export of a TypeScript config", async () => {
+    const dir = join(TEST_DIR, "ts-config");
+    mkdirSync(dir, { recursive: true });
+    const configPath = join(dir, "drizzle.config.ts");
+    writeFileSync(
+      configPath,
+      `
+export default {
+  dialect: "postgresql",
+  schema: "./src/db/schema.ts",
+  out: "./drizzle",
+  schemaFilter: ["public", "auth"],
+  tablesFilter: ["!audit_*"],
+};
+`,
+    );
+
+    const settings = await loadDrizzleConfig(configPath);
+
+    expect(settings).toEqual({
+      dialect: "postgresql",
+      schema: [join(dir, "src/db/schema.ts")],
+      schemaFilter: ["public", "auth"],
+      tablesFilter: ["!audit_*"],
+    });
+  });
+
+  it("should map turso to sqlite and accept a schema array", async () => {
+    const configPath = join(TEST_DIR, "turso.config.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({ dialect: "turso", schema: ["./a.ts", "./b.ts"], tablesFilter: "users" }),
+    );
+
+    const settings = await loadDrizzleConfig(configPath);
+
+    expect(settings.dialect).toBe("sqlite");
+    expect(settings.schema).toEqual([join(TEST_DIR, "a.ts"), join(TEST_DIR, "b.ts")]);
+    expect(settings.tablesFilter).toEqual(["users"]);
+  });
+
+  it("should reject unsupported dialects", async () => {
+    const configPath = join(TEST_DIR, "gel.config.json");
+    writeFileSync(configPath, JSON.stringify({ dialect: "gel", schema: "./schema.ts" }));
+
+    await expect(loadDrizzleConfig(configPath)).rejects.toThrow('dialect "gel" is not supported');
+  });
+
+  it("should reject configs without a schema", async () => {
+    const configPath = join(TEST_DIR, "no-schema.config.json");
+    writeFileSync(configPath, JSON.stringify({ dialect: "mysql" }));
+
+    await expect(loadDrizzleConfig(configPath)).rejects.toThrow('"schema" must be a path');
+  });
+
+  it("should throw when the config file does not exist", async () => {
+    await expect(loadDrizzleConfig(join(TEST_DIR, "missing.config.ts"))).rejects.toThrow(
+      "Drizzle config file not found",
+    );
+  });
+});
+
+describe("expandSchemaPaths", () => {
+  const dir = join(TEST_DIR, "glob");
+
+  beforeAll(() => {
+    mkdirSync(join(dir, "schema/nested"), { recursive: true });
+    writeFileSync(join(dir, "schema/users.ts"), "");
+    writeFileSync(join(dir, "schema/posts.ts"), "");
+    writeFileSync(join(dir, "schema/README.md"), "");
+    writeFileSync(join(dir, "schema/nested/tags.ts"), "");
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should resolve plain entries without checking they exist", () => {
+    expect(expandSchemaPaths(["./schema.ts"], dir)).toEqual([join(dir, "schema.ts")]);
+  });
+
+  it("should expand glob entries to the matching files", () => {
+    expect(expandSchemaPaths(["./schema/*.ts"], dir)).toEqual([
+      join(dir, "schema/posts.ts"),
+      join(dir, "schema/users.ts"),
+    ]);
+  });
+
+  it("should support recursive globs and de-duplicate matches", () => {
+    expect(expandSchemaPaths(["./schema/**/*.ts", "./schema/users.ts"], dir)).toEqual([
+      join(dir, "schema/nested/tags.ts"),
+      join(dir, "schema/posts.ts"),
+      join(dir, "schema/users.ts"),
+    ]);
+  });
+
+  it("should throw when a glob matches nothing", () => {
+    expect(() => expandSchemaPaths(["./schema/*.js"], dir)).toThrow(
+      'No schema files match "./schema/*.js"',
+    );
+  });
+});
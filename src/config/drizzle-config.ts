@@ -0,0 +1,191 @@
+import { existsSync, readdirSync } from "node:fs";
+import { dirname, join, matchesGlob, resolve, sep } from "node:path";
+import { importConfigFile } from "./config";
+import type { DatabaseType } from "../types";
+
+/**
+ * drizzle-kit config file names looked up in the working directory, in priority order
+ */
+export const DRIZZLE_CONFIG_FILE_NAMES = [
+  "drizzle.config.ts",
+  "drizzle.config.js",
+  "drizzle.config.json",
+];
+
+/**
+ * Settings read from a drizzle-kit config (drizzle.config.ts)
+ */
+export interface DrizzleKitSettings {
+  /** Database dialect mapped onto the dialects supported by this tool */
+  dialect?: DatabaseType;
+  /** Absolute schema file or directory paths, with glob entries expanded */
+  schema: string[];
+  /** Database schemas to include (PostgreSQL) */
+  schemaFilter?: string[];
+  /** Table name patterns to include; patterns starting with "!" exclude */
+  tablesFilter?: string[];
+}
+
+/**
+ * The subset of drizzle-kit's config that is used here
+ */
+interface RawDrizzleKitConfig {
+  dialect?: unknown;
+  schema?: unknown;
+  schemaFilter?: unknown;
+  tablesFilter?: unknown;
+}
+
+/**
+ * Map drizzle-kit dialects onto the dialects supported by this tool
+ */
+const DIALECT_MAP: Record<string, DatabaseType> = {
+  postgresql: "postgresql",
+  mysql: "mysql",
+  sqlite: "sqlite",
+  turso: "sqlite",
+};
+
+/**
+ * Find a drizzle-kit config file in a directory
+ *
+ * @param dir - Directory to search
+ * @returns Path to the first config file found, or undefined
+ */
+export function findDrizzleConfigFile(dir: string): string | undefined {
+  for (const fileName of DRIZZLE_CONFIG_FILE_NAMES) {
+    const filePath = join(dir, fileName);
+    if (existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load the dialect, schema paths and filters from a drizzle-kit config
+ *
+ * Schema entries are resolved relative to the config file's directory and glob
+ * entries (e.g., `./src/db/schema/*.ts`) are expanded to the matching files.
+ *
+ * @param configPath - Path to the drizzle-kit config file
+ * @returns The mapped settings
+ */
+export async function loadDrizzleConfig(configPath: string): Promise<DrizzleKitSettings> {
+  const absolutePath = resolve(configPath);
+  if (!existsSync(absolutePath)) {
+    throw new Error(`Drizzle config file not found: ${absolutePath}`);
+  }
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid drizzle config in ${absolutePath}: ${message}`);
+  };
+
+  const rawConfig = await importConfigFile(absolutePath);
+  if (typeof rawConfig !== "object" || rawConfig === null) {
+    return fail("config must be an object");
+  }
+  const config = rawConfig as RawDrizzleKitConfig;
+
+  let dialect: DatabaseType | undefined;
+  if (config.dialect !== undefined) {
+    dialect = DIALECT_MAP[String(config.dialect)];
+    if (!dialect) {
+      fail(`dialect "${String(config.dialect)}" is not supported`);
+    }
+  }
+
+  const schemaEntries = toStringArray(config.schema);
+  if (!schemaEntries || schemaEntries.length === 0) {
+    return fail('"schema" must be a path or an array of paths');
+  }
+
+  return {
+    dialect,
+    schema: expandSchemaPaths(schemaEntries, dirname(absolutePath)),
+    schemaFilter: toStringArray(config.schemaFilter),
+    tablesFilter: toStringArray(config.tablesFilter),
+  };
+}
+
+/**
+ * Resolve schema entries and expand glob entries to matching files
+ *
+ * @param entries - Schema paths or glob patterns
+ * @param baseDir - Directory the entries are relative to
+ * @returns Absolute, de-duplicated paths
+ */
+export function expandSchemaPaths(entries: string[], baseDir: string): string[] {
+  const paths = new Set<string>();
+
+  for (const entry of entries) {
+    const pattern = resolve(baseDir, entry);
+    if (!hasGlobCharacters(entry)) {
+      paths.add(pattern);
+      continue;
+    }
+
+    const matches = listFiles(getGlobBase(pattern))
+      .filter((filePath) => matchesGlob(filePath, pattern))
+      .sort();
+    if (matches.length === 0) {
+      throw new Error(`No schema files match "${entry}"`);
+    }
+    for (const match of matches) {
+      paths.add(match);
+    }
+  }
+
+  return [...paths];
+}
+
+/**
+ * Normalize a string or array of strings
+ */
+function toStringArray(value: unknown): string[] | undefined {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value;
+  }
+  return undefined;
+}
+
+/**
+ * Check if a path contains glob syntax
+ */
+function hasGlobCharacters(path: string): boolean {
+  return /[*?[\]{}]/.test(path);
+}
+
+/**
+ * Get the directory before the first path segment containing glob syntax
+ */
+function getGlobBase(pattern: string): string {
+  const segments = pattern.split(sep);
+  const firstGlobIndex = segments.findIndex((segment) => hasGlobCharacters(segment));
+  return segments.slice(0, firstGlobIndex).join(sep) || sep;
+}
+
+/**
+ * Recursively list files under a directory, skipping node_modules
+ */
+function listFiles(dirPath: string): string[] {
+  if (!existsSync(dirPath)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+    const fullPath = join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== "node_modules") {
+        files.push(...listFiles(fullPath));
+      }
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
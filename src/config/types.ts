@@ -0,0 +1,73 @@
+import type { DatabaseType } from "../types";
+import type { FormatterOptions } from "../formatter/types";
+import type { CommentSource } from "../parser/comments";
+
+/**
+ * Output formats supported by the CLI
+ */
+export type OutputFormat = "dbml" | "markdown" | "json" | "mermaid" | "html";
+
+/**
+ * A single output target declared in the configuration file
+ */
+export interface OutputConfig {
+  /** Output format */
+  format: OutputFormat;
+  /**
+   * Output file (or directory for multi-file Markdown and HTML), relative to the config file.
+   * Output is written to stdout when omitted (except for HTML, which requires a directory).
+   */
+  path?: string;
+  /** Options passed to the formatter (comments, indexes, constraints) */
+  formatterOptions?: FormatterOptions;
+  /**
+   * Output Markdown as a single file (markdown format)
+   * @default false
+   */
+  singleFile?: boolean;
+  /**
+   * Include the ER diagram in Markdown output (markdown format)
+   * @default true
+   */
+  erDiagram?: boolean;
+  /**
+   * Include columns in Mermaid ER diagrams (markdown, mermaid and html formats)
+   * @default true
+   */
+  columns?: boolean;
+  /**
+   * Add a focused ER diagram to each table page (multi-file markdown format)
+   * @default false
+   */
+  tableDiagrams?: boolean;
+  /**
+   * Hide junction tables in Mermaid ER diagrams and draw their many-to-many
+   * relations as labelled edges (markdown, mermaid and html formats)
+   * @default false
+   */
+  hideJunctionTables?: boolean;
+}
+
+/**
+ * Configuration file contents (drizzle-docs.config.{ts,js,json})
+ */
+export interface DrizzleDocsConfig {
+  /** Path to the Drizzle schema file or directory, relative to the config file */
+  schema: string;
+  /** Database dialect; inferred from the schema's tables when omitted */
+  dialect?: DatabaseType;
+  /** Output targets, generated in order */
+  outputs: OutputConfig[];
+  /**
+   * Overwrite existing files without confirmation
+   * @default false
+   */
+  force?: boolean;
+  /** YAML or JSON file with table and column comments, relative to the config file */
+  commentsFile?: string;
+  /**
+   * Comment sources in order of preference; sources left out are ignored
+   * @default ["file", "jsdoc", "runtime"]
+   */
+  commentPrecedence?: CommentSource[];
+}
@@ -0,0 +1,94 @@
+import { formatIndexParts } from "../formatter/sql-clauses";
+import type { ConstraintDefinition, IndexDefinition } from "../types";
+import type { ChangeKind, ColumnDiff, PropertyChange, RelationDiff } from "./types";
+
+/**
+ * A changed property described for display
+ */
+export interface DescribedChange {
+  /** Property label (e.g., "type", "nullable") */
+  label: string;
+  /** Old value for display */
+  old: string;
+  /** New value for display */
+  new: string;
+}
+
+/**
+ * Capitalized labels of change kinds
+ */
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+};
+
+/**
+ * Describe an index (e.g., "UNIQUE (email) USING btree WHERE (deleted_at IS NULL)")
+ */
+export function describeIndex(index: IndexDefinition): string {
+  const kind = index.kind ? `${index.kind.toUpperCase()} ` : index.unique ? "UNIQUE " : "";
+  const type = index.type ? ` USING ${index.type}` : "";
+  const where = index.where !== undefined ? ` WHERE (${index.where})` : "";
+  return `${kind}(${formatIndexParts(index).join(", ")})${type}${where}`;
+}
+
+/**
+ * Describe a constraint (e.g., "FOREIGN KEY (author_id) → users(id)")
+ */
+export function describeConstraint(constraint: ConstraintDefinition): string {
+  const type = constraint.type.replace("_", " ").toUpperCase();
+  if (constraint.definition) {
+    return `${type} ${constraint.definition}`;
+  }
+
+  const columns = `(${constraint.columns.join(", ")})`;
+  if (constraint.type === "foreign_key" && constraint.referencedTable) {
+    const refColumns = constraint.referencedColumns?.join(", ") ?? "";
+    return `${type} ${columns} → ${constraint.referencedTable}(${refColumns})`;
+  }
+  return `${type} ${columns}`;
+}
+
+/**
+ * Describe the ends of a relation (e.g., "posts(author_id) → users(id)"), followed by
+ * its name and filter if any (e.g., "... as author where published = true")
+ */
+export function describeRelationEnds(relation: RelationDiff): string {
+  const ends = `${relation.fromTable}(${relation.fromColumns.join(", ")}) → ${relation.toTable}(${relation.toColumns.join(", ")})`;
+  const name = relation.name ? ` as ${relation.name}` : "";
+  const where = relation.where ? ` where ${relation.where}` : "";
+  return `${ends}${name}${where}`;
+}
+
+/**
+ * List the property changes of a changed column
+ */
+export function describeColumnChanges(column: ColumnDiff): DescribedChange[] {
+  return [
+    describeChange("type", column.typeChange),
+    describeChange("nullable", column.nullableChange),
+    describeChange("default", column.defaultChange),
+  ].filter((change) => change !== undefined);
+}
+
+/**
+ * List the property changes of a changed relation
+ */
+export function describeRelationChanges(relation: RelationDiff): DescribedChange[] {
+  return [
+    describeChange("type", relation.typeChange),
+    describeChange("onDelete", relation.onDeleteChange),
+    describeChange("onUpdate", relation.onUpdateChange),
+  ].filter((change) => change !== undefined);
+}
+
+function describeChange(
+  label: string,
+  change: PropertyChange<string | boolean | undefined> | undefined,
+): DescribedChange | undefined {
+  if (!change) {
+    return undefined;
+  }
+  return { label, old: String(change.old ?? "none"), new: String(change.new ?? "none") };
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { JsonDiffReporter } from "./json-reporter";
+import type { SchemaDiff } from "./types";
+
+const diff: SchemaDiff = {
+  oldDialect: "postgresql",
+  newDialect: "postgresql",
+  tables: [{ name: "users", kind: "added", columns: [], indexes: [], constraints: [] }],
+  relations: [],
+  enums: [],
+};
+
+describe("JsonDiffReporter", () => {
+  it("should serialize the diff with a hasChanges flag", () => {
+    const output = JSON.parse(new JsonDiffReporter().report(diff));
+
+    expect(output).toEqual({ hasChanges: true, ...diff });
+  });
+
+  it("should report hasChanges false for an empty diff", () => {
+    const output = JSON.parse(new JsonDiffReporter().report({ ...diff, tables: [] }));
+
+    expect(output.hasChanges).toBe(false);
+  });
+
+  it("should respect the indent option", () => {
+    expect(new JsonDiffReporter({ indent: 0 }).report(diff)).not.toContain("\n");
+  });
+});
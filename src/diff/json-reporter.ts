@@ -0,0 +1,36 @@
+import type { DiffReporter, SchemaDiff } from "./types";
+import { hasChanges } from "./schema-diff";
+
+/**
+ * Options for JsonDiffReporter
+ */
+export interface JsonDiffReporterOptions {
+  /**
+   * Number of spaces used to indent the JSON output
+   * @default 2
+   */
+  indent?: number;
+}
+
+/**
+ * JsonDiffReporter serializes a SchemaDiff to JSON for scripts and bots
+ *
+ * The diff is emitted as is, preceded by a `hasChanges` flag.
+ */
+export class JsonDiffReporter implements DiffReporter {
+  private indent: number;
+
+  constructor(options: JsonDiffReporterOptions = {}) {
+    this.indent = options.indent ?? 2;
+  }
+
+  /**
+   * Render the schema diff as JSON
+   *
+   * @param diff - The differences to report
+   * @returns The JSON report
+   */
+  report(diff: SchemaDiff): string {
+    return JSON.stringify({ hasChanges: hasChanges(diff), ...diff }, null, this.indent);
+  }
+}
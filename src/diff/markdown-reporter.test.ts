@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { MarkdownDiffReporter } from "./markdown-reporter";
+import type { SchemaDiff } from "./types";
+
+const emptyDiff: SchemaDiff = {
+  oldDialect: "postgresql",
+  newDialect: "postgresql",
+  tables: [],
+  relations: [],
+  enums: [],
+};
+
+const diff: SchemaDiff = {
+  ...emptyDiff,
+  tables: [
+    { name: "comments", kind: "added", columns: [], indexes: [], constraints: [] },
+    {
+      name: "users",
+      kind: "changed",
+      columns: [
+        { name: "bio", kind: "added", type: "text" },
+        {
+          name: "email",
+          kind: "changed",
+          type: "varchar(255)",
+          typeChange: { old: "varchar(100)", new: "varchar(255)" },
+          nullableChange: { old: false, new: true },
+        },
+      ],
+      indexes: [
+        {
+          name: "users_email_idx",
+          kind: "changed",
+          old: { name: "users_email_idx", columns: ["email"], unique: false },
+          new: { name: "users_email_idx", columns: ["email"], unique: true },
+        },
+      ],
+      constraints: [
+        {
+          name: "users_age_check",
+          kind: "removed",
+          old: {
+            name: "users_age_check",
+            type: "check",
+            columns: [],
+            definition: "age > 0 || age IS NULL",
+          },
+        },
+      ],
+    },
+  ],
+  relations: [
+    {
+      kind: "added",
+      fromTable: "comments",
+      fromColumns: ["user_id"],
+      toTable: "users",
+      toColumns: ["id"],
+      type: "many-to-one",
+    },
+  ],
+  enums: [{ name: "status", kind: "changed", addedValues: ["archived"], removedValues: [] }],
+};
+
+describe("MarkdownDiffReporter", () => {
+  const reporter = new MarkdownDiffReporter();
+
+  it("should state when there are no changes", () => {
+    expect(reporter.report(emptyDiff)).toBe("## Schema Changes\n\nNo schema changes.");
+  });
+
+  it("should summarize the changes", () => {
+    const output = reporter.report(diff);
+
+    expect(output).toContain(
+      "**Tables:** 1 added, 1 changed  \n**Relations:** 1 added  \n**Enums:** 1 changed",
+    );
+  });
+
+  it("should list table changes in a table", () => {
+    const output = reporter.report(diff);
+
+    expect(output).toContain("#### `comments` (Added)");
+    expect(output).toContain("#### `users` (Changed)");
+    expect(output).toContain("| Added | Column | `bio` | `text` |");
+    expect(output).toContain(
+      "| Changed | Column | `email` | type: `varchar(100)` → `varchar(255)`; nullable: `false` → `true` |",
+    );
+    expect(output).toContain(
+      "| Changed | Index | `users_email_idx` | `(email)` → `UNIQUE (email)` |",
+    );
+  });
+
+  it("should escape pipes in definitions", () => {
+    const output = reporter.report(diff);
+
+    expect(output).toContain(
+      "| Removed | Constraint | `users_age_check` | `CHECK age > 0 \\|\\| age IS NULL` |",
+    );
+  });
+
+  it("should list relation and enum changes", () => {
+    const output = reporter.report(diff);
+
+    expect(output).toContain("| Added | `comments(user_id) → users(id)` | many-to-one |");
+    expect(output).toContain("| Changed | `status` | added: `archived` |");
+  });
+
+  it("should mention a dialect change", () => {
+    const output = reporter.report({ ...diff, newDialect: "mysql" });
+
+    expect(output).toContain("**Dialect:** postgresql → mysql");
+  });
+});
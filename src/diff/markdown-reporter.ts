@@ -0,0 +1,252 @@
+import type { ConstraintDefinition, IndexDefinition } from "../types";
+import {
+  CHANGE_KIND_LABELS,
+  describeColumnChanges,
+  describeConstraint,
+  describeIndex,
+  describeRelationChanges,
+  describeRelationEnds,
+  type DescribedChange,
+} from "./describe";
+import type {
+  ChangeKind,
+  ConstraintDiff,
+  DiffReporter,
+  EnumDiff,
+  IndexDiff,
+  RelationDiff,
+  SchemaDiff,
+  TableDiff,
+} from "./types";
+import { hasChanges } from "./schema-diff";
+
+/**
+ * MarkdownDiffReporter renders a SchemaDiff as Markdown suitable for a PR comment
+ *
+ * @example
+ * ```markdown
+ * ## Schema Changes
+ *
+ * **Tables:** 1 added, 1 changed
+ *
+ * ### Tables
+ *
+ * #### `users` (Changed)
+ *
+ * | Change | Object | Name | Details |
+ * |--------|--------|------|---------|
+ * | Added | Column | `bio` | `text` |
+ * ```
+ */
+export class MarkdownDiffReporter implements DiffReporter {
+  /**
+   * Render the schema diff as Markdown
+   *
+   * @param diff - The differences to report
+   * @returns The Markdown report
+   */
+  report(diff: SchemaDiff): string {
+    const sections: string[] = ["## Schema Changes"];
+
+    if (!hasChanges(diff)) {
+      sections.push("No schema changes.");
+      return sections.join("\n\n");
+    }
+
+    sections.push(this.generateSummary(diff));
+    if (diff.oldDialect !== diff.newDialect) {
+      sections.push(`**Dialect:** ${diff.oldDialect} → ${diff.newDialect}`);
+    }
+    if (diff.tables.length > 0) {
+      sections.push(this.generateTablesSection(diff.tables));
+    }
+    if (diff.relations.length > 0) {
+      sections.push(this.generateRelationsSection(diff.relations));
+    }
+    if (diff.enums.length > 0) {
+      sections.push(this.generateEnumsSection(diff.enums));
+    }
+
+    return sections.join("\n\n");
+  }
+
+  /**
+   * Generate the counts of added/removed/changed objects
+   */
+  private generateSummary(diff: SchemaDiff): string {
+    const lines: string[] = [];
+    const groups: [string, { kind: ChangeKind }[]][] = [
+      ["Tables", diff.tables],
+      ["Relations", diff.relations],
+      ["Enums", diff.enums],
+    ];
+
+    for (const [label, items] of groups) {
+      if (items.length === 0) {
+        continue;
+      }
+      const counts = (["added", "removed", "changed"] as const)
+        .map((kind) => [kind, items.filter((item) => item.kind === kind).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([kind, count]) => `${count} ${kind}`);
+      lines.push(`**${label}:** ${counts.join(", ")}`);
+    }
+
+    return lines.join("  \n");
+  }
+
+  /**
+   * Generate the tables section with one block per table
+   */
+  private generateTablesSection(tables: TableDiff[]): string {
+    const blocks: string[] = ["### Tables"];
+
+    for (const table of tables) {
+      blocks.push(`#### \`${table.name}\` (${CHANGE_KIND_LABELS[table.kind]})`);
+      if (table.kind === "changed") {
+        blocks.push(this.generateTableChanges(table));
+      }
+    }
+
+    return blocks.join("\n\n");
+  }
+
+  /**
+   * Generate the column, index and constraint changes of a changed table
+   */
+  private generateTableChanges(table: TableDiff): string {
+    const lines: string[] = [];
+
+    lines.push("| Change | Object | Name | Details |");
+    lines.push("|--------|--------|------|---------|");
+
+    for (const column of table.columns) {
+      const details =
+        column.kind === "changed"
+          ? this.formatChanges(describeColumnChanges(column))
+          : `\`${this.escapeMarkdown(column.type)}\``;
+      lines.push(this.formatRow(column.kind, "Column", column.name, details));
+    }
+    for (const index of table.indexes) {
+      lines.push(
+        this.formatRow(
+          index.kind,
+          "Index",
+          index.name,
+          this.formatDefinitionDiff(index, describeIndex),
+        ),
+      );
+    }
+    for (const constraint of table.constraints) {
+      lines.push(
+        this.formatRow(
+          constraint.kind,
+          "Constraint",
+          constraint.name,
+          this.formatDefinitionDiff(constraint, describeConstraint),
+        ),
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate the relations section
+   */
+  private generateRelationsSection(relations: RelationDiff[]): string {
+    const lines: string[] = [];
+
+    lines.push("### Relations");
+    lines.push("");
+    lines.push("| Change | Relation | Details |");
+    lines.push("|--------|----------|---------|");
+
+    for (const relation of relations) {
+      const details =
+        relation.kind === "changed"
+          ? this.formatChanges(describeRelationChanges(relation))
+          : relation.type;
+      lines.push(
+        `| ${CHANGE_KIND_LABELS[relation.kind]} | \`${this.escapeMarkdown(describeRelationEnds(relation))}\` | ${details} |`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate the enums section
+   */
+  private generateEnumsSection(enums: EnumDiff[]): string {
+    const lines: string[] = [];
+
+    lines.push("### Enums");
+    lines.push("");
+    lines.push("| Change | Enum | Details |");
+    lines.push("|--------|------|---------|");
+
+    for (const enumDiff of enums) {
+      const details: string[] = [];
+      if (enumDiff.addedValues.length > 0) {
+        details.push(`added: ${this.formatValues(enumDiff.addedValues)}`);
+      }
+      if (enumDiff.removedValues.length > 0) {
+        details.push(`removed: ${this.formatValues(enumDiff.removedValues)}`);
+      }
+      lines.push(
+        `| ${CHANGE_KIND_LABELS[enumDiff.kind]} | \`${enumDiff.name}\` | ${details.join("; ")} |`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format a row of the table changes
+   */
+  private formatRow(kind: ChangeKind, object: string, name: string, details: string): string {
+    return `| ${CHANGE_KIND_LABELS[kind]} | ${object} | \`${name}\` | ${details} |`;
+  }
+
+  /**
+   * Format an index or constraint change, showing the old and new definition when changed
+   */
+  private formatDefinitionDiff<T extends IndexDefinition | ConstraintDefinition>(
+    diff: IndexDiff | ConstraintDiff,
+    describe: (definition: T) => string,
+  ): string {
+    const format = (definition: T) => `\`${this.escapeMarkdown(describe(definition))}\``;
+    if (diff.old && diff.new) {
+      return `${format(diff.old as T)} → ${format(diff.new as T)}`;
+    }
+    return format((diff.new ?? diff.old) as T);
+  }
+
+  /**
+   * Format property changes (e.g., "type: `a` → `b`; nullable: `true` → `false`")
+   */
+  private formatChanges(changes: DescribedChange[]): string {
+    return changes
+      .map(
+        (change) =>
+          `${change.label}: \`${this.escapeMarkdown(change.old)}\` → \`${this.escapeMarkdown(change.new)}\``,
+      )
+      .join("; ");
+  }
+
+  /**
+   * Format enum values as inline code
+   */
+  private formatValues(values: string[]): string {
+    return values.map((value) => `\`${this.escapeMarkdown(value)}\``).join(", ");
+  }
+
+  /**
+   * Escape special Markdown characters in a string
+   * Converts newlines to spaces for use in table cells
+   */
+  private escapeMarkdown(str: string): string {
+    return str.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  }
+}
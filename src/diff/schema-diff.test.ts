@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import { diffSchemas, hasChanges } from "./schema-diff";
+import type { ColumnDefinition, IntermediateSchema, TableDefinition } from "../types";
+
+function column(name: string, overrides: Partial<ColumnDefinition> = {}): ColumnDefinition {
+  return { name, type: "integer", nullable: false, primaryKey: false, unique: false, ...overrides };
+}
+
+function table(name: string, overrides: Partial<TableDefinition> = {}): TableDefinition {
+  return { name, columns: [column("id")], indexes: [], constraints: [], ...overrides };
+}
+
+function schema(overrides: Partial<IntermediateSchema> = {}): IntermediateSchema {
+  return { databaseType: "postgresql", tables: [], relations: [], enums: [], ...overrides };
+}
+
+describe("diffSchemas", () => {
+  it("should report no changes for identical schemas", () => {
+    const base = schema({ tables: [table("users")] });
+    const diff = diffSchemas(base, structuredClone(base));
+
+    expect(hasChanges(diff)).toBe(false);
+    expect(diff.tables).toEqual([]);
+  });
+
+  it("should report added and removed tables, additions first", () => {
+    const diff = diffSchemas(
+      schema({ tables: [table("legacy"), table("users")] }),
+      schema({ tables: [table("users"), table("comments", { schema: "blog" })] }),
+    );
+
+    expect(diff.tables.map((t) => [t.kind, t.name])).toEqual([
+      ["added", "blog.comments"],
+      ["removed", "legacy"],
+    ]);
+  });
+
+  it("should report column type, nullability and default changes", () => {
+    const diff = diffSchemas(
+      schema({
+        tables: [
+          table("users", { columns: [column("id"), column("email", { type: "varchar(100)" })] }),
+        ],
+      }),
+      schema({
+        tables: [
+          table("users", {
+            columns: [
+              column("id"),
+              column("email", { type: "varchar(255)", nullable: true, defaultValue: "''" }),
+              column("bio", { type: "text" }),
+            ],
+          }),
+        ],
+      }),
+    );
+
+    expect(diff.tables).toHaveLength(1);
+    expect(diff.tables[0].kind).toBe("changed");
+    expect(diff.tables[0].columns).toEqual([
+      {
+        name: "email",
+        kind: "changed",
+        type: "varchar(255)",
+        typeChange: { old: "varchar(100)", new: "varchar(255)" },
+        nullableChange: { old: false, new: true },
+        defaultChange: { old: undefined, new: "''" },
+      },
+      { name: "bio", kind: "added", type: "text" },
+    ]);
+  });
+
+  it("should ignore comment-only changes", () => {
+    const diff = diffSchemas(
+      schema({ tables: [table("users", { comment: "Old", columns: [column("id")] })] }),
+      schema({
+        tables: [table("users", { comment: "New", columns: [column("id", { comment: "ID" })] })],
+      }),
+    );
+
+    expect(hasChanges(diff)).toBe(false);
+  });
+
+  it("should report index and constraint changes", () => {
+    const diff = diffSchemas(
+      schema({
+        tables: [
+          table("users", {
+            indexes: [{ name: "users_email_idx", columns: ["email"], unique: false }],
+            constraints: [
+              { name: "users_age_check", type: "check", columns: [], definition: "age > 0" },
+            ],
+          }),
+        ],
+      }),
+      schema({
+        tables: [
+          table("users", {
+            indexes: [{ name: "users_email_idx", columns: ["email"], unique: true }],
+            constraints: [{ name: "users_pkey", type: "primary_key", columns: ["id"] }],
+          }),
+        ],
+      }),
+    );
+
+    const [users] = diff.tables;
+    expect(users.indexes).toEqual([
+      {
+        name: "users_email_idx",
+        kind: "changed",
+        old: { name: "users_email_idx", columns: ["email"], unique: false },
+        new: { name: "users_email_idx", columns: ["email"], unique: true },
+      },
+    ]);
+    expect(users.constraints.map((c) => [c.kind, c.name])).toEqual([
+      ["added", "users_pkey"],
+      ["removed", "users_age_check"],
+    ]);
+  });
+
+  it("should match relations by their ends and report changed actions", () => {
+    const relation = {
+      fromTable: "posts",
+      fromColumns: ["author_id"],
+      toTable: "users",
+      toColumns: ["id"],
+      type: "many-to-one" as const,
+    };
+    const diff = diffSchemas(
+      schema({ relations: [relation] }),
+      schema({
+        relations: [
+          { ...relation, onDelete: "cascade" },
+          { ...relation, fromTable: "comments" },
+        ],
+      }),
+    );
+
+    expect(diff.relations).toEqual([
+      {
+        ...relation,
+        kind: "changed",
+        typeChange: undefined,
+        onDeleteChange: { old: undefined, new: "cascade" },
+        onUpdateChange: undefined,
+      },
+      { ...relation, fromTable: "comments", kind: "added" },
+    ]);
+  });
+
+  it("should tell apart relations on the same columns by name and filter", () => {
+    const relation = {
+      fromTable: "posts",
+      fromColumns: ["author_id"],
+      toTable: "users",
+      toColumns: ["id"],
+      type: "many-to-one" as const,
+    };
+    const diff = diffSchemas(
+      schema({
+        relations: [relation, { ...relation, name: "author", where: "active = true" }],
+      }),
+      schema({
+        relations: [
+          relation,
+          { ...relation, name: "author", where: "active = false" },
+          { ...relation, name: "editor" },
+        ],
+      }),
+    );
+
+    expect(diff.relations).toEqual([
+      { ...relation, name: "author", where: "active = false", kind: "added" },
+      { ...relation, name: "editor", kind: "added" },
+      { ...relation, name: "author", where: "active = true", kind: "removed" },
+    ]);
+  });
+
+  it("should report added and removed enum values", () => {
+    const diff = diffSchemas(
+      schema({ enums: [{ name: "status", values: ["draft", "pending"] }] }),
+      schema({
+        enums: [
+          { name: "status", values: ["draft", "published"] },
+          { name: "role", schema: "auth", values: ["admin"] },
+        ],
+      }),
+    );
+
+    expect(diff.enums).toEqual([
+      { name: "status", kind: "changed", addedValues: ["published"], removedValues: ["pending"] },
+      { name: "auth.role", kind: "added", addedValues: ["admin"], removedValues: [] },
+    ]);
+  });
+
+  it("should record the dialect of both schemas", () => {
+    const diff = diffSchemas(schema(), schema({ databaseType: "mysql" }));
+
+    expect(diff.oldDialect).toBe("postgresql");
+    expect(diff.newDialect).toBe("mysql");
+  });
+});
@@ -0,0 +1,236 @@
+import type {
+  ColumnDefinition,
+  ConstraintDefinition,
+  EnumDefinition,
+  IndexDefinition,
+  IntermediateSchema,
+  RelationDefinition,
+  TableDefinition,
+} from "../types";
+import { qualifyName } from "../utils/table-name";
+import type {
+  ChangeKind,
+  ColumnDiff,
+  ConstraintDiff,
+  EnumDiff,
+  IndexDiff,
+  PropertyChange,
+  RelationDiff,
+  SchemaDiff,
+  TableDiff,
+} from "./types";
+
+/**
+ * Compare two intermediate schemas
+ *
+ * Tables, columns, indexes, constraints and enums are matched by name and relations
+ * by their tables and columns. Changes are listed in the order of the new schema,
+ * followed by removals in the order of the old schema. Comments are not compared.
+ *
+ * @param oldSchema - The schema before the change
+ * @param newSchema - The schema after the change
+ * @returns The differences
+ */
+export function diffSchemas(
+  oldSchema: IntermediateSchema,
+  newSchema: IntermediateSchema,
+): SchemaDiff {
+  return {
+    oldDialect: oldSchema.databaseType,
+    newDialect: newSchema.databaseType,
+    tables: diffByKey(oldSchema.tables, newSchema.tables, getTableKey, diffTable),
+    relations: diffByKey(oldSchema.relations, newSchema.relations, getRelationKey, diffRelation),
+    enums: diffByKey(oldSchema.enums, newSchema.enums, getEnumKey, diffEnum),
+  };
+}
+
+/**
+ * Check whether a diff contains any change
+ *
+ * @param diff - The diff to check
+ * @returns True if anything was added, removed or changed
+ */
+export function hasChanges(diff: SchemaDiff): boolean {
+  return diff.tables.length > 0 || diff.relations.length > 0 || diff.enums.length > 0;
+}
+
+/**
+ * Match items by key and collect the differences
+ *
+ * `compare` returns undefined when the items are equal.
+ */
+function diffByKey<T, D>(
+  oldItems: T[],
+  newItems: T[],
+  getKey: (item: T) => string,
+  compare: (kind: ChangeKind, oldItem: T | undefined, newItem: T | undefined) => D | undefined,
+): D[] {
+  const oldByKey = new Map(oldItems.map((item) => [getKey(item), item]));
+  const newKeys = new Set(newItems.map(getKey));
+  const diffs: D[] = [];
+
+  for (const newItem of newItems) {
+    const oldItem = oldByKey.get(getKey(newItem));
+    const diff = compare(oldItem ? "changed" : "added", oldItem, newItem);
+    if (diff) {
+      diffs.push(diff);
+    }
+  }
+  for (const oldItem of oldItems) {
+    if (!newKeys.has(getKey(oldItem))) {
+      const diff = compare("removed", oldItem, undefined);
+      if (diff) {
+        diffs.push(diff);
+      }
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Get a property change, or undefined if the values are equal
+ */
+function getChange<T>(oldValue: T, newValue: T): PropertyChange<T> | undefined {
+  return oldValue === newValue ? undefined : { old: oldValue, new: newValue };
+}
+
+/**
+ * Check whether two definitions are structurally equal
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function getTableKey(table: TableDefinition): string {
+  return qualifyName(table.name, table.schema);
+}
+
+function getEnumKey(enumDef: EnumDefinition): string {
+  return qualifyName(enumDef.name, enumDef.schema);
+}
+
+/**
+ * Relations on the same columns are told apart by their name and filter,
+ * so renaming a relation or changing its filter is reported as a removal and an addition
+ */
+function getRelationKey(relation: RelationDefinition): string {
+  return `${relation.fromTable}(${relation.fromColumns.join(",")})->${relation.toTable}(${relation.toColumns.join(",")}) as ${relation.name ?? ""} where ${relation.where ?? ""}`;
+}
+
+function diffTable(
+  kind: ChangeKind,
+  oldTable: TableDefinition | undefined,
+  newTable: TableDefinition | undefined,
+): TableDiff | undefined {
+  const table = (newTable ?? oldTable)!;
+  const name = getTableKey(table);
+  if (!oldTable || !newTable) {
+    return { name, kind, columns: [], indexes: [], constraints: [] };
+  }
+
+  const columns = diffByKey(oldTable.columns, newTable.columns, (c) => c.name, diffColumn);
+  const indexes = diffByKey(oldTable.indexes, newTable.indexes, (i) => i.name, diffIndex);
+  const constraints = diffByKey(
+    oldTable.constraints,
+    newTable.constraints,
+    (c) => c.name,
+    diffConstraint,
+  );
+
+  if (columns.length === 0 && indexes.length === 0 && constraints.length === 0) {
+    return undefined;
+  }
+  return { name, kind, columns, indexes, constraints };
+}
+
+function diffColumn(
+  kind: ChangeKind,
+  oldColumn: ColumnDefinition | undefined,
+  newColumn: ColumnDefinition | undefined,
+): ColumnDiff | undefined {
+  const column = (newColumn ?? oldColumn)!;
+  if (!oldColumn || !newColumn) {
+    return { name: column.name, kind, type: column.type };
+  }
+
+  const typeChange = getChange(oldColumn.type, newColumn.type);
+  const nullableChange = getChange(oldColumn.nullable, newColumn.nullable);
+  const defaultChange = getChange(oldColumn.defaultValue, newColumn.defaultValue);
+  if (!typeChange && !nullableChange && !defaultChange) {
+    return undefined;
+  }
+  return { name: column.name, kind, type: column.type, typeChange, nullableChange, defaultChange };
+}
+
+function diffIndex(
+  kind: ChangeKind,
+  oldIndex: IndexDefinition | undefined,
+  newIndex: IndexDefinition | undefined,
+): IndexDiff | undefined {
+  if (oldIndex && newIndex && isEqual(oldIndex, newIndex)) {
+    return undefined;
+  }
+  return { name: (newIndex ?? oldIndex)!.name, kind, old: oldIndex, new: newIndex };
+}
+
+function diffConstraint(
+  kind: ChangeKind,
+  oldConstraint: ConstraintDefinition | undefined,
+  newConstraint: ConstraintDefinition | undefined,
+): ConstraintDiff | undefined {
+  if (oldConstraint && newConstraint && isEqual(oldConstraint, newConstraint)) {
+    return undefined;
+  }
+  return {
+    name: (newConstraint ?? oldConstraint)!.name,
+    kind,
+    old: oldConstraint,
+    new: newConstraint,
+  };
+}
+
+function diffRelation(
+  kind: ChangeKind,
+  oldRelation: RelationDefinition | undefined,
+  newRelation: RelationDefinition | undefined,
+): RelationDiff | undefined {
+  const relation = (newRelation ?? oldRelation)!;
+  const base = {
+    kind,
+    fromTable: relation.fromTable,
+    fromColumns: relation.fromColumns,
+    toTable: relation.toTable,
+    toColumns: relation.toColumns,
+    ...(relation.name !== undefined && { name: relation.name }),
+    ...(relation.where !== undefined && { where: relation.where }),
+    type: relation.type,
+  };
+  if (!oldRelation || !newRelation) {
+    return base;
+  }
+
+  const typeChange = getChange(oldRelation.type, newRelation.type);
+  const onDeleteChange = getChange(oldRelation.onDelete, newRelation.onDelete);
+  const onUpdateChange = getChange(oldRelation.onUpdate, newRelation.onUpdate);
+  if (!typeChange && !onDeleteChange && !onUpdateChange) {
+    return undefined;
+  }
+  return { ...base, typeChange, onDeleteChange, onUpdateChange };
+}
+
+function diffEnum(
+  kind: ChangeKind,
+  oldEnum: EnumDefinition | undefined,
+  newEnum: EnumDefinition | undefined,
+): EnumDiff | undefined {
+  const oldValues = oldEnum?.values ?? [];
+  const newValues = newEnum?.values ?? [];
+  const addedValues = newValues.filter((value) => !oldValues.includes(value));
+  const removedValues = oldValues.filter((value) => !newValues.includes(value));
+
+  if (kind === "changed" && addedValues.length === 0 && removedValues.length === 0) {
+    return undefined;
+  }
+  return { name: getEnumKey((newEnum ?? oldEnum)!), kind, addedValues, removedValues };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { parseGitSpec, readSchemaJson } from "./sources";
+import { JsonFormatter } from "../formatter/json";
+import type { IntermediateSchema } from "../types";
+
+const TEST_DIR = join(import.meta.dirname, "__test_fixtures__");
+
+const schema: IntermediateSchema = {
+  databaseType: "mysql",
+  tables: [{ name: "users", columns: [], indexes: [], constraints: [] }],
+  relations: [],
+  enums: [],
+};
+
+describe("parseGitSpec", () => {
+  it("should split the ref and path", () => {
+    expect(parseGitSpec("main:src/db/schema.ts")).toEqual({
+      ref: "main",
+      path: "src/db/schema.ts",
+    });
+    expect(parseGitSpec("HEAD~1:./schema")).toEqual({ ref: "HEAD~1", path: "./schema" });
+  });
+
+  it("should return undefined for plain and Windows paths", () => {
+    expect(parseGitSpec("src/db/schema.ts")).toBeUndefined();
+    expect(parseGitSpec("C:\\db\\schema.ts")).toBeUndefined();
+  });
+});
+
+describe("readSchemaJson", () => {
+  beforeAll(() => {
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it("should read the schema from a JsonFormatter document", () => {
+    const jsonPath = join(TEST_DIR, "document.json");
+    writeFileSync(jsonPath, new JsonFormatter().format(schema));
+
+    expect(readSchemaJson(jsonPath)).toEqual({ ...schema, views: [] });
+  });
+
+  it("should read a bare intermediate schema", () => {
+    const jsonPath = join(TEST_DIR, "bare.json");
+    writeFileSync(jsonPath, JSON.stringify(schema));
+
+    expect(readSchemaJson(jsonPath)).toEqual(schema);
+  });
+
+  it("should reject newer format versions", () => {
+    const jsonPath = join(TEST_DIR, "future.json");
+    writeFileSync(jsonPath, JSON.stringify({ formatVersion: 99, schema }));
+
+    expect(() => readSchemaJson(jsonPath)).toThrow("Unsupported JSON format version 99");
+  });
+
+  it("should reject JSON that is not a schema", () => {
+    const jsonPath = join(TEST_DIR, "other.json");
+    writeFileSync(jsonPath, JSON.stringify({ name: "package" }));
+
+    expect(() => readSchemaJson(jsonPath)).toThrow("does not contain a drizzle-docs JSON schema");
+  });
+});
@@ -0,0 +1,156 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, posix, relative, resolve, sep } from "node:path";
+import { JSON_FORMAT_VERSION, type JsonSchemaDocument } from "../formatter/json";
+import type { IntermediateSchema } from "../types";
+
+/**
+ * A schema path at a git revision (e.g., "main:src/db/schema.ts")
+ */
+export interface GitSchemaSpec {
+  /** Commit-ish to read the schema from */
+  ref: string;
+  /** Schema file or directory, relative to the repository root */
+  path: string;
+}
+
+/**
+ * Schema files written out from a git revision
+ */
+export interface GitSchemaCheckout {
+  /** Absolute path of the schema file or directory in the checkout */
+  schemaPath: string;
+  /** Remove the checked out files */
+  cleanup: () => void;
+}
+
+/**
+ * Read an intermediate schema from JSON emitted by `--format json`
+ *
+ * Both the versioned document and a bare IntermediateSchema are accepted.
+ *
+ * @param jsonPath - Path to the JSON file
+ * @returns The intermediate schema
+ */
+export function readSchemaJson(jsonPath: string): IntermediateSchema {
+  const value = JSON.parse(readFileSync(jsonPath, "utf-8")) as
+    | Partial<JsonSchemaDocument>
+    | Partial<IntermediateSchema>;
+
+  let schema: Partial<IntermediateSchema> | undefined = value as Partial<IntermediateSchema>;
+  if ("formatVersion" in value) {
+    if (typeof value.formatVersion !== "number" || value.formatVersion > JSON_FORMAT_VERSION) {
+      throw new Error(
+        `Unsupported JSON format version ${String(value.formatVersion)} in ${jsonPath} (supported: ${JSON_FORMAT_VERSION})`,
+      );
+    }
+    schema = value.schema;
+  }
+
+  if (!schema || !Array.isArray(schema.tables)) {
+    throw new Error(`${jsonPath} does not contain a drizzle-docs JSON schema`);
+  }
+  return {
+    databaseType: schema.databaseType ?? "postgresql",
+    tables: schema.tables,
+    views: schema.views,
+    relations: schema.relations ?? [],
+    enums: schema.enums ?? [],
+  };
+}
+
+/**
+ * Parse a `<ref>:<path>` git schema spec
+ *
+ * Paths are relative to the repository root, or to the working directory when they
+ * start with "./" or "../" (like `git show`).
+ *
+ * @param spec - The spec to parse
+ * @returns The parsed spec, or undefined if the spec is not in `<ref>:<path>` form
+ */
+export function parseGitSpec(spec: string): GitSchemaSpec | undefined {
+  // Windows drive letters (C:\...) are paths, not git specs
+  if (/^[A-Za-z]:[\\/]/.test(spec)) {
+    return undefined;
+  }
+  const match = /^([^:]+):(.+)$/.exec(spec);
+  if (!match) {
+    return undefined;
+  }
+  return { ref: match[1]!, path: match[2]! };
+}
+
+/**
+ * Write the schema files of a git revision to a temporary directory
+ *
+ * For a schema file, the whole directory containing it is written so that relative
+ * imports between schema files resolve. The checkout is placed under the repository's
+ * node_modules/.cache so that package imports (e.g., drizzle-orm) resolve as well.
+ *
+ * @param spec - The revision and schema path
+ * @param cwd - Working directory inside the repository
+ * @returns The path of the schema in the checkout and a cleanup function
+ */
+export function checkoutGitSchema(spec: GitSchemaSpec, cwd: string): GitSchemaCheckout {
+  const git = (args: string[]) =>
+    execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] });
+
+  let repoRoot: string;
+  try {
+    repoRoot = git(["rev-parse", "--show-toplevel"]).trim();
+  } catch {
+    throw new Error(`Cannot read "${spec.ref}:${spec.path}": ${cwd} is not in a git repository`);
+  }
+
+  const repoPath = toRepoPath(spec.path, cwd, repoRoot);
+  let objectType: string;
+  try {
+    objectType = git(["cat-file", "-t", `${spec.ref}:${repoPath}`]).trim();
+  } catch {
+    throw new Error(`Path "${repoPath}" does not exist at git ref "${spec.ref}"`);
+  }
+
+  const checkoutDir = objectType === "tree" ? repoPath : posix.dirname(repoPath);
+  const files = git([
+    "ls-tree",
+    "-r",
+    "-z",
+    "--name-only",
+    "--full-tree",
+    spec.ref,
+    "--",
+    checkoutDir,
+  ])
+    .split("\0")
+    .filter(Boolean);
+
+  const cacheDir = join(repoRoot, "node_modules", ".cache");
+  mkdirSync(cacheDir, { recursive: true });
+  const tempDir = mkdtempSync(join(cacheDir, "drizzle-docs-diff-"));
+  const cleanup = () => rmSync(tempDir, { recursive: true, force: true });
+
+  try {
+    for (const file of files) {
+      const filePath = join(tempDir, ...file.split("/"));
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(
+        filePath,
+        execFileSync("git", ["cat-file", "blob", `${spec.ref}:${file}`], { cwd }),
+      );
+    }
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+
+  return { schemaPath: join(tempDir, ...repoPath.split("/")), cleanup };
+}
+
+/**
+ * Convert a spec path to a path relative to the repository root with "/" separators
+ */
+function toRepoPath(path: string, cwd: string, repoRoot: string): string {
+  const isCwdRelative = path.startsWith("./") || path.startsWith("../");
+  const relativePath = isCwdRelative ? relative(repoRoot, resolve(cwd, path)) : path;
+  return relativePath.split(sep).join("/").replace(/\/$/, "") || ".";
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { TextDiffReporter } from "./text-reporter";
+import type { SchemaDiff } from "./types";
+
+const emptyDiff: SchemaDiff = {
+  oldDialect: "postgresql",
+  newDialect: "postgresql",
+  tables: [],
+  relations: [],
+  enums: [],
+};
+
+describe("TextDiffReporter", () => {
+  const reporter = new TextDiffReporter();
+
+  it("should state when there are no changes", () => {
+    expect(reporter.report(emptyDiff)).toBe("No schema changes.");
+  });
+
+  it("should list changes with +, - and ~ markers", () => {
+    const output = reporter.report({
+      ...emptyDiff,
+      tables: [
+        { name: "legacy", kind: "removed", columns: [], indexes: [], constraints: [] },
+        {
+          name: "users",
+          kind: "changed",
+          columns: [
+            {
+              name: "status",
+              kind: "changed",
+              type: "text",
+              defaultChange: { old: undefined, new: "'active'" },
+            },
+          ],
+          indexes: [],
+          constraints: [
+            {
+              name: "users_org_fk",
+              kind: "added",
+              new: {
+                name: "users_org_fk",
+                type: "foreign_key",
+                columns: ["org_id"],
+                referencedTable: "orgs",
+                referencedColumns: ["id"],
+              },
+            },
+          ],
+        },
+      ],
+      relations: [
+        {
+          kind: "changed",
+          fromTable: "users",
+          fromColumns: ["org_id"],
+          toTable: "orgs",
+          toColumns: ["id"],
+          type: "many-to-one",
+          onDeleteChange: { old: "no action", new: "cascade" },
+        },
+      ],
+      enums: [{ name: "role", kind: "changed", addedValues: ["owner"], removedValues: ["guest"] }],
+    });
+
+    expect(output).toBe(
+      [
+        "Tables:",
+        "  - legacy",
+        "  ~ users",
+        "      ~ column status: default none -> 'active'",
+        "      + constraint users_org_fk: FOREIGN KEY (org_id) -> orgs(id)",
+        "Relations:",
+        "  ~ users(org_id) -> orgs(id): onDelete no action -> cascade",
+        "Enums:",
+        "  ~ role: +owner -guest",
+      ].join("\n"),
+    );
+  });
+
+  it("should show the name and filter of a relation", () => {
+    const output = reporter.report({
+      ...emptyDiff,
+      relations: [
+        {
+          kind: "added",
+          fromTable: "posts",
+          fromColumns: ["author_id"],
+          toTable: "users",
+          toColumns: ["id"],
+          name: "activeAuthor",
+          where: "active = true",
+          type: "many-to-one",
+        },
+      ],
+    });
+
+    expect(output).toBe(
+      [
+        "Relations:",
+        "  + posts(author_id) -> users(id) as activeAuthor where active = true: many-to-one",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import type { ConstraintDefinition, IndexDefinition } from "../types";
+import {
+  describeColumnChanges,
+  describeConstraint,
+  describeIndex,
+  describeRelationChanges,
+  describeRelationEnds,
+  type DescribedChange,
+} from "./describe";
+import type {
+  ChangeKind,
+  ConstraintDiff,
+  DiffReporter,
+  IndexDiff,
+  SchemaDiff,
+  TableDiff,
+} from "./types";
+import { hasChanges } from "./schema-diff";
+
+/**
+ * Markers prefixed to each change
+ */
+const CHANGE_MARKERS: Record<ChangeKind, string> = {
+  added: "+",
+  removed: "-",
+  changed: "~",
+};
+
+/**
+ * TextDiffReporter renders a SchemaDiff as plain text for terminals and logs
+ *
+ * @example
+ * ```text
+ * Tables:
+ *   + comments
+ *   ~ users
+ *       + column bio: text
+ *       ~ column email: type varchar(100) -> varchar(255)
+ * ```
+ */
+export class TextDiffReporter implements DiffReporter {
+  /**
+   * Render the schema diff as plain text
+   *
+   * @param diff - The differences to report
+   * @returns The text report
+   */
+  report(diff: SchemaDiff): string {
+    if (!hasChanges(diff)) {
+      return "No schema changes.";
+    }
+
+    const lines: string[] = [];
+
+    if (diff.oldDialect !== diff.newDialect) {
+      lines.push(`Dialect: ${diff.oldDialect} -> ${diff.newDialect}`);
+    }
+
+    if (diff.tables.length > 0) {
+      lines.push("Tables:");
+      for (const table of diff.tables) {
+        lines.push(`  ${CHANGE_MARKERS[table.kind]} ${table.name}`);
+        lines.push(...this.formatTableChanges(table).map((line) => `      ${line}`));
+      }
+    }
+
+    if (diff.relations.length > 0) {
+      lines.push("Relations:");
+      for (const relation of diff.relations) {
+        const details =
+          relation.kind === "changed"
+            ? this.formatChanges(describeRelationChanges(relation))
+            : relation.type;
+        lines.push(
+          `  ${CHANGE_MARKERS[relation.kind]} ${this.toAscii(describeRelationEnds(relation))}: ${details}`,
+        );
+      }
+    }
+
+    if (diff.enums.length > 0) {
+      lines.push("Enums:");
+      for (const enumDiff of diff.enums) {
+        const values = [
+          ...enumDiff.addedValues.map((value) => `+${value}`),
+          ...enumDiff.removedValues.map((value) => `-${value}`),
+        ];
+        lines.push(`  ${CHANGE_MARKERS[enumDiff.kind]} ${enumDiff.name}: ${values.join(" ")}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format the column, index and constraint changes of a table
+   */
+  private formatTableChanges(table: TableDiff): string[] {
+    const lines: string[] = [];
+
+    for (const column of table.columns) {
+      const details =
+        column.kind === "changed" ? this.formatChanges(describeColumnChanges(column)) : column.type;
+      lines.push(`${CHANGE_MARKERS[column.kind]} column ${column.name}: ${details}`);
+    }
+    for (const index of table.indexes) {
+      lines.push(
+        `${CHANGE_MARKERS[index.kind]} index ${index.name}: ${this.formatDefinitionDiff(index, describeIndex)}`,
+      );
+    }
+    for (const constraint of table.constraints) {
+      lines.push(
+        `${CHANGE_MARKERS[constraint.kind]} constraint ${constraint.name}: ${this.formatDefinitionDiff(constraint, describeConstraint)}`,
+      );
+    }
+
+    return lines;
+  }
+
+  /**
+   * Format an index or constraint change, showing the old and new definition when changed
+   */
+  private formatDefinitionDiff<T extends IndexDefinition | ConstraintDefinition>(
+    diff: IndexDiff | ConstraintDiff,
+    describe: (definition: T) => string,
+  ): string {
+    if (diff.old && diff.new) {
+      return this.toAscii(`${describe(diff.old as T)} -> ${describe(diff.new as T)}`);
+    }
+    return this.toAscii(describe((diff.new ?? diff.old) as T));
+  }
+
+  /**
+   * Format property changes (e.g., "type a -> b, nullable true -> false")
+   */
+  private formatChanges(changes: DescribedChange[]): string {
+    return changes.map((change) => `${change.label} ${change.old} -> ${change.new}`).join(", ");
+  }
+
+  /**
+   * Replace the arrows used by the shared descriptions with ASCII
+   */
+  private toAscii(str: string): string {
+    return str.replace(/→/g, "->");
+  }
+}
@@ -0,0 +1,160 @@
+import type {
+  ConstraintDefinition,
+  DatabaseType,
+  IndexDefinition,
+  IntermediateRelationType,
+} from "../types";
+
+/**
+ * Kind of change between two schemas
+ */
+export type ChangeKind = "added" | "removed" | "changed";
+
+/**
+ * A changed property with its old and new value
+ */
+export interface PropertyChange<T> {
+  /** Value in the old schema */
+  old: T;
+  /** Value in the new schema */
+  new: T;
+}
+
+/**
+ * Column change
+ */
+export interface ColumnDiff {
+  /** Column name */
+  name: string;
+  /** Kind of change */
+  kind: ChangeKind;
+  /** SQL data type (the new type for changed columns) */
+  type: string;
+  /** Changed data type */
+  typeChange?: PropertyChange<string>;
+  /** Changed nullability */
+  nullableChange?: PropertyChange<boolean>;
+  /** Changed default value expression (undefined means no default) */
+  defaultChange?: PropertyChange<string | undefined>;
+}
+
+/**
+ * Index change
+ */
+export interface IndexDiff {
+  /** Index name */
+  name: string;
+  /** Kind of change */
+  kind: ChangeKind;
+  /** Index in the old schema (undefined for added indexes) */
+  old?: IndexDefinition;
+  /** Index in the new schema (undefined for removed indexes) */
+  new?: IndexDefinition;
+}
+
+/**
+ * Constraint change
+ */
+export interface ConstraintDiff {
+  /** Constraint name */
+  name: string;
+  /** Kind of change */
+  kind: ChangeKind;
+  /** Constraint in the old schema (undefined for added constraints) */
+  old?: ConstraintDefinition;
+  /** Constraint in the new schema (undefined for removed constraints) */
+  new?: ConstraintDefinition;
+}
+
+/**
+ * Table change
+ *
+ * Added and removed tables only carry their name; the column, index and
+ * constraint changes are listed for changed tables.
+ */
+export interface TableDiff {
+  /** Table name (schema-qualified when the table has a schema) */
+  name: string;
+  /** Kind of change */
+  kind: ChangeKind;
+  /** Column changes */
+  columns: ColumnDiff[];
+  /** Index changes */
+  indexes: IndexDiff[];
+  /** Constraint changes */
+  constraints: ConstraintDiff[];
+}
+
+/**
+ * Relation change
+ *
+ * Relations are identified by their tables and columns; a relation whose
+ * cardinality or referential actions changed is reported as changed.
+ */
+export interface RelationDiff {
+  /** Kind of change */
+  kind: ChangeKind;
+  /** Source table name */
+  fromTable: string;
+  /** Source column names */
+  fromColumns: string[];
+  /** Target table name */
+  toTable: string;
+  /** Target column names */
+  toColumns: string[];
+  /** Relation name, if any */
+  name?: string;
+  /** Relation filter, if any */
+  where?: string;
+  /** Relation cardinality (the new one for changed relations) */
+  type: IntermediateRelationType;
+  /** Changed cardinality */
+  typeChange?: PropertyChange<IntermediateRelationType>;
+  /** Changed ON DELETE action */
+  onDeleteChange?: PropertyChange<string | undefined>;
+  /** Changed ON UPDATE action */
+  onUpdateChange?: PropertyChange<string | undefined>;
+}
+
+/**
+ * Enum change
+ */
+export interface EnumDiff {
+  /** Enum name (schema-qualified when the enum has a schema) */
+  name: string;
+  /** Kind of change */
+  kind: ChangeKind;
+  /** Values added to the enum (all values for added enums) */
+  addedValues: string[];
+  /** Values removed from the enum (all values for removed enums) */
+  removedValues: string[];
+}
+
+/**
+ * Differences between two intermediate schemas
+ */
+export interface SchemaDiff {
+  /** Dialect of the old schema */
+  oldDialect: DatabaseType;
+  /** Dialect of the new schema */
+  newDialect: DatabaseType;
+  /** Table changes */
+  tables: TableDiff[];
+  /** Relation changes */
+  relations: RelationDiff[];
+  /** Enum changes */
+  enums: EnumDiff[];
+}
+
+/**
+ * DiffReporter interface for rendering a SchemaDiff
+ */
+export interface DiffReporter {
+  /**
+   * Render the schema diff
+   *
+   * @param diff - The differences to report
+   * @returns The report as a string
+   */
+  report(diff: SchemaDiff): string;
+}
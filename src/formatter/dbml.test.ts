@@ -159,6 +159,57 @@ describe("DbmlFormatter", () => {
       expect(dbml).toContain("default: `now()`");
     });
 
+    it("should describe generated and identity columns in notes", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "id",
+                type: "integer",
+                nullable: false,
+                primaryKey: true,
+                unique: false,
+                identity: { type: "always", startWith: "1000" },
+              },
+              {
+                name: "email",
+                type: "text",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+                comment: "Login email",
+              },
+              {
+                name: "email_domain",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                generated: { expression: "split_part(email, '@', 2)", mode: "stored" },
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const dbml = new DbmlFormatter().format(schema);
+
+      expect(dbml).toContain(
+        `"id" integer [primary key, not null, note: 'GENERATED ALWAYS AS IDENTITY (START WITH 1000)']`,
+      );
+      expect(dbml).toContain(`"email" text [not null, note: 'Login email']`);
+      expect(dbml).toContain(
+        `"email_domain" text [note: 'GENERATED ALWAYS AS (split_part(email, \\'@\\', 2)) STORED']`,
+      );
+    });
+
     it("should format empty schema", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -222,6 +273,63 @@ describe("DbmlFormatter", () => {
       expect(dbml).toContain("(\"email\") [unique, name: 'email_unique_idx']");
     });
 
+    it("should format expression indexes and note what DBML cannot express", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            schema: "auth",
+            columns: [
+              {
+                name: "email",
+                type: "varchar(255)",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+              },
+            ],
+            indexes: [
+              {
+                name: "email_lower_idx",
+                columns: [],
+                unique: true,
+                parts: [{ expression: "lower(email)" }],
+                where: "deleted_at IS NULL",
+              },
+              {
+                name: "email_trgm_idx",
+                columns: ["email"],
+                unique: false,
+                type: "gin",
+                parts: [{ column: "email", opClass: "gin_trgm_ops" }],
+              },
+              {
+                name: "email_hash_idx",
+                columns: ["email"],
+                unique: false,
+                type: "hash",
+              },
+            ],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain(
+        "(`lower(email)`) [unique, name: 'email_lower_idx', note: 'CREATE UNIQUE INDEX email_lower_idx ON auth.users (lower(email)) WHERE (deleted_at IS NULL)']",
+      );
+      expect(dbml).toContain(
+        "(\"email\") [name: 'email_trgm_idx', note: 'CREATE INDEX email_trgm_idx ON auth.users USING gin (email gin_trgm_ops)']",
+      );
+      expect(dbml).toContain("(\"email\") [name: 'email_hash_idx', type: hash]");
+    });
+
     it("should format relations", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -396,6 +504,134 @@ describe("DbmlFormatter", () => {
       expect(dbml).toContain('Ref: "users"."id" < "posts"."author_id"');
     });
 
+    it("should format many-to-many relations as junction table refs", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "posts",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+          {
+            name: "tags",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+          {
+            name: "post_tags",
+            columns: [
+              {
+                name: "post_id",
+                type: "integer",
+                nullable: false,
+                primaryKey: true,
+                unique: false,
+              },
+              { name: "tag_id", type: "integer", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [
+          {
+            fromTable: "post_tags",
+            fromColumns: ["post_id"],
+            toTable: "posts",
+            toColumns: ["id"],
+            type: "many-to-one",
+          },
+          {
+            fromTable: "posts",
+            fromColumns: ["id"],
+            toTable: "tags",
+            toColumns: ["id"],
+            type: "many-to-many",
+            through: { table: "post_tags", fromColumns: ["post_id"], toColumns: ["tag_id"] },
+          },
+        ],
+        enums: [],
+      };
+
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain('Ref: "post_tags"."post_id" > "posts"."id"');
+      expect(dbml).toContain('Ref: "post_tags"."tag_id" > "tags"."id"');
+      expect(dbml).not.toContain("<>");
+      expect(dbml.match(/Ref: /g)).toHaveLength(2);
+    });
+
+    it("should name refs of named relations", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+          {
+            name: "posts",
+            columns: [
+              {
+                name: "author_id",
+                type: "integer",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+              },
+              {
+                name: "reviewer_id",
+                type: "integer",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [
+          {
+            name: "author",
+            fromTable: "posts",
+            fromColumns: ["author_id"],
+            toTable: "users",
+            toColumns: ["id"],
+            type: "many-to-one",
+          },
+          {
+            name: "reviewer",
+            fromTable: "posts",
+            fromColumns: ["reviewer_id"],
+            toTable: "users",
+            toColumns: ["id"],
+            type: "many-to-one",
+            where: "is_active = true",
+          },
+        ],
+        enums: [],
+      };
+
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain('Ref "posts_author": "posts"."author_id" > "users"."id"');
+      expect(dbml).toContain('Ref "posts_reviewer": "posts"."reviewer_id" > "users"."id"');
+    });
+
     it("should format relations with onDelete and onUpdate", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -502,6 +738,73 @@ describe("DbmlFormatter", () => {
       expect(dbml).toContain("pending");
     });
 
+    it("should add row-level security policies to notes and list sequences and roles", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "posts",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+            rlsEnabled: true,
+            policies: [
+              {
+                name: "owner_read",
+                as: "permissive",
+                command: "select",
+                roles: ["admin", "authenticated"],
+                using: "owner_id = current_user",
+              },
+              {
+                name: "owner_write",
+                as: "restrictive",
+                command: "insert",
+                roles: ["public"],
+                withCheck: "owner_id = current_user",
+              },
+            ],
+          },
+          {
+            name: "audit_log",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+            rlsEnabled: true,
+          },
+        ],
+        relations: [],
+        enums: [],
+        sequences: [
+          { name: "order_seq", startWith: "100", increment: "2", cycle: true },
+          { name: "invoice_seq", schema: "billing" },
+        ],
+        roles: [
+          { name: "admin", createRole: true, inherit: false },
+          { name: "authenticated", existing: true },
+        ],
+      };
+
+      const dbml = new DbmlFormatter().format(schema);
+
+      expect(dbml).toContain(
+        "Note: 'Row level security: enabled\\n" +
+          "Policy owner_read AS PERMISSIVE FOR SELECT TO admin, authenticated USING (owner_id = current_user)\\n" +
+          "Policy owner_write AS RESTRICTIVE FOR INSERT TO public WITH CHECK (owner_id = current_user)'",
+      );
+      expect(dbml).toContain("Note: 'Row level security: enabled'");
+      expect(dbml).toContain(
+        "Note sequences {\n  'order_seq INCREMENT BY 2 START WITH 100 CYCLE\\nbilling.invoice_seq'\n}",
+      );
+      expect(dbml).toContain(
+        "Note roles {\n  'admin CREATEROLE NOINHERIT\\nauthenticated (existing)'\n}",
+      );
+    });
+
     it("should include table comments as Note", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -603,6 +906,48 @@ describe("DbmlFormatter", () => {
       expect(dbml).toContain("note: 'It\\'s the primary key'");
     });
 
+    it("should add deprecations, owners, tags, examples and references to notes", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            comment: "User accounts",
+            deprecated: "Use accounts instead",
+            owners: ["identity-team"],
+            tags: ["core"],
+            customTags: [{ name: "since", text: "2.0" }],
+            examples: ["select * from users"],
+            see: ["accounts"],
+            columns: [
+              {
+                name: "email",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                comment: "Email address",
+                deprecated: "",
+                customTags: [{ name: "pii" }],
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain(
+        "Note: 'User accounts\\n\\nDeprecated: Use accounts instead\\n\\nOwners: identity-team\\n\\nTags: core, @since 2.0\\n\\nExample:\\nselect * from users\\n\\nSee: accounts'",
+      );
+      expect(dbml).toContain(`"email" text [note: 'Email address\\nDeprecated\\nTags: @pii']`);
+    });
+
     it("should escape names with special characters", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -634,6 +979,48 @@ describe("DbmlFormatter", () => {
     });
   });
 
+  describe("check constraints", () => {
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [
+        {
+          name: "products",
+          comment: "Products for sale",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            { name: "price", type: "integer", nullable: false, primaryKey: false, unique: false },
+          ],
+          indexes: [],
+          constraints: [
+            {
+              name: "price_positive",
+              type: "check",
+              columns: ["price"],
+              definition: "price > 0",
+            },
+          ],
+        },
+      ],
+      relations: [],
+      enums: [],
+    };
+
+    it("should emit a checks block before the table note", () => {
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain("  checks {\n    `price > 0` [name: 'price_positive']\n  }");
+      expect(dbml.indexOf("checks {")).toBeLessThan(dbml.indexOf("Note: 'Products for sale'"));
+    });
+
+    it("should exclude checks when includeConstraints is false", () => {
+      const formatter = new DbmlFormatter({ includeConstraints: false });
+      const dbml = formatter.format(schema);
+
+      expect(dbml).not.toContain("checks {");
+    });
+  });
+
   describe("formatter options", () => {
     it("should exclude comments when includeComments is false", () => {
       const schema: IntermediateSchema = {
@@ -749,6 +1136,153 @@ describe("DbmlFormatter", () => {
     });
   });
 
+  describe("structured data types", () => {
+    it("should reference schema-qualified enums and keep array brackets", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "mood",
+                type: "mood",
+                dataType: { base: "mood", enum: "app.mood" },
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+              },
+              {
+                name: "seen_at",
+                type: "timestamp (3) with time zone[]",
+                dataType: { base: "timestamp with time zone", precision: 3, arrayDimensions: 1 },
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [{ name: "mood", schema: "app", values: ["happy", "sad"] }],
+      };
+
+      const dbml = new DbmlFormatter().format(schema);
+
+      expect(dbml).toContain('"mood" "app"."mood"');
+      expect(dbml).toContain('"seen_at" timestamptz(3)[]');
+    });
+  });
+
+  describe("database schemas", () => {
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [
+        {
+          name: "users",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+        {
+          name: "invoices",
+          schema: "billing",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            { name: "user_id", type: "integer", nullable: false, primaryKey: false, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+      ],
+      relations: [
+        {
+          fromTable: "billing.invoices",
+          fromColumns: ["user_id"],
+          toTable: "users",
+          toColumns: ["id"],
+          type: "many-to-one",
+        },
+      ],
+      enums: [{ name: "invoice_status", schema: "billing", values: ["draft", "paid"] }],
+    };
+
+    it("should emit schema-qualified table and enum names", () => {
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain('Enum "billing"."invoice_status" {');
+      expect(dbml).toContain('Table "users" {');
+      expect(dbml).toContain('Table "billing"."invoices" {');
+    });
+
+    it("should emit schema-qualified table names in refs", () => {
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain('Ref: "billing"."invoices"."user_id" > "users"."id"');
+    });
+  });
+
+  describe("views", () => {
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [],
+      views: [
+        {
+          name: "active_users",
+          schema: "reporting",
+          materialized: false,
+          comment: "Recently active users",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: false, unique: false },
+          ],
+          definition: 'select "id" from "users" where "last_seen" > now() - \'7 days\'',
+        },
+        {
+          name: "user_counts",
+          materialized: true,
+          columns: [
+            { name: "total", type: "integer", nullable: true, primaryKey: false, unique: false },
+          ],
+        },
+      ],
+      relations: [],
+      enums: [],
+    };
+
+    it("should emit views as tables annotated with a note", () => {
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain('Table "reporting"."active_users" {');
+      expect(dbml).toContain('"id" serial [not null]');
+      expect(dbml).toContain(
+        'Note: \'VIEW\\n\\nRecently active users\\n\\nselect "id" from "users" where "last_seen" > now() - \\\'7 days\\\'\'',
+      );
+    });
+
+    it("should mark materialized views", () => {
+      const formatter = new DbmlFormatter();
+      const dbml = formatter.format(schema);
+
+      expect(dbml).toContain('Table "user_counts" {');
+      expect(dbml).toContain("Note: 'MATERIALIZED VIEW'");
+    });
+
+    it("should omit the view comment when comments are disabled", () => {
+      const formatter = new DbmlFormatter({ includeComments: false });
+      const dbml = formatter.format(schema);
+
+      expect(dbml).not.toContain("Recently active users");
+      expect(dbml).toContain("Note: 'VIEW\\n\\nselect");
+    });
+  });
+
   describe("OutputFormatter interface", () => {
     it("should implement OutputFormatter interface", () => {
       const formatter = new DbmlFormatter();
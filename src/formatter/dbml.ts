@@ -3,12 +3,34 @@ import type {
   TableDefinition,
   ColumnDefinition,
   IndexDefinition,
+  IndexPart,
   ConstraintDefinition,
   RelationDefinition,
   EnumDefinition,
+  ViewDefinition,
+  DatabaseType,
 } from "../types";
 import type { OutputFormatter, FormatterOptions } from "./types";
+import {
+  formatColumnAttributes,
+  formatGenerationClause,
+  formatIndexDefinition,
+  formatPolicy,
+  formatRoleAttributes,
+  formatSequenceOptions,
+} from "./sql-clauses";
 import { DbmlBuilder } from "./dbml-builder";
+import { getDataType } from "../utils/data-type";
+import { expandJunctionRelations } from "../utils/junction";
+import { qualifyName } from "../utils/table-name";
+
+/**
+ * Short names of the time zone types, which DBML accepts
+ */
+const TIME_ZONE_TYPES: Record<string, string> = {
+  "timestamp with time zone": "timestamptz",
+  "time with time zone": "timetz",
+};
 
 /**
  * Default formatter options
@@ -17,6 +39,7 @@ const DEFAULT_OPTIONS: Required<FormatterOptions> = {
   includeComments: true,
   includeIndexes: true,
   includeConstraints: true,
+  typeNames: {},
 };
 
 /**
@@ -24,6 +47,9 @@ const DEFAULT_OPTIONS: Required<FormatterOptions> = {
  *
  * This formatter wraps the existing DbmlBuilder to provide DBML output
  * from the database-agnostic IntermediateSchema representation.
+ *
+ * DBML has no view syntax, so views are emitted as tables whose Note
+ * marks them as a view and carries the view query.
  */
 export class DbmlFormatter implements OutputFormatter {
   private options: Required<FormatterOptions>;
@@ -46,21 +72,45 @@ export class DbmlFormatter implements OutputFormatter {
   format(schema: IntermediateSchema): string {
     const dbml = new DbmlBuilder();
 
-    // Generate enums (PostgreSQL specific)
+    // Generate enums (PostgreSQL enum types and MySQL inline enums)
     for (const enumDef of schema.enums) {
       this.formatEnum(dbml, enumDef);
       dbml.line();
     }
 
+    // Generate sticky notes listing sequences and roles (PostgreSQL specific)
+    const sequences = (schema.sequences ?? []).map((sequence) =>
+      [qualifyName(sequence.name, sequence.schema), ...formatSequenceOptions(sequence)].join(" "),
+    );
+    if (sequences.length > 0) {
+      this.formatStickyNote(dbml, "sequences", sequences);
+      dbml.line();
+    }
+    const roles = (schema.roles ?? []).map((role) =>
+      [role.name, ...formatRoleAttributes(role), ...(role.existing ? ["(existing)"] : [])].join(
+        " ",
+      ),
+    );
+    if (roles.length > 0) {
+      this.formatStickyNote(dbml, "roles", roles);
+      dbml.line();
+    }
+
     // Generate tables
     for (const table of schema.tables) {
-      this.formatTable(dbml, table);
+      this.formatTable(dbml, table, schema.databaseType);
+      dbml.line();
+    }
+
+    // Generate views as annotated tables
+    for (const view of schema.views ?? []) {
+      this.formatView(dbml, view);
       dbml.line();
     }
 
-    // Generate relations
-    for (const relation of schema.relations) {
-      this.formatRelation(dbml, relation);
+    // Generate relations (DBML draws many-to-many relations through their junction table)
+    for (const relation of expandJunctionRelations(schema.relations)) {
+      this.formatRelation(dbml, relation, schema.tables);
     }
 
     return dbml.build().trim();
@@ -70,7 +120,7 @@ export class DbmlFormatter implements OutputFormatter {
    * Format an enum definition to DBML
    */
   private formatEnum(dbml: DbmlBuilder, enumDef: EnumDefinition): void {
-    const name = this.escapeName(enumDef.name);
+    const name = this.escapeQualifiedName(enumDef.name, enumDef.schema);
     dbml.line(`Enum ${name} {`);
     dbml.indent();
     for (const value of enumDef.values) {
@@ -80,11 +130,22 @@ export class DbmlFormatter implements OutputFormatter {
     dbml.line("}");
   }
 
+  /**
+   * Format a sticky note (a Note outside any table) with one line per item
+   */
+  private formatStickyNote(dbml: DbmlBuilder, name: string, lines: string[]): void {
+    dbml.line(`Note ${name} {`);
+    dbml.indent();
+    dbml.line(`'${this.escapeString(lines.join("\n"))}'`);
+    dbml.dedent();
+    dbml.line("}");
+  }
+
   /**
    * Format a table definition to DBML
    */
-  private formatTable(dbml: DbmlBuilder, table: TableDefinition): void {
-    const tableName = this.escapeName(table.name);
+  private formatTable(dbml: DbmlBuilder, table: TableDefinition, databaseType: DatabaseType): void {
+    const tableName = this.escapeQualifiedName(table.name, table.schema);
     dbml.line(`Table ${tableName} {`);
     dbml.indent();
 
@@ -100,25 +161,69 @@ export class DbmlFormatter implements OutputFormatter {
     const hasConstraints = pkConstraints.length > 0 || ucConstraints.length > 0;
 
     if (this.options.includeIndexes && (hasIndexes || hasConstraints)) {
-      this.formatIndexesBlock(dbml, table.indexes, pkConstraints, ucConstraints);
+      this.formatIndexesBlock(dbml, table, databaseType, pkConstraints, ucConstraints);
+    }
+
+    // Generate checks block if enabled and there are check constraints
+    const checkConstraints = table.constraints.filter((c) => c.type === "check" && c.definition);
+    if (this.options.includeConstraints && checkConstraints.length > 0) {
+      this.formatChecksBlock(dbml, checkConstraints);
     }
 
-    // Add table-level Note if comment exists and comments are enabled
-    if (this.options.includeComments && table.comment) {
+    // Add table-level Note with the comment (if comments are enabled), documentation tags
+    // and row-level security policies
+    const noteParts = this.getNoteParts(table);
+    const policies = table.policies ?? [];
+    if (table.rlsEnabled || policies.length > 0) {
+      noteParts.push(
+        [
+          `Row level security: ${table.rlsEnabled ? "enabled" : "disabled"}`,
+          ...policies.map((policy) => `Policy ${formatPolicy(policy)}`),
+        ].join("\n"),
+      );
+    }
+    if (noteParts.length > 0) {
       dbml.line();
-      dbml.line(`Note: '${this.escapeString(table.comment)}'`);
+      dbml.line(`Note: '${this.escapeString(noteParts.join("\n\n"))}'`);
     }
 
     dbml.dedent();
     dbml.line("}");
   }
 
+  /**
+   * Format a view definition to DBML
+   */
+  private formatView(dbml: DbmlBuilder, view: ViewDefinition): void {
+    const viewName = this.escapeQualifiedName(view.name, view.schema);
+    dbml.line(`Table ${viewName} {`);
+    dbml.indent();
+
+    for (const column of view.columns) {
+      this.formatColumn(dbml, column);
+    }
+
+    const noteParts = [
+      view.materialized ? "MATERIALIZED VIEW" : "VIEW",
+      ...this.getNoteParts(view),
+    ];
+    if (view.definition) {
+      noteParts.push(view.definition);
+    }
+
+    dbml.line();
+    dbml.line(`Note: '${this.escapeString(noteParts.join("\n\n"))}'`);
+
+    dbml.dedent();
+    dbml.line("}");
+  }
+
   /**
    * Format a column definition to DBML
    */
   private formatColumn(dbml: DbmlBuilder, column: ColumnDefinition): void {
     const name = this.escapeName(column.name);
-    const type = this.normalizeType(column.type);
+    const type = this.formatType(column);
     const attrs = this.getColumnAttributes(column);
     const attrStr = attrs.join(", ");
 
@@ -150,13 +255,58 @@ export class DbmlFormatter implements OutputFormatter {
     if (column.defaultValue !== undefined) {
       attrs.push(`default: ${this.formatDefaultValue(column.defaultValue)}`);
     }
-    if (this.options.includeComments && column.comment) {
-      attrs.push(`note: '${this.escapeString(column.comment)}'`);
+    const noteParts = this.getNoteParts(column);
+    const generationClause = formatGenerationClause(column);
+    if (generationClause) {
+      noteParts.push(generationClause);
+    }
+    if (column.mode) {
+      noteParts.push(`Mode: ${column.mode}`);
+    }
+    const columnAttributes = formatColumnAttributes(column);
+    if (columnAttributes.length > 0) {
+      noteParts.push(columnAttributes.join(" "));
+    }
+    if (noteParts.length > 0) {
+      attrs.push(`note: '${this.escapeString(noteParts.join("\n"))}'`);
     }
 
     return attrs;
   }
 
+  /**
+   * Get the sections of a Note: the comment (if comments are enabled) followed by
+   * the deprecation, owners, tags, examples and references
+   */
+  private getNoteParts(item: TableDefinition | ViewDefinition | ColumnDefinition): string[] {
+    const parts: string[] = [];
+    if (this.options.includeComments && item.comment) {
+      parts.push(item.comment);
+    }
+    if (item.deprecated !== undefined) {
+      parts.push(item.deprecated ? `Deprecated: ${item.deprecated}` : "Deprecated");
+    }
+    if ("owners" in item && item.owners && item.owners.length > 0) {
+      parts.push(`Owners: ${item.owners.join(", ")}`);
+    }
+    const tags = [
+      ...(item.tags ?? []),
+      ...(item.customTags ?? []).map((tag) =>
+        tag.text ? `@${tag.name} ${tag.text}` : `@${tag.name}`,
+      ),
+    ];
+    if (tags.length > 0) {
+      parts.push(`Tags: ${tags.join(", ")}`);
+    }
+    for (const example of item.examples ?? []) {
+      parts.push(`Example:\n${example}`);
+    }
+    if (item.see && item.see.length > 0) {
+      parts.push(`See: ${item.see.join(", ")}`);
+    }
+    return parts;
+  }
+
   /**
    * Format a default value for DBML
    *
@@ -223,7 +373,8 @@ export class DbmlFormatter implements OutputFormatter {
    */
   private formatIndexesBlock(
     dbml: DbmlBuilder,
-    indexes: IndexDefinition[],
+    table: TableDefinition,
+    databaseType: DatabaseType,
     pkConstraints: ConstraintDefinition[],
     ucConstraints: ConstraintDefinition[],
   ): void {
@@ -244,8 +395,15 @@ export class DbmlFormatter implements OutputFormatter {
     }
 
     // Regular indexes
-    for (const index of indexes) {
-      const columns = index.columns.map((c) => this.escapeName(c)).join(", ");
+    for (const index of table.indexes) {
+      const parts: IndexPart[] = index.parts ?? index.columns.map((column) => ({ column }));
+      const columns = parts
+        .map((part) =>
+          part.expression !== undefined
+            ? `\`${part.expression}\``
+            : this.escapeName(part.column ?? ""),
+        )
+        .join(", ");
       const attrs: string[] = [];
 
       if (index.unique) {
@@ -254,8 +412,17 @@ export class DbmlFormatter implements OutputFormatter {
       if (index.name) {
         attrs.push(`name: '${index.name}'`);
       }
-      if (index.type) {
-        attrs.push(`type: ${index.type}`);
+      const type = index.type?.toLowerCase();
+      if (type === "btree" || type === "hash") {
+        attrs.push(`type: ${type}`);
+      }
+      if (!this.isExpressibleIndex(index)) {
+        const definition = formatIndexDefinition(
+          index,
+          qualifyName(table.name, table.schema),
+          databaseType,
+        );
+        attrs.push(`note: '${this.escapeString(definition)}'`);
       }
 
       const attrStr = attrs.length > 0 ? ` [${attrs.join(", ")}]` : "";
@@ -266,15 +433,54 @@ export class DbmlFormatter implements OutputFormatter {
     dbml.line("}");
   }
 
+  /**
+   * Whether the index settings fit in DBML index attributes
+   *
+   * DBML has no syntax for partial indexes, sort order, operator classes, index kinds
+   * or methods other than btree and hash, so such indexes also get their SQL definition as a note.
+   */
+  private isExpressibleIndex(index: IndexDefinition): boolean {
+    const type = index.type?.toLowerCase();
+    return (
+      (type === undefined || type === "btree" || type === "hash") &&
+      index.where === undefined &&
+      !index.concurrently &&
+      !index.kind &&
+      (index.parts ?? []).every((part) => !part.order && !part.nulls && !part.opClass)
+    );
+  }
+
+  /**
+   * Format checks block to DBML
+   *
+   * Each check constraint is emitted as a backtick expression with its name.
+   */
+  private formatChecksBlock(dbml: DbmlBuilder, checkConstraints: ConstraintDefinition[]): void {
+    dbml.line();
+    dbml.line("checks {");
+    dbml.indent();
+
+    for (const check of checkConstraints) {
+      dbml.line(`\`${check.definition}\` [name: '${this.escapeString(check.name)}']`);
+    }
+
+    dbml.dedent();
+    dbml.line("}");
+  }
+
   /**
    * Format a relation definition to DBML Ref
    */
-  private formatRelation(dbml: DbmlBuilder, relation: RelationDefinition): void {
-    const from = `${this.escapeName(relation.fromTable)}.${relation.fromColumns.map((c) => this.escapeName(c)).join(", ")}`;
-    const to = `${this.escapeName(relation.toTable)}.${relation.toColumns.map((c) => this.escapeName(c)).join(", ")}`;
+  private formatRelation(
+    dbml: DbmlBuilder,
+    relation: RelationDefinition,
+    tables: TableDefinition[],
+  ): void {
+    const from = `${this.escapeTableReference(relation.fromTable, tables)}.${relation.fromColumns.map((c) => this.escapeName(c)).join(", ")}`;
+    const to = `${this.escapeTableReference(relation.toTable, tables)}.${relation.toColumns.map((c) => this.escapeName(c)).join(", ")}`;
     const type = this.getRelationType(relation.type);
 
-    let refLine = `Ref: ${from} ${type} ${to}`;
+    let refLine = `Ref${this.formatRelationName(relation)}: ${from} ${type} ${to}`;
 
     const attrs: string[] = [];
     if (relation.onDelete && relation.onDelete.toLowerCase() !== "no action") {
@@ -291,6 +497,19 @@ export class DbmlFormatter implements OutputFormatter {
     dbml.line(refLine);
   }
 
+  /**
+   * Format the name of a named relation for its Ref (e.g., ` "posts_author"`)
+   *
+   * Relation names such as v1 aliases are only unique per pair of tables, so the
+   * source table is prepended to keep Ref names unique within the project.
+   */
+  private formatRelationName(relation: RelationDefinition): string {
+    if (!relation.name) {
+      return "";
+    }
+    return ` ${this.escapeName(`${relation.fromTable.replace(/\./g, "_")}_${relation.name}`)}`;
+  }
+
   /**
    * Convert IntermediateRelationType to DBML relation symbol
    */
@@ -308,20 +527,28 @@ export class DbmlFormatter implements OutputFormatter {
   }
 
   /**
-   * Normalize SQL type for DBML compatibility
+   * Format the type of a column for DBML
    *
-   * Converts types with "with time zone" suffix to their short form
-   * (e.g., "timestamp(3) with time zone" -> "timestamptz(3)")
-   * because DBML parsers cannot handle the multi-word suffix.
+   * Enum columns refer to their DBML enum, and time zone types use their short form
+   * (e.g., "timestamp(3) with time zone" -> "timestamptz(3)") because DBML parsers
+   * cannot handle the multi-word suffix.
    */
-  private normalizeType(type: string): string {
-    return type
-      .replace(/^(timestamp)\s*(\([^)]*\))?\s+with time zone$/i, (_match, _base, precision) =>
-        precision ? `timestamptz${precision}` : "timestamptz",
-      )
-      .replace(/^(time)\s*(\([^)]*\))?\s+with time zone$/i, (_match, _base, precision) =>
-        precision ? `timetz${precision}` : "timetz",
-      );
+  private formatType(column: ColumnDefinition): string {
+    const dataType = getDataType(column);
+    const arrays = "[]".repeat(dataType.arrayDimensions ?? 0);
+    if (dataType.enum) {
+      const enumName = dataType.enum
+        .split(".")
+        .map((part) => this.escapeName(part))
+        .join(".");
+      return `${enumName}${arrays}`;
+    }
+    const shortName = TIME_ZONE_TYPES[dataType.base.toLowerCase()];
+    if (shortName) {
+      const precision = dataType.precision !== undefined ? `(${dataType.precision})` : "";
+      return `${shortName}${precision}${arrays}`;
+    }
+    return column.type;
   }
 
   /**
@@ -333,6 +560,27 @@ export class DbmlFormatter implements OutputFormatter {
     return `"${name}"`;
   }
 
+  /**
+   * Escape a possibly schema-qualified name for DBML (e.g., "billing"."invoices")
+   */
+  private escapeQualifiedName(name: string, schema: string | undefined): string {
+    return schema ? `${this.escapeName(schema)}.${this.escapeName(name)}` : this.escapeName(name);
+  }
+
+  /**
+   * Escape a table reference used in relations
+   *
+   * Relations refer to tables by their qualified name, so the matching table
+   * definition is looked up to split it back into schema and table parts.
+   */
+  private escapeTableReference(qualifiedName: string, tables: TableDefinition[]): string {
+    const table = tables.find((t) => qualifyName(t.name, t.schema) === qualifiedName);
+    if (table) {
+      return this.escapeQualifiedName(table.name, table.schema);
+    }
+    return this.escapeName(qualifiedName);
+  }
+
   /**
    * Escape a string for use in DBML single-quoted strings
    */
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatColumnExtra,
+  formatConstraintType,
+  formatRelationType,
+  getBadges,
+  groupTablesBySchema,
+} from "./doc-helpers";
+import type { ColumnDefinition, TableDefinition } from "../types";
+
+function table(name: string, schema?: string): TableDefinition {
+  return { name, schema, columns: [], indexes: [], constraints: [] };
+}
+
+describe("groupTablesBySchema", () => {
+  it("should keep tables without a schema first", () => {
+    const groups = groupTablesBySchema([
+      table("invoices", "billing"),
+      table("users"),
+      table("payments", "billing"),
+    ]);
+
+    expect([...groups].map(([schema, tables]) => [schema, tables.map((t) => t.name)])).toEqual([
+      [undefined, ["users"]],
+      ["billing", ["invoices", "payments"]],
+    ]);
+  });
+});
+
+describe("formatColumnExtra", () => {
+  const column: ColumnDefinition = {
+    name: "id",
+    type: "integer",
+    nullable: false,
+    primaryKey: true,
+    unique: false,
+  };
+
+  it("should return undefined for a plain column", () => {
+    expect(formatColumnExtra(column)).toBeUndefined();
+  });
+
+  it("should join the generation clause and column attributes", () => {
+    expect(formatColumnExtra({ ...column, identity: { type: "always" } })).toBe(
+      "GENERATED ALWAYS AS IDENTITY",
+    );
+  });
+});
+
+describe("getBadges", () => {
+  it("should list tags followed by custom tags", () => {
+    expect(
+      getBadges({
+        tags: ["billing"],
+        customTags: [{ name: "pii" }, { name: "since", text: "2.0" }],
+      }),
+    ).toEqual(["billing", "@pii", "@since 2.0"]);
+  });
+});
+
+describe("formatConstraintType and formatRelationType", () => {
+  it("should format types for display", () => {
+    expect(formatConstraintType("primary_key")).toBe("PRIMARY KEY");
+    expect(formatRelationType("many-to-one")).toBe("Many to One");
+  });
+});
@@ -0,0 +1,84 @@
+import type {
+  ColumnDefinition,
+  ConstraintDefinition,
+  RelationDefinition,
+  TableDefinition,
+} from "../types";
+import { formatColumnAttributes, formatGenerationClause } from "./sql-clauses";
+
+/**
+ * Group tables by schema name, keeping tables without a schema first
+ *
+ * @param tables - Tables to group
+ * @returns Tables keyed by schema name (undefined for tables without a schema)
+ */
+export function groupTablesBySchema(
+  tables: TableDefinition[],
+): Map<string | undefined, TableDefinition[]> {
+  const groups = new Map<string | undefined, TableDefinition[]>();
+  if (tables.some((t) => !t.schema)) {
+    groups.set(undefined, []);
+  }
+  for (const table of tables) {
+    const group = groups.get(table.schema) ?? [];
+    group.push(table);
+    groups.set(table.schema, group);
+  }
+  return groups;
+}
+
+/**
+ * Format the Extra cell of a column: its generation clause followed by its column attributes
+ *
+ * @param column - The column to describe
+ * @returns The clauses, or undefined if the column has none
+ */
+export function formatColumnExtra(column: ColumnDefinition): string | undefined {
+  const clauses = [formatGenerationClause(column), ...formatColumnAttributes(column)].filter(
+    (clause) => clause !== undefined,
+  );
+  return clauses.length > 0 ? clauses.join(" ") : undefined;
+}
+
+/**
+ * Get the badges of a column or table: its tags followed by its custom JSDoc tags
+ * (e.g., ["billing", "@pii", "@since 2.0"])
+ *
+ * @param item - The column or table
+ * @returns Badge texts, unescaped
+ */
+export function getBadges(item: Pick<ColumnDefinition, "tags" | "customTags">): string[] {
+  return [
+    ...(item.tags ?? []),
+    ...(item.customTags ?? []).map((tag) =>
+      tag.text ? `@${tag.name} ${tag.text}` : `@${tag.name}`,
+    ),
+  ];
+}
+
+/**
+ * Format constraint type for display
+ */
+export function formatConstraintType(type: ConstraintDefinition["type"]): string {
+  const typeMap: Record<ConstraintDefinition["type"], string> = {
+    primary_key: "PRIMARY KEY",
+    foreign_key: "FOREIGN KEY",
+    unique: "UNIQUE",
+    check: "CHECK",
+    not_null: "NOT NULL",
+  };
+  return typeMap[type] || type;
+}
+
+/**
+ * Format relation type for display
+ */
+export function formatRelationType(type: RelationDefinition["type"]): string {
+  const typeMap: Record<RelationDefinition["type"], string> = {
+    "one-to-one": "One to One",
+    "one-to-many": "One to Many",
+    "many-to-one": "Many to One",
+    "many-to-many": "Many to Many",
+  };
+  return typeMap[type] || type;
+}
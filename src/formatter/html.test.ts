@@ -0,0 +1,200 @@
+import { describe, it, expect } from "vitest";
+import { HtmlFormatter, MERMAID_SCRIPT_PATH } from "./html";
+import type { IntermediateSchema } from "../types";
+
+describe("HtmlFormatter", () => {
+  const schema: IntermediateSchema = {
+    databaseType: "postgresql",
+    tables: [
+      {
+        name: "users",
+        comment: "Registered <users>",
+        columns: [
+          { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+          {
+            name: "email",
+            type: "varchar(255)",
+            nullable: false,
+            primaryKey: false,
+            unique: true,
+            comment: "Login email",
+          },
+          {
+            name: "mood",
+            type: "mood",
+            dataType: { base: "mood", enum: "app.mood" },
+            nullable: true,
+            primaryKey: false,
+            unique: false,
+          },
+        ],
+        indexes: [],
+        constraints: [],
+      },
+      {
+        name: "invoices",
+        schema: "billing",
+        columns: [
+          { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+          { name: "user_id", type: "integer", nullable: false, primaryKey: false, unique: false },
+        ],
+        indexes: [{ name: "invoices_user_idx", columns: ["user_id"], unique: false }],
+        constraints: [],
+      },
+    ],
+    views: [
+      {
+        name: "active_users",
+        columns: [
+          { name: "id", type: "integer", nullable: false, primaryKey: false, unique: false },
+        ],
+        definition: "select id from users",
+      },
+    ],
+    relations: [
+      {
+        fromTable: "billing.invoices",
+        fromColumns: ["user_id"],
+        toTable: "users",
+        toColumns: ["id"],
+        type: "many-to-one",
+      },
+    ],
+    enums: [{ name: "mood", schema: "app", values: ["happy", "sad"] }],
+  };
+
+  it("should generate an index, table, view, enum and relation pages", () => {
+    const files = new HtmlFormatter().generateSite(schema);
+
+    expect([...files.keys()]).toEqual([
+      "index.html",
+      "relations.html",
+      "tables/users.html",
+      "tables/billing.invoices.html",
+      "views/active_users.html",
+      "enums/app.mood.html",
+      "assets/search-index.js",
+    ]);
+  });
+
+  it("should list tables by schema, views and enums on the index page", () => {
+    const index = new HtmlFormatter({ title: "Shop" }).generateSite(schema).get("index.html")!;
+
+    expect(index).toContain("<title>Shop</title>");
+    expect(index).not.toContain("<base");
+    expect(index).toContain("<h3>Schema: public</h3>");
+    expect(index).toContain("<h3>Schema: billing</h3>");
+    expect(index).toContain('<a href="tables/billing.invoices.html">billing.invoices</a>');
+    expect(index).toContain('<a href="views/active_users.html">active_users</a>');
+    expect(index).toContain('<a href="enums/app.mood.html">app.mood</a>');
+    expect(index).toContain('<span class="comment">Registered &lt;users&gt;</span>');
+  });
+
+  it("should link relations, enums and indexes on table pages", () => {
+    const files = new HtmlFormatter({ typeNames: { varchar: "String" } }).generateSite(schema);
+    const users = files.get("tables/users.html")!;
+    const invoices = files.get("tables/billing.invoices.html")!;
+
+    expect(users).toContain("<title>users - Database Schema</title>");
+    expect(users).toContain('<base href="../">');
+    expect(users).toContain('<tr id="column-email"><td>email</td><td>String</td>');
+    expect(users).toContain('<td><a href="enums/app.mood.html">mood</a></td>');
+    expect(users).toContain('<a href="tables/billing.invoices.html">billing.invoices.user_id</a>');
+    expect(invoices).toContain('<a href="tables/users.html">users.id</a>');
+    expect(invoices).toContain(
+      "<code>CREATE INDEX invoices_user_idx ON billing.invoices (user_id)</code>",
+    );
+  });
+
+  it("should list the columns using an enum on its page", () => {
+    const page = new HtmlFormatter().generateSite(schema).get("enums/app.mood.html")!;
+
+    expect(page).toContain("<td><code>happy</code></td>");
+    expect(page).toContain('<li><a href="tables/users.html#column-mood">users.mood</a></li>');
+  });
+
+  it("should render the relation graph with the bundled Mermaid", () => {
+    const page = new HtmlFormatter({ includeColumns: false })
+      .generateSite(schema)
+      .get("relations.html")!;
+
+    expect(page).toContain('<pre class="mermaid diagram">erDiagram');
+    expect(page).toContain("billing_invoices }o--|| users : &quot;user_id&quot;");
+    expect(page).not.toContain("varchar");
+    expect(page).toContain(`<script src="${MERMAID_SCRIPT_PATH}"></script>`);
+    expect(page).not.toMatch(/<script src="https?:/);
+  });
+
+  it("should index table, column, view and enum names and comments for search", () => {
+    const searchIndex = new HtmlFormatter().generateSite(schema).get("assets/search-index.js")!;
+
+    expect(searchIndex.startsWith("window.SEARCH_INDEX = [\n")).toBe(true);
+    expect(searchIndex).toContain(
+      '{"kind":"column","name":"users.email","comment":"Login email","url":"tables/users.html#column-email"}',
+    );
+    expect(searchIndex).toContain(
+      '{"kind":"view","name":"active_users","url":"views/active_users.html"}',
+    );
+    expect(searchIndex).toContain('{"kind":"enum","name":"app.mood","url":"enums/app.mood.html"}');
+  });
+
+  it("should leave comments out of the pages and search index when includeComments is false", () => {
+    const files = new HtmlFormatter({ includeComments: false }).generateSite(schema);
+
+    expect(files.get("tables/users.html")).not.toContain("Login email");
+    expect(files.get("assets/search-index.js")).not.toContain("Login email");
+  });
+
+  it("should replace characters that are unsafe in file names", () => {
+    const files = new HtmlFormatter().generateSite({
+      ...schema,
+      tables: [{ ...schema.tables[0]!, name: "order items" }],
+      views: [],
+      relations: [],
+    });
+
+    expect(files.has("tables/order_items.html")).toBe(true);
+  });
+
+  it("should give colliding file names a numeric suffix, ignoring case", () => {
+    const table = schema.tables[0]!;
+    const files = new HtmlFormatter().generateSite({
+      ...schema,
+      tables: [
+        { ...table, name: "my table" },
+        { ...table, name: "my_table" },
+        { ...table, name: "Users" },
+        { ...table, name: "users" },
+      ],
+      views: [],
+      relations: [],
+    });
+
+    expect([...files.keys()].filter((path) => path.startsWith("tables/"))).toEqual([
+      "tables/my_table_2.html",
+      "tables/my_table.html",
+      "tables/Users.html",
+      "tables/users_2.html",
+    ]);
+    expect(files.get("tables/my_table_2.html")).toContain("<h1>my table</h1>");
+    expect(files.get("index.html")).toContain('<a href="tables/my_table_2.html">my table</a>');
+    expect(files.get("index.html")).toContain('<a href="tables/users_2.html">users</a>');
+  });
+
+  it("should show the name and filter of relations on table pages", () => {
+    const files = new HtmlFormatter().generateSite({
+      ...schema,
+      relations: [
+        { ...schema.relations[0]!, name: "activeOwner", where: "active = true" },
+        schema.relations[0]!,
+      ],
+    });
+    const users = files.get("tables/users.html")!;
+
+    expect(users).toContain(
+      "<th>Name</th><th>Parent</th><th>Child</th><th>Type</th><th>Filter</th>",
+    );
+    expect(users).toContain("<td>activeOwner</td>");
+    expect(users).toContain("<td><code>active = true</code></td>");
+  });
+});
@@ -0,0 +1,938 @@
+import type {
+  IntermediateSchema,
+  TableDefinition,
+  ColumnDefinition,
+  ConstraintDefinition,
+  RelationDefinition,
+  EnumDefinition,
+  ViewDefinition,
+} from "../types";
+import type { FormatterOptions } from "./types";
+import { MermaidErDiagramFormatter } from "./mermaid";
+import {
+  formatColumnExtra,
+  formatConstraintType,
+  formatRelationType,
+  getBadges,
+  groupTablesBySchema,
+} from "./doc-helpers";
+import {
+  formatIndexDefinition,
+  formatPolicy,
+  formatRoleAttributes,
+  formatSequenceOptions,
+} from "./sql-clauses";
+import { getDataType, getTypeDisplayName } from "../utils/data-type";
+import { qualifyName } from "../utils/table-name";
+
+/**
+ * Path of the Mermaid bundle the relation graph page loads, relative to the site root
+ *
+ * The formatter only references it; the caller copies the bundle of the installed
+ * `mermaid` package there so that the diagram renders offline.
+ */
+export const MERMAID_SCRIPT_PATH = "assets/mermaid.min.js";
+
+/**
+ * Path of the search index script, relative to the site root
+ *
+ * The index is a script rather than JSON so that pages opened from the file system
+ * can load it without fetch().
+ */
+const SEARCH_INDEX_PATH = "assets/search-index.js";
+
+/**
+ * A definition with its own page
+ */
+type PageDefinition = TableDefinition | ViewDefinition | EnumDefinition;
+
+/**
+ * Options for HtmlFormatter
+ */
+export interface HtmlFormatterOptions extends FormatterOptions {
+  /**
+   * Title of the site, shown in the header and the page titles
+   * @default "Database Schema"
+   */
+  title?: string;
+  /**
+   * Whether to include columns in the relation graph
+   * @default true
+   */
+  includeColumns?: boolean;
+  /**
+   * Whether to hide junction tables in the relation graph
+   * @default false
+   */
+  hideJunctionTables?: boolean;
+}
+
+/**
+ * Default formatter options
+ */
+const DEFAULT_OPTIONS: Required<HtmlFormatterOptions> = {
+  includeComments: true,
+  includeIndexes: true,
+  includeConstraints: true,
+  typeNames: {},
+  title: "Database Schema",
+  includeColumns: true,
+  hideJunctionTables: false,
+};
+
+/**
+ * An entry of the client-side search index
+ */
+interface SearchEntry {
+  /** What the entry points to */
+  kind: "table" | "view" | "column" | "enum";
+  /** Qualified name (e.g., "users" or "users.email") */
+  name: string;
+  /** Comment of the table, view or column */
+  comment?: string;
+  /** Page URL relative to the site root */
+  url: string;
+}
+
+/**
+ * Styles inlined into every page
+ */
+const STYLES = `
+:root { --fg: #1f2328; --muted: #59636e; --border: #d1d9e0; --bg-subtle: #f6f8fa; --link: #0969da; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: var(--fg); }
+a { color: var(--link); text-decoration: none; }
+a:hover { text-decoration: underline; }
+header { display: flex; flex-wrap: wrap; gap: 16px; align-items: center; padding: 12px 24px; border-bottom: 1px solid var(--border); background: var(--bg-subtle); }
+header .site-title { font-weight: 600; font-size: 16px; color: var(--fg); }
+header nav { display: flex; gap: 12px; }
+.search { position: relative; margin-left: auto; }
+.search input { width: 320px; padding: 6px 10px; border: 1px solid var(--border); border-radius: 6px; font: inherit; }
+.search ul { position: absolute; right: 0; z-index: 10; width: 480px; max-height: 60vh; overflow-y: auto; margin: 4px 0 0; padding: 0; list-style: none; background: #fff; border: 1px solid var(--border); border-radius: 6px; box-shadow: 0 8px 24px rgba(0, 0, 0, 0.12); }
+.search ul:empty { display: none; }
+.search li { padding: 6px 10px; border-bottom: 1px solid var(--border); }
+.search li:last-child { border-bottom: none; }
+.search small { display: block; color: var(--muted); }
+.kind { display: inline-block; min-width: 52px; margin-right: 8px; color: var(--muted); font-size: 12px; }
+main { max-width: 1200px; margin: 0 auto; padding: 8px 24px 48px; }
+h1 { font-size: 28px; }
+h2 { margin-top: 32px; padding-bottom: 4px; border-bottom: 1px solid var(--border); font-size: 20px; }
+table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+th, td { padding: 6px 10px; border: 1px solid var(--border); text-align: left; vertical-align: top; }
+th { background: var(--bg-subtle); }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 12px; }
+pre { padding: 12px; overflow-x: auto; background: var(--bg-subtle); border-radius: 6px; }
+.comment { white-space: pre-line; }
+.muted { color: var(--muted); }
+.badge { display: inline-block; margin: 0 4px 2px 0; padding: 0 6px; border: 1px solid var(--border); border-radius: 10px; font-size: 12px; }
+.deprecated { padding: 8px 12px; border-left: 4px solid #d1242f; background: #ffebe9; }
+.deprecated-name { text-decoration: line-through; }
+.diagram { overflow-x: auto; background: none; }
+`.trim();
+
+/**
+ * Search script inlined into every page
+ *
+ * It matches the query against the names and comments in the search index and lists
+ * the first matches under the search box.
+ */
+const SEARCH_SCRIPT = `
+(function () {
+  var input = document.getElementById("search-input");
+  var results = document.getElementById("search-results");
+  var entries = window.SEARCH_INDEX || [];
+  input.addEventListener("input", function () {
+    var query = input.value.trim().toLowerCase();
+    results.textContent = "";
+    if (!query) {
+      return;
+    }
+    var matches = entries.filter(function (entry) {
+      return (
+        entry.name.toLowerCase().indexOf(query) !== -1 ||
+        (entry.comment || "").toLowerCase().indexOf(query) !== -1
+      );
+    });
+    if (matches.length === 0) {
+      var empty = document.createElement("li");
+      empty.className = "muted";
+      empty.textContent = "No results";
+      results.appendChild(empty);
+      return;
+    }
+    matches.slice(0, 30).forEach(function (entry) {
+      var item = document.createElement("li");
+      var kind = document.createElement("span");
+      kind.className = "kind";
+      kind.textContent = entry.kind;
+      var link = document.createElement("a");
+      link.href = entry.url;
+      link.textContent = entry.name;
+      item.appendChild(kind);
+      item.appendChild(link);
+      if (entry.comment) {
+        var comment = document.createElement("small");
+        comment.textContent = entry.comment;
+        item.appendChild(comment);
+      }
+      results.appendChild(item);
+    });
+  });
+  input.addEventListener("keydown", function (event) {
+    var first = results.querySelector("a");
+    if (event.key === "Enter" && first) {
+      window.location.href = first.href;
+    }
+  });
+})();
+`.trim();
+
+/**
+ * HtmlFormatter converts IntermediateSchema to a static HTML documentation site
+ *
+ * The site consists of:
+ * - `index.html`: tables grouped by database schema, views, enums, sequences and roles
+ * - `tables/<name>.html` and `views/<name>.html`: one page per table and view
+ * - `enums/<name>.html`: one page per enum, listing its values and the columns using it
+ * - `relations.html`: the Mermaid ER diagram of the whole schema
+ * - `assets/search-index.js`: table, view, column and enum names and comments for the search box
+ *
+ * CSS and scripts are inlined into each page, so the site can be served from any static
+ * host or opened from the file system. The relation graph page loads Mermaid from
+ * {@link MERMAID_SCRIPT_PATH}, which the caller provides.
+ */
+export class HtmlFormatter {
+  private options: Required<HtmlFormatterOptions>;
+  private pagePaths = new Map<PageDefinition, string>();
+
+  /**
+   * Create a new HtmlFormatter
+   *
+   * @param options - Formatter options
+   */
+  constructor(options: HtmlFormatterOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Generate the pages of the site
+   *
+   * @param schema - The intermediate schema to format
+   * @returns File contents keyed by path relative to the site root
+   */
+  generateSite(schema: IntermediateSchema): Map<string, string> {
+    const files = new Map<string, string>();
+    this.pagePaths = this.assignPagePaths(schema);
+
+    files.set("index.html", this.generateIndexPage(schema));
+    files.set("relations.html", this.generateRelationsPage(schema));
+    for (const table of schema.tables) {
+      files.set(this.getPagePath(table), this.generateTablePage(table, schema));
+    }
+    for (const view of schema.views ?? []) {
+      files.set(this.getPagePath(view), this.generateViewPage(view, schema));
+    }
+    for (const enumDef of schema.enums) {
+      files.set(this.getPagePath(enumDef), this.generateEnumPage(enumDef, schema));
+    }
+    files.set(SEARCH_INDEX_PATH, this.generateSearchIndex(schema));
+
+    return files;
+  }
+
+  /**
+   * Generate the index page
+   */
+  private generateIndexPage(schema: IntermediateSchema): string {
+    const sections: string[] = [`<h1>${escapeHtml(this.options.title)}</h1>`];
+
+    sections.push("<h2>Tables</h2>");
+    if (schema.tables.length === 0) {
+      sections.push('<p class="muted">No tables defined.</p>');
+    } else if (schema.tables.every((t) => !t.schema)) {
+      sections.push(this.generateTableList(schema.tables));
+    } else {
+      const defaultSchemaName = schema.databaseType === "postgresql" ? "public" : "default";
+      for (const [schemaName, tables] of groupTablesBySchema(schema.tables)) {
+        sections.push(`<h3>Schema: ${escapeHtml(schemaName ?? defaultSchemaName)}</h3>`);
+        sections.push(this.generateTableList(tables));
+      }
+    }
+
+    const views = schema.views ?? [];
+    if (views.length > 0) {
+      const rows = views.map((view) =>
+        this.renderRow([
+          this.renderLink(this.getPagePath(view), qualifyName(view.name, view.schema)),
+          String(view.columns.length),
+          view.materialized ? "MATERIALIZED VIEW" : "VIEW",
+          this.renderComment(view.comment),
+        ]),
+      );
+      sections.push("<h2>Views</h2>");
+      sections.push(this.renderTable(["Name", "Columns", "Type", "Comment"], rows));
+    }
+
+    if (schema.enums.length > 0) {
+      const rows = schema.enums.map((enumDef) =>
+        this.renderRow([
+          this.renderLink(this.getPagePath(enumDef), qualifyName(enumDef.name, enumDef.schema)),
+          enumDef.values.map((value) => `<code>${escapeHtml(value)}</code>`).join(", "),
+        ]),
+      );
+      sections.push("<h2>Enums</h2>");
+      sections.push(this.renderTable(["Name", "Values"], rows));
+    }
+
+    const sequences = schema.sequences ?? [];
+    if (sequences.length > 0) {
+      const rows = sequences.map((sequence) =>
+        this.renderRow([
+          escapeHtml(qualifyName(sequence.name, sequence.schema)),
+          this.renderCode(formatSequenceOptions(sequence).join(" ")),
+        ]),
+      );
+      sections.push("<h2>Sequences</h2>");
+      sections.push(this.renderTable(["Name", "Options"], rows));
+    }
+
+    const roles = schema.roles ?? [];
+    if (roles.length > 0) {
+      const rows = roles.map((role) =>
+        this.renderRow([
+          escapeHtml(role.name),
+          escapeHtml(formatRoleAttributes(role).join(", ")) || "-",
+          role.existing ? "Outside the schema" : "Schema",
+        ]),
+      );
+      sections.push("<h2>Roles</h2>");
+      sections.push(this.renderTable(["Name", "Attributes", "Managed"], rows));
+    }
+
+    return this.renderPage(this.options.title, "", sections);
+  }
+
+  /**
+   * Generate the list of the given tables on the index page
+   */
+  private generateTableList(tables: TableDefinition[]): string {
+    const rows = tables.map((table) =>
+      this.renderRow([
+        this.renderLink(this.getPagePath(table), qualifyName(table.name, table.schema)),
+        String(table.columns.length),
+        this.renderComment(table.comment),
+      ]),
+    );
+    return this.renderTable(["Name", "Columns", "Comment"], rows);
+  }
+
+  /**
+   * Generate the page of a table
+   */
+  private generateTablePage(table: TableDefinition, schema: IntermediateSchema): string {
+    const tableName = qualifyName(table.name, table.schema);
+    const sections: string[] = [`<h1>${escapeHtml(tableName)}</h1>`];
+
+    if (this.options.includeComments && table.comment) {
+      sections.push(`<p class="comment">${escapeHtml(table.comment)}</p>`);
+    }
+    sections.push(...this.generateMetadata(table));
+
+    sections.push("<h2>Columns</h2>");
+    sections.push(this.generateColumnsTable(table, schema));
+
+    if (this.options.includeConstraints && table.constraints.length > 0) {
+      const rows = table.constraints.map((constraint) =>
+        this.renderRow([
+          escapeHtml(constraint.name || "-"),
+          formatConstraintType(constraint.type),
+          this.formatConstraintDefinition(constraint, schema),
+        ]),
+      );
+      sections.push("<h2>Constraints</h2>");
+      sections.push(this.renderTable(["Name", "Type", "Definition"], rows));
+    }
+
+    if (this.options.includeIndexes && table.indexes.length > 0) {
+      const rows = table.indexes.map((index) =>
+        this.renderRow([
+          escapeHtml(index.name || "-"),
+          escapeHtml(index.columns.join(", ")) || "-",
+          index.unique ? "YES" : "NO",
+          escapeHtml(index.kind?.toUpperCase() || index.type || "-"),
+          this.renderCode(formatIndexDefinition(index, tableName, schema.databaseType)),
+        ]),
+      );
+      sections.push("<h2>Indexes</h2>");
+      sections.push(this.renderTable(["Name", "Columns", "Unique", "Type", "Definition"], rows));
+    }
+
+    const policies = table.policies ?? [];
+    if (table.rlsEnabled || policies.length > 0) {
+      sections.push("<h2>Row Level Security</h2>");
+      sections.push(
+        table.rlsEnabled
+          ? "<p>Row level security is <strong>enabled</strong>.</p>"
+          : "<p>Row level security is <strong>disabled</strong>, so these policies are not enforced.</p>",
+      );
+      for (const policy of policies) {
+        sections.push(`<pre><code>${escapeHtml(formatPolicy(policy))}</code></pre>`);
+      }
+    }
+
+    const relations = schema.relations.filter(
+      (r) => r.fromTable === tableName || r.toTable === tableName,
+    );
+    if (relations.length > 0) {
+      sections.push("<h2>Relations</h2>");
+      sections.push(this.generateRelationsTable(relations, schema));
+    }
+
+    return this.renderPage(tableName, "../", sections);
+  }
+
+  /**
+   * Generate the columns table of a table page
+   *
+   * An Extra column is added when the table has generated columns or MySQL column attributes.
+   */
+  private generateColumnsTable(table: TableDefinition, schema: IntermediateSchema): string {
+    if (table.columns.length === 0) {
+      return '<p class="muted">No columns defined.</p>';
+    }
+
+    const tableName = qualifyName(table.name, table.schema);
+    const hasExtras = table.columns.some((column) => formatColumnExtra(column) !== undefined);
+    const headers = ["Name", "Type", "Default", "Nullable", "Children", "Parents", "Comment"];
+    if (hasExtras) {
+      headers.splice(4, 0, "Extra");
+    }
+
+    const rows = table.columns.map((column) => {
+      const name = column.primaryKey
+        ? `<strong>${this.formatColumnName(column)}</strong>`
+        : this.formatColumnName(column);
+      const children = schema.relations
+        .filter((r) => !r.through && r.toTable === tableName && r.toColumns.includes(column.name))
+        .map((r) => this.renderTableLink(r.fromTable, schema, r.fromColumns.join(", ")));
+      const parents = schema.relations
+        .filter(
+          (r) => !r.through && r.fromTable === tableName && r.fromColumns.includes(column.name),
+        )
+        .map((r) => this.renderTableLink(r.toTable, schema, r.toColumns.join(", ")));
+
+      const cells = [
+        name,
+        this.formatColumnType(column, schema),
+        column.defaultValue !== undefined ? this.renderCode(column.defaultValue) : "-",
+        column.nullable ? "YES" : "NO",
+        [...new Set(children)].join(", ") || "-",
+        [...new Set(parents)].join(", ") || "-",
+        this.formatColumnComment(column),
+      ];
+      if (hasExtras) {
+        const extra = formatColumnExtra(column);
+        cells.splice(4, 0, extra ? this.renderCode(extra) : "-");
+      }
+      return this.renderRow(cells, `column-${column.name}`);
+    });
+
+    return this.renderTable(headers, rows);
+  }
+
+  /**
+   * Generate the relations table of a table page
+   *
+   * Name and Filter columns are added when one of the relations has a name or a filter.
+   */
+  private generateRelationsTable(
+    relations: RelationDefinition[],
+    schema: IntermediateSchema,
+  ): string {
+    const hasNames = relations.some((r) => r.name);
+    const hasFilters = relations.some((r) => r.where);
+    const headers = ["Parent", "Child", "Type"];
+    if (hasNames) {
+      headers.unshift("Name");
+    }
+    if (hasFilters) {
+      headers.push("Filter");
+    }
+
+    const rows = relations.map((relation) => {
+      let type = formatRelationType(relation.type);
+      if (relation.through) {
+        type += ` (via ${this.renderTableLink(relation.through.table, schema)})`;
+      }
+      const cells = [
+        this.renderTableLink(relation.toTable, schema, relation.toColumns.join(", ")),
+        this.renderTableLink(relation.fromTable, schema, relation.fromColumns.join(", ")),
+        type,
+      ];
+      if (hasNames) {
+        cells.unshift(relation.name ? escapeHtml(relation.name) : "-");
+      }
+      if (hasFilters) {
+        cells.push(relation.where ? this.renderCode(relation.where) : "-");
+      }
+      return this.renderRow(cells);
+    });
+
+    return this.renderTable(headers, rows);
+  }
+
+  /**
+   * Generate the page of a view
+   */
+  private generateViewPage(view: ViewDefinition, schema: IntermediateSchema): string {
+    const viewName = qualifyName(view.name, view.schema);
+    const sections: string[] = [
+      `<h1>${escapeHtml(viewName)}</h1>`,
+      `<p><strong>Type:</strong> ${view.materialized ? "MATERIALIZED VIEW" : "VIEW"}</p>`,
+    ];
+
+    if (this.options.includeComments && view.comment) {
+      sections.push(`<p class="comment">${escapeHtml(view.comment)}</p>`);
+    }
+    sections.push(...this.generateMetadata(view));
+
+    sections.push("<h2>Columns</h2>");
+    if (view.columns.length === 0) {
+      sections.push('<p class="muted">No columns defined.</p>');
+    } else {
+      const rows = view.columns.map((column) =>
+        this.renderRow(
+          [
+            this.formatColumnName(column),
+            this.formatColumnType(column, schema),
+            column.nullable ? "YES" : "NO",
+            this.formatColumnComment(column),
+          ],
+          `column-${column.name}`,
+        ),
+      );
+      sections.push(this.renderTable(["Name", "Type", "Nullable", "Comment"], rows));
+    }
+
+    if (view.definition) {
+      sections.push("<h2>Definition</h2>");
+      sections.push(`<pre><code>${escapeHtml(view.definition)}</code></pre>`);
+    }
+
+    return this.renderPage(viewName, "../", sections);
+  }
+
+  /**
+   * Generate the page of an enum, listing its values and the columns using it
+   */
+  private generateEnumPage(enumDef: EnumDefinition, schema: IntermediateSchema): string {
+    const enumName = qualifyName(enumDef.name, enumDef.schema);
+    const sections: string[] = [`<h1>${escapeHtml(enumName)}</h1>`, "<h2>Values</h2>"];
+
+    sections.push(
+      this.renderTable(
+        ["Value"],
+        enumDef.values.map((value) => this.renderRow([`<code>${escapeHtml(value)}</code>`])),
+      ),
+    );
+
+    const usages = [...schema.tables, ...(schema.views ?? [])].flatMap((table) =>
+      table.columns
+        .filter((column) => getDataType(column).enum === enumName)
+        .map((column) => ({ table: qualifyName(table.name, table.schema), column })),
+    );
+    if (usages.length > 0) {
+      sections.push("<h2>Used By</h2>");
+      sections.push(
+        `<ul>${usages
+          .map(
+            ({ table, column }) =>
+              `<li>${this.renderTableLink(table, schema, column.name, column.name)}</li>`,
+          )
+          .join("")}</ul>`,
+      );
+    }
+
+    return this.renderPage(enumName, "../", sections);
+  }
+
+  /**
+   * Generate the relation graph page, rendered in the browser by the bundled Mermaid
+   */
+  private generateRelationsPage(schema: IntermediateSchema): string {
+    const diagram = new MermaidErDiagramFormatter({
+      includeComments: this.options.includeComments,
+      typeNames: this.options.typeNames,
+      includeColumns: this.options.includeColumns,
+      hideJunctionTables: this.options.hideJunctionTables,
+    }).format(schema);
+
+    return this.renderPage(
+      "Relations",
+      "",
+      ["<h1>Relations</h1>", `<pre class="mermaid diagram">${escapeHtml(diagram)}</pre>`],
+      [
+        `<script src="${MERMAID_SCRIPT_PATH}"></script>`,
+        '<script>mermaid.initialize({ startOnLoad: true, securityLevel: "strict" });</script>',
+      ],
+    );
+  }
+
+  /**
+   * Generate the search index script
+   *
+   * Entries are written one per line to keep the file diffable.
+   */
+  private generateSearchIndex(schema: IntermediateSchema): string {
+    const entries: SearchEntry[] = [];
+    const addEntry = (entry: SearchEntry) => {
+      entries.push(
+        this.options.includeComments && entry.comment ? entry : { ...entry, comment: undefined },
+      );
+    };
+
+    for (const table of schema.tables) {
+      const tableName = qualifyName(table.name, table.schema);
+      const url = this.getPagePath(table);
+      addEntry({ kind: "table", name: tableName, comment: table.comment, url });
+      for (const column of table.columns) {
+        addEntry({
+          kind: "column",
+          name: `${tableName}.${column.name}`,
+          comment: column.comment,
+          url: `${url}#column-${column.name}`,
+        });
+      }
+    }
+    for (const view of schema.views ?? []) {
+      const viewName = qualifyName(view.name, view.schema);
+      const url = this.getPagePath(view);
+      addEntry({ kind: "view", name: viewName, comment: view.comment, url });
+      for (const column of view.columns) {
+        addEntry({
+          kind: "column",
+          name: `${viewName}.${column.name}`,
+          comment: column.comment,
+          url: `${url}#column-${column.name}`,
+        });
+      }
+    }
+    for (const enumDef of schema.enums) {
+      addEntry({
+        kind: "enum",
+        name: qualifyName(enumDef.name, enumDef.schema),
+        url: this.getPagePath(enumDef),
+      });
+    }
+
+    const lines = entries.map((entry) => `  ${JSON.stringify(entry)}`);
+    return `window.SEARCH_INDEX = [\n${lines.join(",\n")}\n];\n`;
+  }
+
+  /**
+   * Generate the deprecation, owners, tags, examples and references of a table or view
+   */
+  private generateMetadata(item: TableDefinition | ViewDefinition): string[] {
+    const sections: string[] = [];
+
+    if (item.deprecated !== undefined) {
+      sections.push(`<p class="deprecated">${this.formatDeprecation(item.deprecated)}</p>`);
+    }
+    if (item.owners && item.owners.length > 0) {
+      sections.push(`<p><strong>Owners:</strong> ${escapeHtml(item.owners.join(", "))}</p>`);
+    }
+    const badges = this.formatBadges(item);
+    if (badges) {
+      sections.push(`<p><strong>Tags:</strong> ${badges}</p>`);
+    }
+    for (const example of item.examples ?? []) {
+      sections.push(
+        `<p><strong>Example:</strong></p><pre><code>${escapeHtml(example)}</code></pre>`,
+      );
+    }
+    if (item.see && item.see.length > 0) {
+      sections.push(`<p><strong>See:</strong> ${escapeHtml(item.see.join(", "))}</p>`);
+    }
+
+    return sections;
+  }
+
+  /**
+   * Format a column name, struck through when the column is deprecated
+   */
+  private formatColumnName(column: ColumnDefinition): string {
+    const name = escapeHtml(column.name);
+    return column.deprecated !== undefined ? `<span class="deprecated-name">${name}</span>` : name;
+  }
+
+  /**
+   * Format the type of a column, or its configured display name, followed by its Drizzle
+   * mode; enum types link to the page of the enum
+   */
+  private formatColumnType(column: ColumnDefinition, schema: IntermediateSchema): string {
+    const displayName = getTypeDisplayName(column, this.options.typeNames) ?? column.type;
+    const type = escapeHtml(column.mode ? `${displayName} (${column.mode})` : displayName);
+
+    const enumName = getDataType(column).enum;
+    const enumDef = schema.enums.find((e) => qualifyName(e.name, e.schema) === enumName);
+    return enumDef ? this.renderLink(this.getPagePath(enumDef), type, true) : type;
+  }
+
+  /**
+   * Format the Comment cell of a column, including its deprecation, tags,
+   * examples and references
+   */
+  private formatColumnComment(column: ColumnDefinition): string {
+    const parts: string[] = [];
+    if (this.options.includeComments && column.comment) {
+      parts.push(`<span class="comment">${escapeHtml(column.comment)}</span>`);
+    }
+    if (column.deprecated !== undefined) {
+      parts.push(this.formatDeprecation(column.deprecated));
+    }
+    const badges = this.formatBadges(column);
+    if (badges) {
+      parts.push(badges);
+    }
+    for (const example of column.examples ?? []) {
+      parts.push(`Example: ${this.renderCode(example)}`);
+    }
+    if (column.see && column.see.length > 0) {
+      parts.push(`See: ${escapeHtml(column.see.join(", "))}`);
+    }
+    return parts.length > 0 ? parts.join(" ") : "-";
+  }
+
+  /**
+   * Format a deprecation and its note
+   */
+  private formatDeprecation(note: string): string {
+    return note
+      ? `<strong>Deprecated:</strong> ${escapeHtml(note)}`
+      : "<strong>Deprecated</strong>";
+  }
+
+  /**
+   * Format tags and custom JSDoc tags as badges
+   */
+  private formatBadges(item: Pick<ColumnDefinition, "tags" | "customTags">): string {
+    return getBadges(item)
+      .map((badge) => `<span class="badge">${escapeHtml(badge)}</span>`)
+      .join("");
+  }
+
+  /**
+   * Format constraint definition for display, linking referenced tables
+   */
+  private formatConstraintDefinition(
+    constraint: ConstraintDefinition,
+    schema: IntermediateSchema,
+  ): string {
+    if (constraint.definition) {
+      return this.renderCode(constraint.definition);
+    }
+
+    const columns = escapeHtml(constraint.columns.join(", "));
+    if (constraint.type === "foreign_key" && constraint.referencedTable) {
+      const refColumns = escapeHtml(constraint.referencedColumns?.join(", ") || "");
+      const refTable = this.renderTableLink(constraint.referencedTable, schema);
+      return `(${columns}) → ${refTable}(${refColumns})`;
+    }
+    return `(${columns})`;
+  }
+
+  /**
+   * Assign each table, view and enum a page path
+   *
+   * File names are unique within their directory, compared case-insensitively so that
+   * pages do not overwrite each other on case-insensitive file systems. Names that are
+   * already safe file names keep them; other names (e.g., "my table") and later names
+   * differing only in case get a numeric suffix when theirs is taken (e.g., "my_table_2").
+   *
+   * @param schema - The intermediate schema
+   * @returns Page paths relative to the site root, keyed by definition
+   */
+  private assignPagePaths(schema: IntermediateSchema): Map<PageDefinition, string> {
+    const pagePaths = new Map<PageDefinition, string>();
+    const directories: Array<[string, PageDefinition[]]> = [
+      ["tables", schema.tables],
+      ["views", schema.views ?? []],
+      ["enums", schema.enums],
+    ];
+
+    for (const [directory, definitions] of directories) {
+      const usedNames = new Set<string>();
+      const isSafeName = (definition: PageDefinition) => {
+        const name = qualifyName(definition.name, definition.schema);
+        return toFileName(name) === name;
+      };
+      const ordered = [
+        ...definitions.filter(isSafeName),
+        ...definitions.filter((definition) => !isSafeName(definition)),
+      ];
+      for (const definition of ordered) {
+        const baseName = toFileName(qualifyName(definition.name, definition.schema));
+        let fileName = baseName;
+        for (let suffix = 2; usedNames.has(fileName.toLowerCase()); suffix++) {
+          fileName = `${baseName}_${suffix}`;
+        }
+        usedNames.add(fileName.toLowerCase());
+        pagePaths.set(definition, `${directory}/${fileName}.html`);
+      }
+    }
+
+    return pagePaths;
+  }
+
+  /**
+   * Get the page path of a table, view or enum
+   */
+  private getPagePath(definition: PageDefinition): string {
+    return this.pagePaths.get(definition)!;
+  }
+
+  /**
+   * Render a link to the page of a table or view, or the plain name when it has no page
+   *
+   * @param tableName - The (schema-qualified) name of the table or view
+   * @param schema - The schema, used to find the page of the table or view
+   * @param columns - Columns to show after the table name (e.g., "users.id")
+   * @param anchorColumn - Column to link to on the page
+   */
+  private renderTableLink(
+    tableName: string,
+    schema: IntermediateSchema,
+    columns?: string,
+    anchorColumn?: string,
+  ): string {
+    const text = columns ? `${tableName}.${columns}` : tableName;
+    const definition = [...schema.tables, ...(schema.views ?? [])].find(
+      (d) => qualifyName(d.name, d.schema) === tableName,
+    );
+    if (!definition) {
+      return escapeHtml(text);
+    }
+    const path = this.getPagePath(definition);
+    return this.renderLink(anchorColumn ? `${path}#column-${anchorColumn}` : path, text);
+  }
+
+  /**
+   * Render a link to a page of the site
+   *
+   * Links are written relative to the site root and resolved against the `<base>` of the page.
+   *
+   * @param path - Page path relative to the site root
+   * @param text - Link text
+   * @param isHtml - Whether the text is already escaped
+   */
+  private renderLink(path: string, text: string, isHtml = false): string {
+    return `<a href="${escapeHtml(path)}">${isHtml ? text : escapeHtml(text)}</a>`;
+  }
+
+  /**
+   * Render a comment cell, or an empty cell when comments are excluded
+   */
+  private renderComment(comment: string | undefined): string {
+    return this.options.includeComments && comment
+      ? `<span class="comment">${escapeHtml(comment)}</span>`
+      : "";
+  }
+
+  /**
+   * Render inline code
+   */
+  private renderCode(code: string): string {
+    return `<code>${escapeHtml(code)}</code>`;
+  }
+
+  /**
+   * Render a table row from already escaped cells
+   */
+  private renderRow(cells: string[], id?: string): string {
+    const attributes = id ? ` id="${escapeHtml(id)}"` : "";
+    return `<tr${attributes}>${cells.map((cell) => `<td>${cell}</td>`).join("")}</tr>`;
+  }
+
+  /**
+   * Render a table from its headers and rendered rows
+   */
+  private renderTable(headers: string[], rows: string[]): string {
+    return [
+      "<table>",
+      `<thead><tr>${headers.map((header) => `<th>${header}</th>`).join("")}</tr></thead>`,
+      "<tbody>",
+      ...rows,
+      "</tbody>",
+      "</table>",
+    ].join("\n");
+  }
+
+  /**
+   * Render a complete page with the header, search box and inlined styles and scripts
+   *
+   * @param title - Page title
+   * @param root - Relative path from the page to the site root (e.g., "../")
+   * @param sections - Rendered sections of the main content
+   * @param scripts - Additional script tags, with paths relative to the site root
+   */
+  private renderPage(
+    title: string,
+    root: string,
+    sections: string[],
+    scripts: string[] = [],
+  ): string {
+    const siteTitle = escapeHtml(this.options.title);
+    const pageTitle =
+      title === this.options.title ? siteTitle : `${escapeHtml(title)} - ${siteTitle}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${pageTitle}</title>
+${root ? `<base href="${root}">\n` : ""}<style>
+${STYLES}
+</style>
+</head>
+<body>
+<header>
+<a class="site-title" href="index.html">${siteTitle}</a>
+<nav><a href="index.html">Tables</a><a href="relations.html">Relations</a></nav>
+<div class="search">
+<input id="search-input" type="search" placeholder="Search tables and columns" autocomplete="off">
+<ul id="search-results"></ul>
+</div>
+</header>
+<main>
+${sections.join("\n")}
+</main>
+<script src="${SEARCH_INDEX_PATH}"></script>
+<script>
+${SEARCH_SCRIPT}
+</script>
+${scripts.map((script) => `${script}\n`).join("")}</body>
+</html>
+`;
+  }
+}
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Convert a qualified name to a file name, replacing characters that are unsafe in paths
+ * (e.g., "billing.invoices" stays, "my table" becomes "my_table")
+ */
+function toFileName(name: string): string {
+  return name.replace(/[^\w.-]/g, "_");
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { JsonFormatter, JSON_FORMAT_VERSION } from "./json";
+import type { IntermediateSchema } from "../types";
+
+const schema: IntermediateSchema = {
+  databaseType: "postgresql",
+  tables: [
+    {
+      name: "users",
+      comment: "User accounts",
+      columns: [
+        {
+          name: "id",
+          type: "serial",
+          nullable: false,
+          primaryKey: true,
+          unique: false,
+          autoIncrement: true,
+          comment: "User ID",
+        },
+        { name: "email", type: "text", nullable: false, primaryKey: false, unique: true },
+      ],
+      indexes: [{ name: "users_email_idx", columns: ["email"], unique: true }],
+      constraints: [{ name: "users_pkey", type: "primary_key", columns: ["id"] }],
+    },
+    {
+      name: "posts",
+      columns: [
+        { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+        { name: "author_id", type: "integer", nullable: false, primaryKey: false, unique: false },
+      ],
+      indexes: [],
+      constraints: [],
+    },
+  ],
+  relations: [
+    {
+      fromTable: "posts",
+      fromColumns: ["author_id"],
+      toTable: "users",
+      toColumns: ["id"],
+      type: "many-to-one",
+    },
+  ],
+  enums: [{ name: "status", values: ["active", "inactive"] }],
+};
+
+describe("JsonFormatter", () => {
+  describe("format", () => {
+    it("should wrap the schema in a versioned envelope", () => {
+      const formatter = new JsonFormatter({ generatorVersion: "1.2.3" });
+      const document = JSON.parse(formatter.format(schema));
+
+      expect(document.formatVersion).toBe(JSON_FORMAT_VERSION);
+      expect(document.generator).toEqual({ name: "drizzle-docs-generator", version: "1.2.3" });
+      expect(document.dialect).toBe("postgresql");
+    });
+
+    it("should serialize tables, relations and enums", () => {
+      const formatter = new JsonFormatter();
+      const document = JSON.parse(formatter.format(schema));
+
+      expect(document.schema.databaseType).toBe("postgresql");
+      expect(document.schema.tables).toEqual(schema.tables);
+      expect(document.schema.relations).toEqual(schema.relations);
+      expect(document.schema.enums).toEqual(schema.enums);
+      expect(document.schema.views).toEqual([]);
+    });
+
+    it("should default the generator version to the package version", () => {
+      const packageJson = JSON.parse(
+        readFileSync(join(import.meta.dirname, "../../package.json"), "utf-8"),
+      ) as { version: string };
+      const formatter = new JsonFormatter();
+      const document = formatter.toDocument(schema);
+
+      expect(document.generator.version).toBe(packageJson.version);
+    });
+
+    it("should indent with two spaces by default", () => {
+      const formatter = new JsonFormatter();
+      const output = formatter.format(schema);
+
+      expect(output.startsWith('{\n  "formatVersion": 1,')).toBe(true);
+    });
+
+    it("should respect the indent option", () => {
+      const formatter = new JsonFormatter({ indent: 0 });
+      const output = formatter.format(schema);
+
+      expect(output).not.toContain("\n");
+    });
+  });
+
+  describe("formatter options", () => {
+    it("should omit comments when includeComments is false", () => {
+      const formatter = new JsonFormatter({ includeComments: false });
+      const output = formatter.format(schema);
+
+      expect(output).not.toContain("User accounts");
+      expect(output).not.toContain("User ID");
+    });
+
+    it("should omit indexes when includeIndexes is false", () => {
+      const formatter = new JsonFormatter({ includeIndexes: false });
+      const document = formatter.toDocument(schema);
+
+      expect(document.schema.tables[0].indexes).toEqual([]);
+    });
+
+    it("should omit constraints when includeConstraints is false", () => {
+      const formatter = new JsonFormatter({ includeConstraints: false });
+      const document = formatter.toDocument(schema);
+
+      expect(document.schema.tables[0].constraints).toEqual([]);
+    });
+  });
+
+  describe("bundled JSON Schema", () => {
+    const jsonSchema = JSON.parse(
+      readFileSync(join(import.meta.dirname, "../../schema/drizzle-docs.schema.json"), "utf-8"),
+    );
+
+    it("should describe the current format version", () => {
+      expect(jsonSchema.properties.formatVersion.const).toBe(JSON_FORMAT_VERSION);
+    });
+
+    it("should require every envelope and schema property that is emitted", () => {
+      const document = new JsonFormatter().toDocument(schema);
+
+      expect(jsonSchema.required).toEqual(Object.keys(document));
+      expect(jsonSchema.$defs.intermediateSchema.required).toEqual(Object.keys(document.schema));
+    });
+  });
+
+  describe("OutputFormatter interface", () => {
+    it("should implement OutputFormatter interface", () => {
+      const formatter = new JsonFormatter();
+      expect(typeof formatter.format).toBe("function");
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import type {
+  IntermediateSchema,
+  DatabaseType,
+  TableDefinition,
+  ColumnDefinition,
+  ViewDefinition,
+} from "../types";
+import type { OutputFormatter, FormatterOptions } from "./types";
+import { PACKAGE_NAME, getPackageVersion } from "../utils/package-info";
+
+/**
+ * Version of the JSON output format
+ *
+ * Bumped whenever the structure of the emitted document changes in a way that
+ * is not backwards compatible. Described by `schema/drizzle-docs.schema.json`.
+ */
+export const JSON_FORMAT_VERSION = 1;
+
+/**
+ * Options for JsonFormatter
+ */
+export interface JsonFormatterOptions extends FormatterOptions {
+  /**
+   * Number of spaces used to indent the JSON output
+   * @default 2
+   */
+  indent?: number;
+  /**
+   * Generator version recorded in the output envelope
+   * @default The version of this package
+   */
+  generatorVersion?: string;
+}
+
+/**
+ * The versioned document emitted by JsonFormatter
+ */
+export interface JsonSchemaDocument {
+  /** Version of the JSON output format (see JSON_FORMAT_VERSION) */
+  formatVersion: number;
+  /** Tool that produced the document */
+  generator: {
+    name: string;
+    version: string;
+  };
+  /** Database dialect the schema was extracted from */
+  dialect: DatabaseType;
+  /** The serialized intermediate schema */
+  schema: IntermediateSchema;
+}
+
+/**
+ * Default formatter options
+ */
+const DEFAULT_OPTIONS: Required<Omit<JsonFormatterOptions, "generatorVersion">> = {
+  includeComments: true,
+  includeIndexes: true,
+  includeConstraints: true,
+  typeNames: {},
+  indent: 2,
+};
+
+/**
+ * JsonFormatter serializes IntermediateSchema to JSON
+ *
+ * The schema is wrapped in a versioned envelope so that consumers can detect
+ * format changes without importing TypeScript types. The structure is described
+ * by the JSON Schema bundled with the package at `schema/drizzle-docs.schema.json`.
+ *
+ * @example
+ * ```typescript
+ * const formatter = new JsonFormatter();
+ * const json = formatter.format(schema);
+ * // {
+ * //   "formatVersion": 1,
+ * //   "generator": { "name": "drizzle-docs-generator", "version": "0.7.2" },
+ * //   "dialect": "postgresql",
+ * //   "schema": { "databaseType": "postgresql", "tables": [...], ... }
+ * // }
+ * ```
+ */
+export class JsonFormatter implements OutputFormatter {
+  private options: Required<Omit<JsonFormatterOptions, "generatorVersion">>;
+  private generatorVersion: string | undefined;
+
+  /**
+   * Create a new JsonFormatter
+   *
+   * @param options - Formatter options
+   */
+  constructor(options: JsonFormatterOptions = {}) {
+    const { generatorVersion, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.generatorVersion = generatorVersion;
+  }
+
+  /**
+   * Format the intermediate schema into a JSON document
+   *
+   * @param schema - The intermediate schema to format
+   * @returns JSON string
+   */
+  format(schema: IntermediateSchema): string {
+    return JSON.stringify(this.toDocument(schema), null, this.options.indent);
+  }
+
+  /**
+   * Build the versioned JSON document for the intermediate schema
+   *
+   * @param schema - The intermediate schema to serialize
+   * @returns The document object (before stringification)
+   */
+  toDocument(schema: IntermediateSchema): JsonSchemaDocument {
+    return {
+      formatVersion: JSON_FORMAT_VERSION,
+      generator: {
+        name: PACKAGE_NAME,
+        version: this.generatorVersion ?? getPackageVersion(),
+      },
+      dialect: schema.databaseType,
+      schema: {
+        databaseType: schema.databaseType,
+        tables: schema.tables.map((table) => this.formatTable(table)),
+        views: (schema.views ?? []).map((view) => this.formatView(view)),
+        enums: schema.enums,
+        relations: schema.relations,
+        ...(schema.sequences && { sequences: schema.sequences }),
+        ...(schema.roles && { roles: schema.roles }),
+      },
+    };
+  }
+
+  /**
+   * Apply formatter options to a table definition
+   */
+  private formatTable(table: TableDefinition): TableDefinition {
+    return {
+      ...table,
+      comment: this.options.includeComments ? table.comment : undefined,
+      columns: table.columns.map((column) => this.formatColumn(column)),
+      indexes: this.options.includeIndexes ? table.indexes : [],
+      constraints: this.options.includeConstraints ? table.constraints : [],
+    };
+  }
+
+  /**
+   * Apply formatter options to a view definition
+   */
+  private formatView(view: ViewDefinition): ViewDefinition {
+    return {
+      ...view,
+      comment: this.options.includeComments ? view.comment : undefined,
+      columns: view.columns.map((column) => this.formatColumn(column)),
+    };
+  }
+
+  /**
+   * Apply formatter options to a column definition
+   */
+  private formatColumn(column: ColumnDefinition): ColumnDefinition {
+    return {
+      ...column,
+      comment: this.options.includeComments ? column.comment : undefined,
+    };
+  }
+}
@@ -162,6 +162,176 @@ describe("MarkdownFormatter", () => {
       expect(markdown).toContain("`now()`");
     });
 
+    it("should add an Extra column for generated and identity columns", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "id",
+                type: "integer",
+                nullable: false,
+                primaryKey: true,
+                unique: false,
+                identity: { type: "always", startWith: "1000" },
+              },
+              {
+                name: "email",
+                type: "text",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+                comment: "Login email",
+              },
+              {
+                name: "email_domain",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                generated: { expression: "split_part(email, '@', 2)", mode: "stored" },
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const markdown = new MarkdownFormatter().format(schema);
+
+      expect(markdown).toContain(
+        "| Name | Type | Default | Nullable | Extra | Children | Parents | Comment |\n" +
+          "|------|------|---------|----------|-------|----------|---------|---------|\n" +
+          "| **id** | integer | - | NO | `GENERATED ALWAYS AS IDENTITY (START WITH 1000)` | - | - | - |\n" +
+          "| email | text | - | NO | - | - | - | Login email |\n" +
+          "| email_domain | text | - | YES | `GENERATED ALWAYS AS (split_part(email, '@', 2)) STORED` | - | - | - |",
+      );
+    });
+
+    it("should show MySQL column attributes in the Extra column", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "mysql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "name",
+                type: "varchar(50)",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                charset: "utf8mb4",
+                collation: "utf8mb4_bin",
+              },
+              {
+                name: "updated_at",
+                type: "timestamp",
+                nullable: true,
+                defaultValue: "CURRENT_TIMESTAMP",
+                primaryKey: false,
+                unique: false,
+                onUpdate: "CURRENT_TIMESTAMP",
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const markdown = new MarkdownFormatter().format(schema);
+
+      expect(markdown).toContain(
+        "| name | varchar(50) | - | YES | `CHARACTER SET utf8mb4 COLLATE utf8mb4_bin` | - | - | - |",
+      );
+      expect(markdown).toContain(
+        "| updated_at | timestamp | `CURRENT_TIMESTAMP` | YES | `ON UPDATE CURRENT_TIMESTAMP` | - | - | - |",
+      );
+    });
+
+    it("should show the Drizzle mode next to the column type", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "sqlite",
+        tables: [
+          {
+            name: "events",
+            columns: [
+              {
+                name: "created_at",
+                type: "integer",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+                mode: "timestamp",
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const markdown = new MarkdownFormatter().format(schema);
+
+      expect(markdown).toContain("| created_at | integer (timestamp) | - | NO | - | - | - |");
+    });
+
+    it("should show configured display names for column types", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "id",
+                type: "uuid",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+              },
+              {
+                name: "name",
+                type: "varchar(255)",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+              },
+              {
+                name: "bio",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const markdown = new MarkdownFormatter({
+        typeNames: { uuid: "UUID", varchar: "String" },
+      }).format(schema);
+
+      expect(markdown).toContain("| id | UUID | - | NO | - | - | - |");
+      expect(markdown).toContain("| name | String | - | NO | - | - | - |");
+      expect(markdown).toContain("| bio | text | - | YES | - | - | - |");
+    });
+
     it("should format empty schema", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -226,6 +396,63 @@ describe("MarkdownFormatter", () => {
       expect(markdown).toContain("| email_unique_idx | email | YES |");
     });
 
+    it("should show index definitions", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            schema: "auth",
+            columns: [
+              {
+                name: "email",
+                type: "varchar(255)",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+              },
+            ],
+            indexes: [
+              {
+                name: "email_lower_idx",
+                columns: [],
+                unique: true,
+                parts: [{ expression: "lower(email)" }],
+                where: "deleted_at IS NULL",
+              },
+              {
+                name: "email_trgm_idx",
+                columns: ["email"],
+                unique: false,
+                type: "gin",
+                parts: [{ column: "email", opClass: "gin_trgm_ops" }],
+              },
+              {
+                name: "email_hash_idx",
+                columns: ["email"],
+                unique: false,
+                type: "hash",
+              },
+            ],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const formatter = new MarkdownFormatter();
+      const markdown = formatter.format(schema);
+
+      expect(markdown).toContain("| Name | Columns | Unique | Type | Definition |");
+      expect(markdown).toContain(
+        "| email_lower_idx | - | YES | - | `CREATE UNIQUE INDEX email_lower_idx ON auth.users (lower(email)) WHERE (deleted_at IS NULL)` |",
+      );
+      expect(markdown).toContain(
+        "| email_trgm_idx | email | NO | gin | `CREATE INDEX email_trgm_idx ON auth.users USING gin (email gin_trgm_ops)` |",
+      );
+    });
+
     it("should format relations", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -403,6 +630,144 @@ describe("MarkdownFormatter", () => {
       expect(markdown).toContain("One to Many");
     });
 
+    it("should format many-to-many relations with their junction table", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "posts",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+          {
+            name: "tags",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+          {
+            name: "post_tags",
+            columns: [
+              {
+                name: "post_id",
+                type: "integer",
+                nullable: false,
+                primaryKey: true,
+                unique: false,
+              },
+              { name: "tag_id", type: "integer", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [
+          {
+            fromTable: "post_tags",
+            fromColumns: ["post_id"],
+            toTable: "posts",
+            toColumns: ["id"],
+            type: "many-to-one",
+          },
+          {
+            fromTable: "posts",
+            fromColumns: ["id"],
+            toTable: "tags",
+            toColumns: ["id"],
+            type: "many-to-many",
+            through: { table: "post_tags", fromColumns: ["post_id"], toColumns: ["tag_id"] },
+          },
+        ],
+        enums: [],
+      };
+
+      const formatter = new MarkdownFormatter();
+      const markdown = formatter.format(schema);
+
+      expect(markdown).toContain(
+        "| [tags.id](#tags) | **[posts.id](#posts)** | Many to Many (via [post_tags](#post_tags)) |",
+      );
+      // The junction table holds the references, not the ends of the relation
+      expect(markdown).toContain(
+        "| **id** | serial | - | NO | [post_tags.post_id](#post_tags) | - | - |",
+      );
+      expect(markdown).toContain("| **id** | serial | - | NO | - | - | - |");
+    });
+
+    it("should show relation names and filters in the relations table", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+          {
+            name: "posts",
+            columns: [
+              {
+                name: "author_id",
+                type: "integer",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+              },
+              {
+                name: "reviewer_id",
+                type: "integer",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [
+          {
+            name: "author",
+            fromTable: "posts",
+            fromColumns: ["author_id"],
+            toTable: "users",
+            toColumns: ["id"],
+            type: "many-to-one",
+          },
+          {
+            name: "reviewer",
+            fromTable: "posts",
+            fromColumns: ["reviewer_id"],
+            toTable: "users",
+            toColumns: ["id"],
+            type: "many-to-one",
+            where: "is_active = true",
+          },
+        ],
+        enums: [],
+      };
+
+      const formatter = new MarkdownFormatter();
+      const markdown = formatter.format(schema);
+
+      expect(markdown).toContain("| Name | Parent | Child | Type | Filter |");
+      expect(markdown).toContain("|------|--------|-------|------|--------|");
+      expect(markdown).toContain(
+        "| author | [users.id](#users) | **[posts.author_id](#posts)** | Many to One | - |",
+      );
+      expect(markdown).toContain(
+        "| reviewer | [users.id](#users) | **[posts.reviewer_id](#posts)** | Many to One | `is_active = true` |",
+      );
+    });
+
     it("should format PostgreSQL enums", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -448,6 +813,96 @@ describe("MarkdownFormatter", () => {
       expect(markdown).toContain("| pending |");
     });
 
+    it("should document row-level security, sequences and roles", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "posts",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+            rlsEnabled: true,
+            policies: [
+              {
+                name: "owner_read",
+                as: "permissive",
+                command: "select",
+                roles: ["admin", "authenticated"],
+                using: "owner_id = current_user",
+              },
+              {
+                name: "owner_write",
+                as: "restrictive",
+                command: "insert",
+                roles: ["public"],
+                withCheck: "owner_id = current_user",
+              },
+            ],
+          },
+          {
+            name: "audit_log",
+            columns: [
+              { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            ],
+            indexes: [],
+            constraints: [],
+            rlsEnabled: true,
+          },
+        ],
+        relations: [],
+        enums: [],
+        sequences: [
+          { name: "order_seq", startWith: "100", increment: "2", cycle: true },
+          { name: "invoice_seq", schema: "billing" },
+        ],
+        roles: [
+          { name: "admin", createRole: true, inherit: false },
+          { name: "authenticated", existing: true },
+        ],
+      };
+
+      const markdown = new MarkdownFormatter().format(schema);
+
+      expect(markdown).toContain(
+        [
+          "### Row Level Security",
+          "",
+          "Row level security is **enabled**.",
+          "",
+          "| Name | Type | Command | Roles | Using | With Check |",
+          "|------|------|---------|-------|-------|------------|",
+          "| owner_read | PERMISSIVE | SELECT | admin, authenticated | `owner_id = current_user` | - |",
+          "| owner_write | RESTRICTIVE | INSERT | public | - | `owner_id = current_user` |",
+        ].join("\n"),
+      );
+      expect(markdown).toContain(
+        "### Row Level Security\n\nRow level security is **enabled**.\n\nNo policies defined.",
+      );
+      expect(markdown).toContain(
+        [
+          "# Sequences",
+          "",
+          "| Name | Start | Increment | Min | Max | Cache | Cycle |",
+          "|------|-------|-----------|-----|-----|-------|-------|",
+          "| order_seq | 100 | 2 | - | - | - | YES |",
+          "| billing.invoice_seq | - | - | - | - | - | NO |",
+        ].join("\n"),
+      );
+      expect(markdown).toContain(
+        [
+          "# Roles",
+          "",
+          "| Name | Attributes | Managed |",
+          "|------|------------|---------|",
+          "| admin | CREATEROLE, NOINHERIT | Schema |",
+          "| authenticated | - | Outside the schema |",
+        ].join("\n"),
+      );
+    });
+
     it("should include table comments", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -646,6 +1101,44 @@ describe("MarkdownFormatter", () => {
       expect(markdown).toContain("| posts_author_fkey | FOREIGN KEY | (author_id) → users(id) |");
     });
 
+    it("should format check constraints with their expression", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "nickname",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+              },
+            ],
+            indexes: [],
+            constraints: [
+              {
+                name: "nickname_check",
+                type: "check",
+                columns: ["nickname"],
+                definition: "nickname <> '' OR nickname || '' IS NULL",
+              },
+            ],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const formatter = new MarkdownFormatter();
+      const markdown = formatter.format(schema);
+
+      expect(markdown).toContain(
+        "| nickname_check | CHECK | `nickname <> '' OR nickname \\|\\| '' IS NULL` |",
+      );
+    });
+
     it("should show nullable status correctly", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -848,6 +1341,126 @@ describe("MarkdownFormatter", () => {
       expect(tableDoc).toContain("### Constraints");
       expect(tableDoc).toContain("| users_pkey |");
     });
+
+    it("should render deprecations, owners and tags", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            comment: "User accounts table",
+            owners: ["identity-team", "growth"],
+            tags: ["core"],
+            deprecated: "Use accounts instead",
+            columns: [
+              {
+                name: "email",
+                type: "text",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+                comment: "User email",
+                tags: ["pii", "login"],
+                deprecated: "",
+              },
+              {
+                name: "nickname",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                tags: ["pii"],
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const formatter = new MarkdownFormatter();
+      const tableDoc = formatter.generateTableDoc(schema.tables[0], schema);
+
+      expect(tableDoc).toContain(
+        [
+          "User accounts table",
+          "",
+          "> **Deprecated:** Use accounts instead",
+          "",
+          "**Owners:** identity-team, growth",
+          "",
+          "**Tags:** `core`",
+          "",
+          "### Columns",
+        ].join("\n"),
+      );
+      expect(tableDoc).toContain("| User email **Deprecated** `pii`, `login` |");
+      expect(tableDoc).toContain("| nickname | text | - | YES | - | - | `pii` |");
+    });
+
+    it("should strike through deprecated columns and render JSDoc tags", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            customTags: [{ name: "since", text: "2.0" }],
+            examples: ["const user = await db.select().from(users);"],
+            see: ["accounts"],
+            columns: [
+              {
+                name: "id",
+                type: "serial",
+                nullable: false,
+                primaryKey: true,
+                unique: false,
+                deprecated: "Use uuid instead",
+              },
+              {
+                name: "email",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                comment: "Login email",
+                customTags: [{ name: "pii" }],
+                examples: ["a@example.com"],
+                see: ["login"],
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const formatter = new MarkdownFormatter();
+      const tableDoc = formatter.generateTableDoc(schema.tables[0], schema);
+
+      expect(tableDoc).toContain(
+        [
+          "**Tags:** `@since 2.0`",
+          "",
+          "**Example:**",
+          "",
+          "```",
+          "const user = await db.select().from(users);",
+          "```",
+          "",
+          "**See:** accounts",
+        ].join("\n"),
+      );
+      expect(tableDoc).toContain(
+        "| **~~id~~** | serial | - | NO | - | - | **Deprecated:** Use uuid instead |",
+      );
+      expect(tableDoc).toContain(
+        "| email | text | - | YES | - | - | Login email `@pii` Example: `a@example.com` See: login |",
+      );
+    });
   });
 
   describe("formatter options", () => {
@@ -981,6 +1594,189 @@ describe("MarkdownFormatter", () => {
     });
   });
 
+  describe("database schemas", () => {
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [
+        {
+          name: "users",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+        {
+          name: "invoices",
+          schema: "billing",
+          comment: "Issued invoices",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            { name: "user_id", type: "integer", nullable: false, primaryKey: false, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+      ],
+      relations: [
+        {
+          fromTable: "billing.invoices",
+          fromColumns: ["user_id"],
+          toTable: "users",
+          toColumns: ["id"],
+          type: "many-to-one",
+        },
+      ],
+      enums: [],
+    };
+
+    it("should group the index by schema", () => {
+      const formatter = new MarkdownFormatter();
+      const index = formatter.generateIndex(schema);
+
+      expect(index).toContain("## Schema: public");
+      expect(index).toContain("## Schema: billing");
+      expect(index.indexOf("## Schema: public")).toBeLessThan(index.indexOf("## Schema: billing"));
+      expect(index).toContain("| [billing.invoices](#billinginvoices) | 2 | Issued invoices |");
+    });
+
+    it("should not group the index when no table has a schema", () => {
+      const formatter = new MarkdownFormatter();
+      const index = formatter.generateIndex({
+        ...schema,
+        tables: schema.tables.filter((t) => !t.schema),
+      });
+
+      expect(index).not.toContain("## Schema:");
+    });
+
+    it("should use the schema-qualified name as table heading", () => {
+      const formatter = new MarkdownFormatter();
+      const markdown = formatter.format(schema);
+
+      expect(markdown).toContain("## billing.invoices");
+      expect(markdown).toContain("[users.id](#users)");
+    });
+
+    it("should link to per-schema subdirectories with file links", () => {
+      const formatter = new MarkdownFormatter({ linkFormat: "file" });
+
+      const index = formatter.generateIndex(schema);
+      expect(index).toContain("[billing.invoices](./billing/invoices.md)");
+      expect(index).toContain("[users](./users.md)");
+
+      const invoicesDoc = formatter.generateTableDoc(schema.tables[1], schema);
+      expect(invoicesDoc).toContain("[users.id](../users.md)");
+
+      const usersDoc = formatter.generateTableDoc(schema.tables[0], schema);
+      expect(usersDoc).toContain("[billing.invoices.user_id](./billing/invoices.md)");
+    });
+  });
+
+  describe("views", () => {
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [
+        {
+          name: "users",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+      ],
+      views: [
+        {
+          name: "active_users",
+          materialized: false,
+          comment: "Recently active users",
+          columns: [
+            {
+              name: "id",
+              type: "serial",
+              nullable: false,
+              primaryKey: false,
+              unique: false,
+              comment: "User ID",
+            },
+          ],
+          definition: 'select "id" from "users"',
+        },
+        {
+          name: "user_counts",
+          schema: "reporting",
+          materialized: true,
+          columns: [
+            { name: "total", type: "integer", nullable: true, primaryKey: false, unique: false },
+          ],
+        },
+      ],
+      relations: [],
+      enums: [],
+    };
+
+    it("should list views in the index", () => {
+      const formatter = new MarkdownFormatter();
+      const result = formatter.generateIndex(schema);
+
+      expect(result).toContain("# Views");
+      expect(result).toContain("| Name | Columns | Type | Comment |");
+      expect(result).toContain(
+        "| [active_users](#active_users) | 1 | VIEW | Recently active users |",
+      );
+      expect(result).toContain(
+        "| [reporting.user_counts](#reportinguser_counts) | 1 | MATERIALIZED VIEW |  |",
+      );
+    });
+
+    it("should list views even when there are no tables", () => {
+      const formatter = new MarkdownFormatter();
+      const result = formatter.generateIndex({ ...schema, tables: [] });
+
+      expect(result).toContain("No tables defined.");
+      expect(result).toContain("# Views");
+    });
+
+    it("should use schema subdirectories for view file links", () => {
+      const formatter = new MarkdownFormatter({ linkFormat: "file" });
+      const result = formatter.generateIndex(schema);
+
+      expect(result).toContain("[active_users](./active_users.md)");
+      expect(result).toContain("[reporting.user_counts](./reporting/user_counts.md)");
+    });
+
+    it("should generate view documentation with columns and definition", () => {
+      const formatter = new MarkdownFormatter();
+      const result = formatter.generateViewDoc(schema.views![0]);
+
+      expect(result).toContain("## active_users");
+      expect(result).toContain("**Type:** VIEW");
+      expect(result).toContain("Recently active users");
+      expect(result).toContain("| Name | Type | Nullable | Comment |");
+      expect(result).toContain("| id | serial | NO | User ID |");
+      expect(result).toContain('### Definition\n\n```sql\nselect "id" from "users"\n```');
+    });
+
+    it("should omit the definition section when the query is unknown", () => {
+      const formatter = new MarkdownFormatter();
+      const result = formatter.generateViewDoc(schema.views![1]);
+
+      expect(result).toContain("## reporting.user_counts");
+      expect(result).toContain("**Type:** MATERIALIZED VIEW");
+      expect(result).not.toContain("### Definition");
+    });
+
+    it("should include view documentation in single-file output", () => {
+      const formatter = new MarkdownFormatter();
+      const result = formatter.format(schema);
+
+      expect(result).toContain("## users");
+      expect(result).toContain("## active_users");
+      expect(result).toContain("## reporting.user_counts");
+    });
+  });
+
   describe("table names with underscores", () => {
     it("should preserve underscores in anchor links for table names", () => {
       const schema: IntermediateSchema = {
@@ -6,14 +6,34 @@ import type {
   ConstraintDefinition,
   RelationDefinition,
   EnumDefinition,
+  PolicyDefinition,
+  RoleDefinition,
+  SequenceDefinition,
+  ViewDefinition,
+  DatabaseType,
 } from "../types";
 import type { OutputFormatter, FormatterOptions } from "./types";
+import {
+  formatColumnExtra,
+  formatConstraintType,
+  formatRelationType,
+  getBadges,
+  groupTablesBySchema,
+} from "./doc-helpers";
+import { formatIndexDefinition, formatRoleAttributes } from "./sql-clauses";
+import { getTypeDisplayName } from "../utils/data-type";
+import { qualifyName } from "../utils/table-name";
 
 /**
  * Link format for table references
  */
 type LinkFormat = "anchor" | "file";
 
+/**
+ * A table or view that can be the target of a link
+ */
+type LinkTarget = Pick<TableDefinition, "name" | "schema">;
+
 /**
  * Options for MarkdownFormatter
  */
@@ -37,6 +57,7 @@ const DEFAULT_OPTIONS: Required<MarkdownFormatterOptions> = {
   includeComments: true,
   includeIndexes: true,
   includeConstraints: true,
+  typeNames: {},
   useRelativeLinks: true,
   linkFormat: "anchor",
 };
@@ -48,8 +69,12 @@ const DEFAULT_OPTIONS: Required<MarkdownFormatterOptions> = {
  * the database-agnostic IntermediateSchema representation.
  *
  * Output includes:
- * - Table index (README.md style)
+ * - Table index (README.md style), grouped by database schema when tables use schemas
  * - Individual table documentation with columns, constraints, indexes, and relations
+ * - View index and individual view documentation with columns and the view query
+ *
+ * With the "file" link format, tables and views in a named schema are expected to live
+ * in a subdirectory named after the schema (e.g., `billing/invoices.md`).
  */
 export class MarkdownFormatter implements OutputFormatter {
   private options: Required<MarkdownFormatterOptions>;
@@ -66,7 +91,7 @@ export class MarkdownFormatter implements OutputFormatter {
   /**
    * Format the intermediate schema into a single Markdown document
    *
-   * This generates a complete document containing the index and all table docs.
+   * This generates a complete document containing the index and all table and view docs.
    *
    * @param schema - The intermediate schema to format
    * @returns Markdown string
@@ -85,6 +110,15 @@ export class MarkdownFormatter implements OutputFormatter {
       lines.push(this.generateEnumsSection(schema.enums));
     }
 
+    // Generate sequence and role documentation if any (PostgreSQL)
+    const sequencesAndRoles = this.generateSequencesAndRoles(schema);
+    if (sequencesAndRoles) {
+      lines.push("");
+      lines.push("---");
+      lines.push("");
+      lines.push(sequencesAndRoles);
+    }
+
     // Generate table documentation
     for (const table of schema.tables) {
       lines.push("");
@@ -93,6 +127,14 @@ export class MarkdownFormatter implements OutputFormatter {
       lines.push(this.generateTableDoc(table, schema));
     }
 
+    // Generate view documentation
+    for (const view of schema.views ?? []) {
+      lines.push("");
+      lines.push("---");
+      lines.push("");
+      lines.push(this.generateViewDoc(view));
+    }
+
     return lines.join("\n").trim();
   }
 
@@ -110,16 +152,90 @@ export class MarkdownFormatter implements OutputFormatter {
 
     if (schema.tables.length === 0) {
       lines.push("No tables defined.");
-      return lines.join("\n");
+    } else if (schema.tables.every((t) => !t.schema)) {
+      // Without any named schema, keep a single flat table list
+      lines.push(this.generateIndexTable(schema.tables, schema));
+    } else {
+      const defaultSchemaName = schema.databaseType === "postgresql" ? "public" : "default";
+      for (const [schemaName, tables] of groupTablesBySchema(schema.tables)) {
+        lines.push(`## Schema: ${schemaName ?? defaultSchemaName}`);
+        lines.push("");
+        lines.push(this.generateIndexTable(tables, schema));
+        lines.push("");
+      }
     }
 
+    const views = schema.views ?? [];
+    if (views.length > 0) {
+      lines.push("");
+      lines.push(this.generateViewIndex(views, schema));
+    }
+
+    return lines.join("\n").trim();
+  }
+
+  /**
+   * Generate the sequence and role sections (PostgreSQL)
+   *
+   * @param schema - The intermediate schema
+   * @returns Markdown string for the sections, or an empty string if there are none
+   */
+  generateSequencesAndRoles(schema: IntermediateSchema): string {
+    const sections: string[] = [];
+
+    if (schema.sequences && schema.sequences.length > 0) {
+      sections.push(this.generateSequencesSection(schema.sequences));
+    }
+    if (schema.roles && schema.roles.length > 0) {
+      sections.push(this.generateRolesSection(schema.roles));
+    }
+
+    return sections.join("\n\n---\n\n");
+  }
+
+  /**
+   * Generate the index section listing views
+   */
+  private generateViewIndex(views: ViewDefinition[], schema: IntermediateSchema): string {
+    const lines: string[] = [];
+
+    lines.push("# Views");
+    lines.push("");
+    lines.push("| Name | Columns | Type | Comment |");
+    lines.push("|------|---------|------|---------|");
+
+    for (const view of views) {
+      const qualifiedName = qualifyName(view.name, view.schema);
+      const name = this.options.useRelativeLinks
+        ? this.createTableLink(qualifiedName, undefined, this.getLinkTargets(schema))
+        : qualifiedName;
+      const comment =
+        this.options.includeComments && view.comment ? this.escapeMarkdown(view.comment) : "";
+
+      lines.push(
+        `| ${name} | ${view.columns.length} | ${this.formatViewType(view)} | ${comment} |`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate the index table listing the given tables
+   */
+  private generateIndexTable(tables: TableDefinition[], schema: IntermediateSchema): string {
+    const lines: string[] = [];
+
     // Table header
     lines.push("| Name | Columns | Comment |");
     lines.push("|------|---------|---------|");
 
     // Table rows
-    for (const table of schema.tables) {
-      const name = this.options.useRelativeLinks ? this.createTableLink(table.name) : table.name;
+    for (const table of tables) {
+      const qualifiedName = qualifyName(table.name, table.schema);
+      const name = this.options.useRelativeLinks
+        ? this.createTableLink(qualifiedName, undefined, this.getLinkTargets(schema))
+        : qualifiedName;
       const columnCount = table.columns.length;
       const comment =
         this.options.includeComments && table.comment ? this.escapeMarkdown(table.comment) : "";
@@ -139,9 +255,10 @@ export class MarkdownFormatter implements OutputFormatter {
    */
   generateTableDoc(table: TableDefinition, schema: IntermediateSchema): string {
     const lines: string[] = [];
+    const qualifiedName = qualifyName(table.name, table.schema);
 
     // Table heading with anchor
-    lines.push(`## ${table.name}`);
+    lines.push(`## ${qualifiedName}`);
     lines.push("");
 
     // Table comment (preserve newlines as <br> for better readability)
@@ -150,8 +267,10 @@ export class MarkdownFormatter implements OutputFormatter {
       lines.push("");
     }
 
+    lines.push(...this.generateMetadataLines(table));
+
     // Columns section
-    lines.push(this.generateColumnsTable(table.columns, table.name, schema));
+    lines.push(this.generateColumnsTable(table.columns, table, schema));
 
     // Constraints section
     if (this.options.includeConstraints && table.constraints.length > 0) {
@@ -162,14 +281,71 @@ export class MarkdownFormatter implements OutputFormatter {
     // Indexes section
     if (this.options.includeIndexes && table.indexes.length > 0) {
       lines.push("");
-      lines.push(this.generateIndexesTable(table.indexes));
+      lines.push(this.generateIndexesTable(table.indexes, table, schema.databaseType));
+    }
+
+    // Row-level security section
+    if (table.rlsEnabled || (table.policies && table.policies.length > 0)) {
+      lines.push("");
+      lines.push(this.generateRowLevelSecuritySection(table));
     }
 
     // Relations section
-    const tableRelations = this.getTableRelations(table.name, schema.relations);
+    const tableRelations = this.getTableRelations(qualifiedName, schema.relations);
     if (tableRelations.length > 0) {
       lines.push("");
-      lines.push(this.generateRelationsTable(tableRelations, table.name));
+      lines.push(this.generateRelationsTable(tableRelations, table, schema));
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate documentation for a single view
+   *
+   * @param view - The view definition
+   * @returns Markdown string for the view documentation
+   */
+  generateViewDoc(view: ViewDefinition): string {
+    const lines: string[] = [];
+
+    lines.push(`## ${qualifyName(view.name, view.schema)}`);
+    lines.push("");
+    lines.push(`**Type:** ${this.formatViewType(view)}`);
+    lines.push("");
+
+    if (this.options.includeComments && view.comment) {
+      lines.push(this.escapeMarkdownWithBreaks(view.comment));
+      lines.push("");
+    }
+
+    lines.push(...this.generateMetadataLines(view));
+
+    lines.push("### Columns");
+    lines.push("");
+
+    if (view.columns.length === 0) {
+      lines.push("No columns defined.");
+    } else {
+      lines.push("| Name | Type | Nullable | Comment |");
+      lines.push("|------|------|----------|---------|");
+
+      for (const column of view.columns) {
+        const type = this.escapeMarkdown(this.formatColumnType(column));
+        const nullable = column.nullable ? "YES" : "NO";
+        const comment = this.formatColumnComment(column);
+
+        lines.push(`| ${this.formatColumnName(column)} | ${type} | ${nullable} | ${comment} |`);
+      }
+    }
+
+    if (view.definition) {
+      lines.push("");
+      lines.push("### Definition");
+      lines.push("");
+      lines.push("```sql");
+      lines.push(view.definition);
+      lines.push("```");
     }
 
     return lines.join("\n");
@@ -180,9 +356,10 @@ export class MarkdownFormatter implements OutputFormatter {
    */
   private generateColumnsTable(
     columns: ColumnDefinition[],
-    tableName: string,
+    table: TableDefinition,
     schema: IntermediateSchema,
   ): string {
+    const tableName = qualifyName(table.name, table.schema);
     const lines: string[] = [];
 
     lines.push("### Columns");
@@ -200,27 +377,140 @@ export class MarkdownFormatter implements OutputFormatter {
       return { column: col, children, parents };
     });
 
-    // Table header
-    lines.push("| Name | Type | Default | Nullable | Children | Parents | Comment |");
-    lines.push("|------|------|---------|----------|----------|---------|---------|");
+    // Table header, with an Extra column when the table has generated or identity columns
+    // or MySQL column attributes
+    const hasExtras = columns.some((col) => formatColumnExtra(col) !== undefined);
+    const headers = ["Name", "Type", "Default", "Nullable", "Children", "Parents", "Comment"];
+    if (hasExtras) {
+      headers.splice(4, 0, "Extra");
+    }
+    lines.push(`| ${headers.join(" | ")} |`);
+    lines.push(`|${headers.map((header) => "-".repeat(header.length + 2)).join("|")}|`);
 
     // Table rows
     for (const { column, children, parents } of columnInfo) {
-      const name = column.primaryKey ? `**${column.name}**` : column.name;
-      const type = this.escapeMarkdown(column.type);
+      const name = column.primaryKey
+        ? `**${this.formatColumnName(column)}**`
+        : this.formatColumnName(column);
+      const type = this.escapeMarkdown(this.formatColumnType(column));
       const defaultVal = column.defaultValue !== undefined ? `\`${column.defaultValue}\`` : "-";
       const nullable = column.nullable ? "YES" : "NO";
-      const childrenStr = children.length > 0 ? this.formatRelationLinks(children) : "-";
-      const parentsStr = parents.length > 0 ? this.formatRelationLinks(parents) : "-";
-      const comment =
-        this.options.includeComments && column.comment ? this.escapeMarkdown(column.comment) : "-";
+      const childrenStr =
+        children.length > 0
+          ? this.formatRelationLinks(children, this.getLinkTargets(schema), table.schema)
+          : "-";
+      const parentsStr =
+        parents.length > 0
+          ? this.formatRelationLinks(parents, this.getLinkTargets(schema), table.schema)
+          : "-";
+      const comment = this.formatColumnComment(column);
+
+      const cells = [name, type, defaultVal, nullable, childrenStr, parentsStr, comment];
+      if (hasExtras) {
+        const extra = formatColumnExtra(column);
+        cells.splice(4, 0, extra ? `\`${this.escapeMarkdown(extra)}\`` : "-");
+      }
+      lines.push(`| ${cells.join(" | ")} |`);
+    }
+
+    return lines.join("\n");
+  }
 
+  /**
+   * Format the type of a column, or its configured display name,
+   * followed by its Drizzle mode (e.g., "integer (timestamp)")
+   */
+  private formatColumnType(column: ColumnDefinition): string {
+    const type = getTypeDisplayName(column, this.options.typeNames) ?? column.type;
+    return column.mode ? `${type} (${column.mode})` : type;
+  }
+
+  /**
+   * Generate the deprecation, owner, tag, example and reference lines of a table or view
+   *
+   * @returns The lines, each paragraph followed by an empty line
+   */
+  private generateMetadataLines(item: TableDefinition | ViewDefinition): string[] {
+    const lines: string[] = [];
+
+    if (item.deprecated !== undefined) {
+      lines.push(`> ${this.formatDeprecation(item.deprecated)}`);
+      lines.push("");
+    }
+    if (item.owners && item.owners.length > 0) {
       lines.push(
-        `| ${name} | ${type} | ${defaultVal} | ${nullable} | ${childrenStr} | ${parentsStr} | ${comment} |`,
+        `**Owners:** ${item.owners.map((owner) => this.escapeMarkdown(owner)).join(", ")}`,
       );
+      lines.push("");
+    }
+    const badges = this.formatBadges(item);
+    if (badges) {
+      lines.push(`**Tags:** ${badges}`);
+      lines.push("");
+    }
+    for (const example of item.examples ?? []) {
+      lines.push("**Example:**");
+      lines.push("");
+      lines.push("```");
+      lines.push(example);
+      lines.push("```");
+      lines.push("");
+    }
+    if (item.see && item.see.length > 0) {
+      lines.push(`**See:** ${item.see.map((ref) => this.escapeMarkdown(ref)).join(", ")}`);
+      lines.push("");
     }
 
-    return lines.join("\n");
+    return lines;
+  }
+
+  /**
+   * Format a column name, struck through when the column is deprecated
+   */
+  private formatColumnName(column: ColumnDefinition): string {
+    return column.deprecated !== undefined ? `~~${column.name}~~` : column.name;
+  }
+
+  /**
+   * Format the Comment cell of a column, including its deprecation, tags,
+   * examples and references
+   */
+  private formatColumnComment(column: ColumnDefinition): string {
+    const parts: string[] = [];
+    if (this.options.includeComments && column.comment) {
+      parts.push(this.escapeMarkdown(column.comment));
+    }
+    if (column.deprecated !== undefined) {
+      parts.push(this.formatDeprecation(column.deprecated));
+    }
+    const badges = this.formatBadges(column);
+    if (badges) {
+      parts.push(badges);
+    }
+    for (const example of column.examples ?? []) {
+      parts.push(`Example: \`${this.escapeMarkdown(example)}\``);
+    }
+    if (column.see && column.see.length > 0) {
+      parts.push(`See: ${column.see.map((ref) => this.escapeMarkdown(ref)).join(", ")}`);
+    }
+    return parts.length > 0 ? parts.join(" ") : "-";
+  }
+
+  /**
+   * Format a deprecation and its note (e.g., "**Deprecated:** Use email instead")
+   */
+  private formatDeprecation(note: string): string {
+    return note ? `**Deprecated:** ${this.escapeMarkdown(note)}` : "**Deprecated**";
+  }
+
+  /**
+   * Format tags and custom JSDoc tags as inline code badges
+   * (e.g., "`billing`, `@pii`, `@since 2.0`")
+   */
+  private formatBadges(item: Pick<ColumnDefinition, "tags" | "customTags">): string {
+    return getBadges(item)
+      .map((badge) => `\`${this.escapeMarkdown(badge)}\``)
+      .join(", ");
   }
 
   /**
@@ -237,7 +527,7 @@ export class MarkdownFormatter implements OutputFormatter {
 
     for (const constraint of constraints) {
       const name = constraint.name || "-";
-      const type = this.formatConstraintType(constraint.type);
+      const type = formatConstraintType(constraint.type);
       const definition = this.formatConstraintDefinition(constraint);
 
       lines.push(`| ${name} | ${type} | ${definition} |`);
@@ -248,23 +538,31 @@ export class MarkdownFormatter implements OutputFormatter {
 
   /**
    * Generate the indexes table
+   *
+   * The Definition column shows each index as a CREATE INDEX statement.
    */
-  private generateIndexesTable(indexes: IndexDefinition[]): string {
+  private generateIndexesTable(
+    indexes: IndexDefinition[],
+    table: TableDefinition,
+    databaseType: DatabaseType,
+  ): string {
     const lines: string[] = [];
+    const tableName = qualifyName(table.name, table.schema);
 
     lines.push("### Indexes");
     lines.push("");
 
-    lines.push("| Name | Columns | Unique | Type |");
-    lines.push("|------|---------|--------|------|");
+    lines.push("| Name | Columns | Unique | Type | Definition |");
+    lines.push("|------|---------|--------|------|------------|");
 
     for (const index of indexes) {
       const name = index.name || "-";
-      const columns = index.columns.join(", ");
+      const columns = index.columns.join(", ") || "-";
       const unique = index.unique ? "YES" : "NO";
-      const type = index.type || "-";
+      const type = index.kind?.toUpperCase() || index.type || "-";
+      const definition = this.escapeMarkdown(formatIndexDefinition(index, tableName, databaseType));
 
-      lines.push(`| ${name} | ${columns} | ${unique} | ${type} |`);
+      lines.push(`| ${name} | ${columns} | ${unique} | ${type} | \`${definition}\` |`);
     }
 
     return lines.join("\n");
@@ -272,35 +570,69 @@ export class MarkdownFormatter implements OutputFormatter {
 
   /**
    * Generate the relations table for a specific table
+   *
+   * Name and Filter columns are added when one of the relations has a name or a filter.
    */
-  private generateRelationsTable(relations: RelationDefinition[], tableName: string): string {
+  private generateRelationsTable(
+    relations: RelationDefinition[],
+    table: TableDefinition,
+    schema: IntermediateSchema,
+  ): string {
     const lines: string[] = [];
+    const tableName = qualifyName(table.name, table.schema);
 
     lines.push("### Relations");
     lines.push("");
 
-    lines.push("| Parent | Child | Type |");
-    lines.push("|--------|-------|------|");
+    const hasNames = relations.some((r) => r.name);
+    const hasFilters = relations.some((r) => r.where);
+    const headers = ["Parent", "Child", "Type"];
+    if (hasNames) {
+      headers.unshift("Name");
+    }
+    if (hasFilters) {
+      headers.push("Filter");
+    }
+    lines.push(`| ${headers.join(" | ")} |`);
+    lines.push(`|${headers.map((header) => "-".repeat(header.length + 2)).join("|")}|`);
 
     for (const relation of relations) {
       const isParent = relation.toTable === tableName;
       const parent = `${relation.toTable}.${relation.toColumns.join(", ")}`;
       const child = `${relation.fromTable}.${relation.fromColumns.join(", ")}`;
-      const type = this.formatRelationType(relation.type);
+      let type = formatRelationType(relation.type);
+      if (relation.through) {
+        const junction = this.options.useRelativeLinks
+          ? this.createTableLink(
+              relation.through.table,
+              undefined,
+              this.getLinkTargets(schema),
+              table.schema,
+            )
+          : relation.through.table;
+        type += ` (via ${junction})`;
+      }
 
       // Add links if enabled
       const parentLink = this.options.useRelativeLinks
-        ? this.createTableLink(relation.toTable, parent)
+        ? this.createTableLink(relation.toTable, parent, this.getLinkTargets(schema), table.schema)
         : parent;
       const childLink = this.options.useRelativeLinks
-        ? this.createTableLink(relation.fromTable, child)
+        ? this.createTableLink(relation.fromTable, child, this.getLinkTargets(schema), table.schema)
         : child;
 
       // Highlight the current table
       const parentDisplay = isParent ? `**${parentLink}**` : parentLink;
       const childDisplay = !isParent ? `**${childLink}**` : childLink;
 
-      lines.push(`| ${parentDisplay} | ${childDisplay} | ${type} |`);
+      const cells = [parentDisplay, childDisplay, type];
+      if (hasNames) {
+        cells.unshift(relation.name ? this.escapeMarkdown(relation.name) : "-");
+      }
+      if (hasFilters) {
+        cells.push(relation.where ? `\`${this.escapeMarkdown(relation.where)}\`` : "-");
+      }
+      lines.push(`| ${cells.join(" | ")} |`);
     }
 
     return lines.join("\n");
@@ -316,7 +648,7 @@ export class MarkdownFormatter implements OutputFormatter {
     lines.push("");
 
     for (const enumDef of enums) {
-      lines.push(`## ${enumDef.name}`);
+      lines.push(`## ${qualifyName(enumDef.name, enumDef.schema)}`);
       lines.push("");
       lines.push("| Value |");
       lines.push("|-------|");
@@ -329,6 +661,100 @@ export class MarkdownFormatter implements OutputFormatter {
     return lines.join("\n").trim();
   }
 
+  /**
+   * Generate documentation for sequences
+   */
+  private generateSequencesSection(sequences: SequenceDefinition[]): string {
+    const lines: string[] = [];
+
+    lines.push("# Sequences");
+    lines.push("");
+    lines.push("| Name | Start | Increment | Min | Max | Cache | Cycle |");
+    lines.push("|------|-------|-----------|-----|-----|-------|-------|");
+
+    for (const sequence of sequences) {
+      const cells = [
+        qualifyName(sequence.name, sequence.schema),
+        sequence.startWith ?? "-",
+        sequence.increment ?? "-",
+        sequence.minValue ?? "-",
+        sequence.maxValue ?? "-",
+        sequence.cache ?? "-",
+        sequence.cycle ? "YES" : "NO",
+      ];
+      lines.push(`| ${cells.join(" | ")} |`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate documentation for database roles
+   */
+  private generateRolesSection(roles: RoleDefinition[]): string {
+    const lines: string[] = [];
+
+    lines.push("# Roles");
+    lines.push("");
+    lines.push("| Name | Attributes | Managed |");
+    lines.push("|------|------------|---------|");
+
+    for (const role of roles) {
+      const attributes = formatRoleAttributes(role);
+      const managed = role.existing ? "Outside the schema" : "Schema";
+      lines.push(
+        `| ${this.escapeMarkdown(role.name)} | ${attributes.join(", ") || "-"} | ${managed} |`,
+      );
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Generate the row-level security status and policies of a table
+   */
+  private generateRowLevelSecuritySection(table: TableDefinition): string {
+    const lines: string[] = [];
+
+    lines.push("### Row Level Security");
+    lines.push("");
+    lines.push(
+      table.rlsEnabled
+        ? "Row level security is **enabled**."
+        : "Row level security is **disabled**, so these policies are not enforced.",
+    );
+
+    const policies = table.policies ?? [];
+    lines.push("");
+    if (policies.length === 0) {
+      lines.push("No policies defined.");
+      return lines.join("\n");
+    }
+
+    lines.push("| Name | Type | Command | Roles | Using | With Check |");
+    lines.push("|------|------|---------|-------|-------|------------|");
+    for (const policy of policies) {
+      const cells = [
+        this.escapeMarkdown(policy.name),
+        policy.as.toUpperCase(),
+        policy.command.toUpperCase(),
+        policy.roles.map((role) => this.escapeMarkdown(role)).join(", "),
+        this.formatPolicyCondition(policy.using),
+        this.formatPolicyCondition(policy.withCheck),
+      ];
+      lines.push(`| ${cells.join(" | ")} |`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format a USING or WITH CHECK condition of a policy
+   */
+  private formatPolicyCondition(condition: PolicyDefinition["using"]): string {
+    return condition !== undefined ? `\`${this.escapeMarkdown(condition)}\`` : "-";
+  }
+
   /**
    * Get all relations involving a specific table
    */
@@ -341,6 +767,8 @@ export class MarkdownFormatter implements OutputFormatter {
 
   /**
    * Get child relations for a specific column (where this column is referenced)
+   *
+   * Many-to-many relations are left out; the junction table holds the references.
    */
   private getChildRelations(
     tableName: string,
@@ -348,7 +776,7 @@ export class MarkdownFormatter implements OutputFormatter {
     relations: RelationDefinition[],
   ): Array<{ table: string; column: string }> {
     return relations
-      .filter((r) => r.toTable === tableName && r.toColumns.includes(columnName))
+      .filter((r) => !r.through && r.toTable === tableName && r.toColumns.includes(columnName))
       .map((r) => ({
         table: r.fromTable,
         column: r.fromColumns.join(", "),
@@ -357,6 +785,8 @@ export class MarkdownFormatter implements OutputFormatter {
 
   /**
    * Get parent relations for a specific column (columns this column references)
+   *
+   * Many-to-many relations are left out; the junction table holds the references.
    */
   private getParentRelations(
     tableName: string,
@@ -364,7 +794,7 @@ export class MarkdownFormatter implements OutputFormatter {
     relations: RelationDefinition[],
   ): Array<{ table: string; column: string }> {
     return relations
-      .filter((r) => r.fromTable === tableName && r.fromColumns.includes(columnName))
+      .filter((r) => !r.through && r.fromTable === tableName && r.fromColumns.includes(columnName))
       .map((r) => ({
         table: r.toTable,
         column: r.toColumns.join(", "),
@@ -373,28 +803,21 @@ export class MarkdownFormatter implements OutputFormatter {
 
   /**
    * Format relation links for display in columns table
+   *
+   * Relations on the same columns (e.g., with different filters) are listed once.
    */
-  private formatRelationLinks(relations: Array<{ table: string; column: string }>): string {
-    return relations
-      .map((r) => {
-        const text = `${r.table}.${r.column}`;
-        return this.options.useRelativeLinks ? this.createTableLink(r.table, text) : text;
-      })
-      .join(", ");
-  }
-
-  /**
-   * Format constraint type for display
-   */
-  private formatConstraintType(type: ConstraintDefinition["type"]): string {
-    const typeMap: Record<ConstraintDefinition["type"], string> = {
-      primary_key: "PRIMARY KEY",
-      foreign_key: "FOREIGN KEY",
-      unique: "UNIQUE",
-      check: "CHECK",
-      not_null: "NOT NULL",
-    };
-    return typeMap[type] || type;
+  private formatRelationLinks(
+    relations: Array<{ table: string; column: string }>,
+    tables: LinkTarget[],
+    currentSchema: string | undefined,
+  ): string {
+    const links = relations.map((r) => {
+      const text = `${r.table}.${r.column}`;
+      return this.options.useRelativeLinks
+        ? this.createTableLink(r.table, text, tables, currentSchema)
+        : text;
+    });
+    return [...new Set(links)].join(", ");
   }
 
   /**
@@ -402,7 +825,7 @@ export class MarkdownFormatter implements OutputFormatter {
    */
   private formatConstraintDefinition(constraint: ConstraintDefinition): string {
     if (constraint.definition) {
-      return `\`${constraint.definition}\``;
+      return `\`${this.escapeMarkdown(constraint.definition)}\``;
     }
 
     const columns = constraint.columns.join(", ");
@@ -416,26 +839,70 @@ export class MarkdownFormatter implements OutputFormatter {
   }
 
   /**
-   * Format relation type for display
+   * Format view type for display
+   */
+  private formatViewType(view: ViewDefinition): string {
+    return view.materialized ? "MATERIALIZED VIEW" : "VIEW";
+  }
+
+  /**
+   * Get all tables and views that can be linked to
    */
-  private formatRelationType(type: RelationDefinition["type"]): string {
-    const typeMap: Record<RelationDefinition["type"], string> = {
-      "one-to-one": "One to One",
-      "one-to-many": "One to Many",
-      "many-to-one": "Many to One",
-      "many-to-many": "Many to Many",
-    };
-    return typeMap[type] || type;
+  private getLinkTargets(schema: IntermediateSchema): LinkTarget[] {
+    return [...schema.tables, ...(schema.views ?? [])];
   }
+
   /**
    * Create a table link based on the configured link format
+   *
+   * @param tableName - The (schema-qualified) name of the linked table
+   * @param displayText - Link text (defaults to the table name)
+   * @param tables - All tables and views, used to resolve the linked table's schema
+   * @param currentSchema - Schema of the page the link is written to (for relative file links)
    */
-  private createTableLink(tableName: string, displayText?: string): string {
+  private createTableLink(
+    tableName: string,
+    displayText: string | undefined,
+    tables: LinkTarget[],
+    currentSchema?: string,
+  ): string {
     const text = displayText || tableName;
     if (this.options.linkFormat === "file") {
-      return `[${text}](./${tableName}.md)`;
+      return `[${text}](${this.getRelativeTablePath(tableName, tables, currentSchema)})`;
     }
-    return `[${text}](#${tableName})`;
+    return `[${text}](#${this.toAnchor(tableName)})`;
+  }
+
+  /**
+   * Get the relative path from a page in `currentSchema` to a table's page
+   *
+   * Tables in a named schema live in a subdirectory named after the schema.
+   */
+  private getRelativeTablePath(
+    tableName: string,
+    tables: LinkTarget[],
+    currentSchema: string | undefined,
+  ): string {
+    const target = tables.find((t) => qualifyName(t.name, t.schema) === tableName);
+    const targetName = target?.name ?? tableName;
+    const targetSchema = target?.schema;
+
+    if (targetSchema === currentSchema) {
+      return `./${targetName}.md`;
+    }
+    const base = currentSchema ? ".." : ".";
+    return targetSchema ? `${base}/${targetSchema}/${targetName}.md` : `${base}/${targetName}.md`;
+  }
+
+  /**
+   * Convert a heading text to its GitHub-style anchor
+   * (e.g., "billing.invoices" -> "billinginvoices")
+   */
+  private toAnchor(heading: string): string {
+    return heading
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}_\- ]/gu, "")
+      .replace(/ /g, "-");
   }
 
   /**
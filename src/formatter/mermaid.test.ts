@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { MermaidErDiagramFormatter } from "./mermaid";
-import type { IntermediateSchema } from "../types";
+import type { IntermediateSchema, TableDefinition } from "../types";
 
 describe("MermaidErDiagramFormatter", () => {
   describe("format", () => {
@@ -213,8 +213,8 @@ describe("MermaidErDiagramFormatter", () => {
       const formatter = new MermaidErDiagramFormatter();
       const mermaid = formatter.format(schema);
 
-      // Special characters should be replaced with underscores
-      expect(mermaid).toContain("user_accounts {");
+      // Special characters should be replaced with underscores, keeping the name as the label
+      expect(mermaid).toContain('user_accounts["user-accounts"] {');
       expect(mermaid).toContain("user_id");
     });
   });
@@ -1020,6 +1020,95 @@ describe("MermaidErDiagramFormatter", () => {
     });
   });
 
+  describe("junction tables", () => {
+    const idColumn = {
+      name: "id",
+      type: "serial",
+      nullable: false,
+      primaryKey: true,
+      unique: false,
+    };
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [
+        { name: "posts", columns: [idColumn], indexes: [], constraints: [] },
+        { name: "tags", columns: [idColumn], indexes: [], constraints: [] },
+        {
+          name: "post_tags",
+          columns: [
+            { name: "post_id", type: "integer", nullable: false, primaryKey: true, unique: false },
+            { name: "tag_id", type: "integer", nullable: false, primaryKey: true, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+      ],
+      relations: [
+        {
+          fromTable: "post_tags",
+          fromColumns: ["post_id"],
+          toTable: "posts",
+          toColumns: ["id"],
+          type: "many-to-one",
+        },
+        {
+          fromTable: "post_tags",
+          fromColumns: ["tag_id"],
+          toTable: "tags",
+          toColumns: ["id"],
+          type: "many-to-one",
+        },
+        {
+          fromTable: "posts",
+          fromColumns: ["id"],
+          toTable: "tags",
+          toColumns: ["id"],
+          type: "many-to-many",
+          through: { table: "post_tags", fromColumns: ["post_id"], toColumns: ["tag_id"] },
+        },
+      ],
+      enums: [],
+    };
+
+    it("should draw the junction table instead of the many-to-many relation by default", () => {
+      const formatter = new MermaidErDiagramFormatter();
+      const mermaid = formatter.format(schema);
+
+      expect(mermaid).toContain('post_tags }o--|| posts : "post_id"');
+      expect(mermaid).toContain('post_tags }o--|| tags : "tag_id"');
+      expect(mermaid).toContain("post_tags {");
+      expect(mermaid).not.toContain("}o--o{");
+    });
+
+    it("should draw the junction table references of relations without foreign keys", () => {
+      const formatter = new MermaidErDiagramFormatter();
+      const mermaid = formatter.format({ ...schema, relations: [schema.relations[2]!] });
+
+      expect(mermaid).toContain('post_tags }o--|| posts : "post_id"');
+      expect(mermaid).toContain('post_tags }o--|| tags : "tag_id"');
+    });
+
+    it("should hide junction tables when hideJunctionTables is true", () => {
+      const formatter = new MermaidErDiagramFormatter({ hideJunctionTables: true });
+      const mermaid = formatter.format(schema);
+
+      expect(mermaid).toContain('posts }o--o{ tags : "post_tags"');
+      expect(mermaid).not.toContain("post_tags {");
+      expect(mermaid).not.toContain("post_tags }o--||");
+      expect(mermaid).not.toContain("id PK,FK");
+    });
+
+    it("should keep the focused junction table when hideJunctionTables is true", () => {
+      const formatter = new MermaidErDiagramFormatter({ hideJunctionTables: true });
+
+      expect(formatter.formatFocused(schema, "posts")).toContain('posts }o--o{ tags : "post_tags"');
+      const focused = formatter.formatFocused(schema, "post_tags");
+      expect(focused).toContain("post_tags {");
+      expect(focused).toContain('post_tags }o--|| posts : "post_id"');
+      expect(focused).not.toContain("}o--o{");
+    });
+  });
+
   describe("formatter options", () => {
     it("should exclude comments when includeComments is false", () => {
       const schema: IntermediateSchema = {
@@ -1052,6 +1141,127 @@ describe("MermaidErDiagramFormatter", () => {
       expect(mermaid).not.toContain('"');
     });
 
+    it("should suffix column comments with deprecations and tags", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "email",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                comment: "Login email",
+                deprecated: "Use login instead",
+                tags: ["pii"],
+                customTags: [{ name: "since", text: "2.0" }],
+              },
+              {
+                name: "nickname",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                comment: "Display name",
+                tags: ["pii"],
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const mermaid = new MermaidErDiagramFormatter().format(schema);
+      const withoutComments = new MermaidErDiagramFormatter({ includeComments: false }).format(
+        schema,
+      );
+
+      expect(mermaid).toContain('text email "Login email [DEPRECATED, pii, @since 2.0]"');
+      expect(mermaid).toContain('text nickname "Display name [pii]"');
+      expect(withoutComments).toContain('text nickname "[pii]"');
+    });
+
+    it("should mark generated and identity columns", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "id",
+                type: "integer",
+                nullable: false,
+                primaryKey: true,
+                unique: false,
+                identity: { type: "always", startWith: "1000" },
+              },
+              {
+                name: "email",
+                type: "text",
+                nullable: false,
+                primaryKey: false,
+                unique: false,
+                comment: "Login email",
+              },
+              {
+                name: "email_domain",
+                type: "text",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                generated: { expression: "split_part(email, '@', 2)", mode: "stored" },
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const mermaid = new MermaidErDiagramFormatter().format(schema);
+
+      expect(mermaid).toContain('int id PK "[IDENTITY]"');
+      expect(mermaid).toContain('text email_domain "[GENERATED STORED]"');
+    });
+
+    it("should mark columns updated on write", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "mysql",
+        tables: [
+          {
+            name: "users",
+            columns: [
+              {
+                name: "updated_at",
+                type: "timestamp",
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+                onUpdate: "CURRENT_TIMESTAMP",
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const mermaid = new MermaidErDiagramFormatter().format(schema);
+
+      expect(mermaid).toContain('timestamp updated_at "[ON UPDATE]"');
+    });
+
     it("should exclude column types when includeColumnTypes is false", () => {
       const schema: IntermediateSchema = {
         databaseType: "postgresql",
@@ -1310,6 +1520,45 @@ describe("MermaidErDiagramFormatter", () => {
       expect.soft(mermaid).toContain("udouble double_val");
       expect.soft(mermaid).not.toContain(" unsigned");
     });
+
+    it("should keep array brackets and use configured display names", () => {
+      const schema: IntermediateSchema = {
+        databaseType: "postgresql",
+        tables: [
+          {
+            name: "posts",
+            columns: [
+              {
+                name: "tags",
+                type: "text[]",
+                dataType: { base: "text", arrayDimensions: 1 },
+                nullable: true,
+                primaryKey: false,
+                unique: false,
+              },
+              {
+                name: "uuid",
+                type: "varchar(36)",
+                nullable: false,
+                primaryKey: true,
+                unique: false,
+              },
+            ],
+            indexes: [],
+            constraints: [],
+          },
+        ],
+        relations: [],
+        enums: [],
+      };
+
+      const mermaid = new MermaidErDiagramFormatter({
+        typeNames: { "varchar(36)": "uuid string" },
+      }).format(schema);
+
+      expect.soft(mermaid).toContain("text[] tags");
+      expect.soft(mermaid).toContain("uuid_string uuid PK");
+    });
   });
 
   describe("includeColumns option", () => {
@@ -1558,6 +1807,134 @@ describe("MermaidErDiagramFormatter", () => {
     });
   });
 
+  describe("database schemas", () => {
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [
+        {
+          name: "users",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+        {
+          name: "invoices",
+          schema: "billing",
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+            { name: "user_id", type: "integer", nullable: true, primaryKey: false, unique: false },
+          ],
+          indexes: [],
+          constraints: [],
+        },
+      ],
+      relations: [
+        {
+          fromTable: "billing.invoices",
+          fromColumns: ["user_id"],
+          toTable: "users",
+          toColumns: ["id"],
+          type: "many-to-one",
+        },
+      ],
+      enums: [],
+    };
+
+    it("should use schema-qualified entity names", () => {
+      const formatter = new MermaidErDiagramFormatter();
+      const mermaid = formatter.format(schema);
+
+      expect(mermaid).toContain('billing_invoices }o--o| users : "user_id"');
+      expect(mermaid).toContain('    billing_invoices["billing.invoices"] {');
+      expect(mermaid).toContain("int user_id FK");
+    });
+
+    it("should focus on a table by its qualified name", () => {
+      const formatter = new MermaidErDiagramFormatter();
+      const mermaid = formatter.formatFocused(schema, "billing.invoices");
+
+      expect(mermaid).toContain('    billing_invoices["billing.invoices"] {');
+      expect(mermaid).toContain("    users {");
+    });
+
+    it("should keep qualified names apart from tables with the escaped name", () => {
+      const billingInvoices: TableDefinition = {
+        name: "billing_invoices",
+        columns: [
+          { name: "id", type: "serial", nullable: false, primaryKey: true, unique: false },
+          { name: "user_id", type: "integer", nullable: false, primaryKey: false, unique: false },
+        ],
+        indexes: [],
+        constraints: [],
+      };
+      const formatter = new MermaidErDiagramFormatter();
+      const mermaid = formatter.format({
+        ...schema,
+        tables: [...schema.tables, billingInvoices],
+        relations: [
+          ...schema.relations,
+          {
+            fromTable: "billing_invoices",
+            fromColumns: ["user_id"],
+            toTable: "users",
+            toColumns: ["id"],
+            type: "many-to-one",
+          },
+        ],
+      });
+
+      expect(mermaid).toContain('billing_invoices_2 }o--o| users : "user_id"');
+      expect(mermaid).toContain('billing_invoices }o--|| users : "user_id"');
+      expect(mermaid).toContain('    billing_invoices_2["billing.invoices"] {');
+      expect(mermaid).toContain("    billing_invoices {");
+    });
+  });
+
+  describe("views", () => {
+    const schema: IntermediateSchema = {
+      databaseType: "postgresql",
+      tables: [],
+      views: [
+        {
+          name: "active_users",
+          schema: "reporting",
+          materialized: false,
+          columns: [
+            { name: "id", type: "serial", nullable: false, primaryKey: false, unique: false },
+          ],
+        },
+        {
+          name: "user_counts",
+          materialized: true,
+          columns: [
+            { name: "total", type: "integer", nullable: true, primaryKey: false, unique: false },
+          ],
+        },
+      ],
+      relations: [],
+      enums: [],
+    };
+
+    it("should draw views as labelled entities", () => {
+      const formatter = new MermaidErDiagramFormatter();
+      const mermaid = formatter.format(schema);
+
+      expect(mermaid).toContain('    reporting_active_users["reporting.active_users (view)"] {');
+      expect(mermaid).toContain("        serial id");
+      expect(mermaid).toContain('    user_counts["user_counts (materialized view)"] {');
+    });
+
+    it("should draw views without columns when columns are excluded", () => {
+      const formatter = new MermaidErDiagramFormatter({ includeColumns: false });
+      const mermaid = formatter.format(schema);
+
+      expect(mermaid).toContain('    user_counts["user_counts (materialized view)"]');
+      expect(mermaid).not.toContain("{");
+    });
+  });
+
   describe("OutputFormatter interface", () => {
     it("should implement OutputFormatter interface", () => {
       const formatter = new MermaidErDiagramFormatter();
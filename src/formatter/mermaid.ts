@@ -3,8 +3,12 @@ import type {
   TableDefinition,
   ColumnDefinition,
   RelationDefinition,
+  ViewDefinition,
 } from "../types";
 import type { OutputFormatter, FormatterOptions } from "./types";
+import { getDataType, getTypeDisplayName } from "../utils/data-type";
+import { expandJunctionRelations, getJunctionTables } from "../utils/junction";
+import { qualifyName } from "../utils/table-name";
 
 /**
  * Options for MermaidErDiagramFormatter
@@ -21,8 +25,20 @@ export interface MermaidFormatterOptions extends FormatterOptions {
    * @default true
    */
   includeColumns: boolean;
+
+  /**
+   * Whether to hide junction tables and draw their many-to-many relations as a
+   * single edge labelled with the junction table name
+   * @default false
+   */
+  hideJunctionTables: boolean;
 }
 
+/**
+ * Names Mermaid accepts as entity IDs without escaping
+ */
+const MERMAID_ID_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
 /**
  * Default formatter options
  */
@@ -30,8 +46,10 @@ const DEFAULT_OPTIONS: Required<MermaidFormatterOptions> = {
   includeComments: true,
   includeIndexes: true,
   includeConstraints: true,
+  typeNames: {},
   includeColumnTypes: true,
   includeColumns: true,
+  hideJunctionTables: false,
 };
 
 /**
@@ -39,6 +57,7 @@ const DEFAULT_OPTIONS: Required<MermaidFormatterOptions> = {
  *
  * This formatter creates Mermaid-compatible ER diagrams that can be rendered
  * in GitHub, GitLab, or any Mermaid-supporting platform.
+ * Views are drawn as entities labelled "(view)" or "(materialized view)".
  *
  * @example
  * ```typescript
@@ -61,7 +80,8 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
   /**
    * Create a new MermaidErDiagramFormatter
    *
-   * @param options - Formatter options (all fields are optional and default to true)
+   * @param options - Formatter options (all fields are optional; hideJunctionTables defaults
+   *   to false, the others to true)
    */
   constructor(options: Partial<MermaidFormatterOptions> = {}) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -75,29 +95,38 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
    */
   format(schema: IntermediateSchema): string {
     const lines: string[] = ["erDiagram"];
+    const { tables, relations } = this.getDiagramContents(schema);
+    const entityIds = this.getEntityIds(schema);
 
     // Collect foreign key columns for FK markers
-    const fkColumns = this.collectForeignKeyColumns(schema.relations);
+    const fkColumns = this.collectForeignKeyColumns(relations);
 
     // Generate relations first (at the top of the diagram)
-    for (const relation of schema.relations) {
-      const relationLine = this.formatRelation(relation, schema.tables);
+    for (const relation of relations) {
+      const relationLine = this.formatRelation(relation, tables, entityIds);
       if (relationLine) {
         lines.push(`    ${relationLine}`);
       }
     }
 
+    const views = schema.views ?? [];
+
     // Add blank line between relations and tables if there are both
-    if (schema.relations.length > 0 && schema.tables.length > 0) {
+    if (relations.length > 0 && (tables.length > 0 || views.length > 0)) {
       lines.push("");
     }
 
     // Generate tables
-    for (const table of schema.tables) {
-      const tableLines = this.formatTable(table, fkColumns);
+    for (const table of tables) {
+      const tableLines = this.formatTable(table, fkColumns, entityIds);
       lines.push(...tableLines);
     }
 
+    // Generate views
+    for (const view of views) {
+      lines.push(...this.formatView(view, entityIds));
+    }
+
     return lines.join("\n");
   }
 
@@ -105,12 +134,12 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
    * Format a focused ER diagram showing only a specific table and its related tables
    *
    * @param schema - The intermediate schema
-   * @param tableName - The name of the table to focus on
+   * @param tableName - The name of the table to focus on (schema-qualified for tables in a schema)
    * @returns Mermaid ER diagram string showing only the focused table and its relations
    */
   formatFocused(schema: IntermediateSchema, tableName: string): string {
     // Find the target table
-    const targetTable = schema.tables.find((t) => t.name === tableName);
+    const targetTable = schema.tables.find((t) => qualifyName(t.name, t.schema) === tableName);
     if (!targetTable) {
       return "erDiagram";
     }
@@ -118,8 +147,9 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
     // Find related tables through relations
     const relatedTableNames = new Set<string>([tableName]);
     const relevantRelations: RelationDefinition[] = [];
+    const { tables, relations } = this.getDiagramContents(schema, tableName);
 
-    for (const relation of schema.relations) {
+    for (const relation of relations) {
       if (relation.fromTable === tableName || relation.toTable === tableName) {
         relatedTableNames.add(relation.fromTable);
         relatedTableNames.add(relation.toTable);
@@ -128,16 +158,19 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
     }
 
     // Filter tables to only include related ones
-    const relevantTables = schema.tables.filter((t) => relatedTableNames.has(t.name));
+    const relevantTables = tables.filter((t) =>
+      relatedTableNames.has(qualifyName(t.name, t.schema)),
+    );
 
     // Collect foreign key columns for FK markers
     const fkColumns = this.collectForeignKeyColumns(relevantRelations);
+    const entityIds = this.getEntityIds(schema);
 
     const lines: string[] = ["erDiagram"];
 
     // Generate relations
     for (const relation of relevantRelations) {
-      const relationLine = this.formatRelation(relation, relevantTables);
+      const relationLine = this.formatRelation(relation, relevantTables, entityIds);
       if (relationLine) {
         lines.push(`    ${relationLine}`);
       }
@@ -150,13 +183,89 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
 
     // Generate tables
     for (const table of relevantTables) {
-      const tableLines = this.formatTable(table, fkColumns);
+      const tableLines = this.formatTable(table, fkColumns, entityIds);
       lines.push(...tableLines);
     }
 
     return lines.join("\n");
   }
 
+  /**
+   * Get the tables and relations to draw
+   *
+   * Junction tables are either drawn with their references, or hidden together with
+   * their references so that many-to-many relations become a single edge.
+   *
+   * @param schema - The intermediate schema
+   * @param focusedTable - Table of a focused diagram, which is never hidden
+   */
+  private getDiagramContents(
+    schema: IntermediateSchema,
+    focusedTable?: string,
+  ): { tables: TableDefinition[]; relations: RelationDefinition[] } {
+    if (!this.options.hideJunctionTables) {
+      return { tables: schema.tables, relations: expandJunctionRelations(schema.relations) };
+    }
+
+    const junctionTables = getJunctionTables(schema.relations);
+    if (focusedTable) {
+      junctionTables.delete(focusedTable);
+    }
+
+    return {
+      tables: schema.tables.filter((t) => !junctionTables.has(qualifyName(t.name, t.schema))),
+      relations: schema.relations.filter(
+        (r) => !junctionTables.has(r.fromTable) && !junctionTables.has(r.toTable),
+      ),
+    };
+  }
+
+  /**
+   * Assign each table and view a unique Mermaid entity ID
+   *
+   * Names that are valid IDs are used as-is. Other names (e.g., "billing.invoices")
+   * have their special characters replaced with underscores and get a numeric suffix
+   * when that would collide with another entity (e.g., a "billing_invoices" table).
+   *
+   * @param schema - The intermediate schema
+   * @returns Entity IDs keyed by schema-qualified name
+   */
+  private getEntityIds(schema: IntermediateSchema): Map<string, string> {
+    const names = [...schema.tables, ...(schema.views ?? [])].map((entity) =>
+      qualifyName(entity.name, entity.schema),
+    );
+    const entityIds = new Map<string, string>();
+    const usedIds = new Set<string>();
+
+    for (const name of names) {
+      if (MERMAID_ID_PATTERN.test(name)) {
+        entityIds.set(name, name);
+        usedIds.add(name);
+      }
+    }
+    for (const name of names) {
+      if (entityIds.has(name)) {
+        continue;
+      }
+      const baseId = this.escapeName(name);
+      let id = baseId;
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `${baseId}_${suffix}`;
+      }
+      entityIds.set(name, id);
+      usedIds.add(id);
+    }
+
+    return entityIds;
+  }
+
+  /**
+   * Get the Mermaid entity ID of a table or view
+   */
+  private getEntityId(name: string, entityIds: Map<string, string>): string {
+    return entityIds.get(name) ?? this.escapeName(name);
+  }
+
   /**
    * Collect foreign key columns from relations for FK marker assignment
    */
@@ -164,6 +273,11 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
     const fkColumns = new Map<string, Set<string>>();
 
     for (const relation of relations) {
+      // Many-to-many relations have their FK columns in the junction table
+      if (relation.type === "many-to-many") {
+        continue;
+      }
+
       // The "from" side of the relation has the FK column
       if (!fkColumns.has(relation.fromTable)) {
         fkColumns.set(relation.fromTable, new Set());
@@ -183,7 +297,7 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
    */
   private isForeignKeyNullable(relation: RelationDefinition, tables: TableDefinition[]): boolean {
     // Find the table that contains the foreign key columns
-    const fromTable = tables.find((t) => t.name === relation.fromTable);
+    const fromTable = tables.find((t) => qualifyName(t.name, t.schema) === relation.fromTable);
     if (!fromTable) {
       return false;
     }
@@ -197,10 +311,19 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
 
   /**
    * Format a table definition to Mermaid syntax
+   *
+   * Tables whose entity ID differs from their name are labelled with the name.
    */
-  private formatTable(table: TableDefinition, fkColumns: Map<string, Set<string>>): string[] {
+  private formatTable(
+    table: TableDefinition,
+    fkColumns: Map<string, Set<string>>,
+    entityIds: Map<string, string>,
+  ): string[] {
     const lines: string[] = [];
-    const tableName = this.escapeName(table.name);
+    const qualifiedName = qualifyName(table.name, table.schema);
+    const entityId = this.getEntityId(qualifiedName, entityIds);
+    const tableName =
+      entityId === qualifiedName ? entityId : `${entityId}["${this.escapeString(qualifiedName)}"]`;
 
     // If columns are not included, return table name only (without braces)
     if (!this.options.includeColumns) {
@@ -208,7 +331,7 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
       return lines;
     }
 
-    const tableFkColumns = fkColumns.get(table.name) || new Set();
+    const tableFkColumns = fkColumns.get(qualifiedName) || new Set();
 
     lines.push(`    ${tableName} {`);
 
@@ -222,6 +345,31 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
     return lines;
   }
 
+  /**
+   * Format a view definition to Mermaid syntax
+   *
+   * Views use an entity alias so the label shows they are not tables.
+   */
+  private formatView(view: ViewDefinition, entityIds: Map<string, string>): string[] {
+    const lines: string[] = [];
+    const qualifiedName = qualifyName(view.name, view.schema);
+    const kind = view.materialized ? "materialized view" : "view";
+    const entity = `${this.getEntityId(qualifiedName, entityIds)}["${this.escapeString(qualifiedName)} (${kind})"]`;
+
+    if (!this.options.includeColumns) {
+      lines.push(`    ${entity}`);
+      return lines;
+    }
+
+    lines.push(`    ${entity} {`);
+    for (const column of view.columns) {
+      lines.push(`        ${this.formatColumn(column, new Set())}`);
+    }
+    lines.push("    }");
+
+    return lines;
+  }
+
   /**
    * Format a column definition to Mermaid syntax
    */
@@ -230,7 +378,7 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
 
     // Column type (simplified for Mermaid)
     if (this.options.includeColumnTypes) {
-      parts.push(this.simplifyType(column.type));
+      parts.push(this.simplifyType(column));
     }
 
     // Column name
@@ -253,21 +401,51 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
     }
 
     // Add comment as Mermaid comment (quoted string after markers)
-    if (this.options.includeComments && column.comment) {
-      parts.push(`"${this.escapeString(column.comment)}"`);
+    const comment = this.formatComment(column);
+    if (comment) {
+      parts.push(`"${this.escapeString(comment)}"`);
     }
 
     return parts.join(" ");
   }
 
+  /**
+   * Format the comment of a column, suffixed with its generation, ON UPDATE, deprecation and tags
+   * (e.g., "Login email [GENERATED STORED, DEPRECATED, pii, @since 2.0]")
+   */
+  private formatComment(column: ColumnDefinition): string | undefined {
+    const comment = this.options.includeComments ? column.comment : undefined;
+    const suffix = [
+      ...(column.generated ? [`GENERATED ${column.generated.mode.toUpperCase()}`] : []),
+      ...(column.identity ? ["IDENTITY"] : []),
+      ...(column.onUpdate ? ["ON UPDATE"] : []),
+      ...(column.deprecated !== undefined ? ["DEPRECATED"] : []),
+      ...(column.tags ?? []),
+      ...(column.customTags ?? []).map((tag) =>
+        tag.text ? `@${tag.name} ${tag.text}` : `@${tag.name}`,
+      ),
+    ];
+    if (suffix.length === 0) {
+      return comment;
+    }
+    return comment ? `${comment} [${suffix.join(", ")}]` : `[${suffix.join(", ")}]`;
+  }
+
   /**
    * Simplify SQL type for Mermaid display
    *
-   * Mermaid ER diagrams work best with simple type names
+   * Mermaid ER diagrams work best with simple type names, so type arguments are left out
+   * (e.g., varchar(255) -> varchar). Configured display names are used as they are,
+   * with characters Mermaid does not accept in types replaced by underscores.
    */
-  private simplifyType(type: string): string {
-    // Remove parentheses content for cleaner display (e.g., varchar(255) -> varchar)
-    const simplified = type.replace(/\([^)]*\)/g, "").toLowerCase();
+  private simplifyType(column: ColumnDefinition): string {
+    const displayName = getTypeDisplayName(column, this.options.typeNames);
+    if (displayName) {
+      return displayName.replace(/[^\w\-[\]()]/g, "_");
+    }
+    const dataType = getDataType(column);
+    const arrays = "[]".repeat(dataType.arrayDimensions ?? 0);
+    const simplified = `${dataType.base}${dataType.unsigned ? " unsigned" : ""}`.toLowerCase();
 
     // Map common types to shorter versions
     const typeMap: Record<string, string> = {
@@ -311,7 +489,7 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
       "double unsigned": "udouble",
     };
 
-    return typeMap[simplified] || simplified;
+    return `${typeMap[simplified] || simplified}${arrays}`;
   }
 
   /**
@@ -325,14 +503,18 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
    * - }o--o| : many-to-one, but source is optional
    * - }o--o{ : many-to-many
    */
-  private formatRelation(relation: RelationDefinition, tables: TableDefinition[]): string {
-    const fromTable = this.escapeName(relation.fromTable);
-    const toTable = this.escapeName(relation.toTable);
+  private formatRelation(
+    relation: RelationDefinition,
+    tables: TableDefinition[],
+    entityIds: Map<string, string>,
+  ): string {
+    const fromTable = this.getEntityId(relation.fromTable, entityIds);
+    const toTable = this.getEntityId(relation.toTable, entityIds);
 
     // Check if the foreign key columns are nullable
     const isForeignKeyNullable = this.isForeignKeyNullable(relation, tables);
     const symbol = this.getRelationSymbol(relation.type, isForeignKeyNullable);
-    const label = relation.fromColumns.join(", ");
+    const label = relation.through?.table ?? relation.fromColumns.join(", ");
 
     return `${fromTable} ${symbol} ${toTable} : "${label}"`;
   }
@@ -369,7 +551,7 @@ export class MermaidErDiagramFormatter implements OutputFormatter {
   private escapeName(name: string): string {
     // Mermaid accepts alphanumeric and underscores
     // For names with special characters, we need to quote them
-    if (/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+    if (MERMAID_ID_PATTERN.test(name)) {
       return name;
     }
     // Replace special characters with underscores for Mermaid compatibility
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatColumnAttributes,
+  formatGenerationClause,
+  formatIndexDefinition,
+  formatIndexParts,
+  formatPolicy,
+  formatRoleAttributes,
+  formatSequenceOptions,
+} from "./sql-clauses";
+import type { ColumnDefinition, IndexDefinition } from "../types";
+
+const baseColumn: ColumnDefinition = {
+  name: "id",
+  type: "integer",
+  nullable: false,
+  primaryKey: false,
+  unique: false,
+};
+
+describe("formatGenerationClause", () => {
+  it("should format generated columns with their mode", () => {
+    expect(
+      formatGenerationClause({
+        ...baseColumn,
+        generated: { expression: "lower(email)", mode: "virtual" },
+      }),
+    ).toBe("GENERATED ALWAYS AS (lower(email)) VIRTUAL");
+  });
+
+  it("should format identity columns with their sequence settings", () => {
+    expect(formatGenerationClause({ ...baseColumn, identity: { type: "by_default" } })).toBe(
+      "GENERATED BY DEFAULT AS IDENTITY",
+    );
+    expect(
+      formatGenerationClause({
+        ...baseColumn,
+        identity: { type: "always", sequenceName: "users_id_seq", startWith: "10", increment: "5" },
+      }),
+    ).toBe(
+      "GENERATED ALWAYS AS IDENTITY (SEQUENCE NAME users_id_seq INCREMENT BY 5 START WITH 10)",
+    );
+  });
+
+  it("should return undefined for regular columns", () => {
+    expect(formatGenerationClause(baseColumn)).toBeUndefined();
+  });
+});
+
+describe("formatColumnAttributes", () => {
+  it("should format the MySQL attributes that are set", () => {
+    expect(
+      formatColumnAttributes({
+        ...baseColumn,
+        charset: "utf8mb4",
+        collation: "utf8mb4_bin",
+        onUpdate: "CURRENT_TIMESTAMP(3)",
+      }),
+    ).toEqual(["CHARACTER SET utf8mb4", "COLLATE utf8mb4_bin", "ON UPDATE CURRENT_TIMESTAMP(3)"]);
+    expect(formatColumnAttributes(baseColumn)).toEqual([]);
+  });
+});
+
+describe("formatSequenceOptions", () => {
+  it("should format the options that are set", () => {
+    expect(
+      formatSequenceOptions({
+        cache: "3",
+        cycle: true,
+        maxValue: "9223372036854775807",
+        minValue: "1",
+        startWith: "1",
+        increment: "1",
+      }),
+    ).toEqual([
+      "INCREMENT BY 1",
+      "MINVALUE 1",
+      "MAXVALUE 9223372036854775807",
+      "START WITH 1",
+      "CACHE 3",
+      "CYCLE",
+    ]);
+    expect(formatSequenceOptions({ cycle: false })).toEqual([]);
+  });
+});
+
+describe("formatPolicy", () => {
+  it("should format the policy with its conditions", () => {
+    expect(
+      formatPolicy({
+        name: "owner_write",
+        as: "restrictive",
+        command: "update",
+        roles: ["admin", "current_user"],
+        using: "owner_id = current_user",
+        withCheck: "owner_id = current_user",
+      }),
+    ).toBe(
+      "owner_write AS RESTRICTIVE FOR UPDATE TO admin, current_user " +
+        "USING (owner_id = current_user) WITH CHECK (owner_id = current_user)",
+    );
+    expect(
+      formatPolicy({ name: "all_rows", as: "permissive", command: "all", roles: ["public"] }),
+    ).toBe("all_rows AS PERMISSIVE FOR ALL TO public");
+  });
+});
+
+describe("formatRoleAttributes", () => {
+  it("should list the attributes that differ from the defaults", () => {
+    expect(
+      formatRoleAttributes({ name: "admin", createDb: true, createRole: true, inherit: false }),
+    ).toEqual(["CREATEDB", "CREATEROLE", "NOINHERIT"]);
+    expect(formatRoleAttributes({ name: "reader", inherit: true })).toEqual([]);
+  });
+});
+
+describe("formatIndexParts", () => {
+  it("should format expressions, operator classes and ordering", () => {
+    expect(
+      formatIndexParts({
+        name: "posts_idx",
+        columns: ["title", "created_at"],
+        unique: false,
+        parts: [
+          { expression: "lower(slug)" },
+          { column: "title", opClass: "text_pattern_ops" },
+          { column: "created_at", order: "desc", nulls: "last" },
+        ],
+      }),
+    ).toEqual(["lower(slug)", "title text_pattern_ops", "created_at DESC NULLS LAST"]);
+  });
+
+  it("should fall back to the columns of plain indexes", () => {
+    expect(formatIndexParts({ name: "idx", columns: ["a", "b"], unique: false })).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+});
+
+describe("formatIndexDefinition", () => {
+  const partialIndex: IndexDefinition = {
+    name: "users_email_idx",
+    columns: ["email"],
+    unique: true,
+    type: "hash",
+    where: "deleted_at IS NULL",
+    concurrently: true,
+  };
+
+  it("should format PostgreSQL indexes with the method before the columns", () => {
+    expect(formatIndexDefinition(partialIndex, "auth.users", "postgresql")).toBe(
+      "CREATE UNIQUE INDEX CONCURRENTLY users_email_idx ON auth.users USING hash (email) " +
+        "WHERE (deleted_at IS NULL)",
+    );
+  });
+
+  it("should format MySQL indexes with their kind and the method after the columns", () => {
+    expect(
+      formatIndexDefinition(
+        { name: "posts_body_idx", columns: ["body"], unique: false, kind: "fulltext" },
+        "posts",
+        "mysql",
+      ),
+    ).toBe("CREATE FULLTEXT INDEX posts_body_idx ON posts (body)");
+    expect(
+      formatIndexDefinition(
+        { name: "users_id_idx", columns: ["id"], unique: true, type: "hash" },
+        "users",
+        "mysql",
+      ),
+    ).toBe("CREATE UNIQUE INDEX users_id_idx ON users (id) USING HASH");
+  });
+});
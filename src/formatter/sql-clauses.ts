@@ -0,0 +1,194 @@
+import type {
+  ColumnDefinition,
+  DatabaseType,
+  IndexDefinition,
+  PolicyDefinition,
+  RoleDefinition,
+  SequenceOptions,
+} from "../types";
+
+/**
+ * Format the generation clause of a generated or identity column as SQL
+ * (e.g., "GENERATED ALWAYS AS (lower(email)) STORED" or "GENERATED BY DEFAULT AS IDENTITY")
+ *
+ * @param column - The column to describe
+ * @returns The clause, or undefined for columns that are neither generated nor identity columns
+ */
+export function formatGenerationClause(column: ColumnDefinition): string | undefined {
+  if (column.generated) {
+    return `GENERATED ALWAYS AS (${column.generated.expression}) ${column.generated.mode.toUpperCase()}`;
+  }
+  if (column.identity) {
+    const { type, sequenceName, ...options } = column.identity;
+    const settings = [
+      ...(sequenceName ? [`SEQUENCE NAME ${sequenceName}`] : []),
+      ...formatSequenceOptions(options),
+    ];
+    const clause = `GENERATED ${type === "always" ? "ALWAYS" : "BY DEFAULT"} AS IDENTITY`;
+    return settings.length > 0 ? `${clause} (${settings.join(" ")})` : clause;
+  }
+  return undefined;
+}
+
+/**
+ * Format the column attributes that follow the type in a MySQL column definition
+ * (e.g., ["CHARACTER SET utf8mb4", "COLLATE utf8mb4_bin", "ON UPDATE CURRENT_TIMESTAMP"])
+ *
+ * @param column - The column to describe
+ * @returns The attributes that are set
+ */
+export function formatColumnAttributes(column: ColumnDefinition): string[] {
+  const attributes: string[] = [];
+  if (column.charset) {
+    attributes.push(`CHARACTER SET ${column.charset}`);
+  }
+  if (column.collation) {
+    attributes.push(`COLLATE ${column.collation}`);
+  }
+  if (column.onUpdate) {
+    attributes.push(`ON UPDATE ${column.onUpdate}`);
+  }
+  return attributes;
+}
+
+/**
+ * Format the options that are set as sequence clauses (e.g., ["START WITH 10", "CYCLE"])
+ *
+ * @param options - The sequence options
+ * @returns The clauses, in the order PostgreSQL documents them
+ */
+export function formatSequenceOptions(options: SequenceOptions): string[] {
+  const clauses: string[] = [];
+  if (options.increment !== undefined) {
+    clauses.push(`INCREMENT BY ${options.increment}`);
+  }
+  if (options.minValue !== undefined) {
+    clauses.push(`MINVALUE ${options.minValue}`);
+  }
+  if (options.maxValue !== undefined) {
+    clauses.push(`MAXVALUE ${options.maxValue}`);
+  }
+  if (options.startWith !== undefined) {
+    clauses.push(`START WITH ${options.startWith}`);
+  }
+  if (options.cache !== undefined) {
+    clauses.push(`CACHE ${options.cache}`);
+  }
+  if (options.cycle) {
+    clauses.push("CYCLE");
+  }
+  return clauses;
+}
+
+/**
+ * Format a row-level security policy as the clauses of a CREATE POLICY statement
+ * (e.g., "owner_read AS PERMISSIVE FOR SELECT TO public USING (owner_id = current_user)")
+ *
+ * @param policy - The policy to describe
+ * @returns The policy name followed by its clauses
+ */
+export function formatPolicy(policy: PolicyDefinition): string {
+  const clauses = [
+    policy.name,
+    `AS ${policy.as.toUpperCase()}`,
+    `FOR ${policy.command.toUpperCase()}`,
+    `TO ${policy.roles.join(", ")}`,
+  ];
+  if (policy.using !== undefined) {
+    clauses.push(`USING (${policy.using})`);
+  }
+  if (policy.withCheck !== undefined) {
+    clauses.push(`WITH CHECK (${policy.withCheck})`);
+  }
+  return clauses.join(" ");
+}
+
+/**
+ * Format the attributes of a role that differ from PostgreSQL's defaults
+ * (e.g., ["CREATEROLE", "NOINHERIT"])
+ *
+ * @param role - The role to describe
+ * @returns The attributes
+ */
+export function formatRoleAttributes(role: RoleDefinition): string[] {
+  const attributes: string[] = [];
+  if (role.createDb) {
+    attributes.push("CREATEDB");
+  }
+  if (role.createRole) {
+    attributes.push("CREATEROLE");
+  }
+  if (role.inherit === false) {
+    attributes.push("NOINHERIT");
+  }
+  return attributes;
+}
+
+/**
+ * Format the columns and expressions of an index as they appear in its parentheses
+ * (e.g., ["lower(email)", "created_at DESC NULLS LAST"])
+ *
+ * @param index - The index to describe
+ * @returns One entry per indexed column or expression
+ */
+export function formatIndexParts(index: IndexDefinition): string[] {
+  if (!index.parts) {
+    return index.columns;
+  }
+  return index.parts.map((part) => {
+    const clauses = [part.expression ?? part.column ?? ""];
+    if (part.opClass) {
+      clauses.push(part.opClass);
+    }
+    if (part.order) {
+      clauses.push(part.order.toUpperCase());
+    }
+    if (part.nulls) {
+      clauses.push(`NULLS ${part.nulls.toUpperCase()}`);
+    }
+    return clauses.join(" ");
+  });
+}
+
+/**
+ * Format an index as a CREATE INDEX statement in the dialect of the database
+ * (e.g., "CREATE UNIQUE INDEX users_email_idx ON users USING btree (email) WHERE (deleted_at IS NULL)")
+ *
+ * @param index - The index to describe
+ * @param tableName - Name of the indexed table
+ * @param databaseType - Database the index belongs to
+ * @returns The statement, without a trailing semicolon
+ */
+export function formatIndexDefinition(
+  index: IndexDefinition,
+  tableName: string,
+  databaseType: DatabaseType,
+): string {
+  const clauses = ["CREATE"];
+  if (index.kind) {
+    clauses.push(index.kind.toUpperCase());
+  } else if (index.unique) {
+    clauses.push("UNIQUE");
+  }
+  clauses.push("INDEX");
+  if (index.concurrently) {
+    clauses.push("CONCURRENTLY");
+  }
+  clauses.push(index.name, "ON", tableName);
+  const parts = `(${formatIndexParts(index).join(", ")})`;
+  if (databaseType === "mysql") {
+    clauses.push(parts);
+    if (index.type) {
+      clauses.push(`USING ${index.type.toUpperCase()}`);
+    }
+  } else {
+    if (index.type) {
+      clauses.push(`USING ${index.type}`);
+    }
+    clauses.push(parts);
+  }
+  if (index.where !== undefined) {
+    clauses.push(`WHERE (${index.where})`);
+  }
+  return clauses.join(" ");
+}
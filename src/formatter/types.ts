@@ -21,6 +21,13 @@ export interface FormatterOptions {
    * @default true
    */
   includeConstraints?: boolean;
+
+  /**
+   * Display names for SQL types in Markdown and Mermaid output, keyed by the full
+   * type (e.g., "varchar(255)") or the base type (e.g., "jsonb"); DBML and JSON keep SQL types
+   * @default {}
+   */
+  typeNames?: Record<string, string>;
 }
 
 /**
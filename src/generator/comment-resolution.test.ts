@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { int, mysqlTable, varchar } from "drizzle-orm/mysql-core";
+import {
+  DEFAULT_COMMENT_PRECEDENCE,
+  getRuntimeComment,
+  parseCommentPrecedence,
+  resolveComment,
+  resolveCommentMetadata,
+} from "./comment-resolution";
+
+describe("getRuntimeComment", () => {
+  it("should read the comment from the column builder config", () => {
+    const name = varchar("name", { length: 50 });
+    (name as unknown as { config: { comment?: string } }).config.comment = "Display name";
+    const users = mysqlTable("users", { id: int("id").primaryKey(), name });
+
+    expect(getRuntimeComment(users.name)).toBe("Display name");
+    expect(getRuntimeComment(users.id)).toBeUndefined();
+  });
+});
+
+describe("resolveComment", () => {
+  it("should prefer the external file, then JSDoc, then runtime comments by default", () => {
+    const candidates = { runtime: "runtime", jsdoc: "jsdoc", file: "file" };
+
+    expect(resolveComment(candidates, DEFAULT_COMMENT_PRECEDENCE)).toBe("file");
+    expect(resolveComment({ ...candidates, file: undefined }, DEFAULT_COMMENT_PRECEDENCE)).toBe(
+      "jsdoc",
+    );
+    expect(resolveComment({ runtime: "runtime" }, DEFAULT_COMMENT_PRECEDENCE)).toBe("runtime");
+  });
+
+  it("should ignore sources missing from the precedence", () => {
+    expect(resolveComment({ jsdoc: "jsdoc" }, ["runtime", "file"])).toBeUndefined();
+    expect(resolveComment({ jsdoc: "jsdoc", runtime: "runtime" }, ["runtime"])).toBe("runtime");
+  });
+});
+
+describe("resolveCommentMetadata", () => {
+  it("should pick each field from the first source that has it", () => {
+    const candidates = {
+      jsdoc: { tags: ["jsdoc"], deprecated: "" },
+      file: { tags: ["file"], owners: ["team"] },
+    };
+
+    expect(resolveCommentMetadata(candidates, DEFAULT_COMMENT_PRECEDENCE)).toEqual({
+      tags: ["file"],
+      owners: ["team"],
+      deprecated: "",
+    });
+    expect(resolveCommentMetadata(candidates, ["jsdoc"])).toEqual({
+      tags: ["jsdoc"],
+      deprecated: "",
+    });
+    expect(resolveCommentMetadata({}, DEFAULT_COMMENT_PRECEDENCE)).toEqual({});
+  });
+});
+
+describe("parseCommentPrecedence", () => {
+  it("should parse a comma-separated list", () => {
+    expect(parseCommentPrecedence("runtime, jsdoc")).toEqual(["runtime", "jsdoc"]);
+  });
+
+  it("should reject unknown, duplicate and missing sources", () => {
+    expect(() => parseCommentPrecedence("jsdoc,database")).toThrow(
+      "Unknown comment source: database",
+    );
+    expect(() => parseCommentPrecedence("jsdoc,jsdoc")).toThrow("Duplicate comment source: jsdoc");
+    expect(() => parseCommentPrecedence(" , ")).toThrow("must list at least one of");
+  });
+});
@@ -0,0 +1,128 @@
+import type { AnyColumn } from "drizzle-orm";
+import type { CommentSource, TableComment } from "../parser/comments";
+
+/**
+ * Documentation metadata resolved for a table, view or column
+ */
+export type ResolvedCommentMetadata = Omit<TableComment, "comment" | "columns">;
+
+/**
+ * Metadata fields, resolved independently of each other
+ */
+const METADATA_FIELDS = ["tags", "owners", "deprecated", "examples", "see", "customTags"] as const;
+
+/**
+ * All comment sources
+ */
+export const COMMENT_SOURCES: readonly CommentSource[] = ["runtime", "jsdoc", "file"];
+
+/**
+ * Default comment precedence: the external file overrides JSDoc, which overrides
+ * runtime column comments
+ */
+export const DEFAULT_COMMENT_PRECEDENCE: readonly CommentSource[] = ["file", "jsdoc", "runtime"];
+
+/**
+ * Get the comment attached to a column at runtime
+ *
+ * Reads the column's `comment` property, or the `comment` its builder config was
+ * given (where comment helpers and MySQL column comments store it).
+ *
+ * @param column - The Drizzle column
+ * @returns The comment, or undefined when the column has none
+ */
+export function getRuntimeComment(column: AnyColumn): string | undefined {
+  const { comment, config } = column as unknown as {
+    comment?: unknown;
+    config?: { comment?: unknown };
+  };
+  const value = comment ?? config?.comment;
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Pick the comment of the first source in precedence order that has one
+ *
+ * Sources missing from the precedence list are ignored.
+ *
+ * @param candidates - Comments found in each source
+ * @param precedence - Sources in order of preference
+ * @returns The resolved comment, or undefined when no listed source has one
+ */
+export function resolveComment(
+  candidates: Partial<Record<CommentSource, string | undefined>>,
+  precedence: readonly CommentSource[],
+): string | undefined {
+  for (const source of precedence) {
+    const comment = candidates[source];
+    if (comment) {
+      return comment;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pick each metadata field from the first source in precedence order that has it
+ *
+ * Sources missing from the precedence list are ignored. Fields no source has are
+ * left out of the result.
+ *
+ * @param candidates - Metadata found in each source
+ * @param precedence - Sources in order of preference
+ * @returns The resolved metadata
+ */
+export function resolveCommentMetadata(
+  candidates: Partial<Record<CommentSource, ResolvedCommentMetadata | undefined>>,
+  precedence: readonly CommentSource[],
+): ResolvedCommentMetadata {
+  const metadata: ResolvedCommentMetadata = {};
+  for (const field of METADATA_FIELDS) {
+    for (const source of precedence) {
+      const value = candidates[source]?.[field];
+      if (value !== undefined) {
+        Object.assign(metadata, { [field]: value });
+        break;
+      }
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Parse a comma-separated comment precedence (e.g., "runtime,jsdoc")
+ *
+ * @param value - Comma-separated source names
+ * @returns The sources in order
+ * @throws Error when a source is unknown, repeated, or the list is empty
+ */
+export function parseCommentPrecedence(value: string): CommentSource[] {
+  const sources = value
+    .split(",")
+    .map((source) => source.trim())
+    .filter((source) => source !== "");
+  validateCommentPrecedence(sources);
+  return sources;
+}
+
+/**
+ * Check that a comment precedence only lists known sources, each once
+ *
+ * @param sources - The precedence to check
+ * @throws Error when a source is unknown, repeated, or the list is empty
+ */
+export function validateCommentPrecedence(sources: unknown[]): asserts sources is CommentSource[] {
+  if (sources.length === 0) {
+    throw new Error(`Comment precedence must list at least one of ${COMMENT_SOURCES.join(", ")}`);
+  }
+  for (const [i, source] of sources.entries()) {
+    if (!COMMENT_SOURCES.includes(source as CommentSource)) {
+      throw new Error(
+        `Unknown comment source: ${String(source)} (expected ${COMMENT_SOURCES.join(", ")})`,
+      );
+    }
+    if (sources.indexOf(source) !== i) {
+      throw new Error(`Duplicate comment source: ${String(source)}`);
+    }
+  }
+}
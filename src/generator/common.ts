@@ -1,15 +1,40 @@
 import {
   type AnyColumn,
   type Table,
+  Column,
   getTableColumns,
   getTableName,
   is,
+  Name,
+  Param,
   Relation,
+  type SQL,
+  StringChunk,
 } from "drizzle-orm";
 import type { TableRelationalConfig } from "drizzle-orm/relations";
-import { PgTable, getTableConfig as getPgTableConfig } from "drizzle-orm/pg-core";
-import { MySqlTable, getTableConfig as getMySqlTableConfig } from "drizzle-orm/mysql-core";
-import { SQLiteTable, getTableConfig as getSqliteTableConfig } from "drizzle-orm/sqlite-core";
+import {
+  PgDialect,
+  PgMaterializedView,
+  PgTable,
+  PgView,
+  getMaterializedViewConfig as getPgMaterializedViewConfig,
+  getTableConfig as getPgTableConfig,
+  getViewConfig as getPgViewConfig,
+} from "drizzle-orm/pg-core";
+import {
+  MySqlDialect,
+  MySqlTable,
+  MySqlView,
+  getTableConfig as getMySqlTableConfig,
+  getViewConfig as getMySqlViewConfig,
+} from "drizzle-orm/mysql-core";
+import {
+  SQLiteSyncDialect,
+  SQLiteTable,
+  SQLiteView,
+  getTableConfig as getSqliteTableConfig,
+  getViewConfig as getSqliteViewConfig,
+} from "drizzle-orm/sqlite-core";
 import { writeFileSync, mkdirSync } from "node:fs";
 import { dirname, resolve } from "node:path";
 import { DbmlFormatter } from "../formatter/dbml";
@@ -20,24 +45,52 @@ import type {
   IntermediateSchema,
   TableDefinition,
   ColumnDefinition,
+  GeneratedColumnDefinition,
+  IdentityDefinition,
+  SequenceOptions,
   IndexDefinition,
+  IndexPart,
+  DataTypeDefinition,
   ConstraintDefinition,
   RelationDefinition,
   EnumDefinition,
+  ViewDefinition,
   DatabaseType,
   IntermediateRelationType,
 } from "../types";
-import { extractComments, type SchemaComments } from "../parser/comments";
+import {
+  extractComments,
+  type CommentSource,
+  type SchemaComments,
+  type TableComment,
+} from "../parser/comments";
+import {
+  DEFAULT_COMMENT_PRECEDENCE,
+  getRuntimeComment,
+  resolveComment,
+  resolveCommentMetadata,
+  type ResolvedCommentMetadata,
+} from "./comment-resolution";
 import { extractRelations, type SchemaRelations } from "../parser/relations";
 import { V0RelationAdapter } from "../adapter/v0-adapter";
 import { V1RelationAdapter } from "../adapter/v1-adapter";
 import type { UnifiedRelation } from "../adapter/types";
+import { getQualifiedTableName, qualifyName } from "../utils/table-name";
+import { parseDataType } from "../utils/data-type";
+import { formatSqlLiteral } from "../utils/sql-literal";
+import { getObjectDialect } from "../utils/dialect";
+import { reconcileRelations } from "./reconcile-relations";
+import { detectManyToManyRelations } from "./many-to-many";
 
 /**
  * Configuration for different database dialects
  */
 export interface DialectConfig {
   isIncrement: (column: AnyColumn) => boolean;
+  /** Values of an enum declared on the column itself (MySQL `mysqlEnum()`, SQLite `text({ enum })`) */
+  getInlineEnumValues?: (column: AnyColumn) => readonly string[] | undefined;
+  /** Drizzle mode of the column when it changes how values are mapped (e.g., "timestamp") */
+  getColumnMode?: (column: AnyColumn) => string | undefined;
 }
 
 /**
@@ -46,10 +99,29 @@ export interface DialectConfig {
 interface IndexConfig {
   config: {
     columns: Array<{ name: string }>;
+    /** Indexed columns and expressions, in index order */
+    parts: IndexPart[];
     name?: string;
     unique: boolean;
     using?: string;
+    where?: SqlChunks;
+    concurrently?: boolean;
+  };
+}
+
+/**
+ * A column or SQL expression as Drizzle stores it in an index config
+ *
+ * PostgreSQL columns carry their ordering and operator class in `indexConfig`.
+ */
+interface IndexedColumnConfig {
+  name?: string;
+  indexConfig?: {
+    order?: "asc" | "desc";
+    nulls?: "first" | "last";
+    opClass?: string;
   };
+  queryChunks?: unknown[];
 }
 
 /**
@@ -68,6 +140,74 @@ interface UniqueConstraintConfig {
   name?: string;
 }
 
+/**
+ * Configuration for a check constraint
+ */
+interface CheckConfig {
+  name: string;
+  value: SqlChunks;
+}
+
+/**
+ * A Drizzle SQL object, described by its query chunks
+ */
+interface SqlChunks {
+  queryChunks: unknown[];
+}
+
+/**
+ * Generation settings Drizzle stores on generated columns
+ */
+interface GeneratedColumnConfig {
+  as: unknown;
+  type: "always" | "byDefault";
+  mode?: "stored" | "virtual";
+}
+
+/**
+ * Identity settings Drizzle stores on PostgreSQL identity columns
+ */
+interface GeneratedIdentityConfig {
+  type: "always" | "byDefault";
+  sequenceName?: string;
+  sequenceOptions?: DrizzleSequenceOptions;
+}
+
+/**
+ * Sequence options as given to Drizzle (pgSequence() and identity columns)
+ */
+export interface DrizzleSequenceOptions {
+  increment?: number | string;
+  minValue?: number | string;
+  maxValue?: number | string;
+  startWith?: number | string;
+  cache?: number | string;
+  cycle?: boolean;
+}
+
+/**
+ * Convert Drizzle sequence options to their intermediate form, with numbers as strings
+ *
+ * @param options - The options given to Drizzle
+ * @returns The options that were set
+ */
+export function toSequenceOptions(options: DrizzleSequenceOptions | undefined): SequenceOptions {
+  const result: SequenceOptions = {};
+  if (!options) {
+    return result;
+  }
+  for (const key of ["increment", "minValue", "maxValue", "startWith", "cache"] as const) {
+    const value = options[key];
+    if (value !== undefined) {
+      result[key] = String(value);
+    }
+  }
+  if (options.cycle !== undefined) {
+    result.cycle = options.cycle;
+  }
+  return result;
+}
+
 /**
  * Configuration for a foreign key constraint
  */
@@ -90,6 +230,21 @@ export interface TableConfig {
   primaryKeys: PrimaryKeyConfig[];
   uniqueConstraints: UniqueConstraintConfig[];
   foreignKeys: ForeignKeyConfig[];
+  checks: CheckConfig[];
+  /** Schema name (e.g., "billing" for pgSchema("billing").table(...)) */
+  schema?: string;
+}
+
+/**
+ * View configuration extracted from Drizzle views
+ */
+export interface ViewConfig {
+  name: string;
+  schema?: string;
+  materialized: boolean;
+  selectedFields: Record<string, unknown>;
+  /** Defining SQL rendered with the view's dialect (undefined for .existing() views) */
+  definition?: string;
 }
 
 /**
@@ -101,9 +256,13 @@ export abstract class BaseGenerator<
   protected schema: TSchema;
   protected generatedRefs: GeneratedRef[] = [];
   protected comments: SchemaComments | undefined;
+  protected externalComments: SchemaComments | undefined;
+  protected commentPrecedence: readonly CommentSource[];
   protected parsedRelations: SchemaRelations | undefined;
   protected source: string | undefined;
+  protected onWarning: (message: string) => void;
   protected abstract dialectConfig: DialectConfig;
+  private inlineEnums: Map<AnyColumn, EnumDefinition> | undefined;
 
   /**
    * Create a new generator instance
@@ -119,6 +278,9 @@ export abstract class BaseGenerator<
     } else if (this.source) {
       this.comments = extractComments(this.source);
     }
+    this.externalComments = options.externalComments;
+    this.commentPrecedence = options.commentPrecedence ?? DEFAULT_COMMENT_PRECEDENCE;
+    this.onWarning = options.onWarning ?? (() => {});
 
     // Extract relations from source for v0 API detection
     if (this.source) {
@@ -173,6 +335,90 @@ export abstract class BaseGenerator<
     return is(value, PgTable) || is(value, MySqlTable) || is(value, SQLiteTable);
   }
 
+  /**
+   * Get all views from schema
+   *
+   * Extracts all Drizzle view objects (including PostgreSQL materialized views)
+   * from the schema by checking each value with isView() method.
+   *
+   * @returns Array of view objects
+   */
+  protected getViews(): unknown[] {
+    return Object.values(this.schema).filter((value) => this.isView(value));
+  }
+
+  /**
+   * Check if a value is a Drizzle view
+   *
+   * @param value - The value to check
+   * @returns True if value is a view from any supported dialect
+   */
+  protected isView(value: unknown): boolean {
+    return (
+      is(value, PgView) ||
+      is(value, PgMaterializedView) ||
+      is(value, MySqlView) ||
+      is(value, SQLiteView)
+    );
+  }
+
+  /**
+   * Get view configuration from a Drizzle view
+   *
+   * Uses the dialect-specific config getter and renders the defining query
+   * with the matching SQL dialect.
+   *
+   * @param view - The Drizzle view to get configuration from
+   * @returns View configuration or undefined if dialect is not supported
+   */
+  protected getViewConfig(view: unknown): ViewConfig | undefined {
+    if (is(view, PgMaterializedView)) {
+      const config = getPgMaterializedViewConfig(view);
+      return {
+        name: config.name,
+        schema: config.schema,
+        materialized: true,
+        selectedFields: config.selectedFields,
+        definition: config.query ? new PgDialect().sqlToQuery(config.query as SQL).sql : undefined,
+      };
+    }
+    if (is(view, PgView)) {
+      const config = getPgViewConfig(view);
+      return {
+        name: config.name,
+        schema: config.schema,
+        materialized: false,
+        selectedFields: config.selectedFields,
+        definition: config.query ? new PgDialect().sqlToQuery(config.query as SQL).sql : undefined,
+      };
+    }
+    if (is(view, MySqlView)) {
+      const config = getMySqlViewConfig(view);
+      return {
+        name: config.name,
+        schema: config.schema,
+        materialized: false,
+        selectedFields: config.selectedFields,
+        definition: config.query
+          ? new MySqlDialect().sqlToQuery(config.query as SQL).sql
+          : undefined,
+      };
+    }
+    if (is(view, SQLiteView)) {
+      const config = getSqliteViewConfig(view);
+      return {
+        name: config.name,
+        schema: config.schema,
+        materialized: false,
+        selectedFields: config.selectedFields,
+        definition: config.query
+          ? new SQLiteSyncDialect().sqlToQuery(config.query as SQL).sql
+          : undefined,
+      };
+    }
+    return undefined;
+  }
+
   /**
    * Check if a value is a v1 relation entry (from defineRelations())
    *
@@ -292,10 +538,13 @@ export abstract class BaseGenerator<
   private mapTableConfig(config: {
     indexes: Array<{
       config: {
-        columns: Array<{ name?: string }>;
+        columns: IndexedColumnConfig[];
         name?: string;
         unique?: boolean;
         using?: string;
+        method?: string;
+        where?: SqlChunks;
+        concurrently?: boolean;
       };
     }>;
     primaryKeys: Array<{ columns: Array<{ name?: string }>; name?: string }>;
@@ -310,6 +559,8 @@ export abstract class BaseGenerator<
       onDelete?: string;
       onUpdate?: string;
     }>;
+    checks?: Array<{ name: string; value: SqlChunks }>;
+    schema?: string;
   }): TableConfig {
     return {
       indexes: (config.indexes || []).map((idx) => ({
@@ -317,9 +568,16 @@ export abstract class BaseGenerator<
           columns: idx.config.columns
             .filter((c): c is { name: string } => typeof c.name === "string")
             .map((c) => ({ name: c.name })),
+          parts: idx.config.columns
+            .filter((c) => c.queryChunks !== undefined || typeof c.name === "string")
+            .map((c) => this.toIndexPart(c)),
           name: idx.config.name,
           unique: idx.config.unique ?? false,
-          using: idx.config.using,
+          // PostgreSQL stores the method as `method`, defaulting to btree
+          using:
+            idx.config.using ?? (idx.config.method !== "btree" ? idx.config.method : undefined),
+          where: idx.config.where,
+          concurrently: idx.config.concurrently,
         },
       })),
       primaryKeys: (config.primaryKeys || []).map((pk) => ({
@@ -340,6 +598,11 @@ export abstract class BaseGenerator<
         onDelete: fk.onDelete,
         onUpdate: fk.onUpdate,
       })),
+      checks: (config.checks || []).map((ck) => ({
+        name: ck.name,
+        value: ck.value,
+      })),
+      schema: config.schema,
     };
   }
 
@@ -371,16 +634,7 @@ export abstract class BaseGenerator<
     if (typeof defaultValue === "object" && defaultValue !== null) {
       if ("queryChunks" in defaultValue) {
         // It's a SQL template
-        const chunks = (defaultValue as { queryChunks: unknown[] }).queryChunks;
-        const sqlParts: string[] = [];
-        for (const chunk of chunks) {
-          if (typeof chunk === "string") {
-            sqlParts.push(chunk);
-          } else if (typeof chunk === "object" && chunk !== null && "value" in chunk) {
-            sqlParts.push(String((chunk as { value: unknown }).value));
-          }
-        }
-        return sqlParts.join("");
+        return this.sqlToString(defaultValue as SqlChunks);
       }
       if ("sql" in defaultValue) {
         return (defaultValue as { sql: string }).sql;
@@ -402,6 +656,140 @@ export abstract class BaseGenerator<
     return undefined;
   }
 
+  /**
+   * Get the generation expression of a generated column (`generatedAlwaysAs()`)
+   *
+   * The expression may be given as a SQL template, a function returning one, or a
+   * literal value, which is formatted like a default value.
+   *
+   * @param column - The column to inspect
+   * @returns The generated column definition, or undefined for regular columns
+   */
+  protected getGeneratedColumn(column: AnyColumn): GeneratedColumnDefinition | undefined {
+    const generated = (column as unknown as { generated?: GeneratedColumnConfig }).generated;
+    if (!generated) {
+      return undefined;
+    }
+
+    const value = typeof generated.as === "function" ? generated.as() : generated.as;
+    let expression: string;
+    if (typeof value === "object" && value !== null && "queryChunks" in value) {
+      expression = this.sqlToString(value as SqlChunks);
+    } else if (typeof value === "string") {
+      expression = `'${value.replace(/'/g, "''")}'`;
+    } else {
+      expression = String(value);
+    }
+
+    return { expression, mode: generated.mode === "virtual" ? "virtual" : "stored" };
+  }
+
+  /**
+   * Get the identity settings of an identity column
+   * (`generatedAlwaysAsIdentity()` / `generatedByDefaultAsIdentity()`)
+   *
+   * @param column - The column to inspect
+   * @returns The identity definition, or undefined for columns without an identity
+   */
+  protected getIdentity(column: AnyColumn): IdentityDefinition | undefined {
+    const identity = (column as unknown as { generatedIdentity?: GeneratedIdentityConfig })
+      .generatedIdentity;
+    if (!identity) {
+      return undefined;
+    }
+
+    return {
+      type: identity.type === "byDefault" ? "by_default" : "always",
+      sequenceName: identity.sequenceName,
+      ...toSequenceOptions(identity.sequenceOptions),
+    };
+  }
+
+  /**
+   * Convert an indexed column or expression to an index part
+   *
+   * Ordering is only recorded where it differs from the defaults (ASC, with NULLS LAST
+   * for ascending and NULLS FIRST for descending order), so plain columns stay plain.
+   *
+   * @param column - The column or SQL expression from the index config
+   * @returns The index part
+   */
+  private toIndexPart(column: IndexedColumnConfig): IndexPart {
+    if (column.queryChunks) {
+      return { expression: this.sqlToString(column as SqlChunks) };
+    }
+    const part: IndexPart = { column: column.name };
+    const { order, nulls, opClass } = column.indexConfig ?? {};
+    if (order === "desc") {
+      part.order = "desc";
+    }
+    if (nulls && nulls !== (order === "desc" ? "first" : "last")) {
+      part.nulls = nulls;
+    }
+    if (opClass) {
+      part.opClass = opClass;
+    }
+    return part;
+  }
+
+  /**
+   * Render a Drizzle SQL template as a SQL string
+   *
+   * Concatenates the query chunks: SQL text is emitted as-is, identifiers and column
+   * references by name, nested SQL templates recursively, and bound parameters as
+   * SQL literals (so `sql\`${t.status} = ${"active"}\`` renders as `status = 'active'`).
+   *
+   * @param sqlObj - The SQL template to render
+   * @returns The SQL string
+   */
+  protected sqlToString(sqlObj: SqlChunks): string {
+    return sqlObj.queryChunks.map((chunk) => this.sqlChunkToString(chunk)).join("");
+  }
+
+  /**
+   * Render a single query chunk of a SQL template
+   */
+  private sqlChunkToString(chunk: unknown): string {
+    if (is(chunk, StringChunk)) {
+      return chunk.value.join("");
+    }
+    if (is(chunk, Param)) {
+      return formatSqlLiteral(chunk.value);
+    }
+    if (is(chunk, Name)) {
+      return chunk.value;
+    }
+    if (is(chunk, Column)) {
+      return chunk.name;
+    }
+    if (Array.isArray(chunk)) {
+      return `(${chunk.map((item) => this.sqlChunkToString(item)).join(", ")})`;
+    }
+    if (typeof chunk === "object" && chunk !== null) {
+      return "queryChunks" in chunk ? this.sqlToString(chunk as SqlChunks) : "";
+    }
+    // Values interpolated directly into the template are bound parameters
+    return formatSqlLiteral(chunk);
+  }
+
+  /**
+   * Get the names of the columns referenced in a SQL template
+   *
+   * @param sqlObj - The SQL template to inspect
+   * @returns Unique column names in order of appearance
+   */
+  protected getReferencedColumns(sqlObj: SqlChunks): string[] {
+    const columns: string[] = [];
+    for (const chunk of sqlObj.queryChunks) {
+      if (is(chunk, Column)) {
+        columns.push(chunk.name);
+      } else if (typeof chunk === "object" && chunk !== null && "queryChunks" in chunk) {
+        columns.push(...this.getReferencedColumns(chunk as SqlChunks));
+      }
+    }
+    return [...new Set(columns)];
+  }
+
   /**
    * Collect foreign keys from table configuration
    *
@@ -432,7 +820,7 @@ export abstract class BaseGenerator<
     const reference = fk.reference();
     const fromColumns = reference.columns.map((c) => c.name);
     const toColumns = reference.foreignColumns.map((c) => c.name);
-    const toTable = getTableName(reference.foreignTable);
+    const toTable = getQualifiedTableName(reference.foreignTable);
 
     return {
       fromTable: tableName,
@@ -481,7 +869,7 @@ export abstract class BaseGenerator<
     if (v1Entries.length > 0) {
       return new V1RelationAdapter(v1Entries);
     }
-    return new V0RelationAdapter(this.schema, this.parsedRelations);
+    return new V0RelationAdapter(this.schema, this.parsedRelations, this.onWarning);
   }
 
   /**
@@ -495,6 +883,7 @@ export abstract class BaseGenerator<
    */
   private unifiedRelationToDefinition(unified: UnifiedRelation): RelationDefinition {
     return {
+      ...(unified.name && { name: unified.name }),
       fromTable: unified.sourceTable,
       fromColumns: unified.sourceColumns,
       toTable: unified.targetTable,
@@ -502,6 +891,14 @@ export abstract class BaseGenerator<
       type: unified.relationType,
       onDelete: unified.onDelete,
       onUpdate: unified.onUpdate,
+      ...(unified.through && {
+        through: {
+          table: unified.through.table,
+          fromColumns: unified.through.sourceColumns,
+          toColumns: unified.through.targetColumns,
+        },
+      }),
+      ...(unified.where && { where: unified.where }),
     };
   }
 
@@ -524,37 +921,50 @@ export abstract class BaseGenerator<
       this.tableToDefinition(table),
     );
 
-    // Collect relations (auto-detect relation definitions vs foreign keys)
-    let relations: RelationDefinition[] = [];
-
+    // Collect relation definitions (v1 or v0 API) in unified format
+    let definedRelations: RelationDefinition[] = [];
     if (this.hasRelationDefinitions()) {
-      // Use adapter to extract relations in unified format (v1 or v0 API)
       const adapter = this.createRelationAdapter();
       const unifiedRelations = adapter.extract();
-      relations = unifiedRelations.map((unified) => this.unifiedRelationToDefinition(unified));
-    } else {
-      // Fall back to foreign keys from table configs
-      // Reset generatedRefs to collect fresh relations
-      this.generatedRefs = [];
-      for (const table of tables) {
-        const tableName = getTableName(table);
-        const tableConfig = this.getTableConfig(table);
-        if (tableConfig && tableConfig.foreignKeys.length > 0) {
-          this.collectForeignKeysFromConfig(tableName, tableConfig.foreignKeys);
-        }
+      definedRelations = unifiedRelations.map((unified) =>
+        this.unifiedRelationToDefinition(unified),
+      );
+    }
+
+    // Collect foreign keys from table configs
+    // Reset generatedRefs to collect fresh relations
+    this.generatedRefs = [];
+    for (const table of tables) {
+      const tableName = getQualifiedTableName(table);
+      const tableConfig = this.getTableConfig(table);
+      if (tableConfig && tableConfig.foreignKeys.length > 0) {
+        this.collectForeignKeysFromConfig(tableName, tableConfig.foreignKeys);
       }
-      // Convert GeneratedRefs to RelationDefinitions
-      relations = this.generatedRefs.map((ref) => this.refToRelationDefinition(ref));
     }
+    const foreignKeyRelations = this.generatedRefs.map((ref) => this.refToRelationDefinition(ref));
+
+    // Union both sources, merging relations backed by a foreign key
+    const relations = reconcileRelations(definedRelations, foreignKeyRelations);
+    relations.push(...detectManyToManyRelations(tableDefinitions, relations));
 
     // Collect enums (override in subclasses for dialect-specific behavior)
     const enums: EnumDefinition[] = this.collectEnumDefinitions();
 
+    // Convert views to intermediate format
+    const views: ViewDefinition[] = [];
+    for (const view of this.getViews()) {
+      const viewDefinition = this.viewToDefinition(view);
+      if (viewDefinition) {
+        views.push(viewDefinition);
+      }
+    }
+
     return {
       databaseType,
       tables: tableDefinitions,
       relations,
       enums,
+      views,
     };
   }
 
@@ -565,21 +975,8 @@ export abstract class BaseGenerator<
    * @returns The database type
    */
   protected getDatabaseType(table: Table | undefined): DatabaseType {
-    if (!table) {
-      // Default to postgresql if no tables
-      return "postgresql";
-    }
-    if (is(table, PgTable)) {
-      return "postgresql";
-    }
-    if (is(table, MySqlTable)) {
-      return "mysql";
-    }
-    if (is(table, SQLiteTable)) {
-      return "sqlite";
-    }
-    // Fallback
-    return "postgresql";
+    // Default to postgresql if no tables
+    return getObjectDialect(table) ?? "postgresql";
   }
 
   /**
@@ -592,10 +989,11 @@ export abstract class BaseGenerator<
     const tableName = getTableName(table);
     const columns = getTableColumns(table);
     const tableConfig = this.getTableConfig(table);
+    const schemaName = tableConfig?.schema;
 
     // Convert columns
     const columnDefinitions: ColumnDefinition[] = Object.values(columns).map((column) =>
-      this.columnToDefinition(column, tableName),
+      this.columnToDefinition(column, tableName, schemaName),
     );
 
     // Convert indexes
@@ -606,11 +1004,13 @@ export abstract class BaseGenerator<
       this.extractConstraintDefinitions(tableConfig);
 
     // Get table comment
-    const tableComment = this.comments?.tables[tableName]?.comment;
+    const tableComment = this.resolveTableComment(tableName, schemaName);
 
     return {
       name: tableName,
+      schema: schemaName,
       comment: tableComment,
+      ...this.resolveTableMetadata(tableName, schemaName),
       columns: columnDefinitions,
       indexes: indexDefinitions,
       constraints: constraintDefinitions,
@@ -622,24 +1022,169 @@ export abstract class BaseGenerator<
    *
    * @param column - The Drizzle column to convert
    * @param tableName - The name of the table containing the column
+   * @param schemaName - The schema of the table containing the column, if any
    * @returns The column definition
    */
-  protected columnToDefinition(column: AnyColumn, tableName: string): ColumnDefinition {
-    const columnComment = this.comments?.tables[tableName]?.columns[column.name]?.comment;
+  protected columnToDefinition(
+    column: AnyColumn,
+    tableName: string,
+    schemaName?: string,
+  ): ColumnDefinition {
+    const jsdocComment = findTableComment(this.comments, tableName, schemaName)?.columns[
+      column.name
+    ];
+    const fileComment = findTableComment(this.externalComments, tableName, schemaName)?.columns[
+      column.name
+    ];
+    const columnComment = resolveComment(
+      {
+        runtime: getRuntimeComment(column),
+        jsdoc: jsdocComment?.comment,
+        file: fileComment?.comment,
+      },
+      this.commentPrecedence,
+    );
+    const metadata = resolveCommentMetadata(
+      { jsdoc: jsdocComment, file: fileComment },
+      this.commentPrecedence,
+    );
     const defaultValue = this.getDefaultValue(column);
+    const sqlType = column.getSQLType();
+    const dataType = this.getDataType(column);
+    // Drizzle leaves the brackets of array columns out of the SQL type
+    const arrayDimensions = dataType.arrayDimensions ?? 0;
+    const type =
+      arrayDimensions > 0 && !sqlType.endsWith("[]")
+        ? `${sqlType}${"[]".repeat(arrayDimensions)}`
+        : sqlType;
 
     return {
       name: column.name,
-      type: column.getSQLType(),
+      type,
+      dataType,
+      mode: this.dialectConfig.getColumnMode?.(column),
       nullable: !column.notNull,
       defaultValue,
       primaryKey: column.primary,
       unique: column.isUnique,
       autoIncrement: this.dialectConfig.isIncrement(column) || undefined,
+      generated: this.getGeneratedColumn(column),
+      identity: this.getIdentity(column),
       comment: columnComment,
+      tags: metadata.tags,
+      deprecated: metadata.deprecated,
+      examples: metadata.examples,
+      see: metadata.see,
+      customTags: metadata.customTags,
+    };
+  }
+
+  /**
+   * Get the data type of a Drizzle column
+   *
+   * Parses the SQL type Drizzle renders and marks custom types and inline enums.
+   * Override in subclasses to add what the SQL type leaves out (e.g., PostgreSQL arrays).
+   *
+   * @param column - The Drizzle column
+   * @returns The data type
+   */
+  protected getDataType(column: AnyColumn): DataTypeDefinition {
+    const dataType = parseDataType(column.getSQLType());
+    if (column.dataType === "custom") {
+      dataType.custom = true;
+    }
+    const inlineEnum = this.collectInlineEnums().get(column);
+    if (inlineEnum) {
+      dataType.enum = qualifyName(inlineEnum.name, inlineEnum.schema);
+    }
+    return dataType;
+  }
+
+  /**
+   * Convert a Drizzle view to a ViewDefinition
+   *
+   * Selected fields backed by a column use that column's definition; computed
+   * fields (sql`...`.as("alias")) only carry their alias as the column name.
+   *
+   * @param view - The Drizzle view to convert
+   * @returns The view definition or undefined if dialect is not supported
+   */
+  protected viewToDefinition(view: unknown): ViewDefinition | undefined {
+    const viewConfig = this.getViewConfig(view);
+    if (!viewConfig) {
+      return undefined;
+    }
+
+    const columnDefinitions: ColumnDefinition[] = [];
+    for (const [fieldName, field] of Object.entries(viewConfig.selectedFields)) {
+      if (is(field, Column)) {
+        const column = this.columnToDefinition(field, viewConfig.name, viewConfig.schema);
+        columnDefinitions.push({
+          ...column,
+          primaryKey: false,
+          unique: false,
+          autoIncrement: undefined,
+          defaultValue: undefined,
+          generated: undefined,
+          identity: undefined,
+        });
+      } else {
+        const alias = (field as { fieldAlias?: unknown }).fieldAlias;
+        columnDefinitions.push({
+          name: typeof alias === "string" ? alias : fieldName,
+          type: "unknown",
+          nullable: true,
+          primaryKey: false,
+          unique: false,
+        });
+      }
+    }
+
+    return {
+      name: viewConfig.name,
+      schema: viewConfig.schema,
+      materialized: viewConfig.materialized,
+      comment: this.resolveTableComment(viewConfig.name, viewConfig.schema),
+      ...this.resolveTableMetadata(viewConfig.name, viewConfig.schema),
+      columns: columnDefinitions,
+      definition: viewConfig.definition,
     };
   }
 
+  /**
+   * Resolve the comment of a table or view from JSDoc and the external comments file
+   *
+   * @param tableName - The table name
+   * @param schemaName - The schema name, if any
+   * @returns The comment of the preferred source, or undefined
+   */
+  private resolveTableComment(tableName: string, schemaName?: string): string | undefined {
+    return resolveComment(
+      {
+        jsdoc: findTableComment(this.comments, tableName, schemaName)?.comment,
+        file: findTableComment(this.externalComments, tableName, schemaName)?.comment,
+      },
+      this.commentPrecedence,
+    );
+  }
+
+  /**
+   * Resolve the tags, owners and deprecation of a table or view
+   *
+   * @param tableName - The table name
+   * @param schemaName - The schema name, if any
+   * @returns The metadata of the preferred sources
+   */
+  private resolveTableMetadata(tableName: string, schemaName?: string): ResolvedCommentMetadata {
+    return resolveCommentMetadata(
+      {
+        jsdoc: findTableComment(this.comments, tableName, schemaName),
+        file: findTableComment(this.externalComments, tableName, schemaName),
+      },
+      this.commentPrecedence,
+    );
+  }
+
   /**
    * Extract index definitions from table config
    *
@@ -654,15 +1199,34 @@ export abstract class BaseGenerator<
     const indexes: IndexDefinition[] = [];
 
     for (const idx of tableConfig.indexes) {
+      const { parts, using, where, concurrently } = idx.config;
+      if (parts.length === 0) {
+        continue;
+      }
       const columns = idx.config.columns.map((c) => c.name);
-      if (columns.length > 0) {
-        indexes.push({
-          name: idx.config.name || `idx_${columns.join("_")}`,
-          columns,
-          unique: idx.config.unique,
-          type: idx.config.using,
-        });
+      const index: IndexDefinition = {
+        name: idx.config.name || `idx_${columns.join("_") || "expr"}`,
+        columns,
+        unique: idx.config.unique,
+      };
+      // Drizzle has no FULLTEXT/SPATIAL builders, so MySQL indexes declare them through using()
+      const kind = using?.toLowerCase();
+      if (kind === "fulltext" || kind === "spatial") {
+        index.kind = kind;
+      } else if (using) {
+        index.type = using;
+      }
+      // Plain column lists are fully described by `columns`
+      if (parts.some((part) => Object.keys(part).some((key) => key !== "column"))) {
+        index.parts = parts;
       }
+      if (where) {
+        index.where = this.sqlToString(where);
+      }
+      if (concurrently) {
+        index.concurrently = true;
+      }
+      indexes.push(index);
     }
 
     return indexes;
@@ -715,6 +1279,16 @@ export abstract class BaseGenerator<
       }
     }
 
+    // Check constraints
+    for (const ck of tableConfig.checks) {
+      constraints.push({
+        name: ck.name,
+        type: "check",
+        columns: this.getReferencedColumns(ck.value),
+        definition: this.sqlToString(ck.value),
+      });
+    }
+
     return constraints;
   }
 
@@ -728,10 +1302,10 @@ export abstract class BaseGenerator<
     const reference = fk.reference();
     const columns = reference.columns.map((c) => c.name);
     const referencedColumns = reference.foreignColumns.map((c) => c.name);
-    const referencedTable = getTableName(reference.foreignTable);
+    const referencedTable = getQualifiedTableName(reference.foreignTable);
 
     return {
-      name: fk.name || `fk_${columns.join("_")}_${referencedTable}`,
+      name: fk.name || `fk_${columns.join("_")}_${getTableName(reference.foreignTable)}`,
       type: "foreign_key",
       columns,
       referencedTable,
@@ -776,14 +1350,46 @@ export abstract class BaseGenerator<
   /**
    * Collect enum definitions from the schema
    *
-   * Override in subclasses for dialect-specific enum handling (e.g., PostgreSQL)
+   * Collects inline enums by default; override in subclasses for dialect-specific
+   * enum handling (e.g., PostgreSQL)
    *
-   * @returns Array of enum definitions (empty by default)
+   * @returns Array of enum definitions
    */
   protected collectEnumDefinitions(): EnumDefinition[] {
-    // Default implementation returns empty array
-    // Override in PgGenerator for PostgreSQL enum support
-    return [];
+    return [...this.collectInlineEnums().values()];
+  }
+
+  /**
+   * Collect the enums declared on columns, keyed by column
+   *
+   * Inline enums belong to a single column, so each one is named after its table and column
+   * (e.g., "users_role"). Views reuse the columns of their tables and therefore their enums.
+   *
+   * @returns Enum definitions by column (empty for dialects without inline enums)
+   */
+  protected collectInlineEnums(): Map<AnyColumn, EnumDefinition> {
+    if (this.inlineEnums) {
+      return this.inlineEnums;
+    }
+    const enums = new Map<AnyColumn, EnumDefinition>();
+    const getValues = this.dialectConfig.getInlineEnumValues;
+    if (getValues) {
+      for (const table of this.getTables()) {
+        const schema = this.getTableConfig(table)?.schema;
+        for (const column of Object.values(getTableColumns(table))) {
+          const values = getValues(column);
+          if (values) {
+            enums.set(column, {
+              name: `${getTableName(table)}_${column.name}`,
+              schema,
+              values: [...values],
+            });
+          }
+        }
+      }
+    }
+    this.inlineEnums = enums;
+    return enums;
   }
 }
 
@@ -802,3 +1408,26 @@ export function writeDbmlFile(filePath: string, content: string): void {
   mkdirSync(dir, { recursive: true });
   writeFileSync(resolvedPath, content, "utf-8");
 }
+
+/**
+ * Find the comments for a table
+ *
+ * Comments for schema tables are keyed by their qualified name (e.g., "billing.invoices")
+ * when the parser could resolve the schema, so that lookup is tried first before falling
+ * back to the plain table name.
+ *
+ * @param comments - Extracted or loaded comments
+ * @param tableName - The table name
+ * @param schemaName - The schema name, if any
+ * @returns The table comments or undefined
+ */
+function findTableComment(
+  comments: SchemaComments | undefined,
+  tableName: string,
+  schemaName?: string,
+): TableComment | undefined {
+  if (!comments) {
+    return undefined;
+  }
+  return comments.tables[qualifyName(tableName, schemaName)] ?? comments.tables[tableName];
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { detectManyToManyRelations } from "./many-to-many";
+import type { ColumnDefinition, RelationDefinition, TableDefinition } from "../types";
+
+function column(name: string, primaryKey = false): ColumnDefinition {
+  return { name, type: "integer", nullable: false, primaryKey, unique: false };
+}
+
+const postTags: TableDefinition = {
+  name: "post_tags",
+  columns: [column("post_id"), column("tag_id")],
+  indexes: [],
+  constraints: [{ name: "post_tags_pk", type: "primary_key", columns: ["post_id", "tag_id"] }],
+};
+
+const postForeignKey: RelationDefinition = {
+  fromTable: "post_tags",
+  fromColumns: ["post_id"],
+  toTable: "posts",
+  toColumns: ["id"],
+  type: "many-to-one",
+  origin: "foreign_key",
+};
+
+const tagForeignKey: RelationDefinition = {
+  fromTable: "post_tags",
+  fromColumns: ["tag_id"],
+  toTable: "tags",
+  toColumns: ["id"],
+  type: "many-to-one",
+  origin: "both",
+};
+
+describe("detectManyToManyRelations", () => {
+  it("should connect the tables referenced by a junction table", () => {
+    expect(detectManyToManyRelations([postTags], [postForeignKey, tagForeignKey])).toEqual([
+      {
+        fromTable: "posts",
+        fromColumns: ["id"],
+        toTable: "tags",
+        toColumns: ["id"],
+        type: "many-to-many",
+        origin: "foreign_key",
+        through: { table: "post_tags", fromColumns: ["post_id"], toColumns: ["tag_id"] },
+      },
+    ]);
+  });
+
+  it("should accept a primary key declared on the columns", () => {
+    const table: TableDefinition = {
+      ...postTags,
+      columns: [column("post_id", true), column("tag_id", true)],
+      constraints: [],
+    };
+
+    expect(detectManyToManyRelations([table], [postForeignKey, tagForeignKey])).toHaveLength(1);
+  });
+
+  it("should qualify junction tables in a schema", () => {
+    const table: TableDefinition = { ...postTags, schema: "blog" };
+    const relations = [postForeignKey, tagForeignKey].map((relation) => ({
+      ...relation,
+      fromTable: "blog.post_tags",
+    }));
+
+    expect(detectManyToManyRelations([table], relations)[0]?.through?.table).toBe("blog.post_tags");
+  });
+
+  it("should ignore tables whose primary key is not made of the foreign keys", () => {
+    const table: TableDefinition = {
+      ...postTags,
+      columns: [column("id", true), column("post_id"), column("tag_id")],
+      constraints: [],
+    };
+
+    expect(detectManyToManyRelations([table], [postForeignKey, tagForeignKey])).toEqual([]);
+  });
+
+  it("should ignore tables without exactly two foreign keys", () => {
+    const thirdForeignKey: RelationDefinition = {
+      ...tagForeignKey,
+      fromColumns: ["post_id"],
+      toTable: "drafts",
+    };
+
+    expect(detectManyToManyRelations([postTags], [postForeignKey])).toEqual([]);
+    expect(
+      detectManyToManyRelations([postTags], [postForeignKey, tagForeignKey, thirdForeignKey]),
+    ).toEqual([]);
+  });
+
+  it("should ignore relations that are not backed by a foreign key", () => {
+    const relation: RelationDefinition = { ...tagForeignKey, origin: "relation" };
+
+    expect(detectManyToManyRelations([postTags], [postForeignKey, relation])).toEqual([]);
+  });
+
+  it("should skip junction tables of existing many-to-many relations", () => {
+    const manyToMany: RelationDefinition = {
+      fromTable: "tags",
+      fromColumns: ["id"],
+      toTable: "posts",
+      toColumns: ["id"],
+      type: "many-to-many",
+      origin: "relation",
+      through: { table: "post_tags", fromColumns: ["tag_id"], toColumns: ["post_id"] },
+    };
+
+    expect(
+      detectManyToManyRelations([postTags], [manyToMany, postForeignKey, tagForeignKey]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import type { RelationDefinition, TableDefinition } from "../types";
+import { getJunctionTables } from "../utils/junction";
+import { qualifyName } from "../utils/table-name";
+
+/**
+ * Detect many-to-many relations implied by junction tables
+ *
+ * A junction table has exactly two foreign keys whose columns together make up its
+ * primary key. Each junction table yields a many-to-many relation between the two
+ * referenced tables, in the order the foreign keys appear in `relations`. Junction
+ * tables that already back a many-to-many relation (e.g. a v1 `many(..., { through })`)
+ * are skipped.
+ *
+ * @param tables - Table definitions of the schema
+ * @param relations - Reconciled relations, tagged with their origin
+ * @returns The many-to-many relations to add
+ */
+export function detectManyToManyRelations(
+  tables: TableDefinition[],
+  relations: RelationDefinition[],
+): RelationDefinition[] {
+  const knownJunctions = getJunctionTables(relations);
+  const detected: RelationDefinition[] = [];
+
+  for (const table of tables) {
+    const tableName = qualifyName(table.name, table.schema);
+    if (knownJunctions.has(tableName)) {
+      continue;
+    }
+
+    const foreignKeys = relations.filter(
+      (relation) =>
+        relation.fromTable === tableName &&
+        relation.type !== "many-to-many" &&
+        (relation.origin === "foreign_key" || relation.origin === "both"),
+    );
+    if (foreignKeys.length !== 2) {
+      continue;
+    }
+
+    const [source, target] = foreignKeys as [RelationDefinition, RelationDefinition];
+    if (!isComposedPrimaryKey(table, source.fromColumns, target.fromColumns)) {
+      continue;
+    }
+
+    detected.push({
+      fromTable: source.toTable,
+      fromColumns: source.toColumns,
+      toTable: target.toTable,
+      toColumns: target.toColumns,
+      type: "many-to-many",
+      origin: "foreign_key",
+      through: {
+        table: tableName,
+        fromColumns: source.fromColumns,
+        toColumns: target.fromColumns,
+      },
+    });
+  }
+
+  return detected;
+}
+
+/**
+ * Check whether two disjoint column lists together form the table's primary key
+ */
+function isComposedPrimaryKey(
+  table: TableDefinition,
+  sourceColumns: string[],
+  targetColumns: string[],
+): boolean {
+  const primaryKeyColumns = new Set([
+    ...table.columns.filter((column) => column.primaryKey).map((column) => column.name),
+    ...table.constraints
+      .filter((constraint) => constraint.type === "primary_key")
+      .flatMap((constraint) => constraint.columns),
+  ]);
+  const columns = [...sourceColumns, ...targetColumns];
+
+  return (
+    new Set(columns).size === columns.length &&
+    columns.length === primaryKeyColumns.size &&
+    columns.every((column) => primaryKeyColumns.has(column))
+  );
+}
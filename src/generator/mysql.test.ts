@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { mysqlGenerate } from "./mysql";
+import { mysqlGenerate, MySqlGenerator } from "./mysql";
 import {
   mysqlTable,
   serial,
@@ -11,7 +11,11 @@ import {
   foreignKey,
   unique,
   index,
+  check,
+  mysqlEnum,
+  timestamp,
 } from "drizzle-orm/mysql-core";
+import { sql } from "drizzle-orm";
 import { relations } from "drizzle-orm/_relations";
 import type { SchemaComments } from "../parser/comments";
 import { writeFileSync, mkdirSync, rmSync } from "node:fs";
@@ -160,6 +164,140 @@ describe("mysqlGenerate", () => {
     expect(dbml).toContain("indexes {");
     expect(dbml).toContain('"email"');
   });
+
+  it("should handle fulltext and expression indexes", () => {
+    const posts = mysqlTable(
+      "posts",
+      {
+        id: serial("id").primaryKey(),
+        title: varchar("title", { length: 255 }),
+        body: text("body"),
+      },
+      (table) => [
+        // Drizzle has no fulltext builder; the kind is passed through using()
+        index("body_idx")
+          .on(table.body)
+          .using("fulltext" as "btree"),
+        index("title_lower_idx").on(sql`(lower(${table.title}))`),
+      ],
+    );
+
+    const dbml = mysqlGenerate({ schema: { posts } });
+
+    expect(dbml).toContain(
+      `("body") [name: 'body_idx', note: 'CREATE FULLTEXT INDEX body_idx ON posts (body)']`,
+    );
+    expect(dbml).toContain("(`(lower(title))`) [name: 'title_lower_idx']");
+  });
+
+  it("should handle check constraints", () => {
+    const users = mysqlTable(
+      "users",
+      {
+        id: serial("id").primaryKey(),
+        age: int("age"),
+      },
+      (table) => [check("age_check", sql`${table.age} >= ${18}`)],
+    );
+
+    const dbml = mysqlGenerate({ schema: { users } });
+
+    expect(dbml).toContain("checks {");
+    expect(dbml).toContain("`age >= 18` [name: 'age_check']");
+  });
+
+  it("should describe generated columns in notes", () => {
+    const users = mysqlTable("users", {
+      firstName: varchar("first_name", { length: 50 }),
+      lastName: varchar("last_name", { length: 50 }),
+      fullName: varchar("full_name", { length: 101 }).generatedAlwaysAs(
+        (): ReturnType<typeof sql> => sql`concat(${users.firstName}, ' ', ${users.lastName})`,
+        { mode: "virtual" },
+      ),
+    });
+
+    const dbml = mysqlGenerate({ schema: { users } });
+
+    expect(dbml).toContain(
+      `"full_name" varchar(101) [note: 'GENERATED ALWAYS AS (concat(first_name, \\' \\', last_name)) VIRTUAL']`,
+    );
+  });
+
+  it("should declare inline enums and describe column attributes", () => {
+    const users = mysqlTable("users", {
+      id: int("id", { unsigned: true }).primaryKey(),
+      role: mysqlEnum("role", ["admin", "member"]).notNull(),
+      name: varchar("name", { length: 50 }).charSet("utf8mb4").collate("utf8mb4_bin"),
+      updatedAt: timestamp("updated_at").onUpdateNow(),
+    });
+
+    const dbml = mysqlGenerate({ schema: { users } });
+
+    expect(dbml).toContain('Enum "users_role" {');
+    expect(dbml).toContain('"role" "users_role" [not null]');
+    expect(dbml).toContain(
+      `"name" varchar(50) [note: 'CHARACTER SET utf8mb4 COLLATE utf8mb4_bin']`,
+    );
+    expect(dbml).toContain(`"updated_at" timestamp [note: 'ON UPDATE CURRENT_TIMESTAMP']`);
+  });
+
+  it("should generate views as annotated tables", async () => {
+    const { mysqlView } = await import("drizzle-orm/mysql-core");
+
+    const users = mysqlTable("users", {
+      id: int("id").primaryKey(),
+      name: text("name").notNull(),
+    });
+    const userNames = mysqlView("user_names").as((qb) =>
+      qb.select({ id: users.id, name: users.name }).from(users),
+    );
+
+    const dbml = mysqlGenerate({ schema: { users, userNames } });
+
+    expect(dbml).toContain('Table "user_names" {');
+    expect(dbml).toContain('"name" text [not null]');
+    expect(dbml).toContain("Note: 'VIEW\\n\\nselect `id`, `name` from `users`'");
+  });
+});
+
+describe("MySqlGenerator.toIntermediateSchema", () => {
+  it("should collect inline enums named after their table and column", () => {
+    const users = mysqlTable("users", {
+      id: int("id").primaryKey(),
+      role: mysqlEnum("role", ["admin", "member"]),
+    });
+    const posts = mysqlTable("posts", {
+      id: int("id").primaryKey(),
+      status: mysqlEnum("status", { Draft: "draft", Published: "published" }),
+    });
+
+    const schema = new MySqlGenerator({ schema: { users, posts } }).toIntermediateSchema();
+
+    expect(schema.enums).toEqual([
+      { name: "users_role", schema: undefined, values: ["admin", "member"] },
+      { name: "posts_status", schema: undefined, values: ["draft", "published"] },
+    ]);
+    expect(schema.tables[0].columns[1]).toMatchObject({
+      type: "enum('admin','member')",
+      dataType: { base: "enum", enum: "users_role" },
+    });
+  });
+
+  it("should extract unsigned, charset, collation and ON UPDATE settings", () => {
+    const users = mysqlTable("users", {
+      id: int("id", { unsigned: true }).primaryKey(),
+      name: varchar("name", { length: 50 }).charSet("utf8mb4").collate("utf8mb4_bin"),
+      updatedAt: timestamp("updated_at", { fsp: 3 }).onUpdateNow({ fsp: 3 }),
+    });
+
+    const [id, name, updatedAt] = new MySqlGenerator({ schema: { users } }).toIntermediateSchema()
+      .tables[0].columns;
+
+    expect(id).toMatchObject({ type: "int unsigned", dataType: { base: "int", unsigned: true } });
+    expect(name).toMatchObject({ charset: "utf8mb4", collation: "utf8mb4_bin" });
+    expect(updatedAt).toMatchObject({ onUpdate: "CURRENT_TIMESTAMP(3)" });
+    expect(id.charset).toBeUndefined();
+  });
 });
 
 describe("mysqlGenerate with relations", () => {
@@ -505,6 +643,39 @@ describe("mysqlGenerate with comments", () => {
     expect(dbml).toContain("note: 'User display name'");
   });
 
+  it("should merge runtime, JSDoc and external comments by precedence", () => {
+    const name = text("name");
+    (name as unknown as { config: { comment?: string } }).config.comment = "Runtime name";
+    const email = text("email");
+    (email as unknown as { config: { comment?: string } }).config.comment = "Runtime email";
+    const users = mysqlTable("users", { id: serial("id").primaryKey(), name, email });
+
+    const comments: SchemaComments = {
+      tables: { users: { comment: "JSDoc users", columns: { email: { comment: "JSDoc email" } } } },
+    };
+    const externalComments: SchemaComments = {
+      tables: { users: { comment: "File users", columns: { id: { comment: "File id" } } } },
+    };
+
+    const dbml = mysqlGenerate({ schema: { users }, comments, externalComments });
+
+    expect(dbml).toContain("Note: 'File users'");
+    expect(dbml).toContain("note: 'File id'");
+    expect(dbml).toContain("note: 'Runtime name'");
+    expect(dbml).toContain("note: 'JSDoc email'");
+
+    const runtimeFirst = mysqlGenerate({
+      schema: { users },
+      comments,
+      externalComments,
+      commentPrecedence: ["runtime", "jsdoc"],
+    });
+
+    expect(runtimeFirst).toContain("Note: 'JSDoc users'");
+    expect(runtimeFirst).toContain("note: 'Runtime email'");
+    expect(runtimeFirst).not.toContain("File id");
+  });
+
   it("should include both table and column notes", () => {
     const users = mysqlTable("users", {
       id: serial("id").primaryKey(),
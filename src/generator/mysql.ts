@@ -1,6 +1,17 @@
-import type { AnyColumn } from "drizzle-orm";
+import { type AnyColumn, is } from "drizzle-orm";
+import { MySqlEnumColumn, MySqlEnumObjectColumn } from "drizzle-orm/mysql-core";
 import { BaseGenerator, writeDbmlFile, type DialectConfig } from "./common";
-import type { GenerateOptions } from "../types";
+import type { ColumnDefinition, GenerateOptions } from "../types";
+
+/**
+ * MySQL-specific settings Drizzle stores on columns
+ */
+interface MySqlColumnSettings {
+  charSet?: string;
+  collation?: string;
+  hasOnUpdateNow?: boolean;
+  onUpdateNowFsp?: number;
+}
 
 /**
  * MySQL-specific DBML generator
@@ -16,7 +27,40 @@ export class MySqlGenerator<
       // MySQL uses autoincrement property
       return (column as unknown as { autoIncrement?: boolean }).autoIncrement === true;
     },
+    getInlineEnumValues: (column: AnyColumn) =>
+      is(column, MySqlEnumColumn) || is(column, MySqlEnumObjectColumn)
+        ? column.enumValues
+        : undefined,
   };
+
+  /**
+   * Convert a column to a ColumnDefinition, including its MySQL-specific settings
+   *
+   * @param column - The Drizzle column to convert
+   * @param tableName - The name of the table containing the column
+   * @param schemaName - The schema of the table containing the column, if any
+   * @returns The column definition
+   */
+  protected override columnToDefinition(
+    column: AnyColumn,
+    tableName: string,
+    schemaName?: string,
+  ): ColumnDefinition {
+    const definition = super.columnToDefinition(column, tableName, schemaName);
+    const settings = column as unknown as MySqlColumnSettings;
+    if (settings.charSet) {
+      definition.charset = settings.charSet;
+    }
+    if (settings.collation) {
+      definition.collation = settings.collation;
+    }
+    if (settings.hasOnUpdateNow) {
+      definition.onUpdate = settings.onUpdateNowFsp
+        ? `CURRENT_TIMESTAMP(${settings.onUpdateNowFsp})`
+        : "CURRENT_TIMESTAMP";
+    }
+    return definition;
+  }
 }
 
 /**
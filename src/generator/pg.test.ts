@@ -12,7 +12,10 @@ import {
   foreignKey,
   unique,
   index,
+  uniqueIndex,
+  check,
 } from "drizzle-orm/pg-core";
+import { and, eq, gt, sql } from "drizzle-orm";
 import { relations } from "drizzle-orm/_relations";
 import type { SchemaComments } from "../parser/comments";
 import { writeFileSync, mkdirSync, rmSync } from "node:fs";
@@ -55,6 +58,84 @@ describe("pgGenerate", () => {
     expect(dbml).toContain('"author_id" integer');
   });
 
+  it("should convert generated and identity columns", () => {
+    const users = pgTable("users", {
+      id: integer("id").generatedAlwaysAsIdentity({
+        name: "users_id_seq",
+        startWith: 1000,
+        maxValue: "9223372036854775807",
+        cycle: true,
+      }),
+      legacyId: integer("legacy_id").generatedByDefaultAsIdentity(),
+      email: text("email").notNull(),
+      emailDomain: text("email_domain").generatedAlwaysAs(
+        (): ReturnType<typeof sql> => sql`split_part(${users.email}, '@', 2)`,
+      ),
+    });
+
+    const schema = new PgGenerator({ schema: { users } }).toIntermediateSchema();
+    const [id, legacyId, email, emailDomain] = schema.tables[0].columns;
+
+    expect(id).toMatchObject({
+      nullable: false,
+      defaultValue: undefined,
+      autoIncrement: undefined,
+    });
+    expect(id.identity).toEqual({
+      type: "always",
+      sequenceName: "users_id_seq",
+      startWith: "1000",
+      maxValue: "9223372036854775807",
+      cycle: true,
+    });
+    expect(legacyId.identity).toEqual({ type: "by_default" });
+    expect(email.generated).toBeUndefined();
+    expect(email.identity).toBeUndefined();
+    expect(emailDomain.generated).toEqual({
+      expression: "split_part(email, '@', 2)",
+      mode: "stored",
+    });
+  });
+
+  it("should add tags, owners and deprecations from the comments file", () => {
+    const users = pgTable("users", {
+      id: serial("id").primaryKey(),
+      email: text("email"),
+    });
+
+    const externalComments: SchemaComments = {
+      tables: {
+        users: {
+          owners: ["identity-team"],
+          tags: ["core"],
+          deprecated: "",
+          columns: { email: { tags: ["pii"], deprecated: "Use login instead" } },
+        },
+      },
+    };
+
+    const schema = new PgGenerator({ schema: { users }, externalComments }).toIntermediateSchema();
+
+    expect(schema.tables[0]).toMatchObject({
+      owners: ["identity-team"],
+      tags: ["core"],
+      deprecated: "",
+    });
+    expect(schema.tables[0].columns[1]).toMatchObject({
+      tags: ["pii"],
+      deprecated: "Use login instead",
+    });
+
+    const withoutFile = new PgGenerator({
+      schema: { users },
+      externalComments,
+      commentPrecedence: ["jsdoc", "runtime"],
+    }).toIntermediateSchema();
+
+    expect(withoutFile.tables[0].owners).toBeUndefined();
+    expect(withoutFile.tables[0].columns[1].tags).toBeUndefined();
+  });
+
   it("should handle columns with default values", () => {
     const users = pgTable("users", {
       id: serial("id").primaryKey(),
@@ -897,6 +978,45 @@ describe("PgGenerator.toIntermediateSchema", () => {
     expect(emailColumn.nullable).toBe(true);
   });
 
+  it("should add tags, owners and deprecations from the comments file", () => {
+    const users = pgTable("users", {
+      id: serial("id").primaryKey(),
+      email: text("email"),
+    });
+
+    const externalComments: SchemaComments = {
+      tables: {
+        users: {
+          owners: ["identity-team"],
+          tags: ["core"],
+          deprecated: "",
+          columns: { email: { tags: ["pii"], deprecated: "Use login instead" } },
+        },
+      },
+    };
+
+    const schema = new PgGenerator({ schema: { users }, externalComments }).toIntermediateSchema();
+
+    expect(schema.tables[0]).toMatchObject({
+      owners: ["identity-team"],
+      tags: ["core"],
+      deprecated: "",
+    });
+    expect(schema.tables[0].columns[1]).toMatchObject({
+      tags: ["pii"],
+      deprecated: "Use login instead",
+    });
+
+    const withoutFile = new PgGenerator({
+      schema: { users },
+      externalComments,
+      commentPrecedence: ["jsdoc", "runtime"],
+    }).toIntermediateSchema();
+
+    expect(withoutFile.tables[0].owners).toBeUndefined();
+    expect(withoutFile.tables[0].columns[1].tags).toBeUndefined();
+  });
+
   it("should handle columns with default values", () => {
     const users = pgTable("users", {
       id: serial("id").primaryKey(),
@@ -1011,6 +1131,87 @@ describe("PgGenerator.toIntermediateSchema", () => {
     expect(schema.tables[0].indexes[0].unique).toBe(false);
   });
 
+  it("should extract expression, partial and ordered indexes", () => {
+    const users = pgTable(
+      "users",
+      {
+        id: serial("id").primaryKey(),
+        email: varchar("email", { length: 255 }),
+        name: text("name"),
+      },
+      (table) => [
+        index("email_lower_idx").on(sql`lower(${table.email})`),
+        index("name_idx").using("gin", table.name.op("gin_trgm_ops")),
+        index("recent_idx").on(table.id.desc(), table.name.asc().nullsFirst()),
+        uniqueIndex("active_email_idx")
+          .on(table.email)
+          .where(sql`${table.name} is not null`)
+          .concurrently(),
+      ],
+    );
+
+    const generator = new PgGenerator({ schema: { users } });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.tables[0].indexes).toEqual([
+      {
+        name: "email_lower_idx",
+        columns: [],
+        unique: false,
+        parts: [{ expression: "lower(email)" }],
+      },
+      {
+        name: "name_idx",
+        columns: ["name"],
+        unique: false,
+        type: "gin",
+        parts: [{ column: "name", opClass: "gin_trgm_ops" }],
+      },
+      {
+        name: "recent_idx",
+        columns: ["id", "name"],
+        unique: false,
+        parts: [
+          // Drizzle's desc() puts NULLs last, unlike PostgreSQL's DESC
+          { column: "id", order: "desc", nulls: "last" },
+          { column: "name", nulls: "first" },
+        ],
+      },
+      {
+        name: "active_email_idx",
+        columns: ["email"],
+        unique: true,
+        where: "name is not null",
+        concurrently: true,
+      },
+    ]);
+  });
+
+  it("should render the filter values of partial indexes as SQL literals", () => {
+    const users = pgTable(
+      "users",
+      {
+        id: serial("id").primaryKey(),
+        email: varchar("email", { length: 255 }),
+        status: text("status").notNull(),
+        loginCount: integer("login_count"),
+      },
+      (table) => [
+        uniqueIndex("active_email_idx")
+          .on(table.email)
+          .where(and(eq(table.status, "active"), gt(table.loginCount, 0))),
+      ],
+    );
+
+    const generator = new PgGenerator({ schema: { users } });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.tables[0].indexes[0].where).toBe("((status = 'active') and (login_count > 0))");
+    expect(generator.generate()).toContain(
+      "ON users (email) WHERE (((status = \\'active\\') and (login_count > 0)))",
+    );
+  });
+
   it("should include comments in intermediate schema", () => {
     const users = pgTable("users", {
       id: serial("id").primaryKey(),
@@ -1050,6 +1251,105 @@ describe("PgGenerator.toIntermediateSchema", () => {
     expect(schema.relations).toHaveLength(0);
     expect(schema.enums).toHaveLength(0);
   });
+
+  it("should extract check constraints", () => {
+    const products = pgTable(
+      "products",
+      {
+        id: serial("id").primaryKey(),
+        price: integer("price").notNull(),
+        discount: integer("discount").notNull(),
+      },
+      (table) => [
+        check("price_positive", sql`${table.price} > 0`),
+        check("discount_below_price", sql`${table.discount} < ${table.price}`),
+      ],
+    );
+
+    const generator = new PgGenerator({ schema: { products } });
+    const schema = generator.toIntermediateSchema();
+
+    const checks = schema.tables[0].constraints.filter((c) => c.type === "check");
+    expect(checks).toEqual([
+      {
+        name: "price_positive",
+        type: "check",
+        columns: ["price"],
+        definition: "price > 0",
+      },
+      {
+        name: "discount_below_price",
+        type: "check",
+        columns: ["discount", "price"],
+        definition: "discount < price",
+      },
+    ]);
+  });
+
+  it("should render check constraints as a DBML checks block", () => {
+    const products = pgTable(
+      "products",
+      {
+        id: serial("id").primaryKey(),
+        price: integer("price").notNull(),
+      },
+      (table) => [check("price_positive", sql`${table.price} > ${0}`)],
+    );
+
+    const dbml = pgGenerate({ schema: { products } });
+
+    expect(dbml).toContain("checks {");
+    expect(dbml).toContain("`price > 0` [name: 'price_positive']");
+  });
+});
+
+describe("PgGenerator.toIntermediateSchema data types", () => {
+  it("should describe arrays, enums, vectors, geometries and custom types", async () => {
+    const { pgEnum, pgSchema, numeric, vector, geometry, customType } =
+      await import("drizzle-orm/pg-core");
+
+    const app = pgSchema("app");
+    const moodEnum = app.enum("mood", ["happy", "sad"]);
+    const statusEnum = pgEnum("status", ["active", "inactive"]);
+    const citext = customType<{ data: string }>({ dataType: () => "citext" });
+
+    const places = pgTable("places", {
+      id: serial("id").primaryKey(),
+      tags: text("tags").array(),
+      grid: integer("grid").array("[][]"),
+      mood: moodEnum("mood"),
+      statuses: statusEnum("statuses").array(),
+      price: numeric("price", { precision: 10, scale: 2 }),
+      embedding: vector("embedding", { dimensions: 3 }),
+      location: geometry("location", { type: "point", srid: 4326 }),
+      email: citext("email"),
+    });
+
+    const schema = new PgGenerator({
+      schema: { places, moodEnum, statusEnum },
+    }).toIntermediateSchema();
+    const columns = Object.fromEntries(schema.tables[0].columns.map((c) => [c.name, c]));
+
+    expect(columns.tags.type).toBe("text[]");
+    expect(columns.tags.dataType).toEqual({ base: "text", arrayDimensions: 1 });
+    expect(columns.grid.type).toBe("integer[][]");
+    expect(columns.grid.dataType).toEqual({ base: "integer", arrayDimensions: 2 });
+    expect(columns.mood.dataType).toEqual({ base: "mood", enum: "app.mood" });
+    expect(columns.statuses.type).toBe("status[]");
+    expect(columns.statuses.dataType).toEqual({
+      base: "status",
+      arrayDimensions: 1,
+      enum: "status",
+    });
+    expect(columns.price.dataType).toEqual({ base: "numeric", precision: 10, scale: 2 });
+    expect(columns.embedding.dataType).toEqual({ base: "vector", dimensions: 3 });
+    expect(columns.location.dataType).toEqual({
+      base: "geometry",
+      geometryType: "point",
+      srid: 4326,
+    });
+    expect(columns.email.dataType).toEqual({ base: "citext", custom: true });
+  });
 });
 
 describe("PgGenerator.toIntermediateSchema with enums", () => {
@@ -1277,4 +1577,610 @@ export const profilesRelations = relations(profiles, ({ one }) => ({
     expect(schema.relations[0].toTable).toBe("users");
     expect(schema.relations[0].type).toBe("many-to-one");
   });
+
+  it("should merge foreign keys with defineRelations and keep unmatched foreign keys", async () => {
+    const { defineRelations } = await import("drizzle-orm");
+
+    const users = pgTable("users", {
+      id: serial("id").primaryKey(),
+    });
+
+    const posts = pgTable("posts", {
+      id: serial("id").primaryKey(),
+      authorId: integer("author_id")
+        .notNull()
+        .references(() => users.id, { onDelete: "cascade" }),
+      editorId: integer("editor_id").references(() => users.id, { onDelete: "set null" }),
+    });
+
+    const rqbv2Relations = defineRelations({ users, posts }, (r) => ({
+      posts: {
+        author: r.one.users({
+          from: r.posts.authorId,
+          to: r.users.id,
+        }),
+      },
+    }));
+
+    const generator = new PgGenerator({
+      schema: { users, posts, postsRelEntry: rqbv2Relations.posts },
+    });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.relations).toEqual([
+      {
+        fromTable: "posts",
+        fromColumns: ["author_id"],
+        toTable: "users",
+        toColumns: ["id"],
+        type: "many-to-one",
+        onDelete: "cascade",
+        onUpdate: "no action",
+        origin: "both",
+      },
+      {
+        fromTable: "posts",
+        fromColumns: ["editor_id"],
+        toTable: "users",
+        toColumns: ["id"],
+        type: "many-to-one",
+        onDelete: "set null",
+        onUpdate: "no action",
+        origin: "foreign_key",
+      },
+    ]);
+  });
+
+  it("should capture defineRelations aliases and where filters", async () => {
+    const { defineRelations } = await import("drizzle-orm");
+
+    const users = pgTable("users", {
+      id: serial("id").primaryKey(),
+      isActive: boolean("is_active"),
+    });
+
+    const posts = pgTable("posts", {
+      id: serial("id").primaryKey(),
+      authorId: integer("author_id").notNull(),
+      reviewerId: integer("reviewer_id"),
+    });
+
+    const rqbv2Relations = defineRelations({ users, posts }, (r) => ({
+      posts: {
+        author: r.one.users({ from: r.posts.authorId, to: r.users.id, alias: "author" }),
+        reviewer: r.one.users({
+          from: r.posts.reviewerId,
+          to: r.users.id,
+          alias: "reviewer",
+          where: { isActive: true },
+        }),
+      },
+      users: {
+        authoredPosts: r.many.posts({ alias: "author" }),
+        reviewedPosts: r.many.posts({ alias: "reviewer" }),
+      },
+    }));
+
+    const generator = new PgGenerator({
+      schema: {
+        users,
+        posts,
+        usersRelEntry: rqbv2Relations.users,
+        postsRelEntry: rqbv2Relations.posts,
+      },
+    });
+    const schema = generator.toIntermediateSchema();
+
+    expect(
+      schema.relations.map(({ name, fromColumns, where }) => ({ name, fromColumns, where })),
+    ).toEqual([
+      { name: "author", fromColumns: ["author_id"], where: undefined },
+      { name: "reviewer", fromColumns: ["reviewer_id"], where: "is_active = true" },
+    ]);
+  });
+
+  it("should keep filtered and aliased relations on the same columns", async () => {
+    const { defineRelations } = await import("drizzle-orm");
+
+    const users = pgTable("users", {
+      id: serial("id").primaryKey(),
+      active: boolean("active"),
+    });
+
+    const posts = pgTable("posts", {
+      id: serial("id").primaryKey(),
+      authorId: integer("author_id").notNull(),
+      published: boolean("published"),
+    });
+
+    const rqbv2Relations = defineRelations({ users, posts }, (r) => ({
+      posts: {
+        author: r.one.users({ from: r.posts.authorId, to: r.users.id }),
+        activeAuthor: r.one.users({
+          from: r.posts.authorId,
+          to: r.users.id,
+          where: { active: true },
+          alias: "active_author",
+        }),
+      },
+      users: {
+        posts: r.many.posts(),
+        publishedPosts: r.many.posts({
+          from: r.users.id,
+          to: r.posts.authorId,
+          where: { published: true },
+        }),
+      },
+    }));
+
+    const generator = new PgGenerator({
+      schema: {
+        users,
+        posts,
+        usersRelEntry: rqbv2Relations.users,
+        postsRelEntry: rqbv2Relations.posts,
+      },
+    });
+    const schema = generator.toIntermediateSchema();
+
+    expect(
+      schema.relations.map(({ name, fromTable, fromColumns, type, where }) => ({
+        name,
+        fromTable,
+        fromColumns,
+        type,
+        where,
+      })),
+    ).toEqual([
+      {
+        name: undefined,
+        fromTable: "posts",
+        fromColumns: ["author_id"],
+        type: "many-to-one",
+        where: "published = true",
+      },
+      {
+        name: undefined,
+        fromTable: "posts",
+        fromColumns: ["author_id"],
+        type: "many-to-one",
+        where: undefined,
+      },
+      {
+        name: "active_author",
+        fromTable: "posts",
+        fromColumns: ["author_id"],
+        type: "many-to-one",
+        where: "active = true",
+      },
+    ]);
+  });
+
+  it("should detect many-to-many relations from junction tables", () => {
+    const posts = pgTable("posts", { id: serial("id").primaryKey() });
+    const tags = pgTable("tags", { id: serial("id").primaryKey() });
+    const postTags = pgTable(
+      "post_tags",
+      {
+        postId: integer("post_id")
+          .notNull()
+          .references(() => posts.id),
+        tagId: integer("tag_id")
+          .notNull()
+          .references(() => tags.id),
+      },
+      (t) => [primaryKey({ columns: [t.postId, t.tagId] })],
+    );
+
+    const generator = new PgGenerator({ schema: { posts, tags, postTags } });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.relations).toHaveLength(3);
+    expect(schema.relations[2]).toEqual({
+      fromTable: "posts",
+      fromColumns: ["id"],
+      toTable: "tags",
+      toColumns: ["id"],
+      type: "many-to-many",
+      origin: "foreign_key",
+      through: { table: "post_tags", fromColumns: ["post_id"], toColumns: ["tag_id"] },
+    });
+  });
+
+  it("should extract many-to-many relations from defineRelations through()", async () => {
+    const { defineRelations } = await import("drizzle-orm");
+
+    const users = pgTable("users", { id: serial("id").primaryKey() });
+    const groups = pgTable("groups", { id: serial("id").primaryKey() });
+    const usersToGroups = pgTable("users_to_groups", {
+      userId: integer("user_id").notNull(),
+      groupId: integer("group_id").notNull(),
+    });
+
+    const rqbv2Relations = defineRelations({ users, groups, usersToGroups }, (r) => ({
+      users: {
+        groups: r.many.groups({
+          from: r.users.id.through(r.usersToGroups.userId),
+          to: r.groups.id.through(r.usersToGroups.groupId),
+        }),
+      },
+      groups: {
+        participants: r.many.users(),
+      },
+    }));
+
+    const generator = new PgGenerator({
+      schema: {
+        users,
+        groups,
+        usersToGroups,
+        usersRelEntry: rqbv2Relations.users,
+        groupsRelEntry: rqbv2Relations.groups,
+      },
+    });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.relations).toEqual([
+      {
+        fromTable: "users",
+        fromColumns: ["id"],
+        toTable: "groups",
+        toColumns: ["id"],
+        type: "many-to-many",
+        origin: "relation",
+        through: { table: "users_to_groups", fromColumns: ["user_id"], toColumns: ["group_id"] },
+      },
+    ]);
+  });
+
+  it("should warn about v0 relations whose tables are not in the schema", () => {
+    const schemaCode = `
+import { pgTable, serial, integer } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+});
+
+export const posts = pgTable("posts", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id"),
+});
+
+export const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, {
+    fields: [posts.authorId],
+    references: [users.id],
+  }),
+}));
+`;
+    const filePath = join(RELATIONS_TEST_DIR, "schema-unexported-table.ts");
+    writeFileSync(filePath, schemaCode);
+
+    const posts = pgTable("posts", {
+      id: serial("id").primaryKey(),
+      authorId: integer("author_id"),
+    });
+
+    const warnings: string[] = [];
+    const generator = new PgGenerator({
+      schema: { posts },
+      source: filePath,
+      onWarning: (message) => warnings.push(message),
+    });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.relations).toEqual([]);
+    expect(warnings).toEqual([
+      'Skipping relation from "posts" to "users": "users" is not a table exported by the schema',
+    ]);
+  });
+});
+
+describe("PgGenerator.toIntermediateSchema with row-level security", () => {
+  it("should convert RLS flags and policies from the table config and linked policies", async () => {
+    const { pgPolicy, pgRole } = await import("drizzle-orm/pg-core");
+
+    const admin = pgRole("admin");
+    const posts = pgTable(
+      "posts",
+      {
+        id: serial("id").primaryKey(),
+        ownerId: text("owner_id").notNull(),
+      },
+      (table) => [
+        pgPolicy("owner_read", {
+          for: "select",
+          to: [admin, "authenticated"],
+          using: sql`${table.ownerId} = current_user`,
+        }),
+        pgPolicy("owner_write", {
+          as: "restrictive",
+          for: "insert",
+          withCheck: sql`${table.ownerId} = current_user`,
+        }),
+      ],
+    );
+    const comments = pgTable("comments", { id: serial("id").primaryKey() });
+    const commentsRead = pgPolicy("comments_read", { to: admin }).link(comments);
+    const auditLog = pgTable.withRLS("audit_log", { id: serial("id").primaryKey() });
+    const tags = pgTable("tags", { id: serial("id").primaryKey() });
+
+    const schema = new PgGenerator({
+      schema: { admin, posts, comments, commentsRead, auditLog, tags },
+    }).toIntermediateSchema();
+    const [postsTable, commentsTable, auditLogTable, tagsTable] = schema.tables;
+
+    expect(postsTable.rlsEnabled).toBe(true);
+    expect(postsTable.policies).toEqual([
+      {
+        name: "owner_read",
+        as: "permissive",
+        command: "select",
+        roles: ["admin", "authenticated"],
+        using: "owner_id = current_user",
+      },
+      {
+        name: "owner_write",
+        as: "restrictive",
+        command: "insert",
+        roles: ["public"],
+        withCheck: "owner_id = current_user",
+      },
+    ]);
+    expect(commentsTable).toMatchObject({
+      rlsEnabled: true,
+      policies: [{ name: "comments_read", command: "all", roles: ["admin"] }],
+    });
+    expect(auditLogTable.rlsEnabled).toBe(true);
+    expect(auditLogTable.policies).toBeUndefined();
+    expect(tagsTable.rlsEnabled).toBeUndefined();
+  });
+
+  it("should render bound parameters in policy expressions as SQL literals", async () => {
+    const { pgPolicy } = await import("drizzle-orm/pg-core");
+
+    const posts = pgTable(
+      "posts",
+      {
+        id: serial("id").primaryKey(),
+        status: text("status").notNull(),
+        title: text("title"),
+      },
+      (table) => [
+        pgPolicy("published_read", {
+          for: "select",
+          using: sql`${table.status} = ${"published"} AND ${table.title} <> ${"it's"}`,
+          withCheck: sql`${table.title} IS DISTINCT FROM ${null} OR ${true}`,
+        }),
+      ],
+    );
+
+    const [postsTable] = new PgGenerator({ schema: { posts } }).toIntermediateSchema().tables;
+
+    expect(postsTable.policies).toEqual([
+      {
+        name: "published_read",
+        as: "permissive",
+        command: "select",
+        roles: ["public"],
+        using: "status = 'published' AND title <> 'it''s'",
+        withCheck: "title IS DISTINCT FROM NULL OR true",
+      },
+    ]);
+  });
+
+  it("should collect sequences and roles", async () => {
+    const { pgSchema, pgSequence, pgRole } = await import("drizzle-orm/pg-core");
+
+    const billing = pgSchema("billing");
+    const orderSeq = pgSequence("order_seq", { startWith: 100, increment: 2, cycle: true });
+    const invoiceSeq = billing.sequence("invoice_seq");
+    const admin = pgRole("admin", { createRole: true, inherit: false });
+    const authenticated = pgRole("authenticated").existing();
+
+    const schema = new PgGenerator({
+      schema: { orderSeq, invoiceSeq, admin, authenticated },
+    }).toIntermediateSchema();
+
+    expect(schema.sequences).toEqual([
+      { name: "order_seq", startWith: "100", increment: "2", cycle: true },
+      { name: "invoice_seq", schema: "billing" },
+    ]);
+    expect(schema.roles).toEqual([
+      { name: "admin", createRole: true, inherit: false },
+      { name: "authenticated", existing: true },
+    ]);
+  });
+});
+
+describe("PgGenerator.toIntermediateSchema with pgSchema", () => {
+  it("should populate the schema name of tables declared with pgSchema", async () => {
+    const { pgSchema } = await import("drizzle-orm/pg-core");
+
+    const billing = pgSchema("billing");
+    const invoices = billing.table("invoices", {
+      id: serial("id").primaryKey(),
+    });
+    const users = pgTable("users", {
+      id: serial("id").primaryKey(),
+    });
+
+    const generator = new PgGenerator({ schema: { invoices, users } });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.tables.find((t) => t.name === "invoices")?.schema).toBe("billing");
+    expect(schema.tables.find((t) => t.name === "users")?.schema).toBeUndefined();
+  });
+
+  it("should keep same-named tables in different schemas apart", async () => {
+    const { pgSchema } = await import("drizzle-orm/pg-core");
+
+    const billing = pgSchema("billing");
+    const publicInvoices = pgTable("invoices", { id: serial("id").primaryKey() });
+    const billingInvoices = billing.table("invoices", { id: serial("id").primaryKey() });
+
+    const dbml = pgGenerate({ schema: { publicInvoices, billingInvoices } });
+
+    expect(dbml).toContain('Table "invoices" {');
+    expect(dbml).toContain('Table "billing"."invoices" {');
+  });
+
+  it("should use schema-qualified table names in foreign key relations", async () => {
+    const { pgSchema } = await import("drizzle-orm/pg-core");
+
+    const billing = pgSchema("billing");
+    const users = pgTable("users", {
+      id: serial("id").primaryKey(),
+    });
+    const invoices = billing.table("invoices", {
+      id: serial("id").primaryKey(),
+      userId: integer("user_id").references(() => users.id),
+    });
+
+    const generator = new PgGenerator({ schema: { users, invoices } });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.relations).toHaveLength(1);
+    expect(schema.relations[0].fromTable).toBe("billing.invoices");
+    expect(schema.relations[0].toTable).toBe("users");
+
+    const dbml = generator.generate();
+    expect(dbml).toContain('Ref: "billing"."invoices"."user_id" > "users"."id"');
+  });
+
+  it("should populate the schema name of enums declared with pgSchema", async () => {
+    const { pgSchema } = await import("drizzle-orm/pg-core");
+
+    const billing = pgSchema("billing");
+    const invoiceStatus = billing.enum("invoice_status", ["draft", "paid"]);
+    const invoices = billing.table("invoices", {
+      id: serial("id").primaryKey(),
+      status: invoiceStatus("status"),
+    });
+
+    const generator = new PgGenerator({ schema: { invoices, invoiceStatus } });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.enums).toEqual([
+      { name: "invoice_status", schema: "billing", values: ["draft", "paid"] },
+    ]);
+  });
+
+  it("should attach comments to schema tables", async () => {
+    const { pgSchema } = await import("drizzle-orm/pg-core");
+
+    const billing = pgSchema("billing");
+    const invoices = billing.table("invoices", {
+      id: serial("id").primaryKey(),
+    });
+
+    const generator = new PgGenerator({
+      schema: { invoices },
+      comments: {
+        tables: {
+          "billing.invoices": {
+            comment: "Issued invoices",
+            columns: { id: { comment: "Invoice ID" } },
+          },
+        },
+      },
+    });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.tables[0].comment).toBe("Issued invoices");
+    expect(schema.tables[0].columns[0].comment).toBe("Invoice ID");
+  });
+});
+
+describe("PgGenerator.toIntermediateSchema with views", () => {
+  const users = pgTable("users", {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    age: integer("age"),
+  });
+
+  it("should extract views built with a query builder", async () => {
+    const { pgView } = await import("drizzle-orm/pg-core");
+
+    const adults = pgView("adults").as((qb) =>
+      qb
+        .select({ id: users.id, name: users.name })
+        .from(users)
+        .where(sql`${users.age} >= 18`),
+    );
+
+    const generator = new PgGenerator({ schema: { users, adults } });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.tables).toHaveLength(1);
+    expect(schema.views).toHaveLength(1);
+    const view = schema.views![0];
+    expect(view.name).toBe("adults");
+    expect(view.materialized).toBe(false);
+    expect(view.columns.map((c) => c.name)).toEqual(["id", "name"]);
+    expect(view.columns[1].type).toBe("text");
+    expect(view.columns[1].nullable).toBe(false);
+    expect(view.definition).toContain('from "users"');
+    expect(view.definition).toContain(">= 18");
+  });
+
+  it("should extract materialized views and views with explicit columns", async () => {
+    const { pgMaterializedView, pgView } = await import("drizzle-orm/pg-core");
+
+    const userCounts = pgMaterializedView("user_counts", {
+      total: integer("total").notNull(),
+    }).as(sql`select count(*) as total from ${users}`);
+    const legacyUsers = pgView("legacy_users", {
+      id: integer("id"),
+    }).existing();
+
+    const generator = new PgGenerator({ schema: { userCounts, legacyUsers } });
+    const schema = generator.toIntermediateSchema();
+
+    const counts = schema.views!.find((v) => v.name === "user_counts")!;
+    expect(counts.materialized).toBe(true);
+    expect(counts.columns[0]).toMatchObject({ name: "total", type: "integer", nullable: false });
+    expect(counts.definition).toBe('select count(*) as total from "users"');
+
+    const legacy = schema.views!.find((v) => v.name === "legacy_users")!;
+    expect(legacy.materialized).toBe(false);
+    expect(legacy.definition).toBeUndefined();
+  });
+
+  it("should populate the schema name and comments of views", async () => {
+    const { pgSchema } = await import("drizzle-orm/pg-core");
+
+    const reporting = pgSchema("reporting");
+    const adults = reporting.view("adults").as((qb) => qb.select({ id: users.id }).from(users));
+
+    const generator = new PgGenerator({
+      schema: { users, adults },
+      comments: {
+        tables: {
+          "reporting.adults": {
+            comment: "Adult users",
+            columns: { id: { comment: "User ID" } },
+          },
+        },
+      },
+    });
+    const schema = generator.toIntermediateSchema();
+
+    expect(schema.views![0].schema).toBe("reporting");
+    expect(schema.views![0].comment).toBe("Adult users");
+    expect(schema.views![0].columns[0].comment).toBe("User ID");
+  });
+
+  it("should not treat views as tables in DBML generation", async () => {
+    const { pgView } = await import("drizzle-orm/pg-core");
+
+    const adults = pgView("adults").as((qb) => qb.select({ id: users.id }).from(users));
+
+    const dbml = pgGenerate({ schema: { users, adults } });
+
+    expect(dbml).toContain('Table "users" {');
+    expect(dbml).toContain('Table "adults" {');
+    expect(dbml).toContain(`Note: 'VIEW\\n\\nselect "id" from "users"'`);
+  });
 });
@@ -1,7 +1,41 @@
-import { type AnyColumn, getTableColumns } from "drizzle-orm";
-import { PgEnumColumn } from "drizzle-orm/pg-core";
-import { BaseGenerator, writeDbmlFile, type DialectConfig } from "./common";
-import type { GenerateOptions, EnumDefinition } from "../types";
+import { type AnyColumn, type Table, getTableColumns, is } from "drizzle-orm";
+import {
+  PgEnumColumn,
+  PgPolicy,
+  PgRole,
+  PgSequence,
+  type PgPolicyToOption,
+  type PgRoleConfig,
+  type PgTable,
+  getTableConfig,
+} from "drizzle-orm/pg-core";
+import { BaseGenerator, toSequenceOptions, writeDbmlFile, type DialectConfig } from "./common";
+import type {
+  DataTypeDefinition,
+  GenerateOptions,
+  EnumDefinition,
+  IntermediateSchema,
+  PolicyDefinition,
+  RoleDefinition,
+  SequenceDefinition,
+  TableDefinition,
+} from "../types";
+import { qualifyName } from "../utils/table-name";
+
+/**
+ * A policy attached to a table with `.link()`
+ */
+type LinkedPgPolicy = PgPolicy & { _linkedTable?: Table };
+
+/**
+ * Get the role names a policy applies to
+ */
+function getRoleNames(to: PgPolicyToOption): string[] {
+  if (Array.isArray(to)) {
+    return to.flatMap(getRoleNames);
+  }
+  return [typeof to === "string" ? to : to.name];
+}
 
 /**
  * PostgreSQL-specific DBML generator
@@ -21,9 +55,12 @@ export class PgGenerator<
 
   /**
    * Collect all enum types from the schema
+   *
+   * Enums are keyed by their schema-qualified name so that same-named enums
+   * in different schemas (e.g., pgSchema("billing").enum(...)) are kept apart.
    */
-  private collectEnums(): Map<string, string[]> {
-    const enums = new Map<string, string[]>();
+  private collectEnums(): Map<string, EnumDefinition> {
+    const enums = new Map<string, EnumDefinition>();
     const tables = this.getTables();
 
     for (const table of tables) {
@@ -32,10 +69,20 @@ export class PgGenerator<
       for (const column of Object.values(columns)) {
         if (column instanceof PgEnumColumn) {
           const enumObj = (
-            column as unknown as { enum: { enumName: string; enumValues: string[] } }
+            column as unknown as {
+              enum: { enumName: string; enumValues: string[]; schema?: string };
+            }
           ).enum;
-          if (enumObj && !enums.has(enumObj.enumName)) {
-            enums.set(enumObj.enumName, enumObj.enumValues);
+          if (!enumObj) {
+            continue;
+          }
+          const key = qualifyName(enumObj.enumName, enumObj.schema);
+          if (!enums.has(key)) {
+            enums.set(key, {
+              name: enumObj.enumName,
+              schema: enumObj.schema,
+              values: enumObj.enumValues,
+            });
           }
         }
       }
@@ -53,17 +100,120 @@ export class PgGenerator<
    * @returns Array of enum definitions
    */
   protected override collectEnumDefinitions(): EnumDefinition[] {
-    const enums = this.collectEnums();
-    const enumDefinitions: EnumDefinition[] = [];
-
-    for (const [name, values] of enums) {
-      enumDefinitions.push({
-        name,
-        values,
-      });
+    return [...this.collectEnums().values()];
+  }
+
+  /**
+   * Get the data type of a column, including its array dimensions and enum type
+   *
+   * @param column - The Drizzle column
+   * @returns The data type
+   */
+  protected override getDataType(column: AnyColumn): DataTypeDefinition {
+    const dataType = super.getDataType(column);
+    const { dimensions } = column as unknown as { dimensions?: number };
+    if (dimensions && dimensions > (dataType.arrayDimensions ?? 0)) {
+      dataType.arrayDimensions = dimensions;
+    }
+    if (column instanceof PgEnumColumn) {
+      const { enumName, schema } = (
+        column as unknown as { enum: { enumName: string; schema?: string } }
+      ).enum;
+      dataType.enum = qualifyName(enumName, schema);
     }
+    return dataType;
+  }
+
+  /**
+   * Convert the schema to an intermediate schema, including sequences and roles
+   *
+   * @returns The intermediate schema representation
+   */
+  override toIntermediateSchema(): IntermediateSchema {
+    return {
+      ...super.toIntermediateSchema(),
+      sequences: this.collectSequenceDefinitions(),
+      roles: this.collectRoleDefinitions(),
+    };
+  }
 
-    return enumDefinitions;
+  /**
+   * Convert a table to a TableDefinition, including its row-level security
+   *
+   * Policies come from the table config and from exported policies linked to the
+   * table with `.link()`. As with drizzle-kit, a table with policies has RLS enabled.
+   *
+   * @param table - The Drizzle table to convert
+   * @returns The table definition
+   */
+  protected override tableToDefinition(table: Table): TableDefinition {
+    const definition = super.tableToDefinition(table);
+    const config = getTableConfig(table as PgTable);
+    const linkedPolicies = Object.values(this.schema).filter(
+      (value): value is PgPolicy =>
+        is(value, PgPolicy) && (value as LinkedPgPolicy)._linkedTable === table,
+    );
+    const policies = [...config.policies, ...linkedPolicies].map((policy) =>
+      this.policyToDefinition(policy),
+    );
+
+    return {
+      ...definition,
+      ...((config.enableRLS || policies.length > 0) && { rlsEnabled: true }),
+      ...(policies.length > 0 && { policies }),
+    };
+  }
+
+  /**
+   * Convert a Drizzle policy to a PolicyDefinition, filling in PostgreSQL's defaults
+   * (PERMISSIVE, FOR ALL, TO public)
+   */
+  private policyToDefinition(policy: PgPolicy): PolicyDefinition {
+    return {
+      name: policy.name,
+      as: policy.as ?? "permissive",
+      command: policy.for ?? "all",
+      roles: policy.to === undefined ? ["public"] : getRoleNames(policy.to),
+      using: policy.using && this.sqlToString(policy.using),
+      withCheck: policy.withCheck && this.sqlToString(policy.withCheck),
+    };
+  }
+
+  /**
+   * Collect the sequences exported by the schema (pgSequence())
+   */
+  private collectSequenceDefinitions(): SequenceDefinition[] {
+    const sequences: SequenceDefinition[] = [];
+    for (const value of Object.values(this.schema)) {
+      if (is(value, PgSequence) && value.seqName) {
+        sequences.push({
+          name: value.seqName,
+          schema: value.schema,
+          ...toSequenceOptions(value.seqOptions),
+        });
+      }
+    }
+    return sequences;
+  }
+
+  /**
+   * Collect the roles exported by the schema (pgRole())
+   */
+  private collectRoleDefinitions(): RoleDefinition[] {
+    const roles: RoleDefinition[] = [];
+    for (const value of Object.values(this.schema)) {
+      if (is(value, PgRole)) {
+        const role = value as PgRole & PgRoleConfig & { _existing?: boolean };
+        roles.push({
+          name: role.name,
+          existing: role._existing,
+          createDb: role.createDb,
+          createRole: role.createRole,
+          inherit: role.inherit,
+        });
+      }
+    }
+    return roles;
   }
 }
 
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { reconcileRelations } from "./reconcile-relations";
+import type { RelationDefinition } from "../types";
+
+const authorForeignKey: RelationDefinition = {
+  fromTable: "posts",
+  fromColumns: ["author_id"],
+  toTable: "users",
+  toColumns: ["id"],
+  type: "many-to-one",
+  onDelete: "cascade",
+  onUpdate: "no action",
+};
+
+describe("reconcileRelations", () => {
+  it("should tag relations and foreign keys that only exist on one side", () => {
+    const relation: RelationDefinition = {
+      fromTable: "profiles",
+      fromColumns: ["user_id"],
+      toTable: "users",
+      toColumns: ["id"],
+      type: "one-to-one",
+    };
+
+    expect(reconcileRelations([relation], [authorForeignKey])).toEqual([
+      { ...relation, origin: "relation" },
+      { ...authorForeignKey, origin: "foreign_key" },
+    ]);
+  });
+
+  it("should merge a matching relation and copy the referential actions", () => {
+    const relation: RelationDefinition = {
+      name: "author",
+      fromTable: "posts",
+      fromColumns: ["author_id"],
+      toTable: "users",
+      toColumns: ["id"],
+      type: "one-to-one",
+    };
+
+    expect(reconcileRelations([relation], [authorForeignKey])).toEqual([
+      { ...relation, onDelete: "cascade", onUpdate: "no action", origin: "both" },
+    ]);
+  });
+
+  it("should match a relation declared from the other end and use the foreign key direction", () => {
+    const relation: RelationDefinition = {
+      fromTable: "users",
+      fromColumns: ["id"],
+      toTable: "posts",
+      toColumns: ["author_id"],
+      type: "one-to-many",
+    };
+
+    expect(reconcileRelations([relation], [authorForeignKey])).toEqual([
+      { ...authorForeignKey, type: "many-to-one", origin: "both" },
+    ]);
+  });
+
+  it("should drop duplicate relations and foreign keys", () => {
+    const reversed: RelationDefinition = {
+      fromTable: "users",
+      fromColumns: ["id"],
+      toTable: "posts",
+      toColumns: ["author_id"],
+      type: "one-to-many",
+    };
+
+    const result = reconcileRelations(
+      [authorForeignKey, reversed],
+      [authorForeignKey, authorForeignKey],
+    );
+
+    expect(result).toHaveLength(1);
+    expect(result[0].origin).toBe("both");
+  });
+
+  it("should keep relations on the same columns apart when their name or filter differs", () => {
+    const author: RelationDefinition = {
+      fromTable: "posts",
+      fromColumns: ["author_id"],
+      toTable: "users",
+      toColumns: ["id"],
+      type: "many-to-one",
+    };
+    const activeAuthor: RelationDefinition = {
+      ...author,
+      name: "active_author",
+      where: "active = true",
+    };
+
+    expect(reconcileRelations([author, activeAuthor, author], [authorForeignKey])).toEqual([
+      { ...author, onDelete: "cascade", onUpdate: "no action", origin: "both" },
+      { ...activeAuthor, onDelete: "cascade", onUpdate: "no action", origin: "both" },
+    ]);
+  });
+});
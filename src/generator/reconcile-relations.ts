@@ -0,0 +1,101 @@
+import type { IntermediateRelationType, RelationDefinition } from "../types";
+
+/**
+ * Cardinality seen from the other end of a relation
+ */
+const INVERSE_TYPES: Record<IntermediateRelationType, IntermediateRelationType> = {
+  "one-to-one": "one-to-one",
+  "one-to-many": "many-to-one",
+  "many-to-one": "one-to-many",
+  "many-to-many": "many-to-many",
+};
+
+/**
+ * Union foreign keys and relation definitions into one list of relations
+ *
+ * A relation definition and a foreign key are equivalent when they connect the same
+ * columns, in either direction. Relations on the same columns are kept apart when their
+ * name or filter differs, and a foreign key is merged into each of them: the relation keeps
+ * its name, filter and cardinality, which knows about one-to-one relations, and takes the
+ * foreign key's direction and referential actions. Relations come first in their original
+ * order, followed by foreign keys without a matching relation. Each result is tagged with
+ * its origin.
+ *
+ * @param relations - Relations from `relations()` / `defineRelations()`
+ * @param foreignKeys - Relations derived from table-config foreign keys
+ * @returns The reconciled relations
+ */
+export function reconcileRelations(
+  relations: RelationDefinition[],
+  foreignKeys: RelationDefinition[],
+): RelationDefinition[] {
+  const reconciled: RelationDefinition[] = [];
+  const relationKeys = new Set<string>();
+
+  for (const relation of relations) {
+    const key = `${getColumnsKey(relation)} as ${relation.name} where ${relation.where}`;
+    const reverseKey = `${getReverseColumnsKey(relation)} as ${relation.name} where ${relation.where}`;
+    if (!relationKeys.has(key) && !relationKeys.has(reverseKey)) {
+      relationKeys.add(key);
+      reconciled.push({ ...relation, origin: "relation" });
+    }
+  }
+
+  const foreignKeyKeys = new Set<string>();
+  for (const foreignKey of foreignKeys) {
+    const key = getColumnsKey(foreignKey);
+    if (foreignKeyKeys.has(key)) {
+      // Duplicate foreign key
+      continue;
+    }
+    foreignKeyKeys.add(key);
+
+    let matched = false;
+    reconciled.forEach((match, index) => {
+      if (match.origin === "foreign_key") {
+        return;
+      }
+      const isSameDirection = getColumnsKey(match) === key;
+      if (!isSameDirection && getReverseColumnsKey(match) !== key) {
+        return;
+      }
+      matched = true;
+      const direction = isSameDirection
+        ? {}
+        : {
+            fromTable: foreignKey.fromTable,
+            fromColumns: foreignKey.fromColumns,
+            toTable: foreignKey.toTable,
+            toColumns: foreignKey.toColumns,
+            type: INVERSE_TYPES[match.type],
+          };
+      reconciled[index] = {
+        ...match,
+        ...direction,
+        onDelete: foreignKey.onDelete ?? match.onDelete,
+        onUpdate: foreignKey.onUpdate ?? match.onUpdate,
+        origin: "both",
+      };
+    });
+
+    if (!matched) {
+      reconciled.push({ ...foreignKey, origin: "foreign_key" });
+    }
+  }
+
+  return reconciled;
+}
+
+/**
+ * Identify a relation by its tables and columns
+ */
+function getColumnsKey(relation: RelationDefinition): string {
+  return `${relation.fromTable}(${relation.fromColumns.join(",")})->${relation.toTable}(${relation.toColumns.join(",")})`;
+}
+
+/**
+ * Identify a relation by its tables and columns, seen from the other end
+ */
+function getReverseColumnsKey(relation: RelationDefinition): string {
+  return `${relation.toTable}(${relation.toColumns.join(",")})->${relation.fromTable}(${relation.fromColumns.join(",")})`;
+}
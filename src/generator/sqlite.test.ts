@@ -8,7 +8,9 @@ import {
   foreignKey,
   unique,
   index,
+  check,
 } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
 import { relations } from "drizzle-orm/_relations";
 import type { SchemaComments } from "../parser/comments";
 import { writeFileSync, mkdirSync, rmSync } from "node:fs";
@@ -25,7 +27,7 @@ describe("sqliteGenerate", () => {
     const dbml = sqliteGenerate({ schema: { users } });
 
     expect(dbml).toContain('Table "users" {');
-    expect(dbml).toContain('"id" integer [primary key, not null, increment]');
+    expect(dbml).toContain('"id" integer [primary key, not null]');
     expect(dbml).toContain('"name" text [not null]');
     expect(dbml).toContain('"email" text [unique]');
     expect(dbml).toContain("}");
@@ -68,20 +70,39 @@ describe("sqliteGenerate", () => {
     expect(dbml).toBe("");
   });
 
-  it("should identify INTEGER PRIMARY KEY as auto-increment in SQLite", () => {
+  it("should only mark AUTOINCREMENT primary keys as auto-increment in SQLite", () => {
     const users = sqliteTable("users", {
-      id: integer("id").primaryKey(),
+      id: integer("id").primaryKey({ autoIncrement: true }),
       count: integer("count"),
     });
+    const sessions = sqliteTable("sessions", {
+      // Aliases the rowid, whose values may be reused
+      id: integer("id").primaryKey(),
+    });
 
-    const dbml = sqliteGenerate({ schema: { users } });
+    const dbml = sqliteGenerate({ schema: { users, sessions } });
 
-    // Only the primary key integer should have increment
     expect(dbml).toContain('"id" integer [primary key, not null, increment]');
+    expect(dbml).toContain('"id" integer [primary key, not null]\n');
     expect(dbml).toContain('"count" integer');
     expect(dbml).not.toContain('"count" integer [increment]');
   });
 
+  it("should declare text enums and note column modes", () => {
+    const events = sqliteTable("events", {
+      status: text("status", { enum: ["pending", "done"] }).notNull(),
+      payload: text("payload", { mode: "json" }),
+      createdAt: integer("created_at", { mode: "timestamp" }),
+    });
+
+    const dbml = sqliteGenerate({ schema: { events } });
+
+    expect(dbml).toContain('Enum "events_status" {');
+    expect(dbml).toContain('"status" "events_status" [not null]');
+    expect(dbml).toContain(`"payload" text [note: 'Mode: json']`);
+    expect(dbml).toContain(`"created_at" integer [note: 'Mode: timestamp']`);
+  });
+
   it("should handle composite primary keys", () => {
     const userRoles = sqliteTable(
       "user_roles",
@@ -159,6 +180,77 @@ describe("sqliteGenerate", () => {
     expect(dbml).toContain("indexes {");
     expect(dbml).toContain('"email"');
   });
+
+  it("should handle partial and expression indexes", () => {
+    const users = sqliteTable(
+      "users",
+      {
+        id: integer("id").primaryKey(),
+        email: text("email"),
+        deletedAt: integer("deleted_at"),
+      },
+      (table) => [
+        index("active_email_idx")
+          .on(table.email)
+          .where(sql`${table.deletedAt} is null`),
+        index("email_lower_idx").on(sql`lower(${table.email})`),
+      ],
+    );
+
+    const dbml = sqliteGenerate({ schema: { users } });
+
+    expect(dbml).toContain(
+      `("email") [name: 'active_email_idx', note: 'CREATE INDEX active_email_idx ON users (email) WHERE (deleted_at is null)']`,
+    );
+    expect(dbml).toContain("(`lower(email)`) [name: 'email_lower_idx']");
+  });
+
+  it("should handle check constraints", () => {
+    const users = sqliteTable(
+      "users",
+      {
+        id: integer("id").primaryKey(),
+        name: text("name"),
+      },
+      (table) => [check("name_not_empty", sql`length(${table.name}) > 0`)],
+    );
+
+    const dbml = sqliteGenerate({ schema: { users } });
+
+    expect(dbml).toContain("checks {");
+    expect(dbml).toContain("`length(name) > 0` [name: 'name_not_empty']");
+  });
+
+  it("should describe generated columns in notes", () => {
+    const users = sqliteTable("users", {
+      email: text("email").notNull(),
+      emailLower: text("email_lower").generatedAlwaysAs(sql`lower(email)`, { mode: "stored" }),
+    });
+
+    const dbml = sqliteGenerate({ schema: { users } });
+
+    expect(dbml).toContain(
+      `"email_lower" text [note: 'GENERATED ALWAYS AS (lower(email)) STORED']`,
+    );
+  });
+
+  it("should generate views as annotated tables", async () => {
+    const { sqliteView } = await import("drizzle-orm/sqlite-core");
+
+    const users = sqliteTable("users", {
+      id: integer("id").primaryKey(),
+      name: text("name").notNull(),
+    });
+    const userNames = sqliteView("user_names").as((qb) =>
+      qb.select({ id: users.id, name: users.name }).from(users),
+    );
+
+    const dbml = sqliteGenerate({ schema: { users, userNames } });
+
+    expect(dbml).toContain('Table "user_names" {');
+    expect(dbml).toContain('"name" text [not null]');
+    expect(dbml).toContain(`Note: 'VIEW\\n\\nselect "id", "name" from "users"'`);
+  });
 });
 
 describe("sqliteGenerate with relations", () => {
@@ -1,7 +1,20 @@
-import type { AnyColumn } from "drizzle-orm";
+import { type AnyColumn, is } from "drizzle-orm";
+import { SQLiteText } from "drizzle-orm/sqlite-core";
 import { BaseGenerator, writeDbmlFile, type DialectConfig } from "./common";
 import type { GenerateOptions } from "../types";
 
+/**
+ * Modes of the SQLite column classes Drizzle picks for a `mode` option
+ * (integer columns keep their mode in a `mode` property instead)
+ */
+const COLUMN_TYPE_MODES: Record<string, string> = {
+  SQLiteTextJson: "json",
+  SQLiteBlobJson: "json",
+  SQLiteBigInt: "bigint",
+  SQLiteNumericNumber: "number",
+  SQLiteNumericBigInt: "bigint",
+};
+
 /**
  * SQLite-specific DBML generator
  *
@@ -13,10 +26,15 @@ export class SqliteGenerator<
 > extends BaseGenerator<TSchema> {
   protected dialectConfig: DialectConfig = {
     isIncrement: (column: AnyColumn) => {
-      // SQLite uses INTEGER PRIMARY KEY for autoincrement
-      const sqlType = column.getSQLType().toLowerCase();
-      return sqlType === "integer" && column.primary;
+      // Only AUTOINCREMENT (`primaryKey({ autoIncrement: true })`) guarantees ids are never reused.
+      // A plain INTEGER PRIMARY KEY is an alias for the rowid: it is filled in automatically,
+      // but may reuse the ids of deleted rows, so it is not marked as incrementing.
+      return (column as unknown as { autoIncrement?: boolean }).autoIncrement === true;
     },
+    getInlineEnumValues: (column: AnyColumn) =>
+      is(column, SQLiteText) ? column.enumValues : undefined,
+    getColumnMode: (column: AnyColumn) =>
+      (column as unknown as { mode?: string }).mode ?? COLUMN_TYPE_MODES[column.columnType],
   };
 }
 
@@ -9,7 +9,14 @@
 
 // Comment extraction from source files
 export { extractComments } from "./parser/comments";
-export type { SchemaComments, TableComment, ColumnComment } from "./parser/comments";
+export { loadCommentsFile, scaffoldCommentsFile } from "./parser/comments-file";
+export type {
+  SchemaComments,
+  TableComment,
+  ColumnComment,
+  CommentMetadata,
+  CommentSource,
+} from "./parser/comments";
 
 // DBML generators
 export { pgGenerate, PgGenerator } from "./generator/pg";
@@ -18,6 +25,10 @@ export { sqliteGenerate, SqliteGenerator } from "./generator/sqlite";
 export { BaseGenerator, writeDbmlFile } from "./generator/common";
 export { DbmlBuilder } from "./formatter/dbml-builder";
 
+// Configuration file
+export { defineConfig } from "./config/config";
+export type { DrizzleDocsConfig, OutputConfig, OutputFormat } from "./config/types";
+
 // Types
 export type { GenerateOptions, GeneratedRef } from "./types";
 
@@ -25,13 +36,24 @@ export type { GenerateOptions, GeneratedRef } from "./types";
 export type {
   DatabaseType,
   ColumnDefinition,
+  DataTypeDefinition,
+  GeneratedColumnDefinition,
+  SequenceOptions,
+  IdentityDefinition,
   IndexDefinition,
+  IndexPart,
   ConstraintType,
   ConstraintDefinition,
   TableDefinition,
+  ViewDefinition,
   IntermediateRelationType,
+  RelationOrigin,
+  RelationThrough,
   RelationDefinition,
   EnumDefinition,
+  PolicyDefinition,
+  SequenceDefinition,
+  RoleDefinition,
   IntermediateSchema,
 } from "./types";
 
@@ -39,6 +61,29 @@ export type {
 export { DbmlFormatter } from "./formatter/dbml";
 export { MarkdownFormatter } from "./formatter/markdown";
 export { MermaidErDiagramFormatter } from "./formatter/mermaid";
+export { HtmlFormatter, MERMAID_SCRIPT_PATH } from "./formatter/html";
+export { JsonFormatter, JSON_FORMAT_VERSION } from "./formatter/json";
 export type { OutputFormatter, FormatterOptions } from "./formatter/types";
 export type { MarkdownFormatterOptions } from "./formatter/markdown";
 export type { MermaidFormatterOptions } from "./formatter/mermaid";
+export type { HtmlFormatterOptions } from "./formatter/html";
+export type { JsonFormatterOptions, JsonSchemaDocument } from "./formatter/json";
+
+// Schema diff
+export { diffSchemas, hasChanges } from "./diff/schema-diff";
+export { MarkdownDiffReporter } from "./diff/markdown-reporter";
+export { JsonDiffReporter } from "./diff/json-reporter";
+export { TextDiffReporter } from "./diff/text-reporter";
+export type { JsonDiffReporterOptions } from "./diff/json-reporter";
+export type {
+  ChangeKind,
+  PropertyChange,
+  ColumnDiff,
+  IndexDiff,
+  ConstraintDiff,
+  TableDiff,
+  RelationDiff,
+  EnumDiff,
+  SchemaDiff,
+  DiffReporter,
+} from "./diff/types";
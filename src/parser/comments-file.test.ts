@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { loadCommentsFile, scaffoldCommentsFile } from "./comments-file";
+import type { IntermediateSchema } from "../types";
+import { writeFileSync, mkdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+
+const TEST_DIR = join(import.meta.dirname, "__test_fixtures_comments_file__");
+
+beforeAll(() => {
+  mkdirSync(TEST_DIR, { recursive: true });
+});
+
+afterAll(() => {
+  rmSync(TEST_DIR, { recursive: true, force: true });
+});
+
+describe("loadCommentsFile", () => {
+  it("should load table comments and normalize column comments", () => {
+    const filePath = join(TEST_DIR, "comments.json");
+    writeFileSync(
+      filePath,
+      JSON.stringify({
+        tables: {
+          users: {
+            comment: "Registered users",
+            columns: { email: "Login email", name: { comment: "Display name" } },
+          },
+          "billing.invoices": { columns: {} },
+          tags: {},
+        },
+      }),
+    );
+
+    expect(loadCommentsFile(filePath)).toEqual({
+      tables: {
+        users: {
+          comment: "Registered users",
+          columns: { email: { comment: "Login email" }, name: { comment: "Display name" } },
+        },
+        "billing.invoices": { comment: undefined, columns: {} },
+        tags: { comment: undefined, columns: {} },
+      },
+    });
+  });
+
+  it("should load tags, owners and deprecations from a YAML file", () => {
+    const filePath = join(TEST_DIR, "comments.yaml");
+    writeFileSync(
+      filePath,
+      [
+        "tables:",
+        "  users:",
+        "    comment: Registered users",
+        "    owners: identity-team",
+        "    tags: [core, accounts]",
+        "    deprecated: true",
+        "    columns:",
+        "      email:",
+        "        comment: ''",
+        "        tags: [pii]",
+        "        deprecated: Use login instead",
+        "      name:",
+        "      nickname: Display name",
+        "",
+      ].join("\n"),
+    );
+
+    expect(loadCommentsFile(filePath)).toEqual({
+      tables: {
+        users: {
+          comment: "Registered users",
+          owners: ["identity-team"],
+          tags: ["core", "accounts"],
+          deprecated: "",
+          columns: {
+            email: { tags: ["pii"], deprecated: "Use login instead" },
+            nickname: { comment: "Display name" },
+          },
+        },
+      },
+    });
+  });
+
+  it("should reject invalid tags, owners and deprecations", () => {
+    const invalidTags = join(TEST_DIR, "invalid-tags.yaml");
+    writeFileSync(invalidTags, "tables:\n  users:\n    tags: [1]\n");
+    const invalidDeprecated = join(TEST_DIR, "invalid-deprecated.json");
+    writeFileSync(
+      invalidDeprecated,
+      JSON.stringify({ tables: { users: { columns: { id: { deprecated: 1 } } } } }),
+    );
+
+    expect(() => loadCommentsFile(invalidTags)).toThrow(
+      '"tables.users.tags" must be a string or a list of strings',
+    );
+    expect(() => loadCommentsFile(invalidDeprecated)).toThrow(
+      '"tables.users.columns.id.deprecated" must be a boolean or a string',
+    );
+  });
+
+  it("should throw when the file does not exist", () => {
+    expect(() => loadCommentsFile(join(TEST_DIR, "missing.json"))).toThrow(
+      "Comments file not found",
+    );
+  });
+
+  it("should reject invalid JSON and invalid shapes", () => {
+    const invalidJson = join(TEST_DIR, "invalid.json");
+    writeFileSync(invalidJson, "{ tables: ");
+    const missingTables = join(TEST_DIR, "missing-tables.json");
+    writeFileSync(missingTables, JSON.stringify({ users: {} }));
+    const invalidColumn = join(TEST_DIR, "invalid-column.json");
+    writeFileSync(invalidColumn, JSON.stringify({ tables: { users: { columns: { id: 1 } } } }));
+
+    expect(() => loadCommentsFile(invalidJson)).toThrow("Invalid comments file");
+    expect(() => loadCommentsFile(missingTables)).toThrow('"tables" must be an object');
+    expect(() => loadCommentsFile(invalidColumn)).toThrow(
+      '"tables.users.columns.id" must be a string or { comment }',
+    );
+  });
+});
+
+describe("scaffoldCommentsFile", () => {
+  const schema: IntermediateSchema = {
+    databaseType: "postgresql",
+    tables: [
+      {
+        name: "invoices",
+        schema: "billing",
+        comment: "Invoices",
+        columns: [{ name: "id", type: "serial", nullable: false, primaryKey: true, unique: false }],
+        indexes: [],
+        constraints: [],
+      },
+    ],
+    views: [
+      {
+        name: "active_invoices",
+        materialized: false,
+        columns: [
+          { name: "id", type: "integer", nullable: true, primaryKey: false, unique: false },
+        ],
+      },
+    ],
+    enums: [],
+    relations: [],
+  };
+
+  it("should scaffold empty placeholders as YAML", () => {
+    expect(scaffoldCommentsFile(schema, "docs/db.yaml")).toBe(
+      [
+        "tables:",
+        "  billing.invoices:",
+        '    comment: ""',
+        "    owners: []",
+        "    tags: []",
+        "    columns:",
+        "      id:",
+        '        comment: ""',
+        "        tags: []",
+        "  active_invoices:",
+        '    comment: ""',
+        "    owners: []",
+        "    tags: []",
+        "    columns:",
+        "      id:",
+        '        comment: ""',
+        "        tags: []",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should scaffold JSON that loads without any comments", () => {
+    const filePath = join(TEST_DIR, "scaffold.json");
+    writeFileSync(filePath, scaffoldCommentsFile(schema, filePath));
+
+    expect(loadCommentsFile(filePath)).toEqual({
+      tables: {
+        "billing.invoices": { columns: { id: {} } },
+        active_invoices: { columns: { id: {} } },
+      },
+    });
+  });
+});
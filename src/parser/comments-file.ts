@@ -0,0 +1,201 @@
+import { existsSync, readFileSync } from "node:fs";
+import { extname, resolve } from "node:path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import type { ColumnComment, SchemaComments, TableComment } from "./comments";
+import type { IntermediateSchema } from "../types";
+import { qualifyName } from "../utils/table-name";
+
+/**
+ * Load table and column comments from an external YAML or JSON file
+ *
+ * Files ending in `.yaml` or `.yml` are read as YAML, anything else as JSON. The file
+ * uses the same shape as {@link extractComments}, keyed by table name (schema-qualified
+ * for tables in a schema), and may also give tags, owners and deprecation notes:
+ *
+ * ```yaml
+ * tables:
+ *   users:
+ *     comment: Registered users
+ *     owners: [identity-team]
+ *     tags: [core]
+ *     columns:
+ *       email: Login email
+ *       legacy_name:
+ *         comment: Display name
+ *         tags: [pii]
+ *         deprecated: Use display_name instead
+ * ```
+ *
+ * Column comments may be given as plain strings, `owners` and `tags` as a single
+ * string, and `deprecated` as `true` when there is no note. Empty values (`""`, `[]`,
+ * `null`) are ignored, so a file scaffolded by {@link scaffoldCommentsFile} can be
+ * filled in gradually.
+ *
+ * @param filePath - Path to the comments file
+ * @returns The comments, normalized to {@link SchemaComments}
+ */
+export function loadCommentsFile(filePath: string): SchemaComments {
+  const absolutePath = resolve(filePath);
+  if (!existsSync(absolutePath)) {
+    throw new Error(`Comments file not found: ${absolutePath}`);
+  }
+
+  let value: unknown;
+  try {
+    const content = readFileSync(absolutePath, "utf-8");
+    value = isYamlFile(absolutePath) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid comments file ${absolutePath}: ${message}`);
+  }
+  return parseSchemaComments(value, absolutePath);
+}
+
+/**
+ * Create a comments file with empty placeholders for every table, view and column
+ *
+ * @param schema - The intermediate schema to scaffold the file from
+ * @param filePath - Path of the file to create; `.yaml` and `.yml` files are written as YAML,
+ *   anything else as JSON
+ * @returns The file content
+ */
+export function scaffoldCommentsFile(schema: IntermediateSchema, filePath: string): string {
+  const tables: Record<string, unknown> = {};
+  for (const table of [...schema.tables, ...(schema.views ?? [])]) {
+    tables[qualifyName(table.name, table.schema)] = {
+      comment: "",
+      owners: [],
+      tags: [],
+      columns: Object.fromEntries(
+        table.columns.map((column) => [column.name, { comment: "", tags: [] }]),
+      ),
+    };
+  }
+
+  const content = { tables };
+  return isYamlFile(filePath) ? stringifyYaml(content) : JSON.stringify(content, null, 2) + "\n";
+}
+
+/**
+ * Check whether a comments file is written in YAML
+ */
+function isYamlFile(filePath: string): boolean {
+  return [".yaml", ".yml"].includes(extname(filePath).toLowerCase());
+}
+
+/**
+ * Validate and normalize the contents of a comments file
+ */
+function parseSchemaComments(value: unknown, filePath: string): SchemaComments {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid comments file ${filePath}: ${message}`);
+  };
+
+  if (!isRecord(value) || !isRecord(value.tables)) {
+    return fail('"tables" must be an object');
+  }
+
+  const tables: Record<string, TableComment> = {};
+  for (const [tableName, table] of Object.entries(value.tables)) {
+    const path = `tables.${tableName}`;
+    if (!isRecord(table)) {
+      return fail(`"${path}" must be an object`);
+    }
+    if (table.columns != null && !isRecord(table.columns)) {
+      fail(`"${path}.columns" must be an object`);
+    }
+
+    const columns: Record<string, ColumnComment> = {};
+    for (const [columnName, column] of Object.entries(table.columns ?? {})) {
+      const columnPath = `${path}.columns.${columnName}`;
+      if (column == null) {
+        continue;
+      }
+      if (typeof column === "string") {
+        columns[columnName] = { comment: parseText(column, columnPath, fail) };
+        continue;
+      }
+      if (!isRecord(column)) {
+        return fail(`"${columnPath}" must be a string or { comment }`);
+      }
+      columns[columnName] = {
+        comment: parseText(column.comment, `${columnPath}.comment`, fail),
+        tags: parseList(column.tags, `${columnPath}.tags`, fail),
+        deprecated: parseDeprecated(column.deprecated, `${columnPath}.deprecated`, fail),
+      };
+    }
+
+    tables[tableName] = {
+      comment: parseText(table.comment, `${path}.comment`, fail),
+      tags: parseList(table.tags, `${path}.tags`, fail),
+      owners: parseList(table.owners, `${path}.owners`, fail),
+      deprecated: parseDeprecated(table.deprecated, `${path}.deprecated`, fail),
+      columns,
+    };
+  }
+
+  return { tables };
+}
+
+/**
+ * Parse an optional text value, treating empty text as absent
+ */
+function parseText(
+  value: unknown,
+  path: string,
+  fail: (message: string) => never,
+): string | undefined {
+  if (value == null || value === "") {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    return fail(`"${path}" must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Parse a string or list of strings, treating an empty list as absent
+ */
+function parseList(
+  value: unknown,
+  path: string,
+  fail: (message: string) => never,
+): string[] | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : [value];
+  if (!items.every((item) => typeof item === "string")) {
+    return fail(`"${path}" must be a string or a list of strings`);
+  }
+  const list = items.filter((item) => item !== "");
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Parse a deprecation: `true`, or the deprecation note
+ */
+function parseDeprecated(
+  value: unknown,
+  path: string,
+  fail: (message: string) => never,
+): string | undefined {
+  if (value == null || value === false || value === "") {
+    return undefined;
+  }
+  if (value === true) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    return fail(`"${path}" must be a boolean or a string`);
+  }
+  return value;
+}
+
+/**
+ * Check whether a value is a non-array object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -208,6 +208,58 @@ export const configs = pgTable("configs", {
 
       expect(comments.tables.configs.comment).toBe("Configuration table");
     });
+
+    it("should extract structured tags", () => {
+      const schemaCode = `
+import { pgTable, serial, text } from "drizzle-orm/pg-core";
+
+/**
+ * Users table
+ * @deprecated Use accounts table instead
+ * @owner identity-team
+ * @see https://example.com/users
+ * @example
+ * const user = await db.select().from(users);
+ *   // indented
+ * @since 2.0
+ */
+export const users = pgTable("users", {
+  /**
+   * Email address
+   * @pii
+   * @deprecated
+   * @owner growth
+   * @type {string}
+   */
+  email: text("email"),
+  /** @see legacyEmail */
+  name: text("name"),
+  /** @param unused */
+  id: serial("id").primaryKey(),
+});
+`;
+      const filePath = join(TEST_DIR, "jsdoc-structured-tags.ts");
+      writeFileSync(filePath, schemaCode);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.users).toEqual({
+        comment: "Users table",
+        deprecated: "Use accounts table instead",
+        owners: ["identity-team"],
+        see: ["https://example.com/users"],
+        examples: ["const user = await db.select().from(users);\n  // indented"],
+        customTags: [{ name: "since", text: "2.0" }],
+        columns: {
+          email: {
+            comment: "Email address",
+            deprecated: "",
+            customTags: [{ name: "pii" }, { name: "owner", text: "growth" }],
+          },
+          name: { comment: undefined, see: ["legacyEmail"] },
+        },
+      });
+    });
   });
 
   describe("Single-line comments (// ...)", () => {
@@ -323,6 +375,125 @@ export const users = sqliteTable("users", {
     });
   });
 
+  describe("Database schemas", () => {
+    it("should key tables declared on a pgSchema by their qualified name", () => {
+      const schemaCode = `
+import { pgSchema, serial } from "drizzle-orm/pg-core";
+
+const billing = pgSchema("billing");
+
+/** Issued invoices */
+export const invoices = billing.table("invoices", {
+  /** Invoice ID */
+  id: serial("id").primaryKey(),
+});
+`;
+      const filePath = join(TEST_DIR, "pg-schema-table.ts");
+      writeFileSync(filePath, schemaCode);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables["billing.invoices"]?.comment).toBe("Issued invoices");
+      expect(comments.tables["billing.invoices"]?.columns.id?.comment).toBe("Invoice ID");
+      expect(comments.tables.invoices).toBeUndefined();
+    });
+
+    it("should resolve schemas declared in another file of the directory", () => {
+      const dirPath = join(TEST_DIR, "pg-schema-dir");
+      mkdirSync(dirPath, { recursive: true });
+      writeFileSync(
+        join(dirPath, "schemas.ts"),
+        `
+import { mysqlSchema } from "drizzle-orm/mysql-core";
+
+export const analytics = mysqlSchema("analytics");
+`,
+      );
+      writeFileSync(
+        join(dirPath, "events.ts"),
+        `
+import { serial } from "drizzle-orm/mysql-core";
+import { analytics } from "./schemas";
+
+/** Tracked events */
+export const events = analytics.table("events", {
+  id: serial("id").primaryKey(),
+});
+`,
+      );
+
+      const comments = extractComments(dirPath);
+
+      expect(comments.tables["analytics.events"]?.comment).toBe("Tracked events");
+    });
+  });
+
+  describe("Views", () => {
+    it("should extract comments from views defined with a query builder", () => {
+      const schemaCode = `
+import { pgTable, pgView, pgSchema, serial } from "drizzle-orm/pg-core";
+
+const reporting = pgSchema("reporting");
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+});
+
+/** Recently active users */
+export const activeUsers = pgView("active_users").as((qb) => qb.select().from(users));
+
+/** Users in the reporting schema */
+export const reportUsers = reporting.view("report_users").as((qb) => qb.select().from(users));
+`;
+      const filePath = join(TEST_DIR, "views.ts");
+      writeFileSync(filePath, schemaCode);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.active_users?.comment).toBe("Recently active users");
+      expect(comments.tables["reporting.report_users"]?.comment).toBe(
+        "Users in the reporting schema",
+      );
+    });
+
+    it("should extract column comments from views with explicit columns", () => {
+      const schemaCode = `
+import { integer, pgMaterializedView } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/** User count snapshot */
+export const userCounts = pgMaterializedView("user_counts", {
+  /** Number of users */
+  total: integer("total"),
+}).as(sql\`select count(*) as total from users\`);
+`;
+      const filePath = join(TEST_DIR, "materialized-view.ts");
+      writeFileSync(filePath, schemaCode);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.user_counts?.comment).toBe("User count snapshot");
+      expect(comments.tables.user_counts?.columns.total?.comment).toBe("Number of users");
+    });
+
+    it("should extract comments from tables with chained calls", () => {
+      const schemaCode = `
+import { pgTable, serial } from "drizzle-orm/pg-core";
+
+/** Tenant-scoped documents */
+export const documents = pgTable("documents", {
+  id: serial("id").primaryKey(),
+}).enableRLS();
+`;
+      const filePath = join(TEST_DIR, "chained-table.ts");
+      writeFileSync(filePath, schemaCode);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.documents?.comment).toBe("Tenant-scoped documents");
+    });
+  });
+
   describe("Multiple tables", () => {
     it("should extract comments from multiple tables", () => {
       const schemaCode = `
@@ -353,6 +524,118 @@ export const posts = pgTable("posts", {
     });
   });
 
+  describe("Shared columns and imports", () => {
+    it("should follow spreads of shared column objects and helpers from other files", () => {
+      const dir = join(TEST_DIR, "shared-columns");
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(
+        join(dir, "columns.ts"),
+        `
+import { serial, text, timestamp } from "drizzle-orm/pg-core";
+
+export const timestamps = {
+  /** Creation time */
+  createdAt: timestamp("created_at").defaultNow(),
+  /** Last update time */
+  updatedAt: timestamp("updated_at"),
+} satisfies Record<string, unknown>;
+
+export function auditColumns() {
+  return {
+    /** User who made the last change */
+    updatedBy: text("updated_by"),
+  };
+}
+
+export const primaryId = () => serial("id").primaryKey();
+`,
+      );
+      writeFileSync(
+        join(dir, "index.ts"),
+        `
+export { timestamps, auditColumns, primaryId } from "./columns";
+`,
+      );
+      const filePath = join(dir, "schema.ts");
+      writeFileSync(
+        filePath,
+        `
+import { pgTable, text } from "drizzle-orm/pg-core";
+import * as shared from "./index.js";
+import { auditColumns, primaryId } from "./index";
+
+/** Documents */
+export const documents = pgTable("documents", {
+  /** Document ID */
+  id: primaryId(),
+  /** Document title */
+  title: text("title"),
+  ...shared.timestamps,
+  ...auditColumns(),
+});
+`,
+      );
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.documents.columns).toEqual({
+        id: { comment: "Document ID" },
+        title: { comment: "Document title" },
+        created_at: { comment: "Creation time" },
+        updated_at: { comment: "Last update time" },
+        updated_by: { comment: "User who made the last change" },
+      });
+    });
+
+    it("should read tables from re-exported files and satisfies wrappers", () => {
+      const dir = join(TEST_DIR, "re-exported-tables");
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(
+        join(dir, "users.ts"),
+        `
+import { pgTable, serial } from "drizzle-orm/pg-core";
+
+const userColumns = {
+  /** User ID */
+  id: serial("id").primaryKey(),
+};
+
+/** User accounts */
+export const users = pgTable("users", userColumns satisfies object) satisfies object;
+`,
+      );
+      const filePath = join(dir, "index.ts");
+      writeFileSync(filePath, `export * from "./users.js";\n`);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.users).toEqual({
+        comment: "User accounts",
+        columns: { id: { comment: "User ID" } },
+      });
+    });
+
+    it("should ignore spreads that cannot be resolved", () => {
+      const schemaCode = `
+import { pgTable, serial } from "drizzle-orm/pg-core";
+import { timestamps } from "some-package";
+
+export const users = pgTable("users", {
+  /** User ID */
+  id: serial("id").primaryKey(),
+  ...timestamps,
+  ...(Math.random() > 0.5 ? {} : {}),
+});
+`;
+      const filePath = join(TEST_DIR, "unresolved-spread.ts");
+      writeFileSync(filePath, schemaCode);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.users.columns).toEqual({ id: { comment: "User ID" } });
+    });
+  });
+
   describe("Edge cases", () => {
     it("should return empty for tables without comments", () => {
       const schemaCode = `
@@ -393,6 +676,29 @@ export const users = pgTable("users", {
       expect(comments.tables.users.columns.email?.comment).toBe("Email with multiple chains");
     });
 
+    it("should handle columns wrapped in a helper call", () => {
+      const schemaCode = `
+import { mysqlTable, int, varchar } from "drizzle-orm/mysql-core";
+import { withComment } from "./helpers";
+
+export const users = mysqlTable("users", {
+  /** Wrapped ID */
+  id: withComment(int("id").primaryKey(), "Identifier"),
+  /** Wrapped name with a type assertion */
+  name: withComment(varchar("name", { length: 50 }) as never, "Name"),
+});
+`;
+      const filePath = join(TEST_DIR, "helper-wrapped.ts");
+      writeFileSync(filePath, schemaCode);
+
+      const comments = extractComments(filePath);
+
+      expect(comments.tables.users.columns.id?.comment).toBe("Wrapped ID");
+      expect(comments.tables.users.columns.name?.comment).toBe(
+        "Wrapped name with a type assertion",
+      );
+    });
+
     it("should handle special characters in comments", () => {
       const schemaCode = `
 import { pgTable, serial } from "drizzle-orm/pg-core";
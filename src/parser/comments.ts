@@ -1,19 +1,49 @@
 import * as ts from "typescript";
-import { readFileSync, statSync, readdirSync } from "node:fs";
-import { join } from "node:path";
+import { statSync, readdirSync } from "node:fs";
+import { dirname, join, resolve, sep } from "node:path";
+
+/**
+ * A JSDoc tag without a dedicated field (e.g., `@pii` or `@since 2.0`)
+ */
+export interface CustomTag {
+  /** Tag name without the leading `@` (e.g., "pii") */
+  name: string;
+  /** Text following the tag name, if any */
+  text?: string;
+}
+
+/**
+ * Documentation metadata of a table or column beyond its description
+ */
+export interface CommentMetadata {
+  /** Labels or tags (e.g., "pii", "billing") */
+  tags?: string[];
+  /** Deprecation note (`@deprecated`); an empty string marks a deprecation without a note */
+  deprecated?: string;
+  /** Usage examples (`@example`) */
+  examples?: string[];
+  /** References (`@see`) */
+  see?: string[];
+  /** Other JSDoc tags, in source order */
+  customTags?: CustomTag[];
+}
 
 /**
  * Comments for a single column
+ *
+ * Columns from a comments file may only carry metadata, without a comment.
  */
-export interface ColumnComment {
-  comment: string;
+export interface ColumnComment extends CommentMetadata {
+  comment?: string;
 }
 
 /**
  * Comments for a single table
  */
-export interface TableComment {
+export interface TableComment extends CommentMetadata {
   comment?: string;
+  /** Owning teams or people (`@owner`) */
+  owners?: string[];
   columns: Record<string, ColumnComment>;
 }
 
@@ -24,6 +54,46 @@ export interface SchemaComments {
   tables: Record<string, TableComment>;
 }
 
+/**
+ * Where a table or column comment comes from
+ *
+ * - `runtime`: the column's own comment (e.g., a MySQL column `comment` set through a helper)
+ * - `jsdoc`: JSDoc comments in the schema source
+ * - `file`: an external comments file
+ */
+export type CommentSource = "runtime" | "jsdoc" | "file";
+
+/**
+ * A JSDoc comment split into its description and tags
+ */
+interface ParsedJsDoc {
+  description: string;
+  tags: CustomTag[];
+}
+
+/**
+ * State shared while extracting comments from a schema program
+ */
+interface ExtractionContext {
+  /** Type checker used to resolve identifiers across files */
+  checker: ts.TypeChecker;
+  /** Variables holding schema objects, mapped to the schema name */
+  schemaVariables: Map<string, string>;
+}
+
+/**
+ * JSDoc tags that describe TypeScript types or functions rather than the schema
+ */
+const IGNORED_JSDOC_TAGS = new Set([
+  "param",
+  "returns",
+  "return",
+  "type",
+  "typedef",
+  "template",
+  "throws",
+]);
+
 /**
  * Get all TypeScript files from a path (file or directory)
  */
@@ -58,46 +128,108 @@ function getTypeScriptFiles(sourcePath: string): string[] {
  *
  * Parses TypeScript source files and extracts:
  * - JSDoc comments on table definitions (e.g., pgTable, mysqlTable, sqliteTable)
- * - JSDoc comments on column definitions within tables
+ * - JSDoc comments on view definitions (e.g., pgView, pgMaterializedView, mysqlView, sqliteView),
+ *   which share the table namespace
+ * - JSDoc comments on column definitions within tables (and views with explicit columns)
+ *
+ * Tables declared through a schema object (e.g., `billing.table("invoices", ...)` where
+ * `billing = pgSchema("billing")`) are keyed by their qualified name ("billing.invoices").
+ *
+ * The files are loaded into a TypeScript program together with the local files they
+ * import, so that tables re-exported from other files are found and column comments are
+ * resolved through spreads of shared column objects (`...timestamps`), helper functions
+ * (`...auditColumns()`, `id: primaryId()`) and `satisfies` wrappers.
  *
  * @param sourcePath - Path to the TypeScript schema file or directory
  * @returns Extracted comments organized by table and column
  */
 export function extractComments(sourcePath: string): SchemaComments {
   const comments: SchemaComments = { tables: {} };
-  const files = getTypeScriptFiles(sourcePath);
-
-  for (const filePath of files) {
-    const sourceCode = readFileSync(filePath, "utf-8");
-    const sourceFile = ts.createSourceFile(filePath, sourceCode, ts.ScriptTarget.Latest, true);
+  const program = createSchemaProgram(getTypeScriptFiles(sourcePath));
+  const sourceFiles = program
+    .getSourceFiles()
+    .filter((sourceFile) => !sourceFile.isDeclarationFile);
+
+  // Collect schema variables first so that tables can reference schemas declared in other files
+  const schemaVariables = new Map<string, string>();
+  for (const sourceFile of sourceFiles) {
+    collectSchemaVariables(sourceFile, schemaVariables);
+  }
 
+  const context: ExtractionContext = { checker: program.getTypeChecker(), schemaVariables };
+  for (const sourceFile of sourceFiles) {
     // Visit all nodes in the source file
-    visitNode(sourceFile, sourceFile, comments);
+    visitNode(sourceFile, comments, context);
   }
 
   return comments;
 }
 
+/**
+ * Create a TypeScript program for the schema files and the local files they import
+ *
+ * Files under node_modules and the default library are left out: only declarations in
+ * the schema's own files need to be resolved, and loading drizzle-orm's types is slow.
+ * Only node_modules below the schema files' directories count, so a schema that itself
+ * lives under node_modules (such as a git ref checked out by `diff`) is still read.
+ */
+export function createSchemaProgram(rootNames: string[]): ts.Program {
+  const options: ts.CompilerOptions = {
+    noLib: true,
+    noEmit: true,
+    types: [],
+    target: ts.ScriptTarget.Latest,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    allowImportingTsExtensions: true,
+  };
+  const rootDirs = [...new Set(rootNames.map((name) => dirname(resolve(name))))];
+  const isDependency = (fileName: string) => {
+    const path = resolve(fileName);
+    const rootDir = rootDirs.find((dir) => path.startsWith(dir + sep));
+    return (rootDir ? path.slice(rootDir.length) : path).split(/[\\/]/).includes("node_modules");
+  };
+  const host = ts.createCompilerHost(options, true);
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (fileName, ...args) =>
+    isDependency(fileName) ? undefined : getSourceFile(fileName, ...args);
+
+  return ts.createProgram({ rootNames, options, host });
+}
+
+/**
+ * Recursively collect variables holding schema objects
+ * (e.g., `const billing = pgSchema("billing")`), mapping variable name to schema name
+ */
+function collectSchemaVariables(node: ts.Node, schemaVariables: Map<string, string>): void {
+  if (
+    ts.isVariableDeclaration(node) &&
+    ts.isIdentifier(node.name) &&
+    node.initializer &&
+    ts.isCallExpression(node.initializer) &&
+    isSchemaDefinitionFunction(getCallExpressionName(node.initializer))
+  ) {
+    const schemaNameArg = node.initializer.arguments[0];
+    if (schemaNameArg && ts.isStringLiteral(schemaNameArg)) {
+      schemaVariables.set(node.name.text, schemaNameArg.text);
+    }
+  }
+
+  ts.forEachChild(node, (child) => collectSchemaVariables(child, schemaVariables));
+}
+
 /**
  * Recursively visit AST nodes to find table and column definitions
  */
-function visitNode(node: ts.Node, sourceFile: ts.SourceFile, comments: SchemaComments): void {
+function visitNode(node: ts.Node, comments: SchemaComments, context: ExtractionContext): void {
   // Look for variable declarations that define tables
   if (ts.isVariableStatement(node)) {
-    const jsDocComment = getJsDocComment(node, sourceFile);
+    const jsDocComment = getJsDocComment(node);
 
     for (const declaration of node.declarationList.declarations) {
-      if (
-        ts.isIdentifier(declaration.name) &&
-        declaration.initializer &&
-        ts.isCallExpression(declaration.initializer)
-      ) {
-        const tableInfo = parseTableDefinition(
-          declaration.name.text,
-          declaration.initializer,
-          sourceFile,
-          jsDocComment,
-        );
+      const initializer = declaration.initializer && skipOuterExpressions(declaration.initializer);
+      if (ts.isIdentifier(declaration.name) && initializer && ts.isCallExpression(initializer)) {
+        const tableInfo = parseTableDefinition(initializer, jsDocComment, context);
         if (tableInfo) {
           comments.tables[tableInfo.tableName] = tableInfo.tableComment;
         }
@@ -105,58 +237,170 @@ function visitNode(node: ts.Node, sourceFile: ts.SourceFile, comments: SchemaCom
     }
   }
 
-  ts.forEachChild(node, (child) => visitNode(child, sourceFile, comments));
+  ts.forEachChild(node, (child) => visitNode(child, comments, context));
 }
 
 /**
- * Parse a table definition call expression (e.g., pgTable("users", { ... }))
+ * Parse a table or view definition call expression
+ * (e.g., pgTable("users", { ... }), billing.table("invoices", { ... }) or
+ * pgView("active_users").as(...))
  */
 function parseTableDefinition(
-  _variableName: string,
-  callExpr: ts.CallExpression,
-  sourceFile: ts.SourceFile,
-  tableJsDoc: string | undefined,
+  initializer: ts.CallExpression,
+  tableJsDoc: ParsedJsDoc | undefined,
+  context: ExtractionContext,
 ): { tableName: string; tableComment: TableComment } | undefined {
-  const funcName = getCallExpressionName(callExpr);
-
-  // Check if this is a table definition function
-  if (!isTableDefinitionFunction(funcName)) {
+  // Find the definition call underneath chained calls like .as(...) or .enableRLS()
+  const callExpr = findDefinitionCall(initializer, context.schemaVariables);
+  if (!callExpr) {
     return undefined;
   }
+  const schemaName = getSchemaTableCallSchema(callExpr, context.schemaVariables);
 
   // Get table name from first argument
   const tableNameArg = callExpr.arguments[0];
   if (!tableNameArg || !ts.isStringLiteral(tableNameArg)) {
     return undefined;
   }
-  const tableName = tableNameArg.text;
+  const tableName = schemaName ? `${schemaName}.${tableNameArg.text}` : tableNameArg.text;
 
   // Get column definitions from second argument
   const columnsArg = callExpr.arguments[1];
   const columnComments: Record<string, ColumnComment> = {};
 
-  if (columnsArg && ts.isObjectLiteralExpression(columnsArg)) {
-    for (const property of columnsArg.properties) {
-      if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.name)) {
-        const columnName = extractColumnName(property.initializer);
-        const columnJsDoc = getJsDocComment(property, sourceFile);
+  for (const property of columnsArg ? collectColumnProperties(columnsArg, context.checker) : []) {
+    const columnName = extractColumnName(property.initializer, context.checker);
+    const columnJsDoc = getJsDocComment(property);
+    const metadata = toCommentMetadata(columnJsDoc?.tags ?? [], "column");
 
-        if (columnName && columnJsDoc) {
-          columnComments[columnName] = { comment: columnJsDoc };
-        }
-      }
+    if (columnName && (columnJsDoc?.description || Object.keys(metadata).length > 0)) {
+      columnComments[columnName] = {
+        comment: columnJsDoc?.description || undefined,
+        ...metadata,
+      };
     }
   }
 
   return {
     tableName,
     tableComment: {
-      comment: tableJsDoc,
+      comment: tableJsDoc?.description,
+      ...toCommentMetadata(tableJsDoc?.tags ?? [], "table"),
       columns: columnComments,
     },
   };
 }
 
+/**
+ * Collect the column properties of a table's columns object
+ *
+ * Follows spreads of shared column objects (e.g., `...timestamps`) and of helper calls
+ * returning them (e.g., `...auditColumns()`), also when they are imported from other files.
+ */
+function collectColumnProperties(
+  expr: ts.Expression,
+  checker: ts.TypeChecker,
+  seen = new Set<ts.Node>(),
+): ts.PropertyAssignment[] {
+  const value = resolveValueExpression(expr, checker);
+  if (!value || !ts.isObjectLiteralExpression(value) || seen.has(value)) {
+    return [];
+  }
+  seen.add(value);
+
+  const properties: ts.PropertyAssignment[] = [];
+  for (const property of value.properties) {
+    if (ts.isPropertyAssignment(property)) {
+      properties.push(property);
+    } else if (ts.isSpreadAssignment(property)) {
+      properties.push(...collectColumnProperties(property.expression, checker, seen));
+    }
+  }
+  return properties;
+}
+
+/**
+ * Resolve an expression to the expression it evaluates to, where that is statically known
+ *
+ * Variables are followed to their initializer and helper calls to their returned
+ * expression, across imports. Other expressions are returned as they are.
+ */
+function resolveValueExpression(
+  expr: ts.Expression,
+  checker: ts.TypeChecker,
+  seen = new Set<ts.Node>(),
+): ts.Expression | undefined {
+  const current = skipOuterExpressions(expr);
+  if (seen.has(current)) {
+    return undefined;
+  }
+  seen.add(current);
+
+  if (ts.isIdentifier(current) || ts.isPropertyAccessExpression(current)) {
+    const declaration = resolveDeclaration(current, checker);
+    return declaration && ts.isVariableDeclaration(declaration) && declaration.initializer
+      ? resolveValueExpression(declaration.initializer, checker, seen)
+      : undefined;
+  }
+  if (ts.isCallExpression(current)) {
+    const returned = getReturnedExpression(current, checker);
+    return returned ? resolveValueExpression(returned, checker, seen) : undefined;
+  }
+  return current;
+}
+
+/**
+ * Resolve an identifier or property access (e.g., `timestamps` or `shared.timestamps`)
+ * to its declaration, following imports and re-exports
+ */
+function resolveDeclaration(
+  expr: ts.Identifier | ts.PropertyAccessExpression,
+  checker: ts.TypeChecker,
+): ts.Declaration | undefined {
+  let symbol = checker.getSymbolAtLocation(ts.isPropertyAccessExpression(expr) ? expr.name : expr);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol?.valueDeclaration ?? symbol?.declarations?.[0];
+}
+
+/**
+ * Get the expression returned by the function a call expression calls
+ * (e.g., `auditColumns()` where `const auditColumns = () => ({ ... })`)
+ *
+ * Only functions returning a single expression, or with a top-level return
+ * statement, are supported.
+ */
+function getReturnedExpression(
+  callExpr: ts.CallExpression,
+  checker: ts.TypeChecker,
+): ts.Expression | undefined {
+  const callee = skipOuterExpressions(callExpr.expression);
+  if (!ts.isIdentifier(callee) && !ts.isPropertyAccessExpression(callee)) {
+    return undefined;
+  }
+
+  const declaration = resolveDeclaration(callee, checker);
+  const initializer =
+    declaration && ts.isVariableDeclaration(declaration) && declaration.initializer
+      ? skipOuterExpressions(declaration.initializer)
+      : undefined;
+  const func =
+    declaration && ts.isFunctionDeclaration(declaration)
+      ? declaration
+      : initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+        ? initializer
+        : undefined;
+  if (!func?.body) {
+    return undefined;
+  }
+  if (!ts.isBlock(func.body)) {
+    return func.body;
+  }
+  const returnStatement = func.body.statements.find(ts.isReturnStatement);
+  return returnStatement?.expression;
+}
+
 /**
  * Get the function name from a call expression
  */
@@ -178,38 +422,142 @@ function isTableDefinitionFunction(funcName: string | undefined): boolean {
   return ["pgTable", "mysqlTable", "sqliteTable"].includes(funcName);
 }
 
+/**
+ * Check if a function name is a view definition function
+ */
+function isViewDefinitionFunction(funcName: string | undefined): boolean {
+  if (!funcName) return false;
+  return ["pgView", "pgMaterializedView", "mysqlView", "sqliteView"].includes(funcName);
+}
+
+/**
+ * Find the table or view definition call in a (possibly chained) call expression
+ *
+ * e.g., pgView("active_users").as(...) -> pgView("active_users")
+ */
+function findDefinitionCall(
+  callExpr: ts.CallExpression,
+  schemaVariables: Map<string, string>,
+): ts.CallExpression | undefined {
+  let current: ts.Expression = callExpr;
+
+  while (ts.isCallExpression(current)) {
+    const funcName = getCallExpressionName(current);
+    if (
+      isTableDefinitionFunction(funcName) ||
+      isViewDefinitionFunction(funcName) ||
+      getSchemaTableCallSchema(current, schemaVariables)
+    ) {
+      return current;
+    }
+    if (!ts.isPropertyAccessExpression(current.expression)) {
+      return undefined;
+    }
+    current = current.expression.expression;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a function name is a schema definition function
+ */
+function isSchemaDefinitionFunction(funcName: string | undefined): boolean {
+  if (!funcName) return false;
+  return ["pgSchema", "mysqlSchema"].includes(funcName);
+}
+
+/**
+ * Get the schema name for a `schemaVar.table(...)` (or `.view(...)`, `.materializedView(...)`) call
+ *
+ * @returns The schema name if the call creates a table or view on a known schema object
+ */
+function getSchemaTableCallSchema(
+  callExpr: ts.CallExpression,
+  schemaVariables: Map<string, string>,
+): string | undefined {
+  const expr = callExpr.expression;
+  if (
+    ts.isPropertyAccessExpression(expr) &&
+    ["table", "view", "materializedView"].includes(expr.name.text) &&
+    ts.isIdentifier(expr.expression)
+  ) {
+    return schemaVariables.get(expr.expression.text);
+  }
+  return undefined;
+}
+
 /**
  * Extract the actual column name from a column definition
  * e.g., serial("id") -> "id", text("name") -> "name"
+ *
+ * Columns wrapped in a helper call (e.g., withComment(text("name"), "...")) are
+ * resolved through the helper's first argument, and columns created by a helper
+ * without a name argument (e.g., primaryId()) through the helper's returned expression.
  */
-function extractColumnName(expr: ts.Expression): string | undefined {
+function extractColumnName(
+  expr: ts.Expression,
+  checker: ts.TypeChecker,
+  seen = new Set<ts.Node>(),
+): string | undefined {
   // Handle chained calls like serial("id").primaryKey()
-  let current = expr;
+  let current = skipOuterExpressions(expr);
 
   while (ts.isCallExpression(current)) {
-    if (ts.isPropertyAccessExpression(current.expression)) {
+    const callee = skipOuterExpressions(current.expression);
+    if (
+      ts.isPropertyAccessExpression(callee) &&
+      ts.isCallExpression(skipOuterExpressions(callee.expression))
+    ) {
       // This is a method call like .primaryKey(), go deeper
-      current = current.expression.expression;
-    } else if (ts.isIdentifier(current.expression)) {
-      // This is the base call like serial("id")
-      const firstArg = current.arguments[0];
-      if (firstArg && ts.isStringLiteral(firstArg)) {
-        return firstArg.text;
-      }
+      current = skipOuterExpressions(callee.expression);
+      continue;
+    }
+    if (!ts.isIdentifier(callee) && !ts.isPropertyAccessExpression(callee)) {
       return undefined;
-    } else {
+    }
+
+    // This is the base call like serial("id"), or a helper call like columns.primaryId()
+    const firstArg = current.arguments[0] && skipOuterExpressions(current.arguments[0]);
+    if (firstArg && ts.isStringLiteral(firstArg)) {
+      return firstArg.text;
+    }
+    if (firstArg && ts.isCallExpression(firstArg)) {
+      return extractColumnName(firstArg, checker, seen);
+    }
+    if (seen.has(current)) {
       return undefined;
     }
+    seen.add(current);
+    const returned = getReturnedExpression(current, checker);
+    return returned ? extractColumnName(returned, checker, seen) : undefined;
   }
 
   return undefined;
 }
 
+/**
+ * Skip parentheses and type assertions around an expression (e.g., `(text("name") as T)`)
+ */
+function skipOuterExpressions(expr: ts.Expression): ts.Expression {
+  let current = expr;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
 /**
  * Get JSDoc comment from a node
+ *
+ * Falls back to a single-line comment (`// ...`), which has no tags.
  */
-function getJsDocComment(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
-  const fullText = sourceFile.getFullText();
+function getJsDocComment(node: ts.Node): ParsedJsDoc | undefined {
+  const fullText = node.getSourceFile().getFullText();
   const nodeStart = node.getFullStart();
   const leadingComments = ts.getLeadingCommentRanges(fullText, nodeStart);
 
@@ -229,7 +577,7 @@ function getJsDocComment(node: ts.Node, sourceFile: ts.SourceFile): string | und
   for (const comment of leadingComments) {
     const commentText = fullText.slice(comment.pos, comment.end);
     if (commentText.startsWith("//")) {
-      return commentText.slice(2).trim();
+      return { description: commentText.slice(2).trim(), tags: [] };
     }
   }
 
@@ -237,40 +585,86 @@ function getJsDocComment(node: ts.Node, sourceFile: ts.SourceFile): string | und
 }
 
 /**
- * Parse JSDoc comment text to extract the description
+ * Parse JSDoc comment text into its description and tags
  *
- * Preserves newlines in the output for proper formatting in DBML and Markdown.
+ * Preserves newlines in the description and tag texts for proper formatting in DBML
+ * and Markdown. Tag texts keep the indentation of their continuation lines, so that
+ * `@example` code stays readable.
  */
-function parseJsDocComment(commentText: string): string {
-  // Remove /** and */
-  let text = commentText.slice(3, -2);
-
-  // Split into lines and process
-  const lines = text.split("\n").map((line) => {
-    // Remove leading * and whitespace
-    return line.replace(/^\s*\*\s?/, "").trim();
-  });
-
-  // Filter out @tags and empty lines at start/end
-  const contentLines: string[] = [];
+function parseJsDocComment(commentText: string): ParsedJsDoc {
+  // Remove /** and */, then the leading * of each line
+  const lines = commentText
+    .slice(3, -2)
+    .split("\n")
+    .map((line) => line.replace(/^\s*\*\s?/, "").trimEnd());
+
+  const descriptionLines: string[] = [];
+  const tagLines: Array<{ name: string; lines: string[] }> = [];
   for (const line of lines) {
-    // Stop at first @tag
-    if (line.startsWith("@")) {
-      break;
+    const tagMatch = /^\s*@([\w-]+)\s*(.*)$/.exec(line);
+    const currentTag = tagLines[tagLines.length - 1];
+    if (tagMatch) {
+      const [, name = "", text = ""] = tagMatch;
+      tagLines.push({ name, lines: [text] });
+    } else if (currentTag) {
+      currentTag.lines.push(line);
+    } else {
+      descriptionLines.push(line.trim());
     }
-    contentLines.push(line);
   }
 
-  // Remove trailing empty lines
-  while (contentLines.length > 0 && contentLines[contentLines.length - 1] === "") {
-    contentLines.pop();
-  }
+  return {
+    description: descriptionLines.join("\n").trim(),
+    tags: tagLines.map(({ name, lines: textLines }) => {
+      const text = textLines.join("\n").trim();
+      return text ? { name, text } : { name };
+    }),
+  };
+}
 
-  // Remove leading empty lines
-  while (contentLines.length > 0 && contentLines[0] === "") {
-    contentLines.shift();
+/**
+ * Convert JSDoc tags to comment metadata
+ *
+ * `@deprecated`, `@example`, `@see` and (on tables) `@owner` have dedicated fields;
+ * tags describing TypeScript types are dropped and all other tags are kept as custom tags.
+ */
+function toCommentMetadata(
+  tags: CustomTag[],
+  target: "table" | "column",
+): Omit<TableComment, "comment" | "columns"> {
+  const metadata: Omit<TableComment, "comment" | "columns"> = {};
+  const examples: string[] = [];
+  const see: string[] = [];
+  const owners: string[] = [];
+  const customTags: CustomTag[] = [];
+
+  for (const tag of tags) {
+    if (tag.name === "deprecated") {
+      metadata.deprecated = tag.text ?? "";
+    } else if (tag.name === "example" || tag.name === "see") {
+      if (tag.text) {
+        (tag.name === "example" ? examples : see).push(tag.text);
+      }
+    } else if (tag.name === "owner" && target === "table") {
+      if (tag.text) {
+        owners.push(tag.text);
+      }
+    } else if (!IGNORED_JSDOC_TAGS.has(tag.name)) {
+      customTags.push(tag);
+    }
   }
 
-  // Join with newlines to preserve formatting
-  return contentLines.join("\n").trim();
+  if (examples.length > 0) {
+    metadata.examples = examples;
+  }
+  if (see.length > 0) {
+    metadata.see = see;
+  }
+  if (owners.length > 0) {
+    metadata.owners = owners;
+  }
+  if (customTags.length > 0) {
+    metadata.customTags = customTags;
+  }
+  return metadata;
 }
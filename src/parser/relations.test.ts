@@ -246,6 +246,125 @@ export const users = pgTable("users", {
     expect(result.relations).toHaveLength(0);
   });
 
+  describe("Aliased and namespace imports", () => {
+    const TABLES_CODE = `
+import { pgTable, serial, integer } from "drizzle-orm/pg-core";
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+});
+
+export const posts = pgTable("posts", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id"),
+});
+`;
+
+    it("should resolve tables imported under another name or through a namespace", () => {
+      const dirPath = join(TEST_DIR, "aliased-imports");
+      mkdirSync(dirPath, { recursive: true });
+      writeFileSync(join(dirPath, "tables.ts"), TABLES_CODE);
+      writeFileSync(
+        join(dirPath, "relations.ts"),
+        `
+import { relations as defineV0Relations } from "drizzle-orm";
+import { users as u } from "./tables";
+import * as schema from "./tables";
+
+export const postsRelations = defineV0Relations(schema.posts, ({ one: hasOne }) => ({
+  author: hasOne(u, {
+    fields: [schema.posts.authorId],
+    references: [u.id],
+  }),
+}));
+`,
+      );
+
+      const result = extractRelations(dirPath);
+
+      expect(result.relations).toEqual([
+        {
+          sourceTable: "posts",
+          targetTable: "users",
+          type: "one",
+          fields: ["authorId"],
+          references: ["id"],
+        },
+      ]);
+    });
+
+    it("should report tables by the name the schema file re-exports them under", () => {
+      const dirPath = join(TEST_DIR, "re-exports");
+      mkdirSync(dirPath, { recursive: true });
+      writeFileSync(join(dirPath, "tables.ts"), TABLES_CODE);
+      writeFileSync(
+        join(dirPath, "relations.ts"),
+        `
+import { relations } from "drizzle-orm";
+import { users, posts } from "./tables";
+
+export const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, {
+    fields: [posts.authorId],
+    references: [users.id],
+  }),
+}));
+`,
+      );
+      const indexPath = join(dirPath, "index.ts");
+      writeFileSync(
+        indexPath,
+        `
+export { users as accounts, posts } from "./tables";
+export * from "./relations";
+`,
+      );
+
+      const result = extractRelations(indexPath);
+
+      expect(result.relations).toEqual([
+        {
+          sourceTable: "posts",
+          targetTable: "accounts",
+          type: "one",
+          fields: ["authorId"],
+          references: ["id"],
+        },
+      ]);
+    });
+
+    it("should keep the written name of tables that are not exported", () => {
+      const filePath = join(TEST_DIR, "unexported-table.ts");
+      writeFileSync(
+        filePath,
+        `
+import { pgTable, serial, integer } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+
+const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+});
+
+export const posts = pgTable("posts", {
+  id: serial("id").primaryKey(),
+  authorId: integer("author_id"),
+});
+
+export const postsRelations = relations(posts, ({ one }) => ({
+  author: one(users, {
+    fields: [posts.authorId],
+    references: [users.id],
+  }),
+}));
+`,
+      );
+
+      const result = extractRelations(filePath);
+
+      expect(result.relations[0]?.targetTable).toBe("users");
+    });
+  });
+
   describe("v0 backward compatibility", () => {
     it("should extract relations from v0-style drizzle-orm/_relations import", () => {
       const schemaCode = `
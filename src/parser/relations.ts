@@ -1,14 +1,18 @@
 import * as ts from "typescript";
-import { readFileSync, statSync, readdirSync } from "node:fs";
-import { join } from "node:path";
+import { statSync, readdirSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { createSchemaProgram } from "./comments";
 
 /**
  * Parsed relation from relations() definition
  */
 export interface ParsedRelation {
-  /** Name of the source table (the first argument of relations()) */
+  /**
+   * Export name of the source table (the first argument of relations()), or the name
+   * as written in the source when the table could not be resolved
+   */
   sourceTable: string;
-  /** Name of the target table (the first argument of one()/many()) */
+  /** Export name of the target table (the first argument of one()/many()) */
   targetTable: string;
   /** Relation type: "one" or "many" */
   type: "one" | "many";
@@ -54,6 +58,15 @@ function getTypeScriptFiles(sourcePath: string): string[] {
   return [];
 }
 
+/**
+ * Context shared while extracting relations from the schema files
+ */
+interface ExtractionContext {
+  checker: ts.TypeChecker;
+  /** Export names of the schema files, by the symbol they export */
+  exportNames: Map<ts.Symbol, string>;
+}
+
 /**
  * Extract relations from a Drizzle schema source file or directory using AST parsing
  *
@@ -62,33 +75,77 @@ function getTypeScriptFiles(sourcePath: string): string[] {
  * - one() and many() relation definitions within them
  * - fields and references arrays for generating DBML Refs
  *
+ * Tables are resolved with the type checker, so relations may refer to them through
+ * aliased imports (`import { users as u }`), namespace imports (`schema.users`) and
+ * re-exports. They are reported by the name the schema files export them under.
+ *
  * @param sourcePath - Path to the TypeScript schema file or directory
  * @returns Extracted relations
  */
 export function extractRelations(sourcePath: string): SchemaRelations {
   const result: SchemaRelations = { relations: [] };
   const files = getTypeScriptFiles(sourcePath);
+  const program = createSchemaProgram(files);
+  const checker = program.getTypeChecker();
 
+  // The schema module is made of the exports of the given files
+  const schemaFiles: ts.SourceFile[] = [];
   for (const filePath of files) {
-    const sourceCode = readFileSync(filePath, "utf-8");
-    const sourceFile = ts.createSourceFile(filePath, sourceCode, ts.ScriptTarget.Latest, true);
+    const sourceFile = program.getSourceFile(resolve(filePath));
+    if (sourceFile) {
+      schemaFiles.push(sourceFile);
+    }
+  }
 
+  const context: ExtractionContext = {
+    checker,
+    exportNames: collectExportNames(schemaFiles, checker),
+  };
+  for (const sourceFile of program.getSourceFiles()) {
+    if (sourceFile.isDeclarationFile) {
+      continue;
+    }
     // Visit all nodes to find relations() calls
-    visitNode(sourceFile, sourceFile, result);
+    visitNode(sourceFile, result, context);
   }
 
   return result;
 }
 
+/**
+ * Map the symbols exported by the schema files to their export names
+ *
+ * These are the names the tables have in the imported schema module.
+ */
+function collectExportNames(
+  sourceFiles: ts.SourceFile[],
+  checker: ts.TypeChecker,
+): Map<ts.Symbol, string> {
+  const exportNames = new Map<ts.Symbol, string>();
+  for (const sourceFile of sourceFiles) {
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) {
+      continue;
+    }
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const symbol = resolveAlias(exported, checker);
+      if (!exportNames.has(symbol)) {
+        exportNames.set(symbol, exported.name);
+      }
+    }
+  }
+  return exportNames;
+}
+
 /**
  * Recursively visit AST nodes to find relations() definitions
  */
-function visitNode(node: ts.Node, sourceFile: ts.SourceFile, result: SchemaRelations): void {
+function visitNode(node: ts.Node, result: SchemaRelations, context: ExtractionContext): void {
   // Look for variable declarations that define relations
   if (ts.isVariableStatement(node)) {
     for (const declaration of node.declarationList.declarations) {
       if (declaration.initializer && ts.isCallExpression(declaration.initializer)) {
-        const parsedRelations = parseRelationsDefinition(declaration.initializer, sourceFile);
+        const parsedRelations = parseRelationsDefinition(declaration.initializer, context);
         if (parsedRelations) {
           result.relations.push(...parsedRelations);
         }
@@ -98,13 +155,13 @@ function visitNode(node: ts.Node, sourceFile: ts.SourceFile, result: SchemaRelat
 
   // Also check for direct call expressions (e.g., export const x = relations(...))
   if (ts.isExportAssignment(node) && ts.isCallExpression(node.expression)) {
-    const parsedRelations = parseRelationsDefinition(node.expression, sourceFile);
+    const parsedRelations = parseRelationsDefinition(node.expression, context);
     if (parsedRelations) {
       result.relations.push(...parsedRelations);
     }
   }
 
-  ts.forEachChild(node, (child) => visitNode(child, sourceFile, result));
+  ts.forEachChild(node, (child) => visitNode(child, result, context));
 }
 
 /**
@@ -120,9 +177,9 @@ function visitNode(node: ts.Node, sourceFile: ts.SourceFile, result: SchemaRelat
  */
 function parseRelationsDefinition(
   callExpr: ts.CallExpression,
-  sourceFile: ts.SourceFile,
+  context: ExtractionContext,
 ): ParsedRelation[] | undefined {
-  const funcName = getCallExpressionName(callExpr);
+  const funcName = getCallExpressionName(callExpr, context.checker);
 
   if (funcName !== "relations") {
     return undefined;
@@ -133,7 +190,7 @@ function parseRelationsDefinition(
   if (!sourceTableArg) {
     return undefined;
   }
-  const sourceTable = extractIdentifierName(sourceTableArg);
+  const sourceTable = resolveTableName(sourceTableArg, context);
   if (!sourceTable) {
     return undefined;
   }
@@ -145,7 +202,7 @@ function parseRelationsDefinition(
   }
 
   // Parse the callback body for one()/many() calls
-  return parseRelationsCallback(sourceTable, callbackArg, sourceFile);
+  return parseRelationsCallback(sourceTable, callbackArg, context);
 }
 
 /**
@@ -154,7 +211,7 @@ function parseRelationsDefinition(
 function parseRelationsCallback(
   sourceTable: string,
   callback: ts.ArrowFunction,
-  sourceFile: ts.SourceFile,
+  context: ExtractionContext,
 ): ParsedRelation[] {
   const relations: ParsedRelation[] = [];
 
@@ -173,7 +230,7 @@ function parseRelationsCallback(
   // Iterate over object properties to find one()/many() calls
   for (const property of body.properties) {
     if (ts.isPropertyAssignment(property) && ts.isCallExpression(property.initializer)) {
-      const relation = parseRelationCall(sourceTable, property.initializer, sourceFile);
+      const relation = parseRelationCall(sourceTable, property.initializer, context);
       if (relation) {
         relations.push(relation);
       }
@@ -189,9 +246,9 @@ function parseRelationsCallback(
 function parseRelationCall(
   sourceTable: string,
   callExpr: ts.CallExpression,
-  _sourceFile: ts.SourceFile,
+  context: ExtractionContext,
 ): ParsedRelation | undefined {
-  const funcName = getCallExpressionName(callExpr);
+  const funcName = getCallExpressionName(callExpr, context.checker);
 
   if (funcName !== "one" && funcName !== "many") {
     return undefined;
@@ -202,7 +259,7 @@ function parseRelationCall(
   if (!targetTableArg) {
     return undefined;
   }
-  const targetTable = extractIdentifierName(targetTableArg);
+  const targetTable = resolveTableName(targetTableArg, context);
   if (!targetTable) {
     return undefined;
   }
@@ -221,9 +278,9 @@ function parseRelationCall(
         const propName = property.name.text;
 
         if (propName === "fields" && ts.isArrayLiteralExpression(property.initializer)) {
-          fields = extractColumnNames(property.initializer);
+          fields = extractColumnNames(property.initializer, context.checker);
         } else if (propName === "references" && ts.isArrayLiteralExpression(property.initializer)) {
-          references = extractColumnNames(property.initializer);
+          references = extractColumnNames(property.initializer, context.checker);
         }
       }
     }
@@ -241,7 +298,10 @@ function parseRelationCall(
 /**
  * Extract column names from an array literal like [posts.authorId, posts.title]
  */
-function extractColumnNames(arrayLiteral: ts.ArrayLiteralExpression): string[] {
+function extractColumnNames(
+  arrayLiteral: ts.ArrayLiteralExpression,
+  checker: ts.TypeChecker,
+): string[] {
   const names: string[] = [];
 
   for (const element of arrayLiteral.elements) {
@@ -249,9 +309,14 @@ function extractColumnNames(arrayLiteral: ts.ArrayLiteralExpression): string[] {
     if (ts.isPropertyAccessExpression(element)) {
       names.push(element.name.text);
     }
-    // Handle identifier (less common)
+    // Handle identifier (less common), following it to a column access when it holds one
     else if (ts.isIdentifier(element)) {
-      names.push(element.text);
+      const initializer = getVariableInitializer(element, checker);
+      names.push(
+        initializer && ts.isPropertyAccessExpression(initializer)
+          ? initializer.name.text
+          : element.text,
+      );
     }
   }
 
@@ -259,24 +324,79 @@ function extractColumnNames(arrayLiteral: ts.ArrayLiteralExpression): string[] {
 }
 
 /**
- * Get the function name from a call expression
+ * Resolve a table reference (e.g., `users`, `u` or `schema.users`) to the table's export name
+ *
+ * Falls back to the name as written when the reference does not lead to an exported
+ * declaration, so that the relation can still be reported.
  */
-function getCallExpressionName(callExpr: ts.CallExpression): string | undefined {
-  if (ts.isIdentifier(callExpr.expression)) {
-    return callExpr.expression.text;
+function resolveTableName(expr: ts.Expression, context: ExtractionContext): string | undefined {
+  let location: ts.Identifier | ts.MemberName;
+  if (ts.isIdentifier(expr)) {
+    location = expr;
+  } else if (ts.isPropertyAccessExpression(expr)) {
+    location = expr.name;
+  } else {
+    return undefined;
   }
-  if (ts.isPropertyAccessExpression(callExpr.expression)) {
-    return callExpr.expression.name.text;
+
+  const symbol = context.checker.getSymbolAtLocation(location);
+  if (symbol) {
+    const exportName = context.exportNames.get(resolveAlias(symbol, context.checker));
+    if (exportName) {
+      return exportName;
+    }
   }
-  return undefined;
+  return location.text;
 }
 
 /**
- * Extract identifier name from an expression
+ * Follow import and export aliases to the symbol they refer to
  */
-function extractIdentifierName(expr: ts.Expression): string | undefined {
-  if (ts.isIdentifier(expr)) {
-    return expr.text;
+function resolveAlias(symbol: ts.Symbol, checker: ts.TypeChecker): ts.Symbol {
+  if (!(symbol.flags & ts.SymbolFlags.Alias)) {
+    return symbol;
+  }
+  const aliased = checker.getAliasedSymbol(symbol);
+  // Imports from modules outside the program resolve to the unknown symbol
+  return aliased.declarations?.length ? aliased : symbol;
+}
+
+/**
+ * Get the initializer of the variable an identifier refers to
+ */
+function getVariableInitializer(
+  identifier: ts.Identifier,
+  checker: ts.TypeChecker,
+): ts.Expression | undefined {
+  const symbol = checker.getSymbolAtLocation(identifier);
+  const declaration = symbol && resolveAlias(symbol, checker).valueDeclaration;
+  return declaration && ts.isVariableDeclaration(declaration) ? declaration.initializer : undefined;
+}
+
+/**
+ * Get the function name from a call expression
+ *
+ * Renamed imports (`import { relations as r }`) and destructured helpers
+ * (`({ one: hasOne })`) are reported by their original name.
+ */
+function getCallExpressionName(
+  callExpr: ts.CallExpression,
+  checker: ts.TypeChecker,
+): string | undefined {
+  if (ts.isIdentifier(callExpr.expression)) {
+    const declaration = checker.getSymbolAtLocation(callExpr.expression)?.declarations?.[0];
+    if (
+      declaration &&
+      (ts.isImportSpecifier(declaration) || ts.isBindingElement(declaration)) &&
+      declaration.propertyName &&
+      ts.isIdentifier(declaration.propertyName)
+    ) {
+      return declaration.propertyName.text;
+    }
+    return callExpr.expression.text;
+  }
+  if (ts.isPropertyAccessExpression(callExpr.expression)) {
+    return callExpr.expression.name.text;
   }
   return undefined;
 }
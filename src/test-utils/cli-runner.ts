@@ -80,9 +80,11 @@ export async function runGenerate(
   dialect: "postgresql" | "mysql" | "sqlite",
   options: {
     output?: string;
-    format?: "dbml" | "markdown";
+    format?: "dbml" | "markdown" | "json" | "mermaid" | "html";
     singleFile?: boolean;
     noErDiagram?: boolean;
+    tableDiagrams?: boolean;
+    hideJunctionTables?: boolean;
     force?: boolean;
     cwd?: string;
   } = {},
@@ -105,6 +107,14 @@ export async function runGenerate(
     args.push("--no-er-diagram");
   }
 
+  if (options.tableDiagrams) {
+    args.push("--table-diagrams");
+  }
+
+  if (options.hideJunctionTables) {
+    args.push("--hide-junction-tables");
+  }
+
   if (options.force) {
     args.push("--force");
   }
@@ -1,4 +1,4 @@
-import type { SchemaComments } from "./parser/comments";
+import type { CommentSource, CustomTag, SchemaComments } from "./parser/comments";
 
 /**
  * Options for DBML generation
@@ -19,6 +19,18 @@ export interface GenerateOptions<TSchema extends Record<string, unknown>> {
    * Alternative to source - use this if you've already extracted comments.
    */
   comments?: SchemaComments;
+  /** Comments from an external comments file (see loadCommentsFile) */
+  externalComments?: SchemaComments;
+  /**
+   * Comment sources in order of preference; sources left out are ignored
+   * @default ["file", "jsdoc", "runtime"]
+   */
+  commentPrecedence?: CommentSource[];
+  /**
+   * Called with problems that do not stop generation, such as relations that could not be resolved
+   * @default Warnings are ignored
+   */
+  onWarning?: (message: string) => void;
 }
 
 /**
@@ -56,6 +68,8 @@ export interface ColumnDefinition {
   name: string;
   /** SQL data type (e.g., "varchar(255)", "integer", "timestamp") */
   type: string;
+  /** The SQL data type broken down into its parts */
+  dataType?: DataTypeDefinition;
   /** Whether the column allows NULL values */
   nullable: boolean;
   /** Default value expression (e.g., "now()", "'active'") */
@@ -66,8 +80,100 @@ export interface ColumnDefinition {
   unique: boolean;
   /** Whether this column auto-increments */
   autoIncrement?: boolean;
+  /** Generation expression of a generated (computed) column */
+  generated?: GeneratedColumnDefinition;
+  /** Identity settings of an identity column (PostgreSQL) */
+  identity?: IdentityDefinition;
+  /** Drizzle mode that maps the stored values (SQLite, e.g., "timestamp", "boolean", "json") */
+  mode?: string;
+  /** Character set of a string column (MySQL) */
+  charset?: string;
+  /** Collation of a string column (MySQL) */
+  collation?: string;
+  /** Value assigned when the row is updated (MySQL `ON UPDATE`, e.g., "CURRENT_TIMESTAMP") */
+  onUpdate?: string;
   /** JSDoc comment or description for this column */
   comment?: string;
+  /** Labels or tags (e.g., "pii") */
+  tags?: string[];
+  /** Deprecation note; an empty string marks a deprecation without a note */
+  deprecated?: string;
+  /** Usage examples (`@example`) */
+  examples?: string[];
+  /** References (`@see`) */
+  see?: string[];
+  /** Other JSDoc tags (e.g., `@pii`), in source order */
+  customTags?: CustomTag[];
+}
+
+/**
+ * SQL data type of a column, broken down into its parts
+ */
+export interface DataTypeDefinition {
+  /** Type name without arguments, array brackets or UNSIGNED (e.g., "varchar") */
+  base: string;
+  /** Length of character, binary and bit types (e.g., 255 for "varchar(255)") */
+  length?: number;
+  /** Precision of numeric types, or fractional seconds precision of date and time types */
+  precision?: number;
+  /** Scale of numeric types */
+  scale?: number;
+  /** Whether a numeric type is unsigned (MySQL) */
+  unsigned?: boolean;
+  /** Number of array dimensions (PostgreSQL) */
+  arrayDimensions?: number;
+  /**
+   * Enum the column uses, schema-qualified when it has a schema
+   * (PostgreSQL enum types and the inline enums of MySQL and SQLite)
+   */
+  enum?: string;
+  /** Whether the type is declared with `customType()` */
+  custom?: boolean;
+  /** Number of dimensions of a pgvector type (e.g., 1536 for "vector(1536)") */
+  dimensions?: number;
+  /** Subtype of a PostGIS geometry (e.g., "point") */
+  geometryType?: string;
+  /** Spatial reference system of a PostGIS geometry (e.g., 4326) */
+  srid?: number;
+}
+
+/**
+ * Generation settings of a generated column (`generatedAlwaysAs()`)
+ */
+export interface GeneratedColumnDefinition {
+  /** Generation expression (e.g., "lower(email)") */
+  expression: string;
+  /** Whether the value is stored on write or computed when read */
+  mode: "stored" | "virtual";
+}
+
+/**
+ * Sequence options, kept as strings so that bigint bounds are not rounded
+ */
+export interface SequenceOptions {
+  /** Increment between values */
+  increment?: string;
+  /** Minimum value */
+  minValue?: string;
+  /** Maximum value */
+  maxValue?: string;
+  /** First value */
+  startWith?: string;
+  /** Number of values to preallocate */
+  cache?: string;
+  /** Whether the sequence wraps around after reaching its limit */
+  cycle?: boolean;
+}
+
+/**
+ * Identity settings of an identity column
+ * (`generatedAlwaysAsIdentity()` / `generatedByDefaultAsIdentity()`)
+ */
+export interface IdentityDefinition extends SequenceOptions {
+  /** "always" rejects explicit values unless overridden; "by_default" accepts them */
+  type: "always" | "by_default";
+  /** Name of the identity sequence */
+  sequenceName?: string;
 }
 
 /**
@@ -76,12 +182,36 @@ export interface ColumnDefinition {
 export interface IndexDefinition {
   /** Index name */
   name: string;
-  /** Columns included in the index */
+  /** Columns included in the index (expression parts are only listed in `parts`) */
   columns: string[];
   /** Whether this is a unique index */
   unique: boolean;
-  /** Index type (e.g., "btree", "hash", "gin") - database specific */
+  /** Index method (e.g., "hash", "gin"); PostgreSQL's default btree is left out */
   type?: string;
+  /** Indexed columns and expressions, in index order */
+  parts?: IndexPart[];
+  /** Predicate of a partial index (WHERE), rendered as SQL */
+  where?: string;
+  /** Whether the index is created concurrently (PostgreSQL) */
+  concurrently?: boolean;
+  /** Special index kind (MySQL FULLTEXT or SPATIAL index) */
+  kind?: "fulltext" | "spatial";
+}
+
+/**
+ * A column or expression of an index
+ */
+export interface IndexPart {
+  /** Indexed column, for column parts */
+  column?: string;
+  /** Indexed expression rendered as SQL (e.g., "lower(email)"), for expression parts */
+  expression?: string;
+  /** Sort order, when descending */
+  order?: "desc";
+  /** Position of NULLs, when it differs from the default for the sort order (PostgreSQL) */
+  nulls?: "first" | "last";
+  /** Operator class (PostgreSQL, e.g., "gin_trgm_ops") */
+  opClass?: string;
 }
 
 /**
@@ -101,7 +231,7 @@ export interface ConstraintDefinition {
   columns: string[];
   /** SQL definition or expression (for CHECK constraints) */
   definition?: string;
-  /** Referenced table (for foreign keys) */
+  /** Referenced table (for foreign keys, schema-qualified when the table has a schema) */
   referencedTable?: string;
   /** Referenced columns (for foreign keys) */
   referencedColumns?: string[];
@@ -117,12 +247,76 @@ export interface TableDefinition {
   schema?: string;
   /** JSDoc comment or description for this table */
   comment?: string;
+  /** Labels or tags (e.g., "billing") */
+  tags?: string[];
+  /** Owning teams or people */
+  owners?: string[];
+  /** Deprecation note; an empty string marks a deprecation without a note */
+  deprecated?: string;
+  /** Usage examples (`@example`) */
+  examples?: string[];
+  /** References (`@see`) */
+  see?: string[];
+  /** Other JSDoc tags (e.g., `@pii`), in source order */
+  customTags?: CustomTag[];
   /** Column definitions */
   columns: ColumnDefinition[];
   /** Index definitions */
   indexes: IndexDefinition[];
   /** Constraint definitions */
   constraints: ConstraintDefinition[];
+  /** Whether row-level security is enabled (PostgreSQL) */
+  rlsEnabled?: boolean;
+  /** Row-level security policies (PostgreSQL) */
+  policies?: PolicyDefinition[];
+}
+
+/**
+ * Row-level security policy in the intermediate schema (PostgreSQL specific)
+ */
+export interface PolicyDefinition {
+  /** Policy name */
+  name: string;
+  /** Whether the policy grants access (permissive) or restricts it (restrictive) */
+  as: "permissive" | "restrictive";
+  /** Command the policy applies to */
+  command: "all" | "select" | "insert" | "update" | "delete";
+  /** Roles the policy applies to (e.g., "public", "authenticated") */
+  roles: string[];
+  /** Condition on existing rows (USING), rendered as SQL */
+  using?: string;
+  /** Condition on new rows (WITH CHECK), rendered as SQL */
+  withCheck?: string;
+}
+
+/**
+ * View definition in the intermediate schema
+ */
+export interface ViewDefinition {
+  /** View name */
+  name: string;
+  /** Schema name (e.g., "reporting" for pgSchema("reporting").view(...)) */
+  schema?: string;
+  /** Whether this is a materialized view (PostgreSQL specific) */
+  materialized: boolean;
+  /** JSDoc comment or description for this view */
+  comment?: string;
+  /** Labels or tags (e.g., "reporting") */
+  tags?: string[];
+  /** Owning teams or people */
+  owners?: string[];
+  /** Deprecation note; an empty string marks a deprecation without a note */
+  deprecated?: string;
+  /** Usage examples (`@example`) */
+  examples?: string[];
+  /** References (`@see`) */
+  see?: string[];
+  /** Other JSDoc tags (e.g., `@pii`), in source order */
+  customTags?: CustomTag[];
+  /** Column definitions (selected fields of the view) */
+  columns: ColumnDefinition[];
+  /** Defining SQL query (undefined for views declared with .existing()) */
+  definition?: string;
 }
 
 /**
@@ -134,17 +328,38 @@ export type IntermediateRelationType =
   | "many-to-one"
   | "many-to-many";
 
+/**
+ * Where a relation was found
+ *
+ * - `foreign_key`: a foreign key in the table config (`.references()` / `foreignKey()`)
+ * - `relation`: a `relations()` / `defineRelations()` definition
+ * - `both`: a foreign key with a matching relation definition
+ */
+export type RelationOrigin = "foreign_key" | "relation" | "both";
+
+/**
+ * Junction table that connects the two ends of a many-to-many relation
+ */
+export interface RelationThrough {
+  /** Junction table name (schema-qualified when the table has a schema) */
+  table: string;
+  /** Junction columns referencing the source table's columns */
+  fromColumns: string[];
+  /** Junction columns referencing the target table's columns */
+  toColumns: string[];
+}
+
 /**
  * Relation/Reference definition in the intermediate schema
  */
 export interface RelationDefinition {
-  /** Optional relation name */
+  /** Optional relation name (e.g., the v1 `alias`) */
   name?: string;
-  /** Source table name */
+  /** Source table name (schema-qualified, e.g. "billing.invoices", when the table has a schema) */
   fromTable: string;
   /** Source column names */
   fromColumns: string[];
-  /** Target table name */
+  /** Target table name (schema-qualified when the table has a schema) */
   toTable: string;
   /** Target column names */
   toColumns: string[];
@@ -154,10 +369,19 @@ export interface RelationDefinition {
   onDelete?: string;
   /** ON UPDATE action */
   onUpdate?: string;
+  /** Where the relation was found */
+  origin?: RelationOrigin;
+  /** Junction table of a many-to-many relation */
+  through?: RelationThrough;
+  /** Filter condition on the target rows (e.g., "published = true") */
+  where?: string;
 }
 
 /**
- * Enum definition in the intermediate schema (PostgreSQL specific)
+ * Enum definition in the intermediate schema
+ *
+ * PostgreSQL enums are named types; MySQL and SQLite inline enums are named after their table and column
+ * (e.g., "users_role"). Columns refer to them through `dataType.enum`.
  */
 export interface EnumDefinition {
   /** Enum type name */
@@ -168,6 +392,32 @@ export interface EnumDefinition {
   values: string[];
 }
 
+/**
+ * Sequence definition in the intermediate schema (PostgreSQL specific)
+ */
+export interface SequenceDefinition extends SequenceOptions {
+  /** Sequence name */
+  name: string;
+  /** Schema name (e.g., "billing" for pgSchema("billing").sequence(...)) */
+  schema?: string;
+}
+
+/**
+ * Database role definition in the intermediate schema (PostgreSQL specific)
+ */
+export interface RoleDefinition {
+  /** Role name */
+  name: string;
+  /** Whether the role is managed outside the schema (`.existing()`) */
+  existing?: boolean;
+  /** Whether the role may create databases (CREATEDB) */
+  createDb?: boolean;
+  /** Whether the role may create roles (CREATEROLE) */
+  createRole?: boolean;
+  /** Whether the role inherits the privileges of roles it is a member of (INHERIT) */
+  inherit?: boolean;
+}
+
 /**
  * The complete intermediate schema representation
  *
@@ -181,6 +431,12 @@ export interface IntermediateSchema {
   tables: TableDefinition[];
   /** Relation/Reference definitions */
   relations: RelationDefinition[];
-  /** Enum definitions (PostgreSQL specific) */
+  /** Enum definitions (PostgreSQL enum types, MySQL inline enums and SQLite text enums) */
   enums: EnumDefinition[];
+  /** View definitions (including materialized views) */
+  views?: ViewDefinition[];
+  /** Sequence definitions (PostgreSQL specific) */
+  sequences?: SequenceDefinition[];
+  /** Database roles (PostgreSQL specific) */
+  roles?: RoleDefinition[];
 }
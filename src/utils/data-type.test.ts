@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { getDataType, getTypeDisplayName, parseDataType } from "./data-type";
+import type { ColumnDefinition } from "../types";
+
+const column = (type: string, extra: Partial<ColumnDefinition> = {}): ColumnDefinition => ({
+  name: "value",
+  type,
+  nullable: true,
+  primaryKey: false,
+  unique: false,
+  ...extra,
+});
+
+describe("parseDataType", () => {
+  it.each([
+    ["integer", { base: "integer" }],
+    ["varchar(255)", { base: "varchar", length: 255 }],
+    ["numeric(10, 2)", { base: "numeric", precision: 10, scale: 2 }],
+    ["decimal(8,2)", { base: "decimal", precision: 8, scale: 2 }],
+    ["timestamp (3) with time zone", { base: "timestamp with time zone", precision: 3 }],
+    ["int unsigned", { base: "int", unsigned: true }],
+    ["text[][]", { base: "text", arrayDimensions: 2 }],
+    ["vector(1536)", { base: "vector", dimensions: 1536 }],
+    ["geometry(point,4326)", { base: "geometry", geometryType: "point", srid: 4326 }],
+    ["enum('a','b')", { base: "enum" }],
+    ["interval day", { base: "interval day" }],
+  ])("should parse %s", (type, expected) => {
+    expect(parseDataType(type)).toEqual(expected);
+  });
+});
+
+describe("getDataType", () => {
+  it("should prefer the data type of the column", () => {
+    const dataType = { base: "status", enum: "status" };
+    expect(getDataType(column("status", { dataType }))).toBe(dataType);
+    expect(getDataType(column("varchar(20)"))).toEqual({ base: "varchar", length: 20 });
+  });
+});
+
+describe("getTypeDisplayName", () => {
+  it("should look up the full type before the base type", () => {
+    const typeNames = { "varchar(36)": "UUID string", varchar: "String" };
+
+    expect(getTypeDisplayName(column("varchar(36)"), typeNames)).toBe("UUID string");
+    expect(getTypeDisplayName(column("varchar(255)"), typeNames)).toBe("String");
+    expect(getTypeDisplayName(column("text"), typeNames)).toBeUndefined();
+    expect(getTypeDisplayName(column("constructor"), typeNames)).toBeUndefined();
+    expect(getTypeDisplayName(column("text"), undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import type { ColumnDefinition, DataTypeDefinition } from "../types";
+
+/**
+ * Types whose single argument is a length rather than a precision
+ */
+const LENGTH_TYPES = new Set([
+  "char",
+  "character",
+  "varchar",
+  "character varying",
+  "nchar",
+  "nvarchar",
+  "binary",
+  "varbinary",
+  "bit",
+  "bit varying",
+  "varbit",
+  "text",
+]);
+
+/**
+ * pgvector types, whose argument is the number of dimensions
+ */
+const VECTOR_TYPES = new Set(["vector", "halfvec", "sparsevec"]);
+
+/**
+ * Break a SQL data type down into its parts
+ *
+ * Generators parse the type Drizzle renders and add what only the column knows
+ * (array dimensions, enums, custom types); formatters fall back to parsing the type
+ * of columns that come without a data type, such as hand-built or older JSON schemas.
+ *
+ * @example
+ * ```ts
+ * parseDataType("numeric(10, 2)"); // { base: "numeric", precision: 10, scale: 2 }
+ * parseDataType("timestamp (3) with time zone"); // { base: "timestamp with time zone", precision: 3 }
+ * parseDataType("geometry(point,4326)[]"); // { base: "geometry", geometryType: "point", srid: 4326, arrayDimensions: 1 }
+ * ```
+ *
+ * @param type - The SQL data type
+ * @returns The data type
+ */
+export function parseDataType(type: string): DataTypeDefinition {
+  let rest = type.trim();
+
+  let arrayDimensions = 0;
+  while (rest.endsWith("[]")) {
+    arrayDimensions++;
+    rest = rest.slice(0, -2).trimEnd();
+  }
+
+  const unsigned = /\sunsigned$/i.test(rest);
+  if (unsigned) {
+    rest = rest.replace(/\s+unsigned$/i, "");
+  }
+
+  const args = /\(([^)]*)\)/.exec(rest)?.[1];
+  const base = rest
+    .replace(/\s*\([^)]*\)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const dataType: DataTypeDefinition = { base };
+
+  if (args !== undefined) {
+    const parts = args.split(",").map((part) => part.trim());
+    const [first = "", second] = parts;
+    if (base.toLowerCase() === "geometry") {
+      dataType.geometryType = first;
+      if (second !== undefined) {
+        dataType.srid = Number(second);
+      }
+    } else if (parts.every((part) => /^\d+$/.test(part))) {
+      const lowerBase = base.toLowerCase();
+      if (VECTOR_TYPES.has(lowerBase)) {
+        dataType.dimensions = Number(first);
+      } else if (LENGTH_TYPES.has(lowerBase)) {
+        dataType.length = Number(first);
+      } else {
+        dataType.precision = Number(first);
+        if (second !== undefined) {
+          dataType.scale = Number(second);
+        }
+      }
+    }
+  }
+  if (unsigned) {
+    dataType.unsigned = true;
+  }
+  if (arrayDimensions > 0) {
+    dataType.arrayDimensions = arrayDimensions;
+  }
+  return dataType;
+}
+
+/**
+ * Get the data type of a column, parsing its SQL type when the column has none
+ *
+ * @param column - The column
+ * @returns The data type
+ */
+export function getDataType(column: ColumnDefinition): DataTypeDefinition {
+  return column.dataType ?? parseDataType(column.type);
+}
+
+/**
+ * Look up the display name configured for the type of a column
+ *
+ * Names are looked up by the full SQL type (e.g., "varchar(255)") first,
+ * then by the base type (e.g., "varchar").
+ *
+ * @param column - The column
+ * @param typeNames - Display names by SQL type
+ * @returns The display name, or undefined when none is configured
+ */
+export function getTypeDisplayName(
+  column: ColumnDefinition,
+  typeNames: Record<string, string> | undefined,
+): string | undefined {
+  if (!typeNames) {
+    return undefined;
+  }
+  for (const key of [column.type, getDataType(column).base]) {
+    if (Object.prototype.hasOwnProperty.call(typeNames, key)) {
+      return typeNames[key];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { pgTable, pgView, integer } from "drizzle-orm/pg-core";
+import { mysqlTable, int } from "drizzle-orm/mysql-core";
+import { sqliteTable, integer as sqliteInteger } from "drizzle-orm/sqlite-core";
+import { getObjectDialect, inferDialect } from "./dialect";
+
+const pgUsers = pgTable("users", { id: integer("id") });
+const mysqlOrders = mysqlTable("orders", { id: int("id") });
+const sqliteTags = sqliteTable("tags", { id: sqliteInteger("id") });
+
+describe("getObjectDialect", () => {
+  it("should detect the dialect of tables and views", () => {
+    expect(getObjectDialect(pgUsers)).toBe("postgresql");
+    expect(getObjectDialect(pgView("active_users").as((qb) => qb.select().from(pgUsers)))).toBe(
+      "postgresql",
+    );
+    expect(getObjectDialect(mysqlOrders)).toBe("mysql");
+    expect(getObjectDialect(sqliteTags)).toBe("sqlite");
+  });
+
+  it("should return undefined for other values", () => {
+    expect(getObjectDialect({ id: 1 })).toBeUndefined();
+    expect(getObjectDialect(undefined)).toBeUndefined();
+  });
+});
+
+describe("inferDialect", () => {
+  it("should return the dialect shared by all tables", () => {
+    expect(inferDialect({ mysqlOrders, helper: () => {} })).toBe("mysql");
+  });
+
+  it("should return undefined when there are no tables", () => {
+    expect(inferDialect({ helper: () => {} })).toBeUndefined();
+  });
+
+  it("should list the exports of each dialect when dialects are mixed", () => {
+    expect(() => inferDialect({ pgUsers, mysqlOrders, sqliteTags })).toThrow(
+      "Schema mixes tables from multiple dialects:\n  postgresql: pgUsers\n  mysql: mysqlOrders\n  sqlite: sqliteTags",
+    );
+  });
+});
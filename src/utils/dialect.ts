@@ -0,0 +1,49 @@
+import { is } from "drizzle-orm";
+import { PgMaterializedView, PgTable, PgView } from "drizzle-orm/pg-core";
+import { MySqlTable, MySqlView } from "drizzle-orm/mysql-core";
+import { SQLiteTable, SQLiteView } from "drizzle-orm/sqlite-core";
+import type { DatabaseType } from "../types";
+
+/**
+ * Get the dialect of a Drizzle table or view
+ *
+ * @param value - Any schema export
+ * @returns The dialect, or undefined if the value is not a table or view
+ */
+export function getObjectDialect(value: unknown): DatabaseType | undefined {
+  if (is(value, PgTable) || is(value, PgView) || is(value, PgMaterializedView)) {
+    return "postgresql";
+  }
+  if (is(value, MySqlTable) || is(value, MySqlView)) {
+    return "mysql";
+  }
+  if (is(value, SQLiteTable) || is(value, SQLiteView)) {
+    return "sqlite";
+  }
+  return undefined;
+}
+
+/**
+ * Infer the dialect from the tables and views of a schema module
+ *
+ * @param schema - Schema exports keyed by export name
+ * @returns The dialect, or undefined if the schema has no tables or views
+ * @throws If tables or views from multiple dialects are mixed
+ */
+export function inferDialect(schema: Record<string, unknown>): DatabaseType | undefined {
+  const exportsByDialect = new Map<DatabaseType, string[]>();
+  for (const [exportName, value] of Object.entries(schema)) {
+    const dialect = getObjectDialect(value);
+    if (dialect) {
+      exportsByDialect.set(dialect, [...(exportsByDialect.get(dialect) ?? []), exportName]);
+    }
+  }
+
+  if (exportsByDialect.size > 1) {
+    const details = [...exportsByDialect]
+      .map(([dialect, exportNames]) => `  ${dialect}: ${exportNames.join(", ")}`)
+      .join("\n");
+    throw new Error(`Schema mixes tables from multiple dialects:\n${details}`);
+  }
+  return exportsByDialect.keys().next().value;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { expandJunctionRelations, getJunctionTables } from "./junction";
+import type { RelationDefinition } from "../types";
+
+const manyToMany: RelationDefinition = {
+  fromTable: "users",
+  fromColumns: ["id"],
+  toTable: "groups",
+  toColumns: ["id"],
+  type: "many-to-many",
+  origin: "relation",
+  through: { table: "users_to_groups", fromColumns: ["user_id"], toColumns: ["group_id"] },
+};
+
+const userForeignKey: RelationDefinition = {
+  fromTable: "users_to_groups",
+  fromColumns: ["user_id"],
+  toTable: "users",
+  toColumns: ["id"],
+  type: "many-to-one",
+  onDelete: "cascade",
+  origin: "foreign_key",
+};
+
+describe("getJunctionTables", () => {
+  it("should collect the junction tables of many-to-many relations", () => {
+    expect(getJunctionTables([manyToMany, userForeignKey])).toEqual(new Set(["users_to_groups"]));
+  });
+});
+
+describe("expandJunctionRelations", () => {
+  it("should replace a many-to-many relation with the junction table references", () => {
+    expect(expandJunctionRelations([manyToMany])).toEqual([
+      {
+        fromTable: "users_to_groups",
+        fromColumns: ["user_id"],
+        toTable: "users",
+        toColumns: ["id"],
+        type: "many-to-one",
+        origin: "relation",
+      },
+      {
+        fromTable: "users_to_groups",
+        fromColumns: ["group_id"],
+        toTable: "groups",
+        toColumns: ["id"],
+        type: "many-to-one",
+        origin: "relation",
+      },
+    ]);
+  });
+
+  it("should keep existing junction table references", () => {
+    const expanded = expandJunctionRelations([manyToMany, userForeignKey]);
+
+    expect(expanded).toHaveLength(2);
+    expect(expanded[0]).toBe(userForeignKey);
+    expect(expanded[1]?.toTable).toBe("groups");
+  });
+
+  it("should keep many-to-many relations without a junction table", () => {
+    const { through: _, ...relation } = manyToMany;
+
+    expect(expandJunctionRelations([relation])).toEqual([relation]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { RelationDefinition } from "../types";
+
+/**
+ * Get the names of the junction tables behind many-to-many relations
+ *
+ * @param relations - Relations of the schema
+ * @returns Qualified names of the junction tables
+ */
+export function getJunctionTables(relations: RelationDefinition[]): Set<string> {
+  return new Set(
+    relations.flatMap((relation) => (relation.through ? [relation.through.table] : [])),
+  );
+}
+
+/**
+ * Replace many-to-many relations with the references of their junction table
+ *
+ * Formats without a many-to-many notation draw the junction table instead. Each relation
+ * with a junction table becomes two many-to-one relations from the junction table to its
+ * ends, unless the schema already contains them (e.g. from the junction table's foreign
+ * keys). Many-to-many relations without a junction table are kept as is.
+ *
+ * @param relations - Relations of the schema
+ * @returns Relations without junction-backed many-to-many relations
+ */
+export function expandJunctionRelations(relations: RelationDefinition[]): RelationDefinition[] {
+  const expanded = relations.filter((relation) => !relation.through);
+  const keys = new Set(expanded.map(getRelationKey));
+
+  for (const relation of relations) {
+    if (!relation.through) {
+      continue;
+    }
+
+    const { table, fromColumns, toColumns } = relation.through;
+    const references: RelationDefinition[] = [
+      {
+        fromTable: table,
+        fromColumns,
+        toTable: relation.fromTable,
+        toColumns: relation.fromColumns,
+        type: "many-to-one",
+        origin: relation.origin,
+      },
+      {
+        fromTable: table,
+        fromColumns: toColumns,
+        toTable: relation.toTable,
+        toColumns: relation.toColumns,
+        type: "many-to-one",
+        origin: relation.origin,
+      },
+    ];
+
+    for (const reference of references) {
+      const key = getRelationKey(reference);
+      if (!keys.has(key)) {
+        keys.add(key);
+        expanded.push(reference);
+      }
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Identify a relation by its tables and columns, ignoring its direction
+ */
+function getRelationKey(relation: RelationDefinition): string {
+  const from = `${relation.fromTable}(${relation.fromColumns.join(",")})`;
+  const to = `${relation.toTable}(${relation.toColumns.join(",")})`;
+  return from < to ? `${from}-${to}` : `${to}-${from}`;
+}
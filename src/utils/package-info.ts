@@ -0,0 +1,26 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Name of this package, used to identify the generator in emitted output
+ */
+export const PACKAGE_NAME = "drizzle-docs-generator";
+
+let cachedVersion: string | undefined;
+
+/**
+ * Get the version of this package from package.json
+ *
+ * The path is resolved relative to this module, which sits two levels below the
+ * package root both in `src/` and in the built `dist/` directory.
+ *
+ * @returns The package version
+ */
+export function getPackageVersion(): string {
+  if (cachedVersion === undefined) {
+    const packageJsonPath = join(import.meta.dirname, "../../package.json");
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8")) as { version: string };
+    cachedVersion = packageJson.version;
+  }
+  return cachedVersion;
+}
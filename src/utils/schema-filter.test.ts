@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { filterIntermediateSchema } from "./schema-filter";
+import type { ColumnDefinition, IntermediateSchema, TableDefinition } from "../types";
+
+const idColumn: ColumnDefinition = {
+  name: "id",
+  type: "integer",
+  nullable: false,
+  primaryKey: true,
+  unique: false,
+};
+
+function table(name: string, schema?: string): TableDefinition {
+  return { name, schema, columns: [idColumn], indexes: [], constraints: [] };
+}
+
+function createSchema(databaseType: IntermediateSchema["databaseType"]): IntermediateSchema {
+  return {
+    databaseType,
+    tables: [table("users"), table("posts"), table("audit_log"), table("sessions", "auth")],
+    views: [{ name: "active_users", materialized: false, columns: [idColumn] }],
+    relations: [
+      {
+        fromTable: "posts",
+        fromColumns: ["id"],
+        toTable: "users",
+        toColumns: ["id"],
+        type: "many-to-one",
+      },
+      {
+        fromTable: "auth.sessions",
+        fromColumns: ["id"],
+        toTable: "users",
+        toColumns: ["id"],
+        type: "many-to-one",
+      },
+    ],
+    enums: [
+      { name: "role", values: ["admin"] },
+      { name: "provider", schema: "auth", values: ["github"] },
+    ],
+    sequences: [{ name: "order_seq" }, { name: "session_seq", schema: "auth" }],
+  };
+}
+
+describe("filterIntermediateSchema", () => {
+  it("should return the schema unchanged without filters", () => {
+    const schema = createSchema("postgresql");
+
+    expect(filterIntermediateSchema(schema, {})).toBe(schema);
+  });
+
+  it("should keep only tables in the schemaFilter, treating no schema as public", () => {
+    const result = filterIntermediateSchema(createSchema("postgresql"), {
+      schemaFilter: ["auth"],
+    });
+
+    expect(result.tables.map((t) => t.name)).toEqual(["sessions"]);
+    expect(result.views).toEqual([]);
+    expect(result.enums.map((e) => e.name)).toEqual(["provider"]);
+    expect(result.sequences?.map((s) => s.name)).toEqual(["session_seq"]);
+    expect(result.relations).toEqual([]);
+  });
+
+  it("should ignore schemaFilter for dialects other than PostgreSQL", () => {
+    const schema = createSchema("mysql");
+
+    expect(filterIntermediateSchema(schema, { schemaFilter: ["auth"] })).toBe(schema);
+  });
+
+  it("should apply positive and negated tablesFilter patterns", () => {
+    const result = filterIntermediateSchema(createSchema("postgresql"), {
+      tablesFilter: ["*s*", "!audit_*", "!sessions"],
+    });
+
+    expect(result.tables.map((t) => t.name)).toEqual(["users", "posts"]);
+    expect(result.views?.map((v) => v.name)).toEqual(["active_users"]);
+    expect(result.relations).toHaveLength(1);
+  });
+
+  it("should drop relations whose other end is filtered out", () => {
+    const result = filterIntermediateSchema(createSchema("postgresql"), {
+      tablesFilter: ["!users"],
+    });
+
+    expect(result.tables.map((t) => t.name)).toEqual(["posts", "audit_log", "sessions"]);
+    expect(result.relations).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+import { matchesGlob } from "node:path";
+import type { IntermediateSchema } from "../types";
+import { qualifyName } from "./table-name";
+
+/**
+ * Filters limiting which tables are documented (drizzle-kit's schemaFilter/tablesFilter)
+ */
+export interface SchemaFilters {
+  /** Database schemas to include (PostgreSQL); tables without a schema belong to "public" */
+  schemaFilter?: string[];
+  /** Table name patterns to include; patterns starting with "!" exclude */
+  tablesFilter?: string[];
+}
+
+/**
+ * Remove tables, views, enums, sequences and relations excluded by the filters
+ *
+ * Follows drizzle-kit semantics: `schemaFilter` only applies to PostgreSQL, and a table
+ * passes `tablesFilter` when it matches a positive pattern (or there are none) and no
+ * negated pattern. Relations are kept only when both ends remain.
+ *
+ * @param schema - The intermediate schema
+ * @param filters - The filters to apply
+ * @returns A filtered copy of the schema
+ */
+export function filterIntermediateSchema(
+  schema: IntermediateSchema,
+  filters: SchemaFilters,
+): IntermediateSchema {
+  const { schemaFilter, tablesFilter } = filters;
+  const hasSchemaFilter = schema.databaseType === "postgresql" && !!schemaFilter?.length;
+  if (!hasSchemaFilter && !tablesFilter?.length) {
+    return schema;
+  }
+
+  const isSchemaIncluded = (schemaName: string | undefined) =>
+    !hasSchemaFilter || schemaFilter!.includes(schemaName ?? "public");
+  const isIncluded = (item: { name: string; schema?: string }) =>
+    isSchemaIncluded(item.schema) && matchesTablesFilter(item.name, tablesFilter);
+
+  const tables = schema.tables.filter(isIncluded);
+  const includedTables = new Set(tables.map((t) => qualifyName(t.name, t.schema)));
+
+  return {
+    ...schema,
+    tables,
+    views: schema.views?.filter(isIncluded),
+    enums: schema.enums.filter((e) => isSchemaIncluded(e.schema)),
+    sequences: schema.sequences?.filter((s) => isSchemaIncluded(s.schema)),
+    relations: schema.relations.filter(
+      (r) => includedTables.has(r.fromTable) && includedTables.has(r.toTable),
+    ),
+  };
+}
+
+/**
+ * Check a table name against drizzle-kit style tablesFilter patterns
+ */
+function matchesTablesFilter(tableName: string, patterns: string[] | undefined): boolean {
+  if (!patterns?.length) {
+    return true;
+  }
+
+  const included = patterns.filter((p) => !p.startsWith("!"));
+  const excluded = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+
+  if (included.length > 0 && !included.some((p) => matchesGlob(tableName, p))) {
+    return false;
+  }
+  return !excluded.some((p) => matchesGlob(tableName, p));
+}
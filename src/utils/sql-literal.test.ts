@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { formatSqlLiteral } from "./sql-literal";
+
+describe("formatSqlLiteral", () => {
+  it("should quote strings and escape embedded quotes", () => {
+    expect(formatSqlLiteral("active")).toBe("'active'");
+    expect(formatSqlLiteral("it's")).toBe("'it''s'");
+  });
+
+  it("should render null, numbers and booleans", () => {
+    expect(formatSqlLiteral(null)).toBe("NULL");
+    expect(formatSqlLiteral(undefined)).toBe("NULL");
+    expect(formatSqlLiteral(42)).toBe("42");
+    expect(formatSqlLiteral(10n)).toBe("10");
+    expect(formatSqlLiteral(true)).toBe("true");
+  });
+
+  it("should render dates, arrays and objects", () => {
+    expect(formatSqlLiteral(new Date("2024-01-02T03:04:05.000Z"))).toBe(
+      "'2024-01-02T03:04:05.000Z'",
+    );
+    expect(formatSqlLiteral(["a", 1, null])).toBe("('a', 1, NULL)");
+    expect(formatSqlLiteral({ tag: "o'clock" })).toBe(`'{"tag":"o''clock"}'`);
+  });
+});
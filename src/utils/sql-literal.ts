@@ -0,0 +1,35 @@
+/**
+ * Render a JavaScript value as a SQL literal
+ *
+ * Strings and dates are single-quoted with embedded quotes doubled, null becomes
+ * NULL and arrays become a parenthesized list (as Drizzle does when it inlines an
+ * array into a `sql` template). Other objects are rendered as quoted JSON.
+ *
+ * @param value - The value to render
+ * @returns The SQL literal
+ */
+export function formatSqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (Array.isArray(value)) {
+    return `(${value.map(formatSqlLiteral).join(", ")})`;
+  }
+  if (value instanceof Date) {
+    return quote(value.toISOString());
+  }
+  if (typeof value === "string") {
+    return quote(value);
+  }
+  if (typeof value === "object") {
+    return quote(JSON.stringify(value));
+  }
+  return String(value);
+}
+
+/**
+ * Single-quote a string, doubling any embedded quotes
+ */
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
@@ -0,0 +1,42 @@
+import { type Table, getTableName } from "drizzle-orm";
+
+/**
+ * Symbol Drizzle uses to store the schema name on table objects
+ * (set by pgSchema().table() / mysqlSchema().table())
+ */
+const TableSchema = Symbol.for("drizzle:Schema");
+
+/**
+ * Build a schema-qualified name (e.g., "billing.invoices")
+ *
+ * Names without a schema are returned unchanged, so tables in the default
+ * schema keep their plain name.
+ *
+ * @param name - Table or enum name
+ * @param schema - Schema name, if any
+ * @returns The qualified name
+ */
+export function qualifyName(name: string, schema: string | undefined): string {
+  return schema ? `${schema}.${name}` : name;
+}
+
+/**
+ * Get the schema name of a Drizzle table
+ *
+ * @param table - The Drizzle table
+ * @returns The schema name, or undefined for tables in the default schema
+ */
+export function getTableSchema(table: Table): string | undefined {
+  const schema = (table as unknown as Record<symbol, unknown>)[TableSchema];
+  return typeof schema === "string" ? schema : undefined;
+}
+
+/**
+ * Get the schema-qualified name of a Drizzle table
+ *
+ * @param table - The Drizzle table
+ * @returns The qualified table name (e.g., "billing.invoices" or "users")
+ */
+export function getQualifiedTableName(table: Table): string {
+  return qualifyName(getTableName(table), getTableSchema(table));
+}
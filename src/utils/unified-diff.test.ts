@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { createUnifiedDiff } from "./unified-diff";
+
+const labels = { oldLabel: "a/schema.md", newLabel: "b/schema.md" };
+
+describe("createUnifiedDiff", () => {
+  it("should return an empty string for equal texts", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n", labels)).toBe("");
+  });
+
+  it("should show a changed line with surrounding context", () => {
+    const oldText = ["1", "2", "3", "4", "5", "6", "7", "8", "9"].join("\n") + "\n";
+    const newText = oldText.replace("5", "five");
+
+    expect(createUnifiedDiff(oldText, newText, labels)).toBe(
+      [
+        "--- a/schema.md",
+        "+++ b/schema.md",
+        "@@ -2,7 +2,7 @@",
+        " 2",
+        " 3",
+        " 4",
+        "-5",
+        "+five",
+        " 6",
+        " 7",
+        " 8",
+      ].join("\n"),
+    );
+  });
+
+  it("should split distant changes into separate hunks", () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = "changed 2";
+    newLines[18] = "changed 19";
+
+    const diff = createUnifiedDiff(oldLines.join("\n"), newLines.join("\n"), labels);
+
+    expect(diff.match(/^@@ /gm)).toHaveLength(2);
+    expect(diff).toContain("@@ -1,5 +1,5 @@");
+    expect(diff).toContain("@@ -16,5 +16,5 @@");
+  });
+
+  it("should diff against an empty text", () => {
+    expect(createUnifiedDiff("", "a\nb\n", labels)).toBe(
+      ["--- a/schema.md", "+++ b/schema.md", "@@ -0,0 +1,2 @@", "+a", "+b"].join("\n"),
+    );
+    expect(createUnifiedDiff("a\n", "", labels)).toBe(
+      ["--- a/schema.md", "+++ b/schema.md", "@@ -1 +0,0 @@", "-a"].join("\n"),
+    );
+  });
+
+  it("should handle insertions and deletions", () => {
+    const diff = createUnifiedDiff("a\nb\nc\n", "a\nc\nd\n", { ...labels, context: 0 });
+
+    expect(diff).toBe(
+      ["--- a/schema.md", "+++ b/schema.md", "@@ -2 +1,0 @@", "-b", "@@ -3,0 +3 @@", "+d"].join(
+        "\n",
+      ),
+    );
+  });
+});
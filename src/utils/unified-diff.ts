@@ -0,0 +1,168 @@
+/**
+ * Options for createUnifiedDiff
+ */
+export interface UnifiedDiffOptions {
+  /** Label of the old text in the `---` header */
+  oldLabel: string;
+  /** Label of the new text in the `+++` header */
+  newLabel: string;
+  /**
+   * Number of unchanged lines shown around each change
+   * @default 3
+   */
+  context?: number;
+}
+
+/**
+ * A line of the edit script between two texts
+ */
+interface DiffLine {
+  type: " " | "-" | "+";
+  text: string;
+  /** 1-based line number in the old text (for " " and "-") */
+  oldLine: number;
+  /** 1-based line number in the new text (for " " and "+") */
+  newLine: number;
+}
+
+/**
+ * Create a unified diff (as printed by `diff -u`) between two texts
+ *
+ * @param oldText - The text before the change
+ * @param newText - The text after the change
+ * @param options - Header labels and context size
+ * @returns The unified diff, or an empty string if the texts are equal
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions,
+): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const context = options.context ?? 3;
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${options.oldLabel}`, `+++ ${options.newLabel}`];
+
+  // Group changes closer than twice the context into one hunk
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i]!.type === " ") {
+      i++;
+      continue;
+    }
+
+    const start = Math.max(0, i - context);
+    let end = i;
+    let lastChange = i;
+    while (end < lines.length && end - lastChange <= context * 2) {
+      if (lines[end]!.type !== " ") {
+        lastChange = end;
+      }
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    output.push(formatHunk(lines.slice(start, end)));
+    i = end;
+  }
+
+  return output.join("\n");
+}
+
+/**
+ * Split text into lines, ignoring the newline that terminates the last line
+ */
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Format a hunk with its `@@ -a,b +c,d @@` header
+ */
+function formatHunk(hunk: DiffLine[]): string {
+  const oldLines = hunk.filter((line) => line.type !== "+");
+  const newLines = hunk.filter((line) => line.type !== "-");
+  const oldStart = oldLines.length > 0 ? oldLines[0]!.oldLine : hunk[0]!.oldLine - 1;
+  const newStart = newLines.length > 0 ? newLines[0]!.newLine : hunk[0]!.newLine - 1;
+
+  const header = `@@ -${formatRange(oldStart, oldLines.length)} +${formatRange(newStart, newLines.length)} @@`;
+  return [header, ...hunk.map((line) => `${line.type}${line.text}`)].join("\n");
+}
+
+/**
+ * Format a hunk range, omitting the count when it is 1 (like `diff -u`)
+ */
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Compute the shortest edit script between two line arrays (Myers' algorithm)
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v: number[] = Array.from({ length: 2 * max + 2 }, () => 0);
+  const trace: number[][] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+          ? v[offset + k + 1]!
+          : v[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const result: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d]!;
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && vd[offset + k - 1]! < vd[offset + k + 1]!) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK]!;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      result.push({ type: " ", text: oldLines[x]!, oldLine: x + 1, newLine: y + 1 });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        y--;
+        result.push({ type: "+", text: newLines[y]!, oldLine: x + 1, newLine: y + 1 });
+      } else {
+        x--;
+        result.push({ type: "-", text: oldLines[x]!, oldLine: x + 1, newLine: y + 1 });
+      }
+    }
+  }
+
+  return result.reverse();
+}
@@ -25,6 +25,7 @@ export default defineConfig({
         "commander",
         "drizzle-orm",
         "tsx",
+        "yaml",
         /^node:/,
         /^drizzle-orm\//,
         /^tsx\//,